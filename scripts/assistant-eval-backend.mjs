@@ -0,0 +1,134 @@
+// Local stand-in for the Themison backend, so assistant evaluations can run
+// offline. Answers the backend provider (/query) and the RAG endpoints
+// (/rag/query, /rag/query-biobert) from a fixtures file of eval cases:
+//
+//   [{ "question": "...", "expected_answer": "...", "expected_pages": [14] }]
+//
+// Usage: npm run eval:backend -- --fixtures cases.json [--port 8787] [--latency 300]
+// then start the app with VITE_API_BASE_URL=http://localhost:8787
+//
+// The stand-in returns each case's expected_answer and expected_pages
+// verbatim, so an evaluation against it only shows that the harness runs end
+// to end. It says nothing about answer quality; run against the real backend
+// for that.
+
+import { createServer } from "node:http";
+import { readFileSync } from "node:fs";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(option("port", "8787"));
+const latency = Number(option("latency", "300"));
+const fixturesPath = option("fixtures", null);
+const fixtures = fixturesPath ? JSON.parse(readFileSync(fixturesPath, "utf8")) : [];
+
+const tokens = (text) =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .split(" ")
+      .filter(Boolean)
+  );
+
+// The fixture whose question shares the most words with the query
+function findFixture(query) {
+  const queryTokens = tokens(query);
+  let best = null;
+  let bestScore = 0;
+  for (const fixture of fixtures) {
+    const fixtureTokens = tokens(fixture.question);
+    const shared = [...fixtureTokens].filter((token) => queryTokens.has(token)).length;
+    const score = shared / Math.max(fixtureTokens.size, 1);
+    if (score > bestScore) {
+      best = fixture;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 0.5 ? best : null;
+}
+
+function answer(query, { rag }) {
+  const fixture = findFixture(query);
+  const text = fixture
+    ? fixture.expected_answer
+    : `The stand-in backend has no fixture for: "${query}".`;
+  const pages = fixture?.expected_pages?.length ? fixture.expected_pages : [1];
+
+  return {
+    response: text,
+    sources: pages.map((page) => ({
+      page,
+      section: `Page ${page}`,
+      content: text.slice(0, 200),
+      exactText: text.slice(0, 200),
+      relevance: "high",
+      ...(rag ? { filename: "stand-in", chunk_index: 0 } : {}),
+    })),
+    ...(rag ? { tool_calls: [] } : {}),
+    model: "stand-in",
+    cost: 0,
+  };
+}
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+// The RAG endpoints receive multipart form data with a `query` field
+const formField = (body, name) =>
+  body.match(new RegExp(`name="${name}"\\r?\\n\\r?\\n([\\s\\S]*?)\\r?\\n--`))?.[1] ?? "";
+
+const server = createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+
+  const path = new URL(req.url, `http://localhost:${port}`).pathname;
+  const send = (status, payload) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+  };
+
+  if (req.method === "GET" && path === "/health") return send(200, { status: "ok" });
+  if (req.method !== "POST") return send(404, { error: "Not found" });
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch {
+    return send(400, { error: "Could not read the request body" });
+  }
+  await new Promise((resolve) => setTimeout(resolve, latency));
+
+  if (path === "/query") {
+    let message;
+    try {
+      ({ message = "" } = JSON.parse(body || "{}"));
+    } catch {
+      return send(400, { error: "Invalid JSON body" });
+    }
+    if (typeof message !== "string") return send(400, { error: "message must be a string" });
+    // The backend service appends an instruction to every question
+    return send(200, answer(message.split(". Please be thorough")[0], { rag: false }));
+  }
+  if (path === "/rag/query" || path === "/rag/query-biobert") {
+    return send(200, answer(formField(body, "query"), { rag: true }));
+  }
+
+  send(404, { error: "Not found" });
+});
+
+server.listen(port, () => {
+  console.log(`🧪 Stand-in backend on http://localhost:${port} (${fixtures.length} fixtures)`);
+});
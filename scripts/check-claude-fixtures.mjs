@@ -0,0 +1,115 @@
+// Runs the Claude citations fixture mode (VITE_ANTHROPIC_FIXTURES=true) through
+// the AI service switcher, as the document assistant does, and checks that every
+// recorded fixture streams its text and citations without any network request
+// (no Anthropic call and no PDF download for citation verification).
+//
+// Usage: npm run check:fixtures
+
+import { build } from "esbuild";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import path from "node:path";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const env = {
+  VITE_ANTHROPIC_FIXTURES: "true",
+  VITE_AI_SERVICE: "anthropic",
+  VITE_SUPABASE_URL: "http://localhost:54321",
+  VITE_SUPABASE_ANON_KEY: "fixture-check",
+};
+
+const entry = `
+  import { getAIServiceSwitcher } from "@/services/aiServiceSwitcher";
+  import { CLAUDE_CITATIONS_FIXTURES } from "@/services/claudeCitationsFixtures";
+  export { getAIServiceSwitcher, CLAUDE_CITATIONS_FIXTURES };
+`;
+
+const { outputFiles } = await build({
+  stdin: { contents: entry, resolveDir: root, loader: "ts" },
+  bundle: true,
+  write: false,
+  platform: "node",
+  format: "esm",
+  logLevel: "error",
+  // Dependencies are loaded from node_modules as they are
+  packages: "external",
+  alias: {
+    "@": path.join(root, "src"),
+    // The default build of PDF.js needs browser globals
+    "pdfjs-dist": "pdfjs-dist/legacy/build/pdf.mjs",
+  },
+  define: { "import.meta.env": JSON.stringify(env) },
+});
+
+const requests = [];
+globalThis.fetch = async (url) => {
+  requests.push(String(url));
+  throw new Error(`Unexpected request in fixture mode: ${url}`);
+};
+
+// Written next to node_modules so the external dependencies resolve
+const cacheDir = path.join(root, "node_modules", ".cache");
+mkdirSync(cacheDir, { recursive: true });
+const bundleDir = mkdtempSync(path.join(cacheDir, "claude-fixtures-"));
+const bundlePath = path.join(bundleDir, "check.mjs");
+writeFileSync(bundlePath, outputFiles[0].text);
+const { getAIServiceSwitcher, CLAUDE_CITATIONS_FIXTURES } = await import(
+  pathToFileURL(bundlePath).href
+).finally(() => rmSync(bundleDir, { recursive: true, force: true }));
+
+const document = {
+  id: "fixture-document",
+  document_name: "Protocol",
+  document_url: "https://example.invalid/protocol.pdf",
+};
+
+let failures = 0;
+const check = (condition, message) => {
+  if (!condition) {
+    failures++;
+    console.error(`❌ ${message}`);
+  }
+};
+
+for (const fixture of CLAUDE_CITATIONS_FIXTURES) {
+  let streamed = "";
+  const streamedSources = [];
+
+  const result = await getAIServiceSwitcher().queryStream(
+    {
+      message: fixture.question,
+      documentId: document.id,
+      documentData: document,
+      userId: "fixture-check",
+    },
+    "anthropic",
+    {
+      fallbackPolicy: ["anthropic"],
+      onText: (_delta, snapshot) => (streamed = snapshot),
+      onSource: (source) => streamedSources.push(source),
+    }
+  );
+
+  const expectedText = fixture.message.content.map((block) => block.text ?? "").join("");
+  check(result.replayed === true, `"${fixture.question}": answer not marked as replayed`);
+  check(result.response === expectedText, `"${fixture.question}": answer differs from the fixture`);
+  check(streamed === expectedText, `"${fixture.question}": streamed text differs from the fixture`);
+  check(result.sources.length > 0, `"${fixture.question}": no sources`);
+  check(
+    streamedSources.length === result.sources.length,
+    `"${fixture.question}": ${streamedSources.length} sources streamed, ${result.sources.length} returned`
+  );
+  check(
+    result.sources.every((source) => source.page > 0 && source.exactText),
+    `"${fixture.question}": a source has no page or quote`
+  );
+}
+
+check(requests.length === 0, `Network requests in fixture mode: ${requests.join(", ")}`);
+
+if (failures > 0) {
+  console.error(`❌ ${failures} fixture check(s) failed`);
+  process.exit(1);
+}
+console.log(`✅ ${CLAUDE_CITATIONS_FIXTURES.length} Claude citations fixtures replayed without network requests`);
@@ -16,6 +16,7 @@ import TrialDetailPage from "./pages/TrialDetailPage";
 import { OrganizationPage } from "./pages/OrganizationPage";
 import { IntegrationsPage } from "./pages/IntegrationsPage";
 import { Notifications } from "./pages/Notifications";
+import { VisitCalendarPage } from "./pages/VisitCalendarPage";
 import OnboardingPage from "./pages/OnboardingPage";
 import DocumentAssistantPage from "./pages/DocumentAssistantPage";
 import NotFound from "./pages/NotFound";
@@ -148,6 +149,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/visits"
+        element={
+          <ProtectedRoute>
+            <OnboardingRedirect>
+              <VisitCalendarPage />
+            </OnboardingRedirect>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/notifications"
         element={
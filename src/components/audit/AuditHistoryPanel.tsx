@@ -0,0 +1,129 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useEntityAuditHistory } from "@/hooks/useAuditLog";
+import type { AuditEntityType, AuditLogEntry } from "@/services/auditService";
+
+interface AuditHistoryPanelProps {
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  emptyMessage?: string;
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  status_change: "bg-purple-100 text-purple-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") {
+    const json = JSON.stringify(value);
+    return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+  }
+  return String(value);
+};
+
+export const formatAuditField = (field: string) =>
+  field.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+function AuditEntryItem({ entry }: { entry: AuditLogEntry }) {
+  const before = (entry.before || {}) as Record<string, unknown>;
+  const after = (entry.after || {}) as Record<string, unknown>;
+
+  return (
+    <div className="relative pl-6 pb-5 border-l border-gray-200 last:pb-0">
+      <div className="absolute -left-1.5 top-1 w-3 h-3 rounded-full bg-white border-2 border-blue-500" />
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge className={`${ACTION_STYLES[entry.action] || ""} text-xs`}>
+          {entry.action.replace("_", " ")}
+        </Badge>
+        <span className="flex items-center gap-1 font-medium text-gray-900">
+          <User className="w-3 h-3" />
+          {entry.actor_name || "Unknown user"}
+        </span>
+        <span
+          className="text-gray-500"
+          title={new Date(entry.created_at).toLocaleString()}
+        >
+          {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+        </span>
+      </div>
+
+      {entry.changed_fields.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {entry.changed_fields.map((field) => (
+            <div key={field} className="text-sm">
+              <span className="text-gray-500">{formatAuditField(field)}: </span>
+              <span className="line-through text-red-700">
+                {formatAuditValue(before[field])}
+              </span>
+              <span className="text-gray-400"> → </span>
+              <span className="text-green-700">
+                {formatAuditValue(after[field])}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entry.reason && (
+        <p className="mt-2 text-sm text-gray-600 italic">
+          Reason: "{entry.reason}"
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Timeline of every recorded change to one entity
+ */
+export function AuditHistoryPanel({
+  entityType,
+  entityId,
+  emptyMessage = "No changes have been recorded yet.",
+}: AuditHistoryPanelProps) {
+  const { history, isLoading, error } = useEntityAuditHistory(
+    entityType,
+    entityId
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="py-8 text-center text-sm text-red-600">
+        Failed to load change history.
+      </p>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        <History className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+        <p className="text-sm">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-2 pl-1.5">
+      {history.map((entry) => (
+        <AuditEntryItem key={entry.id} entry={entry} />
+      ))}
+    </div>
+  );
+}
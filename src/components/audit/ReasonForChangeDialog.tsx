@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ReasonForChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  title?: string;
+  description?: string;
+  confirmLabel?: string;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Asks for the reason behind a change to regulated data before it is saved.
+ * The reason is stored with the audit trail entry.
+ */
+export function ReasonForChangeDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  title = "Reason for change",
+  description = "Changes to regulated data are recorded in the audit trail. Please describe why this change is being made.",
+  confirmLabel = "Save change",
+  isSubmitting = false,
+}: ReasonForChangeDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const handleConfirm = () => {
+    if (!reason.trim()) return;
+    onConfirm(reason.trim());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="change-reason">Reason *</Label>
+          <Textarea
+            id="change-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Corrected transcription error from source document"
+            rows={3}
+            autoFocus
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!reason.trim() || isSubmitting}
+          >
+            {isSubmitting ? "Saving..." : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
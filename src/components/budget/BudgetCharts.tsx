@@ -0,0 +1,243 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  BUDGET_CATEGORIES,
+  BUDGET_CATEGORY_LABELS,
+  BudgetMonthPoint,
+  TrialBudgetSummary,
+  formatBudgetAmount,
+} from "@/services/budgetService";
+
+const compactAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+
+const monthLabel = (month: string) => format(parseISO(`${month}-01`), "MMM yy");
+
+const burnConfig = {
+  cumulative: { label: "Spent", color: "hsl(221 83% 53%)" },
+  projected: { label: "Projected", color: "hsl(215 16% 65%)" },
+} satisfies ChartConfig;
+
+interface BudgetBurnChartProps {
+  monthly: BudgetMonthPoint[];
+  totalBudget: number;
+  currency: string;
+  className?: string;
+}
+
+/**
+ * Cumulative spend by month against the total budget, continued at the
+ * current burn rate
+ */
+export function BudgetBurnChart({
+  monthly,
+  totalBudget,
+  currency,
+  className,
+}: BudgetBurnChartProps) {
+  return (
+    <ChartContainer config={burnConfig} className={className ?? "h-64 w-full aspect-auto"}>
+      <LineChart data={monthly} margin={{ left: 8, right: 16, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="month"
+          tickFormatter={monthLabel}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={16}
+        />
+        <YAxis
+          tickFormatter={(value) => compactAmount(value, currency)}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                payload?.[0] ? monthLabel(payload[0].payload.month) : ""
+              }
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {burnConfig[name as keyof typeof burnConfig]?.label}
+                  </span>
+                  <span className="font-mono font-medium">
+                    {formatBudgetAmount(Number(value), currency)}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        {totalBudget > 0 && (
+          <ReferenceLine
+            y={totalBudget}
+            stroke="hsl(0 72% 51%)"
+            strokeDasharray="4 4"
+            label={{
+              value: "Budget",
+              position: "insideTopLeft",
+              fill: "hsl(0 72% 51%)",
+              fontSize: 11,
+            }}
+          />
+        )}
+        <Line
+          dataKey="cumulative"
+          type="monotone"
+          stroke="var(--color-cumulative)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls={false}
+        />
+        <Line
+          dataKey="projected"
+          type="monotone"
+          stroke="var(--color-projected)"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          dot={false}
+          connectNulls={false}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+const categoryConfig = {
+  budgeted: { label: "Budgeted", color: "hsl(214 32% 80%)" },
+  actual: { label: "Actual", color: "hsl(221 83% 53%)" },
+} satisfies ChartConfig;
+
+interface BudgetCategoryChartProps {
+  summary: TrialBudgetSummary;
+  className?: string;
+}
+
+/**
+ * Budgeted vs actual amounts per budget category
+ */
+export function BudgetCategoryChart({ summary, className }: BudgetCategoryChartProps) {
+  const data = BUDGET_CATEGORIES.map((category) => ({
+    category: BUDGET_CATEGORY_LABELS[category],
+    budgeted: summary.byCategory[category].budgeted,
+    actual: summary.byCategory[category].actual,
+  }));
+
+  return (
+    <ChartContainer config={categoryConfig} className={className ?? "h-64 w-full aspect-auto"}>
+      <BarChart data={data} margin={{ left: 8, right: 16, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="category" tickLine={false} axisLine={false} />
+        <YAxis
+          tickFormatter={(value) => compactAmount(value, summary.currency)}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {categoryConfig[name as keyof typeof categoryConfig]?.label}
+                  </span>
+                  <span className="font-mono font-medium">
+                    {formatBudgetAmount(Number(value), summary.currency)}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <Bar dataKey="budgeted" fill="var(--color-budgeted)" radius={4} />
+        <Bar dataKey="actual" fill="var(--color-actual)" radius={4} />
+        <ChartLegend content={<ChartLegendContent />} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+interface TrialSpendChartProps {
+  trials: { name: string; summary: TrialBudgetSummary }[];
+  currency: string;
+  className?: string;
+}
+
+/**
+ * Budget vs spent to date for each trial
+ */
+export function TrialSpendChart({ trials, currency, className }: TrialSpendChartProps) {
+  const data = trials.map(({ name, summary }) => ({
+    name,
+    budgeted: summary.totalBudget,
+    actual: summary.spentToDate,
+  }));
+
+  return (
+    <ChartContainer config={categoryConfig} className={className ?? "h-64 w-full aspect-auto"}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis
+          type="number"
+          tickFormatter={(value) => compactAmount(value, currency)}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          type="category"
+          dataKey="name"
+          tickLine={false}
+          axisLine={false}
+          width={140}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {categoryConfig[name as keyof typeof categoryConfig]?.label}
+                  </span>
+                  <span className="font-mono font-medium">
+                    {formatBudgetAmount(Number(value), currency)}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <Bar dataKey="budgeted" fill="var(--color-budgeted)" radius={4} />
+        <Bar dataKey="actual" fill="var(--color-actual)" radius={4} />
+        <ChartLegend content={<ChartLegendContent />} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,553 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import {
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  MoreHorizontal,
+  Plus,
+  Receipt,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useSponsorInvoices, useUnbilledVisits } from "@/hooks/useSponsorInvoices";
+import { formatBudgetAmount } from "@/services/budgetService";
+import {
+  getInvoiceAging,
+  getInvoiceStatus,
+  invoiceService,
+  INVOICE_STATUS_LABELS,
+  InvoiceStatus,
+  SponsorInvoiceWithLines,
+} from "@/services/invoiceService";
+import { VISIT_TYPE_LABELS } from "@/services/visitScheduleService";
+
+interface InvoiceTrial {
+  id: string;
+  name: string;
+  // Budget currency, which invoices are issued in
+  currency: string;
+}
+
+interface SponsorInvoicesPanelProps {
+  trials: InvoiceTrial[];
+  canManage: (trialId: string) => boolean;
+}
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-200",
+  sent: "bg-blue-100 text-blue-800 border-blue-200",
+  paid: "bg-green-100 text-green-800 border-green-200",
+  overdue: "bg-red-100 text-red-800 border-red-200",
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface NewInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trials: InvoiceTrial[];
+  onCreate: (options: {
+    trialId: string;
+    visitIds: string[];
+    paymentTermsDays: number;
+    notes: string;
+  }) => Promise<unknown>;
+  isCreating: boolean;
+}
+
+function NewInvoiceDialog({
+  open,
+  onOpenChange,
+  trials,
+  onCreate,
+  isCreating,
+}: NewInvoiceDialogProps) {
+  const [trialId, setTrialId] = useState<string>("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [paymentTermsDays, setPaymentTermsDays] = useState(30);
+  const [notes, setNotes] = useState("");
+  const { visits, isLoading } = useUnbilledVisits(trialId || undefined);
+
+  const currency = trials.find((trial) => trial.id === trialId)?.currency || "USD";
+  const total = visits
+    .filter(({ visit }) => selected.has(visit.id))
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  const reset = () => {
+    setTrialId("");
+    setSelected(new Set());
+    setPaymentTermsDays(30);
+    setNotes("");
+  };
+
+  const toggle = (visitId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(visitId)) next.delete(visitId);
+      else next.add(visitId);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      await onCreate({
+        trialId,
+        visitIds: [...selected],
+        paymentTermsDays,
+        notes,
+      });
+      reset();
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Sponsor Invoice</DialogTitle>
+          <DialogDescription>
+            Bill completed visits that are not on an invoice yet. Amounts come
+            from the trial budget.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Trial</Label>
+              <Select
+                value={trialId}
+                onValueChange={(value) => {
+                  setTrialId(value);
+                  setSelected(new Set());
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a trial" />
+                </SelectTrigger>
+                <SelectContent>
+                  {trials.map((trial) => (
+                    <SelectItem key={trial.id} value={trial.id}>
+                      {trial.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Payment terms (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={paymentTermsDays}
+                onChange={(e) =>
+                  setPaymentTermsDays(Math.max(0, parseInt(e.target.value, 10) || 0))
+                }
+              />
+            </div>
+          </div>
+
+          {trialId && (
+            <div className="border rounded-lg max-h-72 overflow-y-auto">
+              {isLoading ? (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  Loading visits...
+                </div>
+              ) : visits.length === 0 ? (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  All completed visits of this trial have been invoiced.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selected.size === visits.length}
+                          onCheckedChange={(checked) =>
+                            setSelected(
+                              checked
+                                ? new Set(visits.map(({ visit }) => visit.id))
+                                : new Set()
+                            )
+                          }
+                        />
+                      </TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Visit</TableHead>
+                      <TableHead>Billed for</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visits.map(({ visit, amount, description }) => (
+                      <TableRow key={visit.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(visit.id)}
+                            onCheckedChange={() => toggle(visit.id)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {format(parseISO(visit.visit_date), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell>{visit.patients?.patient_code}</TableCell>
+                        <TableCell>
+                          Visit {visit.visit_number}
+                          {visit.visit_type && (
+                            <span className="text-gray-500">
+                              {" "}
+                              · {VISIT_TYPE_LABELS[visit.visit_type]}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`text-xs ${
+                            amount === 0 ? "text-amber-600" : "text-gray-600"
+                          }`}
+                        >
+                          {description}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatBudgetAmount(amount, currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Payment instructions, PO number..."
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="mr-auto text-sm text-gray-600">
+            {selected.size} visits · Total{" "}
+            <span className="font-semibold text-gray-900">
+              {formatBudgetAmount(total, currency)}
+            </span>
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!trialId || selected.size === 0 || isCreating}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isCreating ? "Creating..." : "Create Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Sponsor invoices of the given trials with their aging report
+ */
+export function SponsorInvoicesPanel({ trials, canManage }: SponsorInvoicesPanelProps) {
+  const trialIds = useMemo(() => trials.map((trial) => trial.id), [trials]);
+  const {
+    invoices,
+    isLoading,
+    createInvoice,
+    isCreating,
+    sendInvoice,
+    markPaid,
+    deleteDraft,
+    isUpdating,
+  } = useSponsorInvoices(trialIds);
+  const [statusFilter, setStatusFilter] = useState<"all" | InvoiceStatus>("all");
+  const [isNewInvoiceOpen, setIsNewInvoiceOpen] = useState(false);
+
+  const manageableTrials = trials.filter((trial) => canManage(trial.id));
+
+  const filteredInvoices = invoices.filter(
+    (invoice) => statusFilter === "all" || getInvoiceStatus(invoice) === statusFilter
+  );
+
+  // Aging is reported per currency so amounts are never mixed
+  const agingByCurrency = useMemo(() => {
+    const currencies = [...new Set(invoices.map((invoice) => invoice.currency))];
+    return currencies
+      .map((currency) => ({
+        currency,
+        buckets: getInvoiceAging(
+          invoices.filter((invoice) => invoice.currency === currency)
+        ),
+      }))
+      .filter(({ buckets }) => buckets.some((bucket) => bucket.count > 0));
+  }, [invoices]);
+
+  const downloadPdf = (invoice: SponsorInvoiceWithLines) =>
+    download(invoiceService.buildPdf(invoice), `${invoice.invoice_number}.pdf`);
+
+  const downloadCsv = (invoice: SponsorInvoiceWithLines) =>
+    download(
+      new Blob([invoiceService.toCSV(invoice)], { type: "text/csv;charset=utf-8" }),
+      `${invoice.invoice_number}.csv`
+    );
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Sponsor Invoices
+            </h3>
+            <p className="text-sm text-gray-600">
+              Invoices for completed visits, priced from each trial's budget
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(INVOICE_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {manageableTrials.length > 0 && (
+              <Button
+                size="sm"
+                onClick={() => setIsNewInvoiceOpen(true)}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Invoice
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Aging report */}
+        {agingByCurrency.map(({ currency, buckets }) => (
+          <div key={currency}>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              Outstanding receivables{agingByCurrency.length > 1 ? ` (${currency})` : ""}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {buckets.map((bucket, index) => (
+                <div
+                  key={bucket.label}
+                  className={`rounded-lg border p-3 ${
+                    index >= 3 && bucket.count > 0
+                      ? "border-red-200 bg-red-50"
+                      : index > 0 && bucket.count > 0
+                      ? "border-amber-200 bg-amber-50"
+                      : ""
+                  }`}
+                >
+                  <div className="text-xs text-gray-500">{bucket.label}</div>
+                  <div className="text-lg font-semibold text-gray-900">
+                    {formatBudgetAmount(bucket.amount, currency)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {bucket.count} invoice{bucket.count === 1 ? "" : "s"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-sm text-gray-500">Loading invoices...</div>
+        ) : filteredInvoices.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-8 text-center text-sm text-gray-600">
+            {invoices.length === 0
+              ? "No invoices yet."
+              : "No invoices match this status."}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Trial</TableHead>
+                <TableHead>Sponsor</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredInvoices.map((invoice) => {
+                const status = getInvoiceStatus(invoice);
+                const manageable = canManage(invoice.trial_id);
+
+                return (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">
+                      {invoice.invoice_number}
+                      <div className="text-xs text-gray-500">
+                        {invoice.sponsor_invoice_lines.length} visits
+                      </div>
+                    </TableCell>
+                    <TableCell>{invoice.trials?.name}</TableCell>
+                    <TableCell>{invoice.sponsor}</TableCell>
+                    <TableCell>
+                      {format(parseISO(invoice.issue_date), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {format(parseISO(invoice.due_date), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[status]}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatBudgetAmount(Number(invoice.total), invoice.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={isUpdating}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => downloadPdf(invoice)}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Download PDF
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => downloadCsv(invoice)}>
+                            <FileSpreadsheet className="h-4 w-4 mr-2" />
+                            Download CSV
+                          </DropdownMenuItem>
+                          {invoice.document_id && (
+                            <DropdownMenuItem disabled>
+                              <FileText className="h-4 w-4 mr-2" />
+                              Stored with visit documents
+                            </DropdownMenuItem>
+                          )}
+                          {manageable && invoice.status === "draft" && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => sendInvoice(invoice.id)}
+                              >
+                                <Send className="h-4 w-4 mr-2" />
+                                Mark as Sent
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => deleteDraft(invoice.id)}
+                                className="text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete Draft
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {manageable && invoice.status === "sent" && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onClick={() => markPaid(invoice.id)}>
+                                <CheckCircle2 className="h-4 w-4 mr-2" />
+                                Mark as Paid
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <NewInvoiceDialog
+        open={isNewInvoiceOpen}
+        onOpenChange={setIsNewInvoiceOpen}
+        trials={manageableTrials}
+        isCreating={isCreating}
+        onCreate={createInvoice}
+      />
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { useAppData } from "@/hooks/useAppData";
 import { useChatHistory } from "@/hooks/useChatHistory";
 import { Groq } from "groq-sdk";
 import { supabase } from "@/integrations/supabase/client";
+import { budgetService } from "@/services/budgetService";
 import type { ChatMessage, ChatSession } from "./types";
 
 interface ChatContainerProps {
@@ -84,8 +85,7 @@ export function ChatContainer({ organizationId, stats }: ChatContainerProps) {
           id,
           name,
           phase,
-          status,
-          budget_data
+          status
         `
         )
         .eq("organization_id", organizationId);
@@ -100,6 +100,9 @@ export function ChatContainer({ organizationId, stats }: ChatContainerProps) {
         contextData += `\n\nTrial Details:`;
         let totalBudget = 0;
         let totalSpent = 0;
+        const budgets = await budgetService.getBudgetSummaries(
+          trials.map((trial) => trial.id)
+        );
 
         for (const trial of trials) {
           const { data: trialPatients, count } = await supabase
@@ -107,9 +110,8 @@ export function ChatContainer({ organizationId, stats }: ChatContainerProps) {
             .select("cost_data, patient_data")
             .eq("trial_id", trial.id);
 
-          const budgetData = (trial.budget_data as Record<string, any>) || {};
-          const budget = budgetData.total_budget || 0;
-          const spent = budgetData.spent_to_date || 0;
+          const budget = budgets[trial.id]?.totalBudget || 0;
+          const spent = budgets[trial.id]?.spentToDate || 0;
 
           totalBudget += budget;
           totalSpent += spent;
@@ -0,0 +1,17 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { CONSENT_STATUS_LABELS, ConsentStatus } from "@/services/consentService";
+
+const STATUS_STYLES: Record<ConsentStatus, string> = {
+  current: "bg-green-100 text-green-800 border-green-200",
+  reconsent_required: "bg-amber-100 text-amber-800 border-amber-200",
+  not_consented: "bg-red-100 text-red-800 border-red-200",
+};
+
+export function ConsentStatusBadge({ status }: { status: ConsentStatus }) {
+  return (
+    <Badge variant="outline" className={`text-xs ${STATUS_STYLES[status]}`}>
+      {CONSENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
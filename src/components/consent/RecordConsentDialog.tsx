@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConsentInput, IcfVersion, icfVersionLabel } from "@/services/consentService";
+
+interface RecordConsentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trialId: string;
+  patients: { id: string; label: string }[];
+  // Preselected patient, e.g. from the re-consent list
+  patientId?: string;
+  icfVersions: IcfVersion[];
+  isSubmitting: boolean;
+  onSubmit: (input: ConsentInput) => Promise<unknown>;
+}
+
+/**
+ * Record that a patient signed a given ICF version
+ */
+export function RecordConsentDialog({
+  open,
+  onOpenChange,
+  trialId,
+  patients,
+  patientId: initialPatientId,
+  icfVersions,
+  isSubmitting,
+  onSubmit,
+}: RecordConsentDialogProps) {
+  const latest = icfVersions.find((icf) => icf.is_latest) || icfVersions[0];
+  const [patientId, setPatientId] = useState(
+    initialPatientId || (patients.length === 1 ? patients[0].id : "")
+  );
+  const [icfDocumentId, setIcfDocumentId] = useState(latest?.id || "");
+  const [signedDate, setSignedDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [notes, setNotes] = useState("");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({ trialId, patientId, icfDocumentId, signedDate, notes });
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Consent</DialogTitle>
+          <DialogDescription>
+            Link the patient's signature to the exact ICF version they signed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {icfVersions.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+            Upload the trial's informed consent form in the Document Hub first.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select
+                value={patientId}
+                onValueChange={setPatientId}
+                disabled={!!initialPatientId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>ICF version signed</Label>
+              <Select value={icfDocumentId} onValueChange={setIcfDocumentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {icfVersions.map((icf) => (
+                    <SelectItem key={icf.id} value={icf.id}>
+                      {icfVersionLabel(icf)} · {icf.document_name} (
+                      {format(parseISO(icf.created_at), "MMM d, yyyy")})
+                      {icf.is_latest && " · current"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {latest && icfDocumentId && icfDocumentId !== latest.id && (
+                <p className="text-xs text-amber-600">
+                  This is not the current ICF; the patient will still need to re-consent.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Signed on</Label>
+              <Input
+                type="date"
+                value={signedDate}
+                max={today}
+                onChange={(e) => setSignedDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="e.g. Witnessed by study nurse"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              !patientId ||
+              !icfDocumentId ||
+              !signedDate ||
+              signedDate > today ||
+              isSubmitting
+            }
+          >
+            {isSubmitting ? "Saving..." : "Record Consent"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
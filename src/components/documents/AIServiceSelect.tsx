@@ -0,0 +1,45 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getAIServiceSwitcher } from "@/services/aiServiceSwitcher";
+import type { AIServiceType } from "@/services/aiProviderRegistry";
+
+interface AIServiceSelectProps {
+  value: AIServiceType;
+  onChange: (value: AIServiceType) => void;
+  className?: string;
+}
+
+/**
+ * Picker listing every provider in the AI provider registry
+ */
+export function AIServiceSelect({
+  value,
+  onChange,
+  className = "w-[180px]",
+}: AIServiceSelectProps) {
+  const providers = getAIServiceSwitcher().getProviders();
+
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next)}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {providers.map((provider) => (
+          <SelectItem key={provider.id} value={provider.id}>
+            {provider.label}
+            {!provider.isAvailable() && (
+              <span className="ml-1 text-xs text-gray-400">(not configured)</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -4,6 +4,7 @@ import { useTrialDocuments } from "@/hooks/useDocuments";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -23,6 +24,7 @@ import {
   ExternalLink,
 } from "lucide-react";
 import { format } from "date-fns";
+import { DocumentStatusBadge } from "./DocumentStatusBadge";
 
 interface ActiveDocumentsProps {
   trial: any;
@@ -31,25 +33,11 @@ interface ActiveDocumentsProps {
 export function ActiveDocuments({ trial }: ActiveDocumentsProps) {
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState("Actives");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const { data: documents = [], isLoading } = useTrialDocuments(trial.id);
 
   const tabs = ["Actives", "Archived", "All Documents"];
 
-  const getStatusBadgeColor = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case "approved":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "pending":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "signed":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "submitted":
-        return "bg-gray-100 text-gray-800 border-gray-200";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
-  };
-
   const formatDocumentType = (type: string) => {
     switch (type) {
       case "protocol":
@@ -165,11 +153,38 @@ export function ActiveDocuments({ trial }: ActiveDocumentsProps) {
           </div>
         </div>
       </Card>
+      {/* Multi-document question across the selected documents */}
+      {selectedIds.length > 0 && (
+        <div className="flex items-center justify-between rounded-md border border-blue-200 bg-blue-50 px-4 py-2">
+          <span className="text-sm text-blue-900">
+            {selectedIds.length} document{selectedIds.length > 1 ? "s" : ""}{" "}
+            selected
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+            <Button
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              onClick={() =>
+                navigate(
+                  `/document-assistant/${trial.id}/document-ai?documentIds=${selectedIds.join(",")}`
+                )
+              }
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Ask AI about selected ({selectedIds.length})
+            </Button>
+          </div>
+        </div>
+      )}
       {/* Documents Table - Read Only Actions */}
       <Card>
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10" />
               <TableHead>Document Name</TableHead>
               <TableHead>Uploader</TableHead>
               <TableHead>Type</TableHead>
@@ -181,6 +196,19 @@ export function ActiveDocuments({ trial }: ActiveDocumentsProps) {
           <TableBody>
             {activeDocuments.map((document: any) => (
               <TableRow key={document.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(document.id)}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds((ids) =>
+                        checked === true
+                          ? [...ids, document.id]
+                          : ids.filter((id) => id !== document.id)
+                      )
+                    }
+                    aria-label={`Select ${document.document_name}`}
+                  />
+                </TableCell>
                 <TableCell>
                   <div className="flex items-center gap-2">
                     <span className="font-medium">
@@ -212,14 +240,7 @@ export function ActiveDocuments({ trial }: ActiveDocumentsProps) {
                   </Badge>
                 </TableCell>
                 <TableCell>
-                  <Badge
-                    variant="outline"
-                    className={getStatusBadgeColor(
-                      document.status || "pending"
-                    )}
-                  >
-                    {document.status || "Pending"}
-                  </Badge>
+                  <DocumentStatusBadge status={document.status} />
                 </TableCell>
                 <TableCell className="text-sm text-muted-foreground">
                   {format(
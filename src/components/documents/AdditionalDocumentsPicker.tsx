@@ -0,0 +1,105 @@
+import React from "react";
+import { Files } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface PickerDocument {
+  id: string;
+  document_name: string;
+  document_type: string;
+}
+
+interface AdditionalDocumentsPickerProps {
+  documents: PickerDocument[];
+  primaryDocumentId: string | null;
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user add more trial documents to a question, on top of the
+ * primary document chosen in the document selector
+ */
+export function AdditionalDocumentsPicker({
+  documents,
+  primaryDocumentId,
+  selectedIds,
+  onChange,
+  disabled,
+}: AdditionalDocumentsPickerProps) {
+  const candidates = documents.filter((doc) => doc.id !== primaryDocumentId);
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(
+      checked ? [...selectedIds, id] : selectedIds.filter((s) => s !== id)
+    );
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="flex items-center gap-2 flex-shrink-0"
+        >
+          <Files className="h-4 w-4" />
+          <span className="hidden sm:inline">
+            {selectedIds.length > 0
+              ? `+${selectedIds.length} document${selectedIds.length > 1 ? "s" : ""}`
+              : "Add documents"}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <p className="text-sm font-medium text-gray-900 mb-1">
+          Ask across documents
+        </p>
+        <p className="text-xs text-gray-500 mb-3">
+          Answers will cite which document each quote came from.
+        </p>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {candidates.map((doc) => (
+            <label
+              key={doc.id}
+              className="flex items-start gap-2 cursor-pointer text-sm"
+            >
+              <Checkbox
+                checked={selectedIds.includes(doc.id)}
+                onCheckedChange={(checked) => toggle(doc.id, checked === true)}
+                className="mt-0.5"
+              />
+              <span className="flex flex-col">
+                <span className="font-medium text-gray-800">
+                  {doc.document_name}
+                </span>
+                <span className="text-xs text-gray-500 capitalize">
+                  {doc.document_type.replace(/_/g, " ")}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+        {selectedIds.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-3 w-full"
+            onClick={() => onChange([])}
+          >
+            Clear selection
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
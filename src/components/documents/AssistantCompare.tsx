@@ -0,0 +1,379 @@
+import React, { useEffect, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { AlertCircle, Columns2, Send, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTrialDocuments } from "@/hooks/useDocuments";
+import { useAIProviderPolicy } from "@/hooks/useAIProviderPolicy";
+import { AssistantConfigPicker } from "./AssistantConfigPicker";
+import { AssistantPDFTarget, AssistantSourcesPanel } from "./AssistantSourcesPanel";
+import { DocumentPDFDrawer } from "./DocumentPDFDrawer";
+import {
+  ASSISTANT_PRESETS,
+  AssistantConfig,
+  AssistantPresetId,
+  AssistantSource,
+  describeAssistantConfig,
+  getAssistantPreset,
+  getDocumentAssistantEngine,
+} from "@/services/documentAssistantEngine";
+import type { ContextCacheReport } from "@/services/aiResponseAdapter";
+
+interface AssistantCompareProps {
+  trial: {
+    id: string;
+    name: string;
+  };
+}
+
+interface CompareAnswer {
+  config: AssistantConfig;
+  status: "streaming" | "done" | "stopped" | "error";
+  text: string;
+  sources: AssistantSource[];
+  answeredBy?: string;
+  model?: string;
+  cost?: number;
+  cache?: ContextCacheReport;
+  durationMs?: number;
+  error?: string;
+}
+
+interface CompareRound {
+  id: string;
+  question: string;
+  answers: CompareAnswer[];
+}
+
+/**
+ * Sends one question to two assistant configurations and shows both answers
+ * with their sources side by side
+ */
+export function AssistantCompare({ trial }: AssistantCompareProps) {
+  const [configs, setConfigs] = useState<AssistantConfig[]>([
+    getAssistantPreset("document-ai").config,
+    getAssistantPreset("rag").config,
+  ]);
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [rounds, setRounds] = useState<CompareRound[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pdfTarget, setPdfTarget] = useState<AssistantPDFTarget | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const roundsEndRef = useRef<HTMLDivElement>(null);
+
+  const { fallbackPolicy } = useAIProviderPolicy();
+  const { data: documents = [], isLoading: docsLoading } = useTrialDocuments(trial.id);
+  const activeDocuments = documents.filter((doc) => doc.is_latest);
+  const latestProtocol = activeDocuments.find((doc) => doc.document_type === "protocol");
+  const document = activeDocuments.find((doc) => doc.id === (documentId || latestProtocol?.id));
+
+  const needsDocument = configs.some((config) => config.retrieval === "full-document");
+  const canSend = !!query.trim() && !isRunning && (!needsDocument || !!document);
+
+  useEffect(() => {
+    roundsEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [rounds]);
+
+  const updateAnswer = (roundId: string, index: number, changes: Partial<CompareAnswer>) => {
+    setRounds((prev) =>
+      prev.map((round) =>
+        round.id === roundId
+          ? {
+              ...round,
+              answers: round.answers.map((answer, i) =>
+                i === index ? { ...answer, ...changes } : answer
+              ),
+            }
+          : round
+      )
+    );
+  };
+
+  const handleSend = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+
+    const question = query.trim();
+    const roundId = `${Date.now()}-compare`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setQuery("");
+    setIsRunning(true);
+    setRounds((prev) => [
+      ...prev,
+      {
+        id: roundId,
+        question,
+        answers: configs.map((config) => ({ config, status: "streaming", text: "", sources: [] })),
+      },
+    ]);
+
+    const engine = getDocumentAssistantEngine();
+    await Promise.all(
+      configs.map(async (config, index) => {
+        const startedAt = Date.now();
+        try {
+          const answer = await engine.ask(
+            config,
+            { message: question, document },
+            {
+              fallbackPolicy,
+              signal: abortController.signal,
+              onText: (_delta, snapshot) => updateAnswer(roundId, index, { text: snapshot }),
+              onSources: (sources) => updateAnswer(roundId, index, { sources }),
+            }
+          );
+          updateAnswer(roundId, index, {
+            status: "done",
+            text: answer.response,
+            sources: answer.sources,
+            answeredBy: answer.answeredBy,
+            model: answer.model,
+            cost: answer.cost,
+            cache: answer.cache,
+            durationMs: Date.now() - startedAt,
+          });
+        } catch (error: any) {
+          if (abortController.signal.aborted) {
+            updateAnswer(roundId, index, { status: "stopped" });
+            return;
+          }
+          console.error(`❌ Compare query failed (${describeAssistantConfig(config)}):`, error);
+          updateAnswer(roundId, index, {
+            status: "error",
+            error: error?.message || "The assistant could not answer",
+          });
+        }
+      })
+    );
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const setConfig = (index: number, config: AssistantConfig) =>
+    setConfigs((prev) => prev.map((c, i) => (i === index ? config : c)));
+
+  return (
+    <div className="relative h-full">
+      {!docsLoading && activeDocuments.length === 0 && (
+        <Alert className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No active documents are available for this trial. Full-document
+            strategies need an uploaded document.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Configurations being compared */}
+      <div className="grid grid-cols-2 gap-4 px-4 pt-4">
+        {configs.map((config, index) => (
+          <div key={index} className="space-y-2 rounded-lg border bg-gray-50 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-gray-700">
+                Strategy {index === 0 ? "A" : "B"}
+              </span>
+              <Select
+                value=""
+                onValueChange={(presetId) =>
+                  setConfig(index, getAssistantPreset(presetId as AssistantPresetId).config)
+                }
+                disabled={isRunning}
+              >
+                <SelectTrigger className="w-[160px] h-8 text-xs">
+                  <SelectValue placeholder="Load preset..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSISTANT_PRESETS.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <AssistantConfigPicker
+              value={config}
+              onChange={(next) => setConfig(index, next)}
+              disabled={isRunning}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Comparison rounds */}
+      <div className="px-4 py-4 space-y-6 max-h-[48vh] min-h-[48vh] overflow-y-auto">
+        {rounds.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-full min-h-[300px] text-center space-y-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-slate-100 to-slate-200 rounded-xl flex items-center justify-center">
+              <Columns2 className="w-6 h-6 text-slate-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-slate-800 tracking-tight">
+              Compare Strategies
+            </h3>
+            <p className="text-slate-500 text-sm max-w-md">
+              Ask one question and see how two retrieval strategies, embedding
+              models or answer providers answer it, with their sources.
+            </p>
+          </div>
+        )}
+
+        {rounds.map((round) => (
+          <div key={round.id} className="space-y-3">
+            <div className="ml-auto w-fit max-w-[75%] bg-blue-600 text-white rounded-lg px-5 py-3 text-sm font-medium whitespace-pre-line">
+              {round.question}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {round.answers.map((answer, index) => (
+                <div
+                  key={index}
+                  className="bg-white border border-gray-200 rounded-lg px-5 py-4 shadow-sm space-y-3 min-w-0"
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Badge variant="outline">{index === 0 ? "A" : "B"}</Badge>
+                    <span className="font-medium text-gray-700">
+                      {describeAssistantConfig(answer.config)}
+                    </span>
+                    {answer.status === "done" && (
+                      <span className="text-gray-500">
+                        {answer.model || answer.answeredBy}
+                        {answer.durationMs !== undefined &&
+                          ` · ${(answer.durationMs / 1000).toFixed(1)}s`}
+                        {answer.cost !== undefined && ` · $${answer.cost.toFixed(4)}`}
+                      </span>
+                    )}
+                    {answer.status === "done" && answer.cache && (
+                      <Badge
+                        variant="outline"
+                        className={
+                          answer.cache.status === "hit"
+                            ? "bg-green-50 text-green-700 border-green-200"
+                            : "text-gray-500"
+                        }
+                        title={`${answer.cache.cacheReadTokens} tokens read from and ${answer.cache.cacheWriteTokens} written to the prompt cache; ${answer.cache.documentHits} of ${answer.cache.documentHits + answer.cache.documentMisses} documents from the local cache`}
+                      >
+                        Cache {answer.cache.status}
+                        {answer.cache.savings > 0 && ` · saved $${answer.cache.savings.toFixed(4)}`}
+                      </Badge>
+                    )}
+                    {answer.status === "stopped" && (
+                      <span className="text-gray-500">Stopped</span>
+                    )}
+                  </div>
+
+                  {answer.status === "error" ? (
+                    <p className="text-sm text-red-600">{answer.error}</p>
+                  ) : answer.text ? (
+                    <div className="prose prose-sm max-w-none prose-headings:text-gray-800 prose-p:text-gray-700 prose-strong:text-gray-900 prose-li:text-gray-700">
+                      <ReactMarkdown>{answer.text}</ReactMarkdown>
+                      {answer.status === "streaming" && (
+                        <span className="inline-block w-0.5 h-4 bg-blue-500 animate-pulse ml-1 rounded-full"></span>
+                      )}
+                    </div>
+                  ) : (
+                    answer.status === "streaming" && (
+                      <span className="text-sm text-slate-500 animate-pulse">Thinking...</span>
+                    )
+                  )}
+
+                  <AssistantSourcesPanel
+                    sources={answer.sources}
+                    retrieval={answer.config.retrieval}
+                    document={document}
+                    documents={activeDocuments}
+                    onOpenPDF={setPdfTarget}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div ref={roundsEndRef} />
+      </div>
+
+      {/* Input */}
+      <div className="border-t border-gray-200 bg-gray-50 rounded-b-md">
+        {needsDocument && (
+          <div className="px-4 pt-3 pb-2 text-xs text-gray-600 flex items-center gap-3">
+            <span className="font-medium text-gray-700 flex-shrink-0">
+              Full-document strategies query:
+            </span>
+            <Select
+              value={document?.id || ""}
+              onValueChange={setDocumentId}
+              disabled={isRunning || activeDocuments.length === 0}
+            >
+              <SelectTrigger className="max-w-md">
+                <SelectValue placeholder="Select a document..." />
+              </SelectTrigger>
+              <SelectContent>
+                {activeDocuments.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>
+                    {doc.document_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <form onSubmit={handleSend} className="p-4 flex gap-3 items-start">
+          <textarea
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) handleSend(e);
+            }}
+            className="flex-1 h-[44px] resize-none border border-gray-300 rounded-lg px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            placeholder="Ask one question to both strategies..."
+            disabled={isRunning}
+            rows={1}
+          />
+          {isRunning ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => abortControllerRef.current?.abort()}
+              className="text-sm h-[44px] px-4 flex items-center gap-2"
+            >
+              <Square className="h-4 w-4" />
+              <span className="hidden sm:inline">Stop</span>
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!canSend}
+              className="bg-blue-600 hover:bg-blue-700 text-sm h-[44px] px-4 flex items-center gap-2"
+            >
+              <Send className="h-4 w-4" />
+              <span className="hidden sm:inline">Compare</span>
+            </Button>
+          )}
+        </form>
+      </div>
+
+      {pdfTarget && (
+        <DocumentPDFDrawer
+          isOpen={!!pdfTarget}
+          onClose={() => setPdfTarget(null)}
+          documentUrl={pdfTarget.url}
+          documentName={pdfTarget.name}
+          highlightedPage={pdfTarget.page}
+          searchText={pdfTarget.searchText}
+          highlightRange={pdfTarget.textRange}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AIServiceSelect } from "./AIServiceSelect";
+import {
+  AssistantConfig,
+  EMBEDDING_MODEL_LABELS,
+  EmbeddingModel,
+  RETRIEVAL_STRATEGY_LABELS,
+  RetrievalStrategy,
+} from "@/services/documentAssistantEngine";
+
+interface AssistantConfigPickerProps {
+  value: AssistantConfig;
+  onChange: (value: AssistantConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Retrieval strategy plus the setting that applies to it: the answer provider
+ * for full-document retrieval, the embedding model for vector search
+ */
+export function AssistantConfigPicker({
+  value,
+  onChange,
+  disabled,
+}: AssistantConfigPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value.retrieval}
+        onValueChange={(retrieval) =>
+          onChange({ ...value, retrieval: retrieval as RetrievalStrategy })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(RETRIEVAL_STRATEGY_LABELS).map(([strategy, label]) => (
+            <SelectItem key={strategy} value={strategy}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.retrieval === "full-document" ? (
+        <AIServiceSelect
+          value={value.provider}
+          onChange={(provider) => onChange({ ...value, provider })}
+        />
+      ) : (
+        <Select
+          value={value.embeddingModel}
+          onValueChange={(embeddingModel) =>
+            onChange({ ...value, embeddingModel: embeddingModel as EmbeddingModel })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EMBEDDING_MODEL_LABELS).map(([model, label]) => (
+              <SelectItem key={model} value={model}>
+                {label} embeddings
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  EvalMetric,
+  EvalRun,
+  formatEvalCost,
+  formatEvalLatency,
+  formatEvalScore,
+} from "@/services/assistantEvalService";
+
+const formatMetric = (metric: EvalMetric, value: number) => {
+  if (metric === "avg_latency_ms") return formatEvalLatency(value);
+  if (metric === "total_cost") return formatEvalCost(value);
+  return formatEvalScore(value);
+};
+
+const LINE_COLORS = [
+  "hsl(221 83% 53%)",
+  "hsl(142 71% 45%)",
+  "hsl(25 95% 53%)",
+  "hsl(262 83% 58%)",
+  "hsl(0 72% 51%)",
+  "hsl(189 94% 43%)",
+];
+
+interface AssistantEvalTrendChartProps {
+  runs: EvalRun[];
+  metric: EvalMetric;
+  className?: string;
+}
+
+/**
+ * One metric across the finished runs of an eval set, one line per assistant
+ * configuration
+ */
+export function AssistantEvalTrendChart({ runs, metric, className }: AssistantEvalTrendChartProps) {
+  const finished = runs.filter((run) => run.status === "completed" && run[metric] != null);
+  const targets = [...new Set(finished.map((run) => run.target_label))];
+
+  const config = Object.fromEntries(
+    targets.map((target, index) => [
+      `target${index}`,
+      { label: target, color: LINE_COLORS[index % LINE_COLORS.length] },
+    ])
+  ) satisfies ChartConfig;
+
+  const data = finished.map((run) => ({
+    startedAt: run.started_at,
+    [`target${targets.indexOf(run.target_label)}`]: Number(run[metric]),
+  }));
+
+  if (data.length === 0) {
+    return (
+      <div className="h-56 flex items-center justify-center text-sm text-gray-500">
+        Completed runs will show up here.
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={config} className={className ?? "h-56 w-full aspect-auto"}>
+      <LineChart data={data} margin={{ left: 8, right: 16, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="startedAt"
+          tickFormatter={(value) => format(parseISO(value), "MMM d")}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={16}
+        />
+        <YAxis
+          tickFormatter={(value) => formatMetric(metric, value)}
+          tickLine={false}
+          axisLine={false}
+          width={56}
+          domain={metric === "page_accuracy" || metric === "answer_overlap" ? [0, 1] : ["auto", "auto"]}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                payload?.[0] ? format(parseISO(payload[0].payload.startedAt), "MMM d, yyyy HH:mm") : ""
+              }
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as string]?.label}</span>
+                  <span className="font-mono font-medium">{formatMetric(metric, Number(value))}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        {targets.map((_, index) => (
+          <Line
+            key={index}
+            dataKey={`target${index}`}
+            type="monotone"
+            stroke={`var(--color-target${index})`}
+            strokeWidth={2}
+            connectNulls
+          />
+        ))}
+        <ChartLegend content={<ChartLegendContent />} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,459 @@
+import React, { useEffect, useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Download, FlaskConical, Play, Plus, Sparkles, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAppData } from "@/hooks/useAppData";
+import { useTrialDocuments } from "@/hooks/useDocuments";
+import { useAssistantEvals } from "@/hooks/useAssistantEvals";
+import { AssistantConfigPicker } from "./AssistantConfigPicker";
+import { AssistantEvalTrendChart } from "./AssistantEvalTrendChart";
+import { EvalCaseDialog } from "./EvalCaseDialog";
+import { EvalRunResultsDialog } from "./EvalRunResultsDialog";
+import {
+  EVAL_METRIC_LABELS,
+  EvalMetric,
+  EvalRun,
+  EvalRunStatus,
+  formatEvalCost,
+  formatEvalLatency,
+  formatEvalScore,
+} from "@/services/assistantEvalService";
+import { AssistantConfig, getAssistantPreset } from "@/services/documentAssistantEngine";
+
+const RUN_STATUS_STYLES: Record<EvalRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800 border-blue-200",
+  completed: "bg-green-100 text-green-800 border-green-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+  cancelled: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+interface AssistantEvalsProps {
+  trial: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Curated question sets scored against any assistant configuration, with
+ * the history of runs per set
+ */
+export function AssistantEvals({ trial }: AssistantEvalsProps) {
+  const { memberId } = useAppData();
+  const [setId, setSetId] = useState<string | null>(null);
+  const {
+    sets,
+    setsLoading,
+    cases,
+    runs,
+    progress,
+    createSet,
+    deleteSet,
+    addCase,
+    deleteCase,
+    seedFromQARepository,
+    runEval,
+    isSaving,
+    isRunning,
+  } = useAssistantEvals(trial.id, setId, memberId);
+
+  const [config, setConfig] = useState<AssistantConfig>(() => ({
+    ...getAssistantPreset("document-ai").config,
+    provider: "anthropic-mockup",
+  }));
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [metric, setMetric] = useState<EvalMetric>("page_accuracy");
+  const [showNewSet, setShowNewSet] = useState(false);
+  const [newSetName, setNewSetName] = useState("");
+  const [showCaseDialog, setShowCaseDialog] = useState(false);
+  const [openRun, setOpenRun] = useState<EvalRun | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { data: documents = [] } = useTrialDocuments(trial.id);
+  const activeDocuments = documents.filter((doc) => doc.is_latest);
+  const latestProtocol = activeDocuments.find((doc) => doc.document_type === "protocol");
+  const document = activeDocuments.find((doc) => doc.id === (documentId || latestProtocol?.id));
+
+  const evalSet = sets.find((s) => s.id === setId) || null;
+
+  // Open the first set once they load
+  useEffect(() => {
+    if (!setId && sets.length > 0) setSetId(sets[0].id);
+  }, [setId, sets]);
+
+  const needsDocument = config.retrieval === "full-document";
+
+  const handleCreateSet = async () => {
+    try {
+      const created = await createSet({ name: newSetName.trim(), description: null });
+      setSetId(created.id);
+      setNewSetName("");
+      setShowNewSet(false);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const handleDeleteSet = async () => {
+    if (!evalSet || !confirm(`Delete "${evalSet.name}" with its questions and runs?`)) return;
+    try {
+      await deleteSet(evalSet.id);
+      setSetId(null);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  // Fixtures file for the offline stand-in backend (scripts/assistant-eval-backend.mjs)
+  const handleExportFixtures = () => {
+    if (!evalSet) return;
+    const fixtures = cases.map(({ question, expected_answer, expected_pages }) => ({
+      question,
+      expected_answer,
+      expected_pages,
+    }));
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(fixtures, null, 2)], { type: "application/json" })
+    );
+    const link = window.document.createElement("a");
+    link.href = url;
+    link.download = `${evalSet.name.replace(/[^\w-]+/g, "-")}-fixtures.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRun = async () => {
+    if (!evalSet) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    try {
+      await runEval({
+        evalSet,
+        config,
+        document: document
+          ? { id: document.id, document_name: document.document_name, document_url: document.document_url }
+          : null,
+        signal: abortController.signal,
+      });
+    } catch {
+      // The error toast comes from the mutation
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      {/* Eval set */}
+      <div className="flex flex-wrap items-center gap-2">
+        <FlaskConical className="h-5 w-5 text-slate-600" />
+        <Select value={setId || ""} onValueChange={setSetId} disabled={setsLoading || isRunning}>
+          <SelectTrigger className="w-[260px]">
+            <SelectValue placeholder={setsLoading ? "Loading..." : "No eval sets yet"} />
+          </SelectTrigger>
+          <SelectContent>
+            {sets.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setShowNewSet(true)} disabled={isRunning}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Set
+        </Button>
+        {evalSet && (
+          <Button variant="ghost" size="sm" onClick={handleDeleteSet} disabled={isRunning || isSaving}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {evalSet && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {/* Questions */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center justify-between gap-2">
+                <span>Questions ({cases.length})</span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={async () => {
+                      try {
+                        await seedFromQARepository();
+                      } catch {
+                        // The error toast comes from the mutation
+                      }
+                    }}
+                    disabled={isSaving || isRunning}
+                  >
+                    <Sparkles className="h-4 w-4 mr-1" />
+                    Seed from Verified Q&A
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportFixtures}
+                    disabled={cases.length === 0}
+                    title="Export as stand-in backend fixtures"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" onClick={() => setShowCaseDialog(true)} disabled={isRunning}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="max-h-[360px] overflow-y-auto">
+              {cases.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Add questions by hand or seed them from verified QA Repository answers.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Pages</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cases.map((evalCase) => (
+                      <TableRow key={evalCase.id}>
+                        <TableCell className="text-sm">
+                          {evalCase.question}
+                          {evalCase.qa_item_id && (
+                            <Badge variant="outline" className="ml-2 text-xs">
+                              Q&A
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-600">
+                          {evalCase.expected_pages.join(", ") || "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteCase(evalCase.id).catch(() => undefined)}
+                            disabled={isRunning}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Run */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Run Evaluation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Assistant configuration</Label>
+                <AssistantConfigPicker value={config} onChange={setConfig} disabled={isRunning} />
+              </div>
+              {needsDocument && (
+                <div className="space-y-2">
+                  <Label>Document</Label>
+                  <Select
+                    value={document?.id || ""}
+                    onValueChange={setDocumentId}
+                    disabled={isRunning || activeDocuments.length === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a document..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeDocuments.map((doc) => (
+                        <SelectItem key={doc.id} value={doc.id}>
+                          {doc.document_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Questions are asked one at a time. Use the Claude (Mockup) provider, or point
+                VITE_API_BASE_URL at the stand-in backend, to run without external services.
+              </p>
+              {progress && (
+                <div className="space-y-1">
+                  <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                  <p className="text-xs text-gray-500">
+                    {progress.done} of {progress.total} questions
+                  </p>
+                </div>
+              )}
+              {isRunning ? (
+                <Button variant="outline" onClick={() => abortControllerRef.current?.abort()}>
+                  <Square className="h-4 w-4 mr-1" />
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleRun}
+                  disabled={cases.length === 0 || (needsDocument && !document)}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Run {cases.length} Questions
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Trend */}
+          <Card className="xl:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center justify-between gap-2">
+                <span>Trend</span>
+                <Select value={metric} onValueChange={(value) => setMetric(value as EvalMetric)}>
+                  <SelectTrigger className="w-[220px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EVAL_METRIC_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <AssistantEvalTrendChart runs={runs} metric={metric} />
+
+              {runs.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Configuration</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Page accuracy</TableHead>
+                      <TableHead>Overlap</TableHead>
+                      <TableHead>Avg latency</TableHead>
+                      <TableHead>Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...runs].reverse().map((run) => (
+                      <TableRow
+                        key={run.id}
+                        className="cursor-pointer"
+                        onClick={() => setOpenRun(run)}
+                      >
+                        <TableCell className="text-sm">
+                          {format(parseISO(run.started_at), "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell className="text-sm">{run.target_label}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`text-xs ${RUN_STATUS_STYLES[run.status]}`}>
+                            {run.status}
+                          </Badge>
+                          {run.error_count > 0 && (
+                            <span className="ml-2 text-xs text-red-600">
+                              {run.error_count} failed
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatEvalScore(run.page_accuracy)}</TableCell>
+                        <TableCell>{formatEvalScore(run.answer_overlap)}</TableCell>
+                        <TableCell>{formatEvalLatency(run.avg_latency_ms)}</TableCell>
+                        <TableCell>{formatEvalCost(run.total_cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* New eval set */}
+      <Dialog open={showNewSet} onOpenChange={setShowNewSet}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Eval Set</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="eval-set-name">Name</Label>
+            <Input
+              id="eval-set-name"
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              placeholder="e.g. Eligibility questions"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewSet(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateSet} disabled={isSaving || !newSetName.trim()}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {showCaseDialog && (
+        <EvalCaseDialog
+          open={showCaseDialog}
+          onOpenChange={setShowCaseDialog}
+          isSubmitting={isSaving}
+          onSubmit={addCase}
+        />
+      )}
+
+      {openRun && (
+        <EvalRunResultsDialog
+          run={openRun}
+          cases={cases}
+          onOpenChange={(open) => !open && setOpenRun(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from "react";
+import { CleanPDFSourcesPanel } from "./CleanPDFSourceLink";
+import { CleanPDFSourcesPanelRAG } from "./CleanPDFSourceLinkRAG";
+import {
+  AssistantSource,
+  getRagHighlightUrl,
+  RetrievalStrategy,
+} from "@/services/documentAssistantEngine";
+import type { TextRange } from "@/lib/pdfTextLayer";
+
+interface PanelDocument {
+  id: string;
+  document_name?: string;
+  document_url?: string;
+  file_url?: string;
+}
+
+// What the PDF drawer should open for a clicked source
+export interface AssistantPDFTarget {
+  url: string;
+  name: string;
+  page?: number;
+  searchText?: string;
+  // Verified quotes: exact span to highlight on the page
+  textRange?: TextRange;
+}
+
+interface AssistantSourcesPanelProps {
+  sources: AssistantSource[];
+  retrieval: RetrievalStrategy;
+  // Primary document of the question
+  document?: PanelDocument | null;
+  // Documents that full-document citations can point to
+  documents?: PanelDocument[];
+  onOpenPDF: (target: AssistantPDFTarget) => void;
+}
+
+/**
+ * Sources of an assistant answer. Full-document citations open the cited
+ * trial document; vector search citations open the backend's highlighted page.
+ */
+export function AssistantSourcesPanel({
+  sources,
+  retrieval,
+  document,
+  documents = [],
+  onOpenPDF,
+}: AssistantSourcesPanelProps) {
+  if (sources.length === 0) return null;
+
+  if (retrieval === "vector-search") {
+    return (
+      <CleanPDFSourcesPanelRAG
+        sources={sources}
+        documentUrl={document?.document_url || document?.file_url}
+        documentName={document?.document_name || "Protocol Document"}
+        onNavigatePDF={(page, searchText, sourceName = "") =>
+          onOpenPDF({
+            url: getRagHighlightUrl(sourceName, page, searchText),
+            name: sourceName || "Document",
+            page,
+            searchText,
+          })
+        }
+      />
+    );
+  }
+
+  return (
+    <CleanPDFSourcesPanel
+      sources={sources}
+      documentUrl={document?.document_url || document?.file_url}
+      documentName={document?.document_name || "Protocol Document"}
+      onNavigatePDF={(page, searchText, sourceDocumentId, textRange) => {
+        const cited =
+          (sourceDocumentId && documents.find((doc) => doc.id === sourceDocumentId)) ||
+          document;
+        if (!cited) return;
+        onOpenPDF({
+          url: cited.document_url || cited.file_url || "",
+          name: cited.document_name || "Document",
+          page,
+          searchText,
+          textRange,
+        });
+      }}
+    />
+  );
+}
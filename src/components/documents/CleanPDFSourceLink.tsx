@@ -1,23 +1,37 @@
 import React from "react";
-import { ExternalLink, FileText } from "lucide-react";
+import { AlertTriangle, CheckCircle2, ExternalLink, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import type { TextRange } from "@/lib/pdfTextLayer";
 
 interface PDFSource {
   page: number;
+  endPage?: number;
   section?: string;
   exactText?: string;
   relevance?: 'high' | 'medium' | 'low';
   context?: string;
   highlightURL?: string;
+  documentId?: string;
+  documentName?: string;
+  verified?: boolean;
+  textRange?: TextRange;
+  claimedPage?: number;
 }
 
+type NavigatePDFHandler = (
+  page: number,
+  searchText: string,
+  documentId?: string,
+  textRange?: TextRange
+) => void;
+
 interface CleanPDFSourceLinkProps {
   source: PDFSource;
   documentUrl?: string;
   documentName?: string;
   className?: string;
-  onNavigatePDF?: (page: number, searchText: string) => void;
+  onNavigatePDF?: NavigatePDFHandler;
 }
 
 export function CleanPDFSourceLink({
@@ -33,7 +47,7 @@ export function CleanPDFSourceLink({
     if (onNavigatePDF) {
       // Use the callback to open PDF drawer with highlighting
       console.log('🔗 Opening PDF drawer for source:', { page: source.page, text: source.exactText?.substring(0, 50) });
-      onNavigatePDF(source.page, source.exactText || '');
+      onNavigatePDF(source.page, source.exactText || '', source.documentId, source.textRange);
     } else {
       // Fallback to opening in new tab
       const targetUrl = source.highlightURL || (documentUrl ? `${documentUrl}#page=${source.page}` : null);
@@ -61,11 +75,41 @@ export function CleanPDFSourceLink({
           <span className="font-medium text-gray-900">
             {source.section || `Page ${source.page}`}
           </span>
+          {source.documentName && (
+            <span className="text-xs text-gray-500 truncate max-w-[240px]" title={source.documentName}>
+              {source.documentName} · p. {source.page}
+              {source.endPage ? `-${source.endPage}` : ""}
+            </span>
+          )}
           {source.relevance && (
             <Badge variant={getRelevanceBadgeVariant(source.relevance)} className="text-xs">
               {source.relevance}
             </Badge>
           )}
+          {source.verified === true && (
+            <Badge
+              variant="outline"
+              className="text-xs bg-green-50 text-green-700 border-green-200"
+              title={
+                source.claimedPage !== undefined
+                  ? `Quote found on page ${source.page}; the answer cited page ${source.claimedPage}`
+                  : "Quote found in the document"
+              }
+            >
+              <CheckCircle2 className="w-3 h-3 mr-1" />
+              {source.claimedPage !== undefined ? "Page corrected" : "Verified"}
+            </Badge>
+          )}
+          {source.verified === false && (
+            <Badge
+              variant="outline"
+              className="text-xs bg-amber-50 text-amber-700 border-amber-200"
+              title="This quote wasn't found in the document text"
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Unverified
+            </Badge>
+          )}
         </div>
 
         {(source.highlightURL || documentUrl) && (
@@ -107,7 +151,7 @@ interface CleanPDFSourcesPanelProps {
   documentUrl?: string;
   documentName?: string;
   className?: string;
-  onNavigatePDF?: (page: number, searchText: string) => void;
+  onNavigatePDF?: NavigatePDFHandler;
 }
 
 export function CleanPDFSourcesPanel({
@@ -121,9 +165,10 @@ export function CleanPDFSourcesPanel({
     return null;
   }
 
-  // Remove duplicates based on page + exactText
+  // Remove duplicates based on document + page + exactText
   const uniqueSources = sources.filter((source, index, self) =>
     index === self.findIndex(s =>
+      s.documentId === source.documentId &&
       s.page === source.page &&
       s.exactText === source.exactText
     )
@@ -156,11 +201,17 @@ export function CleanPDFSourcesPanel({
             key={`${source.page}-${source.exactText?.substring(0, 50)}-${idx}`}
             source={{
               page: source.page,
+              endPage: source.endPage,
               section: source.section,
               exactText: source.exactText || source.content,
               relevance: source.relevance,
               context: source.context,
-              highlightURL: source.highlightURL
+              highlightURL: source.highlightURL,
+              documentId: source.documentId,
+              documentName: source.documentName,
+              verified: source.verified,
+              textRange: source.textRange,
+              claimedPage: source.claimedPage
             }}
             documentUrl={documentUrl}
             documentName={documentName}
@@ -17,48 +17,49 @@ import {
   Settings,
   Bell,
   UserPlus,
+  Square,
 } from "lucide-react";
 import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { useDocument, useTrialDocuments } from "@/hooks/useDocuments";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { supabase } from "@/integrations/supabase/client";
 import ReactMarkdown from "react-markdown";
-import {
-  getMockResponse,
-  generateMockDocument,
-} from "@/services/mockAIService";
+import { generateMockDocument } from "@/services/mockAIService";
 import { PatientChecklistModal } from "./PatientChecklistModal";
 import { DocumentPDFDrawer } from "./DocumentPDFDrawer";
-import { ResponseActionButtons } from "./ResponseActionButtons";
+import { ResponseActionButtons, Source } from "./ResponseActionButtons";
 import { EmailShareModal } from "./EmailShareModal";
 import { useQARepository } from "@/hooks/useQARepository";
 import { useDocumentChatHistory } from "@/hooks/useDocumentChatHistory";
 import { ChatPDFFallbackAlert, useChatPDFFallbackContext } from "./ChatPDFFallbackProvider";
 import { getBackendFallbackService } from "@/services/backendFallbackService";
 import { getClaudeCitationsService } from "@/services/claudeCitationsService";
-import { CleanPDFSourcesPanel } from "./CleanPDFSourceLink";
 import { PDFTestButton } from "./PDFTestButton";
+import { AdditionalDocumentsPicker } from "./AdditionalDocumentsPicker";
+import { AssistantConfigPicker } from "./AssistantConfigPicker";
+import { AssistantPDFTarget, AssistantSourcesPanel } from "./AssistantSourcesPanel";
+import { useAIProviderPolicy } from "@/hooks/useAIProviderPolicy";
+import {
+  AssistantConfig,
+  AssistantPresetId,
+  AssistantSource,
+  getAssistantPreset,
+  getDocumentAssistantEngine,
+} from "@/services/documentAssistantEngine";
 
 interface DocumentAIProps {
   trial: {
     id: string;
     name: string;
   };
+  // Starting configuration; the user can change it from the input bar
+  preset?: AssistantPresetId;
 }
 
 interface ChatMessage {
   id: string;
   role: "user" | "llm";
   content: string;
-  sources?: Array<{
-    section: string;
-    page?: number;
-    content: string;
-    exactText?: string;
-    relevance?: 'high' | 'medium' | 'low';
-    context?: string;
-    highlightURL?: string;
-  }>;
+  sources?: AssistantSource[];
   downloadableTemplates?: Array<{
     title: string;
     type: "worksheet" | "checklist" | "report";
@@ -70,11 +71,12 @@ interface ChatMessage {
     action: string;
     type: "download" | "generate" | "setup";
   }>;
+  tool_calls?: any[]; // raw tool calls from the RAG backend
   isStreaming?: boolean;
   streamedContent?: string;
 }
 
-export function DocumentAI({ trial }: DocumentAIProps) {
+export function DocumentAI({ trial, preset = "document-ai" }: DocumentAIProps) {
   const location = useLocation();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -82,12 +84,15 @@ export function DocumentAI({ trial }: DocumentAIProps) {
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [documentId, setDocumentId] = useState<string | null>(null);
+  // Extra documents for multi-document questions (documentId is the primary one)
+  const [additionalDocumentIds, setAdditionalDocumentIds] = useState<string[]>([]);
   const [chat, setChat] = useState<ChatMessage[]>([]);
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(
     null
   );
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("Reading document...");
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Checklist modal state
   const [showChecklistModal, setShowChecklistModal] = useState(false);
@@ -101,15 +106,21 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     prompt: string;
     response: string;
     messageId: string;
+    sources?: Source[];
   } | null>(null);
 
   // PDF reader drawer state
-  const [showPDFDrawer, setShowPDFDrawer] = useState(false);
-  const [pdfHighlightPage, setPdfHighlightPage] = useState<number | undefined>();
-  const [pdfSearchText, setPdfSearchText] = useState<string | undefined>();
+  const [pdfTarget, setPdfTarget] = useState<AssistantPDFTarget | null>(null);
 
-  // AI Service selector
-  const [selectedAIService, setSelectedAIService] = useState<'backend' | 'chatpdf' | 'anthropic' | 'anthropic-mockup'>('backend');
+  // Retrieval strategy, embedding model and answer provider
+  const { title } = getAssistantPreset(preset);
+  const [config, setConfig] = useState<AssistantConfig>(() => getAssistantPreset(preset).config);
+  // Vector search queries the backend's index, not a selected document
+  const needsDocument = config.retrieval === "full-document";
+  const assistantPath = `/document-assistant/${trial.id}/${preset}`;
+
+  // Organization fallback policy for the AI providers
+  const { fallbackPolicy } = useAIProviderPolicy();
 
   // QA Repository hook
   const { addQAItem } = useQARepository(trial.id);
@@ -144,11 +155,13 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     (doc) => doc.document_type === "protocol"
   );
 
-  // Parse documentId from URL or use latest protocol as default
+  // Parse documentId/documentIds from URL or use latest protocol as default
   useEffect(() => {
     const params = new URLSearchParams(location.search);
-    const docId = params.get("documentId");
+    const docIds = (params.get("documentIds") || "").split(",").filter(Boolean);
+    const docId = params.get("documentId") || docIds[0];
     setDocumentId(docId || latestProtocol?.id || null);
+    setAdditionalDocumentIds(docIds.filter((id) => id !== docId));
   }, [location.search, latestProtocol]);
 
   // Fetch document data
@@ -158,6 +171,15 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     error,
   } = useDocument(documentId || "");
 
+  // Documents the next question is asked about, primary first. A document
+  // opened from the history can be an older version, so look it up in all
+  // documents rather than only the latest ones
+  const selectedDocuments = [documentId, ...additionalDocumentIds]
+    .map((id) =>
+      id === document?.id ? document : documents.find((doc) => doc.id === id)
+    )
+    .filter(Boolean);
+
   // Auto-scroll to bottom when chat changes
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -179,7 +201,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
   const handleKeyDown = async (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      if (!isLoading && query.trim() && documentId) {
+      if (!isLoading && !streamingMessageId && query.trim() && (documentId || !needsDocument)) {
         await handleSend(e as any);
       }
     }
@@ -212,7 +234,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
   // Handle send
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim() || !documentId) return;
+    if (!query.trim() || (needsDocument && !documentId) || streamingMessageId) return;
 
     const userMessage = query.trim();
     const userMsg: ChatMessage = {
@@ -228,7 +250,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
 
     // Create session if this is the first message
     let sessionId = currentSessionId;
-    if (!sessionId) {
+    if (!sessionId && documentId) {
       try {
         const { sessionId: newSessionId } = await createSessionWithMessage(
           trial.id,
@@ -239,14 +261,14 @@ export function DocumentAI({ trial }: DocumentAIProps) {
         setCurrentSessionId(newSessionId);
 
         // Update URL with new sessionId
-        navigate(`/document-assistant/${trial.id}/document-ai?sessionId=${newSessionId}`, {
+        navigate(`${assistantPath}?sessionId=${newSessionId}`, {
           replace: true
         });
       } catch (error) {
         console.error("Failed to create session:", error);
         // Continue anyway - don't block the user
       }
-    } else {
+    } else if (sessionId) {
       // Save user message to existing session
       try {
         await addMessageAsync({
@@ -261,39 +283,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     }
 
     try {
-      const useMockAI = import.meta.env.VITE_USE_MOCK_AI === "true";
-
-      if (useMockAI) {
-        // Use mock AI service for demo
-        console.log("🤖 Using Mock AI Service for demo");
-
-        // Simulate API delay for realism
-        await new Promise((resolve) =>
-          setTimeout(resolve, 1500 + Math.random() * 1000)
-        );
-
-        const mockResponse = getMockResponse(userMessage, documentId);
-        const responseId = `${Date.now()}-llm`;
-
-        // Add initial streaming message WITHOUT sources/actions
-        setChat((prev) => [
-          ...prev,
-          {
-            id: responseId,
-            role: "llm",
-            content: "",
-            streamedContent: "",
-            isStreaming: true,
-          },
-        ]);
-
-        // Start streaming the response
-        setStreamingMessageId(responseId);
-        await streamResponse(mockResponse.response, responseId, mockResponse);
-      } else {
-        // Use backend with ChatPDF fallback (with selected service)
-        await handleBackendWithFallback(userMessage, documentId, selectedAIService, sessionId);
-      }
+      await handleAskWithFallback(userMessage, sessionId);
     } catch (error) {
       console.error("Error with query:", error);
       setChat((prev) => [
@@ -310,54 +300,9 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     }
   };
 
-  // Stream response function for typing effect
-  const streamResponse = async (
-    fullText: string,
-    messageId: string,
-    mockResponse?: any
-  ) => {
-    const words = fullText.split(" ");
-    let currentText = "";
-
-    for (let i = 0; i < words.length; i++) {
-      currentText += words[i] + " ";
-
-      setChat((prev) =>
-        prev.map((msg) =>
-          msg.id === messageId ? { ...msg, streamedContent: currentText } : msg
-        )
-      );
-
-      // Randomized delay for realistic typing effect
-      await new Promise((resolve) =>
-        setTimeout(resolve, 30 + Math.random() * 50)
-      );
-    }
-
-    // Finish streaming and ADD sources/templates/actions
-    setChat((prev) => {
-      const updatedChat = prev.map((msg) =>
-        msg.id === messageId
-          ? {
-              ...msg,
-              content: fullText,
-              isStreaming: false,
-              streamedContent: undefined,
-              // Add sources/templates/actions AFTER streaming completes
-              sources: mockResponse?.sources,
-              downloadableTemplates: mockResponse?.downloadableTemplates,
-              quickActions: mockResponse?.quickActions,
-            }
-          : msg
-      );
-
-      // Auto-save conversation after response completes
-      saveCurrentChatToHistory(updatedChat);
-
-      return updatedChat;
-    });
-
-    setStreamingMessageId(null);
+  // Stop the answer currently being streamed
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   // Load chat from history (when selecting from sidebar)
@@ -377,7 +322,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     setChat([]);
 
     // Clear sessionId from URL
-    navigate(`/document-assistant/${trial.id}/document-ai`, { replace: true });
+    navigate(assistantPath, { replace: true });
   };
 
   // Handle template download
@@ -405,8 +350,8 @@ export function DocumentAI({ trial }: DocumentAIProps) {
   };
 
   // Handle email share
-  const handleEmailShare = (prompt: string, response: string, messageId: string) => {
-    setCurrentShareData({ prompt, response, messageId });
+  const handleEmailShare = (prompt: string, response: string, messageId: string, sources?: Source[]) => {
+    setCurrentShareData({ prompt, response, messageId, sources });
     setShowEmailModal(true);
   };
 
@@ -432,56 +377,82 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     }
   };
 
-  // Handle backend with ChatPDF fallback
-  const handleBackendWithFallback = async (
+  // Ask the assistant engine, offering the ChatPDF fallback when the backend suggests it
+  const handleAskWithFallback = async (
     userMessage: string,
-    documentId: string,
-    serviceType: 'backend' | 'chatpdf' | 'anthropic' | 'anthropic-mockup',
     sessionId: string | null
   ) => {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-    const token = session?.access_token;
-
-    if (!token) {
-      throw new Error("No authentication token available");
-    }
+    const responseId = `${Date.now()}-llm`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let streamedText = "";
 
     try {
-      // 🚀 Use AI Service Switcher (with user-selected service)
-      const { getAIServiceSwitcher } = await import('../../services/aiServiceSwitcher');
-      const aiService = getAIServiceSwitcher();
-
-      console.log('🔧 Selected AI Service:', serviceType);
-
-      const result = await aiService.query({
-        message: userMessage,
-        documentId,
-        documentData: document,
-        userId: token,
-        limit: 5
-      }, serviceType);
-
-      console.log(`✅ Query successful via ${result.source}:`, result);
-      if (result.cost) {
-        console.log(`💰 Cost: $${result.cost.toFixed(4)} (${result.model})`);
-      }
-
-      // Sources are already in unified format from the adapter
-      const formattedSources = result.sources;
-
-      // Add the response to chat
-      const responseId = `${Date.now()}-llm`;
+      // Add the streaming message; text and citations are filled in as they arrive
       setChat((prev) => [
         ...prev,
         {
           id: responseId,
           role: "llm",
-          content: result.response,
-          sources: formattedSources,
+          content: "",
+          streamedContent: "",
+          isStreaming: true,
+          sources: [],
         },
       ]);
+      setStreamingMessageId(responseId);
+
+      const answer = await getDocumentAssistantEngine().ask(
+        config,
+        {
+          message: userMessage,
+          document,
+          documents: selectedDocuments.map((doc) => ({
+            id: doc.id,
+            document_name: doc.document_name,
+            document_url: doc.document_url,
+            version: doc.version,
+          })),
+        },
+        {
+          fallbackPolicy,
+          signal: abortController.signal,
+          onText: (_delta, snapshot) => {
+            streamedText = snapshot;
+            setIsLoading(false);
+            setChat((prev) =>
+              prev.map((msg) =>
+                msg.id === responseId ? { ...msg, streamedContent: snapshot } : msg
+              )
+            );
+          },
+          onSources: (sources) => {
+            setChat((prev) =>
+              prev.map((msg) =>
+                msg.id === responseId ? { ...msg, sources } : msg
+              )
+            );
+          },
+        }
+      );
+
+      // Replace the streamed text with the final answer and its full source list
+      setChat((prev) =>
+        prev.map((msg) =>
+          msg.id === responseId
+            ? {
+                ...msg,
+                content: answer.response,
+                sources: answer.sources,
+                tool_calls: answer.tool_calls,
+                downloadableTemplates: answer.downloadableTemplates,
+                quickActions: answer.quickActions,
+                isStreaming: false,
+                streamedContent: undefined,
+              }
+            : msg
+        )
+      );
 
       // Save assistant's response to DB
       if (sessionId) {
@@ -489,7 +460,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
           await addMessageAsync({
             sessionId,
             role: "llm",
-            content: result.response,
+            content: answer.response,
           });
         } catch (error) {
           console.error("Failed to save assistant response:", error);
@@ -500,11 +471,34 @@ export function DocumentAI({ trial }: DocumentAIProps) {
       setShowFallbackAlert(false);
       setLastFailedQuery(null);
       
-    } catch (error: unknown) {
-      console.error('❌ Backend query failed:', error);
-      
+    } catch (error: any) {
+      // Stopped by the user: keep whatever was streamed so far
+      if (abortController.signal.aborted) {
+        console.log('⏹️ Streaming stopped by user');
+        setChat((prev) =>
+          prev.map((msg) =>
+            msg.id === responseId
+              ? { ...msg, content: streamedText, isStreaming: false, streamedContent: undefined }
+              : msg
+          )
+        );
+        if (sessionId && streamedText) {
+          try {
+            await addMessageAsync({ sessionId, role: "llm", content: streamedText });
+          } catch (saveError) {
+            console.error("Failed to save assistant response:", saveError);
+          }
+        }
+        return;
+      }
+
+      console.error('❌ Assistant query failed:', error);
+
+      // Drop the empty streaming message, the error is reported below
+      setChat((prev) => prev.filter((msg) => msg.id !== responseId));
+
       // Check if this is a structured backend error that suggests fallback
-      if (error.suggestFallback && fallbackContext.isEnabled) {
+      if (error?.suggestFallback && fallbackContext.isEnabled && document) {
         console.log('💡 Suggesting ChatPDF fallback to user');
         setLastFailedQuery({
           message: userMessage,
@@ -515,6 +509,9 @@ export function DocumentAI({ trial }: DocumentAIProps) {
         // Show regular error message
         throw error;
       }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
     }
   };
 
@@ -633,7 +630,10 @@ export function DocumentAI({ trial }: DocumentAIProps) {
     documentSelector = (
       <Select
         value={documentId || ""}
-        onValueChange={(value) => setDocumentId(value)}
+        onValueChange={(value) => {
+          setDocumentId(value);
+          setAdditionalDocumentIds((ids) => ids.filter((id) => id !== value));
+        }}
       >
         <SelectTrigger className="w-full">
           <SelectValue placeholder="Select a document..." />
@@ -688,7 +688,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
                     <BookOpen className="w-6 h-6 text-slate-600" />
                   </div>
                   <h3 className="text-xl font-semibold text-slate-800 tracking-tight">
-                    Document AI Assistant
+                    {title}
                   </h3>
                   <p className="text-slate-500 text-sm leading-relaxed">
                     Ask questions about your protocol documents and get
@@ -726,7 +726,8 @@ export function DocumentAI({ trial }: DocumentAIProps) {
               </div>
             </div>
           )}
-          {chat.map((msg) => (
+          {/* Streaming answers appear once their first tokens arrive */}
+          {chat.filter((msg) => !msg.isStreaming || msg.streamedContent).map((msg) => (
             <div
               key={msg.id}
               className={`w-full flex ${
@@ -758,22 +759,17 @@ export function DocumentAI({ trial }: DocumentAIProps) {
                       )}
                     </div>
 
-                    {/* Enhanced Document Sources Panel - only show after streaming */}
+                    {/* Enhanced Document Sources Panel */}
+                    {/* Citations are shown as soon as they arrive */}
                     {msg.sources &&
-                      msg.sources.length > 0 &&
-                      !msg.isStreaming && (
-                        <>
-                          <CleanPDFSourcesPanel
-                            sources={msg.sources}
-                            documentUrl={document?.document_url || document?.file_url}
-                            documentName={document?.document_name || 'Protocol Document'}
-                            onNavigatePDF={(page, searchText) => {
-                              setPdfHighlightPage(page);
-                              setPdfSearchText(searchText);
-                              setShowPDFDrawer(true);
-                            }}
-                          />
-                        </>
+                      msg.sources.length > 0 && (
+                        <AssistantSourcesPanel
+                          sources={msg.sources}
+                          retrieval={config.retrieval}
+                          document={document}
+                          documents={activeDocuments}
+                          onOpenPDF={setPdfTarget}
+                        />
                       )}
 
                     {/* Downloadable Templates - only show after streaming */}
@@ -870,7 +866,7 @@ export function DocumentAI({ trial }: DocumentAIProps) {
                             chat.indexOf(chatMsg) < chat.indexOf(msg)
                           );
                           if (userMessage) {
-                            handleEmailShare(userMessage.content, msg.content, msg.id);
+                            handleEmailShare(userMessage.content, msg.content, msg.id, msg.sources);
                           }
                         }}
                         onQARepositoryAdd={async (prompt: string, response: string, sources) => {
@@ -908,30 +904,46 @@ export function DocumentAI({ trial }: DocumentAIProps) {
       <div className="bottom-0 left-0 right-0 border-t border-gray-200 bg-gray-50 rounded-b-md z-10 ">
         {/* Document selector */}
         <div className="px-4 pt-3 pb-2 text-xs text-gray-600 flex items-center gap-3">
-          <span className="font-medium text-gray-700 flex-shrink-0">
-            Querying document:
-          </span>
-          <div className="flex-1 max-w-md">{documentSelector}</div>
-
-          {/* AI Service Selector */}
-          <Select value={selectedAIService} onValueChange={(value: any) => setSelectedAIService(value)}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="backend">Backend</SelectItem>
-              <SelectItem value="chatpdf">ChatPDF</SelectItem>
-              <SelectItem value="anthropic">Anthropic Claude</SelectItem>
-              <SelectItem value="anthropic-mockup">Claude (Mockup)</SelectItem>
-            </SelectContent>
-          </Select>
+          {needsDocument ? (
+            <>
+              <span className="font-medium text-gray-700 flex-shrink-0">
+                Querying document:
+              </span>
+              <div className="flex-1 max-w-md">{documentSelector}</div>
+
+              {/* Additional documents for multi-document questions */}
+              <AdditionalDocumentsPicker
+                documents={activeDocuments}
+                primaryDocumentId={documentId}
+                selectedIds={additionalDocumentIds}
+                onChange={setAdditionalDocumentIds}
+                disabled={isLoading || !!streamingMessageId}
+              />
+            </>
+          ) : (
+            <span className="flex-1 font-medium text-gray-700">
+              Searching all indexed trial documents
+            </span>
+          )}
+
+          {/* Retrieval strategy, embedding model and answer provider */}
+          <AssistantConfigPicker
+            value={config}
+            onChange={setConfig}
+            disabled={isLoading || !!streamingMessageId}
+          />
 
           {/* PDF Reader Button */}
-          {document && (
+          {needsDocument && document && (
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowPDFDrawer(true)}
+              onClick={() =>
+                setPdfTarget({
+                  url: document.document_url || document.file_url || "",
+                  name: document.document_name || "Document",
+                })
+              }
               className="ml-2 flex items-center gap-2"
             >
               <BookOpen className="h-4 w-4" />
@@ -951,11 +963,11 @@ export function DocumentAI({ trial }: DocumentAIProps) {
                 onKeyDown={handleKeyDown}
                 className="w-full h-[44px] resize-none border border-gray-300 rounded-lg px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white overflow-y-auto"
                 placeholder={
-                  documentId
+                  documentId || !needsDocument
                     ? "Ask about eligibility criteria, medical tests, visit checklists, safety monitoring, or generate templates..."
                     : "Please select a document first"
                 }
-                disabled={isLoading || !documentId}
+                disabled={isLoading || !!streamingMessageId || (needsDocument && !documentId)}
                 rows={1}
               />
 
@@ -967,24 +979,36 @@ export function DocumentAI({ trial }: DocumentAIProps) {
               )}
             </div>
 
-            {/* Send button */}
-            <Button
-              type="submit"
-              disabled={isLoading || !query.trim() || !documentId}
-              className="bg-blue-600 hover:bg-blue-700 text-sm h-[44px] px-4 flex items-center gap-2"
-            >
-              {isLoading ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  <span className="hidden sm:inline">Analyzing...</span>
-                </>
-              ) : (
-                <>
-                  <Send className="h-4 w-4" />
-                  <span className="hidden sm:inline">Send</span>
-                </>
-              )}
-            </Button>
+            {/* Stop button while an answer is streaming, Send button otherwise */}
+            {streamingMessageId ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleStop}
+                className="text-sm h-[44px] px-4 flex items-center gap-2"
+              >
+                <Square className="h-4 w-4" />
+                <span className="hidden sm:inline">Stop</span>
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={isLoading || !query.trim() || (needsDocument && !documentId)}
+                className="bg-blue-600 hover:bg-blue-700 text-sm h-[44px] px-4 flex items-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span className="hidden sm:inline">Analyzing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4" />
+                    <span className="hidden sm:inline">Send</span>
+                  </>
+                )}
+              </Button>
+            )}
           </div>
 
           {/* Helper text */}
@@ -1018,19 +1042,21 @@ export function DocumentAI({ trial }: DocumentAIProps) {
           }}
           messageContent={currentShareData.response}
           originalPrompt={currentShareData.prompt}
+          sources={currentShareData.sources}
           trialId={trial.id}
         />
       )}
 
-      {/* PDF Reader Drawer */}
-      {document && (
+      {/* PDF Reader Drawer - opens the cited document, or the highlighted page for vector search */}
+      {pdfTarget && (
         <DocumentPDFDrawer
-          isOpen={showPDFDrawer}
-          onClose={() => setShowPDFDrawer(false)}
-          documentUrl={document.document_url || document.file_url || ''}
-          documentName={document.document_name || 'Document'}
-          highlightedPage={pdfHighlightPage}
-          searchText={pdfSearchText}
+          isOpen={!!pdfTarget}
+          onClose={() => setPdfTarget(null)}
+          documentUrl={pdfTarget.url}
+          documentName={pdfTarget.name}
+          highlightedPage={pdfTarget.page}
+          searchText={pdfTarget.searchText}
+          highlightRange={pdfTarget.textRange}
         />
       )}
     </div>
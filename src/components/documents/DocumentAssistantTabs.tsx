@@ -1,22 +1,29 @@
 import React from "react";
-import { FileText, Upload, MessageSquare, Brain } from "lucide-react";
+import { FileText, Upload, MessageSquare, Brain, Columns2, FlaskConical } from "lucide-react";
+import { ASSISTANT_PRESETS } from "@/services/documentAssistantEngine";
 
 interface DocumentAssistantTabsProps {
   currentTab: string;
   onTabChange: (tab: string) => void;
 }
 
+// Each assistant preset gets its own tab
+const presetTab = (preset: (typeof ASSISTANT_PRESETS)[number]) => ({
+  id: preset.id,
+  label: preset.label,
+  icon: preset.config.retrieval === "full-document" ? FileText : Brain,
+});
+
 export function DocumentAssistantTabs({
   currentTab,
   onTabChange,
 }: DocumentAssistantTabsProps) {
   const tabs = [
     { id: "active-documents", label: "Active Documents", icon: Upload },
-    { id: "document-ai", label: "Document AI", icon: FileText },
+    ...ASSISTANT_PRESETS.map(presetTab),
+    { id: "compare", label: "Compare", icon: Columns2 },
+    { id: "evaluation", label: "Evaluation", icon: FlaskConical },
     { id: "qa-repository", label: "QA Repository", icon: MessageSquare },
-    { id: "rag", label: "RAG", icon: Brain },
-    { id: "rag-biobert", label: "RAG-BioBERT", icon: Brain },
-
   ];
 
   return (
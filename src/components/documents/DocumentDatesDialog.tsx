@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DatedDocument,
+  DocumentDates,
+  getNextReviewDate,
+  REVIEW_INTERVAL_OPTIONS,
+} from "@/services/documentExpiryService";
+
+interface DocumentDatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: DatedDocument & { document_name: string };
+  isSubmitting: boolean;
+  onSubmit: (dates: DocumentDates, reason?: string) => Promise<unknown>;
+}
+
+/**
+ * Set when a document expires and how often it must be re-reviewed
+ */
+export function DocumentDatesDialog({
+  open,
+  onOpenChange,
+  document,
+  isSubmitting,
+  onSubmit,
+}: DocumentDatesDialogProps) {
+  const [expiryDate, setExpiryDate] = useState(document.expiry_date || "");
+  const [reviewInterval, setReviewInterval] = useState(
+    document.review_interval_months ? String(document.review_interval_months) : "none"
+  );
+  const [nextReviewDate, setNextReviewDate] = useState(document.next_review_date || "");
+  const [reason, setReason] = useState("");
+
+  const dates: DocumentDates = {
+    expiry_date: expiryDate || null,
+    review_interval_months: reviewInterval === "none" ? null : Number(reviewInterval),
+    next_review_date: reviewInterval === "none" ? null : nextReviewDate || null,
+  };
+
+  // Replacing dates that were already set needs a reason for the audit trail
+  const changesExistingDates =
+    (!!document.expiry_date && document.expiry_date !== dates.expiry_date) ||
+    (!!document.next_review_date && document.next_review_date !== dates.next_review_date) ||
+    (!!document.review_interval_months &&
+      document.review_interval_months !== dates.review_interval_months);
+
+  const handleIntervalChange = (value: string) => {
+    setReviewInterval(value);
+    if (value !== "none") setNextReviewDate(getNextReviewDate(Number(value)));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit(dates, reason.trim() || undefined);
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Expiry & Re-review</DialogTitle>
+          <DialogDescription>{document.document_name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="expiry-date">Expiry date</Label>
+            <Input
+              id="expiry-date"
+              type="date"
+              value={expiryDate}
+              onChange={(e) => setExpiryDate(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">
+              E.g. the end of validity of a GCP certificate or lab normal ranges.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Re-review</Label>
+              <Select value={reviewInterval} onValueChange={handleIntervalChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not required</SelectItem>
+                  {REVIEW_INTERVAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.months} value={String(option.months)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="next-review-date">Next re-review</Label>
+              <Input
+                id="next-review-date"
+                type="date"
+                value={reviewInterval === "none" ? "" : nextReviewDate}
+                onChange={(e) => setNextReviewDate(e.target.value)}
+                disabled={reviewInterval === "none"}
+              />
+            </div>
+          </div>
+
+          {changesExistingDates && (
+            <div className="space-y-2">
+              <Label htmlFor="dates-reason">Reason for change *</Label>
+              <Textarea
+                id="dates-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why are these dates changing?"
+                rows={2}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              isSubmitting ||
+              (reviewInterval !== "none" && !nextReviewDate) ||
+              (changesExistingDates && !reason.trim())
+            }
+          >
+            {isSubmitting ? "Saving..." : "Save Dates"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { PDFReader } from "./PDFReader";
+import type { TextRange } from "@/lib/pdfTextLayer";
 
 interface DocumentPDFDrawerProps {
   isOpen: boolean;
@@ -16,6 +17,7 @@ interface DocumentPDFDrawerProps {
   documentName: string;
   highlightedPage?: number;
   searchText?: string;
+  highlightRange?: TextRange;
 }
 
 export function DocumentPDFDrawer({
@@ -25,6 +27,7 @@ export function DocumentPDFDrawer({
   documentName,
   highlightedPage,
   searchText,
+  highlightRange,
 }: DocumentPDFDrawerProps) {
   console.log('📄 Opening PDF Drawer:', { documentUrl });
   return (
@@ -48,6 +51,7 @@ export function DocumentPDFDrawer({
             fileName={documentName}
             highlightedPage={highlightedPage}
             searchText={searchText}
+            highlightRange={highlightRange}
           />
         </div>
       </SheetContent>
@@ -0,0 +1,321 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CheckCircle2, ClipboardCheck, MessageSquare, Send, UserPlus, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DocumentStatusBadge } from "./DocumentStatusBadge";
+import { useAppData } from "@/hooks/useAppData";
+import { useDocumentReview } from "@/hooks/useDocumentReview";
+import {
+  DOCUMENT_STATUS_LABELS,
+  DocumentStatus,
+  getDocumentStatus,
+  REVIEW_DECISION_LABELS,
+  ReviewDecision,
+} from "@/services/documentReviewService";
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  pending: "bg-gray-100 text-gray-700 border-gray-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  changes_requested: "bg-red-100 text-red-800 border-red-200",
+};
+
+// The path a document takes to be used; superseded and archived come after
+const LIFECYCLE: DocumentStatus[] = ["draft", "in_review", "approved", "effective"];
+
+interface DocumentReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: any | null;
+  // Assigning reviewers and moving the document through its lifecycle
+  canManage?: boolean;
+}
+
+/**
+ * Review of a trial document: assigned reviewers with their decisions and
+ * comments, and the steps from draft to effective
+ */
+export function DocumentReviewDialog({
+  open,
+  onOpenChange,
+  document,
+  canManage = true,
+}: DocumentReviewDialogProps) {
+  const { memberId } = useAppData();
+  const {
+    reviews,
+    team,
+    myReview,
+    isLoading,
+    assignReviewers,
+    removeReviewer,
+    submitForReview,
+    withdraw,
+    decide,
+    addComment,
+    makeEffective,
+    isUpdating,
+  } = useDocumentReview(document, memberId);
+  const [reviewerId, setReviewerId] = useState("");
+  const [comment, setComment] = useState("");
+
+  if (!document) return null;
+
+  const status = getDocumentStatus(document);
+  const isOpenForReviewers = status === "draft" || status === "in_review";
+  const availableReviewers = team.filter(
+    (member) => !reviews.some((review) => review.reviewer_id === member.id)
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const handleAssign = () =>
+    run(async () => {
+      await assignReviewers([reviewerId]);
+      setReviewerId("");
+    });
+
+  const handleDecision = (decision: "approved" | "changes_requested") =>
+    run(async () => {
+      await decide({ review: myReview!, decision, comment });
+      setComment("");
+    });
+
+  const handleComment = () =>
+    run(async () => {
+      await addComment({ reviewId: myReview!.id, body: comment });
+      setComment("");
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Document Review
+            <DocumentStatusBadge status={document.status} />
+          </DialogTitle>
+          <DialogDescription>{document.document_name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Lifecycle */}
+          <div className="flex items-center gap-1 text-xs">
+            {LIFECYCLE.map((step, index) => {
+              const reached = LIFECYCLE.indexOf(status) >= index || status === "superseded";
+              return (
+                <React.Fragment key={step}>
+                  {index > 0 && <div className="h-px w-6 bg-gray-300" />}
+                  <span
+                    className={`px-2 py-1 rounded ${
+                      step === status
+                        ? "bg-blue-600 text-white"
+                        : reached
+                        ? "bg-blue-50 text-blue-700"
+                        : "bg-gray-50 text-gray-400"
+                    }`}
+                  >
+                    {DOCUMENT_STATUS_LABELS[step]}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          {(status === "superseded" || status === "archived") && (
+            <p className="text-sm text-gray-500">
+              This document is {DOCUMENT_STATUS_LABELS[status].toLowerCase()} and no longer in use.
+            </p>
+          )}
+
+          {/* Reviewers */}
+          <div className="space-y-2">
+            <Label>Reviewers</Label>
+            {isLoading ? (
+              <div className="h-16 bg-gray-100 rounded animate-pulse" />
+            ) : reviews.length === 0 ? (
+              <p className="text-sm text-gray-500">No reviewers assigned.</p>
+            ) : (
+              reviews.map((review) => {
+                const decision = review.decision as ReviewDecision;
+                return (
+                  <div key={review.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm">
+                        <span className="font-medium">{review.reviewer?.name}</span>
+                        {review.reviewer_id === memberId && (
+                          <span className="text-gray-500"> (you)</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={`text-xs ${DECISION_STYLES[decision]}`}>
+                          {REVIEW_DECISION_LABELS[decision]}
+                        </Badge>
+                        {review.decided_at && (
+                          <span className="text-xs text-gray-500">
+                            {format(parseISO(review.decided_at), "MMM d, yyyy HH:mm")}
+                          </span>
+                        )}
+                        {canManage && isOpenForReviewers && decision === "pending" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => run(() => removeReviewer(review.id))}
+                            disabled={isUpdating}
+                            title="Remove reviewer"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {review.document_review_comments.map((reviewComment) => (
+                      <div
+                        key={reviewComment.id}
+                        className="text-sm bg-gray-50 rounded p-2 flex gap-2"
+                      >
+                        <MessageSquare className="h-3 w-3 mt-1 text-gray-400 shrink-0" />
+                        <div>
+                          <p className="whitespace-pre-wrap">{reviewComment.body}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {format(parseISO(reviewComment.created_at), "MMM d, yyyy HH:mm")}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })
+            )}
+
+            {canManage && isOpenForReviewers && (
+              <div className="flex gap-2">
+                <Select value={reviewerId} onValueChange={setReviewerId}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue
+                      placeholder={
+                        availableReviewers.length === 0
+                          ? "Everyone on the trial team is assigned"
+                          : "Add a reviewer from the trial team"
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableReviewers.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9"
+                  onClick={handleAssign}
+                  disabled={!reviewerId || isUpdating}
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* The current member's review */}
+          {myReview && status === "in_review" && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <Label htmlFor="review-comment">Your review</Label>
+              <Textarea
+                id="review-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comments for the author (required when requesting changes)"
+                rows={3}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleComment}
+                  disabled={!comment.trim() || isUpdating}
+                >
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  Comment
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-700 border-red-300 hover:bg-red-50"
+                  onClick={() => handleDecision("changes_requested")}
+                  disabled={!comment.trim() || isUpdating}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Request Changes
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleDecision("approved")}
+                  disabled={isUpdating || myReview.decision === "approved"}
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {canManage && (status === "draft" || status === "in_review" || status === "approved") && (
+          <DialogFooter>
+            {status === "draft" && (
+              <Button
+                onClick={() => run(() => submitForReview())}
+                disabled={reviews.length === 0 || isUpdating}
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Submit for Review
+              </Button>
+            )}
+            {status === "in_review" && (
+              <Button variant="outline" onClick={() => run(() => withdraw())} disabled={isUpdating}>
+                Withdraw from Review
+              </Button>
+            )}
+            {status === "approved" && (
+              <Button onClick={() => run(() => makeEffective())} disabled={isUpdating || !memberId}>
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Make Effective
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
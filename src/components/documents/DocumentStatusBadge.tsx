@@ -0,0 +1,25 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  DOCUMENT_STATUS_LABELS,
+  DocumentStatus,
+  getDocumentStatus,
+} from "@/services/documentReviewService";
+
+const STATUS_STYLES: Record<DocumentStatus, string> = {
+  draft: "bg-gray-100 text-gray-800 border-gray-200",
+  in_review: "bg-amber-100 text-amber-800 border-amber-200",
+  approved: "bg-blue-100 text-blue-800 border-blue-200",
+  effective: "bg-green-100 text-green-800 border-green-200",
+  superseded: "bg-purple-100 text-purple-800 border-purple-200",
+  archived: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+export function DocumentStatusBadge({ status }: { status: string | null }) {
+  const documentStatus = getDocumentStatus({ status });
+  return (
+    <Badge variant="outline" className={STATUS_STYLES[documentStatus]}>
+      {DOCUMENT_STATUS_LABELS[documentStatus]}
+    </Badge>
+  );
+}
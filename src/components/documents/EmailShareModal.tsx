@@ -12,7 +12,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Loader2, Plus, X } from "lucide-react";
+import { Mail, Loader2, Plus, X, AlertTriangle } from "lucide-react";
+import { Source } from "./ResponseActionButtons";
+import {
+  getEmailShareService,
+  RecipientDeliveryResult,
+} from "@/services/emailShareService";
 
 interface EmailShareModalProps {
   isOpen: boolean;
@@ -20,6 +25,7 @@ interface EmailShareModalProps {
   messageContent: string;
   originalPrompt: string;
   trialId: string;
+  sources?: Source[];
 }
 
 export function EmailShareModal({
@@ -28,10 +34,15 @@ export function EmailShareModal({
   messageContent,
   originalPrompt,
   trialId,
+  sources = [],
 }: EmailShareModalProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [recipients, setRecipients] = useState<string[]>([""]);
+  // Recipients the last send attempt could not deliver to
+  const [failedDeliveries, setFailedDeliveries] = useState<
+    RecipientDeliveryResult[]
+  >([]);
   const [subject, setSubject] = useState(
     `Document AI Insights - Trial ${trialId}`
   );
@@ -75,21 +86,47 @@ export function EmailShareModal({
         return;
       }
 
-      // For now, simulate API call (replace with actual email service)
-      await simulateEmailSend(validRecipients, subject, message);
+      const result = await getEmailShareService().shareResponse({
+        trialId,
+        recipients: validRecipients,
+        subject,
+        message,
+        prompt: originalPrompt,
+        response: messageContent,
+        sources,
+      });
+
+      const failed = result.results.filter((r) => r.status === "failed");
+      const sentCount = result.results.length - failed.length;
+
+      if (failed.length === 0) {
+        toast({
+          title: "Email Sent Successfully",
+          description: `Shared with ${sentCount} recipient(s)`,
+        });
+
+        onClose();
+        resetForm();
+        return;
+      }
+
+      // Keep only the failed recipients so the user can fix them and retry
+      setFailedDeliveries(failed);
+      setRecipients(failed.map((r) => r.email));
 
       toast({
-        title: "Email Sent Successfully",
-        description: `Shared with ${validRecipients.length} recipient(s)`,
+        title: sentCount > 0 ? "Email Partially Sent" : "Email Failed",
+        description: `Delivered to ${sentCount} of ${result.results.length} recipient(s)`,
+        variant: "destructive",
       });
-
-      onClose();
-      resetForm();
     } catch (error) {
       console.error('Error sending email:', error);
       toast({
         title: "Email Failed",
-        description: "There was an error sending the email",
+        description:
+          error instanceof Error
+            ? error.message
+            : "There was an error sending the email",
         variant: "destructive",
       });
     } finally {
@@ -99,6 +136,7 @@ export function EmailShareModal({
 
   const resetForm = () => {
     setRecipients([""]);
+    setFailedDeliveries([]);
     setSubject(`Document AI Insights - Trial ${trialId}`);
     setMessage(
       `I wanted to share some insights from our Document AI analysis.\n\nOriginal Question:\n${originalPrompt}\n\nAI Response:\n${messageContent}\n\nBest regards`
@@ -119,6 +157,24 @@ export function EmailShareModal({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Delivery failures from the last attempt */}
+          {failedDeliveries.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-red-800 mb-2 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Could not deliver to {failedDeliveries.length} recipient(s)
+              </h4>
+              <ul className="text-xs text-red-700 space-y-1">
+                {failedDeliveries.map((failure) => (
+                  <li key={failure.email}>
+                    <strong>{failure.email}</strong>
+                    {failure.error && `: ${failure.error}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Recipients Section */}
           <div className="space-y-4">
             <Label className="text-sm font-medium">Recipients</Label>
@@ -232,28 +288,3 @@ function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
 }
-
-async function simulateEmailSend(
-  recipients: string[],
-  subject: string,
-  message: string
-): Promise<void> {
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 2000));
-
-  // In a real implementation, this would call your email service
-  // e.g., Supabase Edge Functions, SendGrid, etc.
-  console.log('Email would be sent with:', {
-    to: recipients,
-    subject,
-    message,
-    timestamp: new Date().toISOString(),
-  });
-
-  // For demo purposes, randomly succeed or fail
-  if (Math.random() > 0.1) {
-    return Promise.resolve();
-  } else {
-    throw new Error('Simulated email sending failure');
-  }
-}
\ No newline at end of file
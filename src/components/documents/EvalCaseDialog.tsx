@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { EvalCaseInput } from "@/services/assistantEvalService";
+
+interface EvalCaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSubmitting: boolean;
+  onSubmit: (input: EvalCaseInput) => Promise<unknown>;
+}
+
+// "12, 14-16" -> [12, 14, 15, 16]
+const parsePages = (value: string): number[] => {
+  const pages = value.split(",").flatMap((part) => {
+    const [from, to] = part.split("-").map((n) => parseInt(n.trim(), 10));
+    if (!Number.isInteger(from) || from < 1) return [];
+    if (!Number.isInteger(to) || to < from) return [from];
+    return Array.from({ length: Math.min(to - from + 1, 50) }, (_, i) => from + i);
+  });
+  return [...new Set(pages)].sort((a, b) => a - b);
+};
+
+/**
+ * Add a curated question with its expected answer and cited pages
+ */
+export function EvalCaseDialog({ open, onOpenChange, isSubmitting, onSubmit }: EvalCaseDialogProps) {
+  const [question, setQuestion] = useState("");
+  const [expectedAnswer, setExpectedAnswer] = useState("");
+  const [pages, setPages] = useState("");
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({
+        question: question.trim(),
+        expected_answer: expectedAnswer.trim(),
+        expected_pages: parsePages(pages),
+      });
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Question</DialogTitle>
+          <DialogDescription>
+            Answers are scored against the expected answer and pages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="eval-question">Question *</Label>
+            <Textarea
+              id="eval-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="eval-answer">Expected answer *</Label>
+            <Textarea
+              id="eval-answer"
+              value={expectedAnswer}
+              onChange={(e) => setExpectedAnswer(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="eval-pages">Expected pages</Label>
+            <Input
+              id="eval-pages"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder="e.g. 14, 22-23"
+            />
+            <p className="text-xs text-gray-500">
+              Leave empty to skip citation scoring for this question.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !question.trim() || !expectedAnswer.trim()}
+          >
+            {isSubmitting ? "Saving..." : "Add Question"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  assistantEvalService,
+  EvalCase,
+  EvalRun,
+  formatEvalCost,
+  formatEvalLatency,
+  formatEvalScore,
+} from "@/services/assistantEvalService";
+
+interface EvalRunResultsDialogProps {
+  run: EvalRun;
+  cases: EvalCase[];
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Per-question answers and scores of one eval run
+ */
+export function EvalRunResultsDialog({ run, cases, onOpenChange }: EvalRunResultsDialogProps) {
+  const { data: results = [], isLoading } = useQuery({
+    queryKey: ["assistant-eval-results", run.id],
+    queryFn: () => assistantEvalService.getResults(run.id),
+  });
+
+  const casesById = new Map(cases.map((evalCase) => [evalCase.id, evalCase]));
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{run.target_label}</DialogTitle>
+          <DialogDescription>
+            {format(parseISO(run.started_at), "MMM d, yyyy HH:mm")} · page accuracy{" "}
+            {formatEvalScore(run.page_accuracy)} · answer overlap{" "}
+            {formatEvalScore(run.answer_overlap)} · {formatEvalLatency(run.avg_latency_ms)} avg ·{" "}
+            {formatEvalCost(run.total_cost)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading results...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40%]">Question / answer</TableHead>
+                <TableHead>Pages (cited / expected)</TableHead>
+                <TableHead>Page accuracy</TableHead>
+                <TableHead>Overlap</TableHead>
+                <TableHead>Latency</TableHead>
+                <TableHead>Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => {
+                const evalCase = casesById.get(result.case_id);
+                return (
+                  <TableRow key={result.id}>
+                    <TableCell className="align-top">
+                      <div className="font-medium text-sm">
+                        {evalCase?.question || "Deleted question"}
+                      </div>
+                      {result.error ? (
+                        <div className="text-xs text-red-600 mt-1">{result.error}</div>
+                      ) : (
+                        <div className="text-xs text-gray-600 mt-1 line-clamp-4 whitespace-pre-line">
+                          {result.answer}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top text-xs">
+                      {result.cited_pages.join(", ") || "—"} /{" "}
+                      {evalCase?.expected_pages.join(", ") || "—"}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {formatEvalScore(result.page_accuracy)}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {formatEvalScore(result.answer_overlap)}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {formatEvalLatency(result.latency_ms)}
+                    </TableCell>
+                    <TableCell className="align-top">{formatEvalCost(result.cost)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DocumentDatesDialog } from "./DocumentDatesDialog";
+import { useDocumentExpiry } from "@/hooks/useDocumentExpiry";
+import { describeDue, DueStatus, getDueDocuments } from "@/services/documentExpiryService";
+
+const DUE_STYLES: Record<DueStatus, string> = {
+  overdue: "bg-red-100 text-red-800 border-red-200",
+  due_soon: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+interface ExpiringDocumentsPanelProps {
+  trialId: string;
+  documents: any[];
+  canEditDocuments?: boolean;
+}
+
+/**
+ * Effective documents that have expired, are overdue for re-review, or will be
+ * within the reminder window. Hidden when nothing is due.
+ */
+export function ExpiringDocumentsPanel({
+  trialId,
+  documents,
+  canEditDocuments = true,
+}: ExpiringDocumentsPanelProps) {
+  const { updateDates, markReviewed, isUpdating } = useDocumentExpiry(trialId);
+  const [datesDocument, setDatesDocument] = useState<any>(null);
+
+  const dueDocuments = getDueDocuments(documents);
+  if (dueDocuments.length === 0) return null;
+
+  const overdueCount = dueDocuments.filter((due) => due.status === "overdue").length;
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-amber-600" />
+          Expiring Soon
+          {overdueCount > 0 && (
+            <Badge variant="outline" className={`text-xs ${DUE_STYLES.overdue}`}>
+              {overdueCount} past due
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {dueDocuments.map((due) => (
+          <div
+            key={due.document.id}
+            className="flex items-center justify-between gap-3 rounded-lg border p-3"
+          >
+            <div className="min-w-0">
+              <div className="font-medium text-sm truncate">{due.document.document_name}</div>
+              <div className="text-xs text-gray-500">
+                {due.kind === "expiry" ? "Expiry" : "Re-review"}{" "}
+                {format(parseISO(due.date), "MMM d, yyyy")}
+                {due.document.uploaded_by_member?.name &&
+                  ` · uploaded by ${due.document.uploaded_by_member.name}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant="outline" className={`text-xs ${DUE_STYLES[due.status]}`}>
+                {describeDue(due)}
+              </Badge>
+              {canEditDocuments &&
+                due.kind === "review" &&
+                due.document.review_interval_months && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={async () => {
+                      try {
+                        await markReviewed(due.document);
+                      } catch {
+                        // The error toast comes from the mutation
+                      }
+                    }}
+                    disabled={isUpdating}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Mark Reviewed
+                  </Button>
+                )}
+              {canEditDocuments && (
+                <Button size="sm" variant="ghost" onClick={() => setDatesDocument(due.document)}>
+                  Dates
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {datesDocument && (
+        <DocumentDatesDialog
+          key={datesDocument.id}
+          open={!!datesDocument}
+          onOpenChange={(open) => !open && setDatesDocument(null)}
+          document={datesDocument}
+          isSubmitting={isUpdating}
+          onSubmit={(dates, reason) =>
+            updateDates({ documentId: datesDocument.id, dates, reason })
+          }
+        />
+      )}
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import type { PDFDocumentProxy } from "pdfjs-dist";
 import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { buildTextLayer, getItemRange, TextLayer, TextRange } from "@/lib/pdfTextLayer";
 
 // Setup PDF.js worker - use exact same version as the installed package
 pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
@@ -16,14 +17,19 @@ interface PDFReaderProps {
   fileUrl: string;
   fileName?: string;
   highlightedPage?: number; // Page to scroll to and highlight
-  searchText?: string; // Text to search and highlight
+  searchText?: string; // Text of the cited quote, shown above the page
+  highlightRange?: TextRange; // Verified quote on highlightedPage, in text layer offsets
 }
 
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
 export function PDFReader({
   fileUrl,
   fileName = "Document",
   highlightedPage,
   searchText,
+  highlightRange,
 }: PDFReaderProps) {
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
@@ -31,149 +37,25 @@ export function PDFReader({
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Improved highlighting with fuzzy matching and retry logic
-  const highlightSearchText = useCallback(() => {
-    if (!searchText) {
-      console.log('❌ No search text provided');
-      return;
-    }
-
-    console.log('🎯 Starting highlight for:', searchText.substring(0, 50));
-    console.log('🎯 Current page number:', pageNumber);
-
-    // Normalize text: remove extra whitespace, normalize quotes
-    const normalizeText = (text: string) => {
-      return text
-        .replace(/\s+/g, ' ') // Collapse multiple spaces
-        .replace(/[""]/g, '"') // Normalize quotes
-        .replace(/['']/g, "'")
-        .trim()
-        .toLowerCase();
-    };
-
-    const attemptHighlight = (attempt: number = 1, maxAttempts: number = 5) => {
-      const pdfSpans = document.querySelectorAll('.react-pdf__Page__textContent span');
-
-      if (pdfSpans.length === 0) {
-        if (attempt < maxAttempts) {
-          console.log(`⏳ Attempt ${attempt}/${maxAttempts}: Waiting for PDF text layer...`);
-          // setTimeout(() => attemptHighlight(attempt + 1, maxAttempts), 100 * attempt);
-        } else {
-          console.log('❌ No PDF spans found after multiple attempts');
-        }
-        return;
-      }
-
-      console.log(`📊 Found ${pdfSpans.length} PDF spans on attempt ${attempt}`);
-
-      // Clear any existing highlights first
-      pdfSpans.forEach(span => {
-        (span as HTMLElement).style.backgroundColor = '';
-      });
-
-      // Get normalized full page text
-      const allText = Array.from(pdfSpans).map(span => span.textContent || '').join(' ');
-      const normalizedPageText = normalizeText(allText);
-      const normalizedSearchText = normalizeText(searchText);
-
-      console.log('📖 Page text length:', normalizedPageText.length);
-
-      // Strategy 1: Try exact normalized match
-      if (normalizedPageText.includes(normalizedSearchText)) {
-        console.log('✅ Found exact normalized match!');
-        // highlightExactMatch(pdfSpans, normalizedPageText, normalizedSearchText);
-        return;
-      }
-
-      // Strategy 2: Try first 10, 9, 8... down to 5 words
-      const searchWords = normalizedSearchText.split(' ');
-      for (let wordCount = Math.min(10, searchWords.length); wordCount >= 5; wordCount--) {
-        const partialSearch = searchWords.slice(0, wordCount).join(' ');
-        if (normalizedPageText.includes(partialSearch)) {
-          console.log(`✅ Found ${wordCount}-word match!`);
-          // highlightPartialMatch(pdfSpans, partialSearch);
-          return;
-        }
-      }
-
-      // Strategy 3: Highlight individual significant words (fallback)
-      const significantWords = searchWords.filter(w => w.length > 4); // Words longer than 4 chars
-      if (significantWords.length > 0) {
-        console.log(`🔍 Highlighting ${significantWords.length} significant words as fallback`);
-        highlightSignificantWords(pdfSpans, significantWords);
-      } else {
-        console.log('❌ No matches found with any strategy');
-      }
-    };
-
-    const highlightExactMatch = (
-      pdfSpans: NodeListOf<Element>,
-      normalizedPageText: string,
-      normalizedSearchText: string
-    ) => {
-      const matchStart = normalizedPageText.indexOf(normalizedSearchText);
-      const matchEnd = matchStart + normalizedSearchText.length;
-
-      let currentPos = 0;
-      let foundMatches = 0;
-
-      pdfSpans.forEach((span) => {
-        const spanText = span.textContent || '';
-        const normalizedSpanText = normalizeText(spanText);
-        const spanStart = currentPos;
-        const spanEnd = currentPos + normalizedSpanText.length + 1; // +1 for space
-
-        if (spanStart < matchEnd && spanEnd > matchStart) {
-          (span as HTMLElement).style.backgroundColor = '#ffeb3b';
-          (span as HTMLElement).style.color = '#000';
-          (span as HTMLElement).style.padding = '2px';
-          foundMatches++;
-        }
-
-        currentPos = spanEnd;
-      });
-
-      console.log(`🎯 Highlighted ${foundMatches} spans with exact match`);
-    };
-
-    const highlightPartialMatch = (pdfSpans: NodeListOf<Element>, partialSearch: string) => {
-      let foundMatches = 0;
-      pdfSpans.forEach((span) => {
-        const spanText = span.textContent || '';
-        const normalizedSpanText = normalizeText(spanText);
-
-        if (normalizedSpanText.includes(partialSearch) || partialSearch.includes(normalizedSpanText)) {
-          (span as HTMLElement).style.backgroundColor = '#ffeb3b';
-          (span as HTMLElement).style.color = '#000';
-          (span as HTMLElement).style.padding = '2px';
-          foundMatches++;
-        }
-      });
-      console.log(`🎯 Highlighted ${foundMatches} spans with partial match`);
-    };
-
-    const highlightSignificantWords = (pdfSpans: NodeListOf<Element>, significantWords: string[]) => {
-      let foundMatches = 0;
-      pdfSpans.forEach((span) => {
-        const spanText = span.textContent || '';
-        const normalizedSpanText = normalizeText(spanText);
-
-        for (const word of significantWords) {
-          if (normalizedSpanText.includes(word)) {
-            (span as HTMLElement).style.backgroundColor = '#ffe57f'; // Lighter yellow for fallback
-            (span as HTMLElement).style.color = '#000';
-            (span as HTMLElement).style.padding = '2px';
-            foundMatches++;
-            break;
-          }
-        }
-      });
-      console.log(`🎯 Highlighted ${foundMatches} spans with significant words (fallback)`);
-    };
-
-    // Start highlighting with retry logic
-    // attemptHighlight();
-  }, [searchText, pageNumber]);
+  const [textLayer, setTextLayer] = useState<TextLayer | null>(null);
+
+  // Wraps the verified quote in a <mark> as the text layer renders
+  const renderText = useCallback(
+    ({ str, itemIndex }: { str: string; itemIndex: number }) => {
+      const itemRange =
+        textLayer && highlightRange && pageNumber === highlightedPage
+          ? getItemRange(textLayer, itemIndex, str.length, highlightRange)
+          : null;
+      if (!itemRange) return escapeHtml(str);
+
+      return (
+        escapeHtml(str.slice(0, itemRange.start)) +
+        `<mark class="citation-highlight">${escapeHtml(str.slice(itemRange.start, itemRange.end))}</mark>` +
+        escapeHtml(str.slice(itemRange.end))
+      );
+    },
+    [textLayer, highlightRange, pageNumber, highlightedPage]
+  );
 
   function onDocumentLoadSuccess({ numPages }: { numPages: number }) {
     console.log("📄 PDF loaded successfully:", { numPages, fileName, fileUrl });
@@ -185,9 +67,6 @@ export function PDFReader({
     if (highlightedPage && highlightedPage <= numPages) {
       console.log("📍 Navigating to highlighted page:", highlightedPage);
       setPageNumber(highlightedPage);
-
-      // Apply highlighting after page loads
-      // setTimeout(highlightSearchText, 100);
     }
   }
 
@@ -239,15 +118,6 @@ export function PDFReader({
     }
   }, [highlightedPage, numPages]);
 
-  // Apply highlighting when searchText changes
-  // React.useEffect(() => {
-  //   if (searchText && numPages > 0) {
-  //     // Quick delay to ensure text layers are rendered
-  //     const timeoutId = setTimeout(highlightSearchText, 200);
-  //     return () => clearTimeout(timeoutId);
-  //   }
-  // }, [searchText, numPages, highlightSearchText]);
-
   if (error) {
     return (
       <Card className="h-full">
@@ -362,10 +232,19 @@ export function PDFReader({
                   }
                   renderTextLayer={true}
                   renderAnnotationLayer={false}
+                  customTextRenderer={renderText}
+                  onGetTextSuccess={({ items }) =>
+                    setTextLayer(
+                      buildTextLayer(items.map((item) => ("str" in item ? item : { str: "" })))
+                    )
+                  }
+                  onRenderTextLayerSuccess={() =>
+                    document
+                      .querySelector(".react-pdf__Page__textContent mark.citation-highlight")
+                      ?.scrollIntoView({ block: "center" })
+                  }
                   onRenderSuccess={() => {
                     console.log('📄 Page rendered:', pageNumber);
-                    // Apply highlighting immediately after page renders
-                    // setTimeout(highlightSearchText, 50);
                   }}
                 />
               </div>
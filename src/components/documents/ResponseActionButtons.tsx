@@ -7,8 +7,9 @@ import {
   Loader2 
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { renderResponseHTML } from "../../../supabase/functions/_shared/responseExport";
 
-interface Source {
+export interface Source {
   section: string;
   page?: number;
   content: string;
@@ -45,7 +46,7 @@ export function ResponseActionButtons({
     setIsExporting(true);
     try {
       // Generar contenido HTML para exportar
-      const htmlContent = generateExportHTML(originalPrompt, messageContent, trialId);
+      const htmlContent = generateExportHTML(originalPrompt, messageContent, trialId, sources);
       
       // Crear blob y descargar
       const blob = new Blob([htmlContent], { type: 'text/html' });
@@ -161,142 +162,28 @@ export function ResponseActionButtons({
   );
 }
 
-// Helper function to generate HTML content for export
-function generateExportHTML(prompt: string, response: string, trialId: string): string {
-  const currentDate = new Date().toLocaleDateString('en-US', { 
-    year: 'numeric', 
-    month: 'long', 
+// Same renderer as the emails sent by the share-response edge function
+function generateExportHTML(
+  prompt: string,
+  response: string,
+  trialId: string,
+  sources: Source[] = []
+): string {
+  const exportedAt = new Date().toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit'
   });
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Document AI Conversation - ${currentDate}</title>
-    <style>
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            line-height: 1.6;
-            color: #333;
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 40px 20px;
-            background-color: #f8f9fa;
-        }
-        .container {
-            background: white;
-            padding: 40px;
-            border-radius: 12px;
-            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-        }
-        .header {
-            border-bottom: 3px solid #3b82f6;
-            padding-bottom: 20px;
-            margin-bottom: 30px;
-        }
-        .header h1 {
-            margin: 0;
-            color: #1e293b;
-            font-size: 28px;
-            font-weight: 700;
-        }
-        .header .meta {
-            color: #64748b;
-            font-size: 14px;
-            margin-top: 8px;
-        }
-        .conversation {
-            space-y: 24px;
-        }
-        .message {
-            margin-bottom: 32px;
-        }
-        .message-user {
-            background: #eff6ff;
-            border-left: 4px solid #3b82f6;
-            padding: 20px;
-            border-radius: 8px;
-            margin-bottom: 16px;
-        }
-        .message-user h3 {
-            margin: 0 0 12px 0;
-            color: #1e40af;
-            font-size: 16px;
-            font-weight: 600;
-        }
-        .message-user .content {
-            color: #1e293b;
-            white-space: pre-line;
-        }
-        .message-assistant {
-            background: #f8fafc;
-            border: 1px solid #e2e8f0;
-            border-radius: 8px;
-            padding: 24px;
-        }
-        .message-assistant h3 {
-            margin: 0 0 16px 0;
-            color: #059669;
-            font-size: 16px;
-            font-weight: 600;
-        }
-        .message-assistant .content {
-            color: #1e293b;
-            white-space: pre-line;
-        }
-        .footer {
-            margin-top: 40px;
-            padding-top: 20px;
-            border-top: 1px solid #e2e8f0;
-            text-align: center;
-            color: #64748b;
-            font-size: 12px;
-        }
-        .footer .logo {
-            font-weight: 600;
-            color: #3b82f6;
-        }
-        @media print {
-            body { background: white; }
-            .container { box-shadow: none; }
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>Document AI Conversation</h1>
-            <div class="meta">
-                <strong>Trial ID:</strong> ${trialId} <br>
-                <strong>Exported:</strong> ${currentDate} <br>
-                <strong>Generated by:</strong> Themison Document AI Assistant
-            </div>
-        </div>
-        
-        <div class="conversation">
-            <div class="message">
-                <div class="message-user">
-                    <h3>🔍 User Question</h3>
-                    <div class="content">${prompt}</div>
-                </div>
-                
-                <div class="message-assistant">
-                    <h3>🤖 AI Assistant Response</h3>
-                    <div class="content">${response}</div>
-                </div>
-            </div>
-        </div>
-        
-        <div class="footer">
-            <div class="logo">Themison Clinical AI Assistant</div>
-            <div>Powered by advanced RAG technology for clinical trials</div>
-            <div style="margin-top: 8px;">Document ID: conversation_${Date.now()}</div>
-        </div>
-    </div>
-</body>
-</html>`;
-}
\ No newline at end of file
+  return renderResponseHTML(
+    {
+      prompt,
+      response,
+      sources,
+      details: [`Trial ID: ${trialId}`, `Exported: ${exportedAt}`],
+    },
+    'Document AI Conversation'
+  );
+}
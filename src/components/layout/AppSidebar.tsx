@@ -11,10 +11,12 @@ import {
   Puzzle,
   HelpCircle,
   Settings as SettingsIcon,
+  CalendarDays,
 } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useUnreadNotificationCount } from "@/hooks/useNotifications";
 import { ChatHistory } from "./ChatHistory";
 
 export const AppSidebar = () => {
@@ -22,6 +24,7 @@ export const AppSidebar = () => {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const location = useLocation();
+  const unreadNotifications = useUnreadNotificationCount();
 
   const navigationItems = [
     {
@@ -36,6 +39,12 @@ export const AppSidebar = () => {
       icon: FileText,
       current: location.pathname.startsWith("/trials"),
     },
+    {
+      name: "Visit Calendar",
+      href: "/visits",
+      icon: CalendarDays,
+      current: location.pathname.startsWith("/visits"),
+    },
     {
       name: "Document Assistant",
       href: "/document-assistant/select-trial",
@@ -53,6 +62,7 @@ export const AppSidebar = () => {
       href: "/notifications",
       icon: Bell,
       current: location.pathname.startsWith("/notifications"),
+      badge: unreadNotifications,
     },
     {
       name: "Integrations",
@@ -126,6 +136,11 @@ export const AppSidebar = () => {
                     }`}
                   />
                   {item.name}
+                  {!!item.badge && (
+                    <span className="ml-auto rounded-full bg-blue-600 px-2 py-0.5 text-xs font-semibold text-white">
+                      {item.badge > 99 ? "99+" : item.badge}
+                    </span>
+                  )}
                 </Link>
               );
             })}
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Bot, ArrowUp, ArrowDown, Plus, X, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAIProviderPolicy } from "@/hooks/useAIProviderPolicy";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getAIServiceSwitcher } from "@/services/aiServiceSwitcher";
+import type { AIServiceType } from "@/services/aiProviderRegistry";
+import { LoadingSpinner } from "./LoadingSpinner";
+
+export function AIProviderSettings() {
+  const { fallbackPolicy, isLoading, updateFallbackPolicy, isUpdating } =
+    useAIProviderPolicy();
+  const { isAdmin } = usePermissions();
+  const providers = getAIServiceSwitcher().getProviders();
+  const [policy, setPolicy] = useState<AIServiceType[]>(fallbackPolicy);
+
+  useEffect(() => {
+    setPolicy(fallbackPolicy);
+  }, [fallbackPolicy]);
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= policy.length) return;
+
+    const next = [...policy];
+    [next[index], next[target]] = [next[target], next[index]];
+    setPolicy(next);
+  };
+
+  const unusedProviders = providers.filter((p) => !policy.includes(p.id));
+  const hasChanges = policy.join(",") !== fallbackPolicy.join(",");
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading AI settings..." />;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+      <div className="flex items-center space-x-3 mb-2">
+        <Bot className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">
+          AI Provider Fallback
+        </h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        When the provider selected in the document assistant fails, these
+        providers are tried in order.
+      </p>
+
+      <div className="space-y-2">
+        {policy.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No fallback configured. Failed queries will not be retried.
+          </p>
+        )}
+        {policy.map((id, index) => {
+          const provider = providers.find((p) => p.id === id);
+          return (
+            <div
+              key={id}
+              className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-gray-500 w-5">
+                  {index + 1}.
+                </span>
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {provider?.label || id}
+                  </p>
+                  {provider?.description && (
+                    <p className="text-xs text-gray-500">
+                      {provider.description}
+                    </p>
+                  )}
+                </div>
+                {provider && !provider.isAvailable() && (
+                  <Badge variant="outline" className="text-amber-700">
+                    Not configured
+                  </Badge>
+                )}
+              </div>
+              {isAdmin && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => move(index, 1)}
+                    disabled={index === policy.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPolicy(policy.filter((p) => p !== id))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isAdmin && unusedProviders.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {unusedProviders.map((provider) => (
+            <Button
+              key={provider.id}
+              variant="outline"
+              size="sm"
+              onClick={() => setPolicy([...policy, provider.id])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              {provider.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="flex justify-end space-x-3 pt-6 mt-6 border-t border-gray-200">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setPolicy(fallbackPolicy)}
+            disabled={!hasChanges || isUpdating}
+          >
+            Reset
+          </Button>
+          <Button
+            onClick={() => updateFallbackPolicy(policy)}
+            disabled={!hasChanges || isUpdating}
+            className="min-w-[120px]"
+          >
+            {isUpdating ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                Save Policy
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
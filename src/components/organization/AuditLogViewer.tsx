@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Download, History, Search, Shield } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAppData } from "@/hooks/useAppData";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useOrganizationAuditLog } from "@/hooks/useAuditLog";
+import {
+  auditService,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+} from "@/services/auditService";
+import {
+  formatAuditField,
+  formatAuditValue,
+} from "@/components/audit/AuditHistoryPanel";
+import { ErrorBoundary } from "./ErrorBoundary";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  status_change: "Status change",
+  delete: "Deleted",
+};
+
+export function AuditLogViewer() {
+  const { members } = useAppData();
+  const { isAdmin } = usePermissions();
+
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [actorId, setActorId] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const { entries, isLoading, error } = useOrganizationAuditLog({
+    entityType: entityType === "all" ? undefined : entityType,
+    action: action === "all" ? undefined : action,
+    actorId: actorId === "all" ? undefined : actorId,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  });
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter((entry) =>
+      [entry.entity_label, entry.entity_id, entry.reason, entry.actor_name]
+        .filter(Boolean)
+        .some((value) => value!.toLowerCase().includes(term))
+    );
+  }, [entries, searchTerm]);
+
+  const handleExportCSV = () => {
+    const csv = auditService.toCSV(filteredEntries);
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="bg-white rounded-2xl border border-gray-100 p-12 text-center">
+        <Shield className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-600">
+          Only organization admins can view the audit trail.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Audit Trail</h2>
+            <p className="text-gray-600">
+              Every change to patients, documents and Q&A answers, with who
+              made it, when and why
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExportCSV}
+            disabled={filteredEntries.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            <div className="relative lg:col-span-2">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search entity, reason or user..."
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={entityType}
+              onValueChange={(value) =>
+                setEntityType(value as AuditEntityType | "all")
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Entity type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={action}
+              onValueChange={(value) => setAction(value as AuditAction | "all")}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger>
+                <SelectValue placeholder="User" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                aria-label="From date"
+              />
+              <Input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                aria-label="To date"
+              />
+            </div>
+          </div>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          {isLoading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading audit trail...
+            </div>
+          ) : error ? (
+            <div className="p-12 text-center text-red-600">
+              Failed to load the audit trail.
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <History className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              No audit entries match these filters.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Timestamp</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map((entry) => {
+                  const before = (entry.before || {}) as Record<string, unknown>;
+                  const after = (entry.after || {}) as Record<string, unknown>;
+
+                  return (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.created_at), "yyyy-MM-dd HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.actor_name || "Unknown user"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="font-medium text-gray-900">
+                          {entry.entity_label || entry.entity_id}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {AUDIT_ENTITY_LABELS[
+                            entry.entity_type as AuditEntityType
+                          ] || entry.entity_type}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">
+                          {ACTION_LABELS[entry.action as AuditAction] ||
+                            entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm max-w-md">
+                        {entry.changed_fields.map((field) => (
+                          <div key={field} className="break-words">
+                            <span className="text-gray-500">
+                              {formatAuditField(field)}:{" "}
+                            </span>
+                            <span className="text-red-700">
+                              {formatAuditValue(before[field])}
+                            </span>
+                            <span className="text-gray-400"> → </span>
+                            <span className="text-green-700">
+                              {formatAuditValue(after[field])}
+                            </span>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600 max-w-xs">
+                        {entry.reason || "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -12,20 +13,35 @@ import {
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAppData } from "@/hooks/useAppData";
+import { useTrialPermissionLevels } from "@/hooks/useTrialPermissions";
+import { useBudgetSummaries } from "@/hooks/useTrialBudget";
+import { formatBudgetAmount } from "@/services/budgetService";
+import { BudgetBurnChart, TrialSpendChart } from "@/components/budget/BudgetCharts";
+import { SponsorInvoicesPanel } from "@/components/budget/SponsorInvoicesPanel";
 
 interface TrialFinancial {
   id: string;
   name: string;
   phase: string;
   status: string;
-  budget_data: any;
   patient_count: number;
 }
 
 export function FinancialsManagement() {
-  const [trialsFinancial, setTrialsFinancial] = useState<TrialFinancial[]>([]);
+  const [allTrialsFinancial, setAllTrialsFinancial] = useState<TrialFinancial[]>(
+    []
+  );
   const [loading, setLoading] = useState(true);
   const { organizationId } = useAppData();
+  const { can, isLoading: permissionsLoading } = useTrialPermissionLevels();
+
+  // Only trials where the member's role grants access to finances
+  const trialsFinancial = allTrialsFinancial.filter((trial) =>
+    can(trial.id, "finances.view")
+  );
+  const { summaries, isLoading: budgetsLoading } = useBudgetSummaries(
+    trialsFinancial.map((trial) => trial.id)
+  );
 
   useEffect(() => {
     if (organizationId) {
@@ -37,7 +53,7 @@ export function FinancialsManagement() {
     try {
       setLoading(true);
 
-      // Get trials with budget data and patient counts
+      // Get trials with patient counts; budgets come from useBudgetSummaries
       const { data: trials, error } = await supabase
         .from("trials")
         .select(
@@ -46,7 +62,6 @@ export function FinancialsManagement() {
           name,
           phase,
           status,
-          budget_data,
           trial_patients!inner(count)
         `
         )
@@ -69,7 +84,7 @@ export function FinancialsManagement() {
         })
       );
 
-      setTrialsFinancial(trialsWithCounts);
+      setAllTrialsFinancial(trialsWithCounts);
     } catch (error) {
       console.error("Error loading financial data:", error);
     } finally {
@@ -77,18 +92,30 @@ export function FinancialsManagement() {
     }
   };
 
-  // Calculate organization totals
-  const organizationTotals = trialsFinancial.reduce(
+  // Organization totals only add up trials budgeted in the most common currency
+  const currencyCounts = trialsFinancial.reduce<Record<string, number>>(
+    (acc, trial) => {
+      const currency = summaries[trial.id]?.currency;
+      if (currency) acc[currency] = (acc[currency] || 0) + 1;
+      return acc;
+    },
+    {}
+  );
+  const currency =
+    Object.entries(currencyCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || "USD";
+  const totalledTrials = trialsFinancial.filter(
+    (trial) => summaries[trial.id]?.currency === currency
+  );
+  const otherCurrencyTrials = trialsFinancial.length - totalledTrials.length;
+
+  const organizationTotals = totalledTrials.reduce(
     (acc, trial) => {
-      const budgetData = trial.budget_data || {};
-      const totalBudget = budgetData.total_budget || 0;
-      const spentToDate = budgetData.spent_to_date || 0;
-      const monthlyBurn = budgetData.burn_rate || 0;
+      const summary = summaries[trial.id];
 
       return {
-        totalBudget: acc.totalBudget + totalBudget,
-        totalSpent: acc.totalSpent + spentToDate,
-        totalMonthlyBurn: acc.totalMonthlyBurn + monthlyBurn,
+        totalBudget: acc.totalBudget + summary.totalBudget,
+        totalSpent: acc.totalSpent + summary.spentToDate,
+        totalMonthlyBurn: acc.totalMonthlyBurn + summary.monthlyBurnRate,
         totalPatients: acc.totalPatients + trial.patient_count,
       };
     },
@@ -105,13 +132,36 @@ export function FinancialsManagement() {
       ? organizationTotals.totalSpent / organizationTotals.totalPatients
       : 0;
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  // Cumulative spend of all totalled trials, month by month
+  const organizationMonthly = Object.values(
+    totalledTrials.reduce<
+      Record<string, { month: string; actual: number; cumulative: number | null; projected: number | null }>
+    >((acc, trial) => {
+      summaries[trial.id].monthly.forEach((point) => {
+        acc[point.month] ||= { month: point.month, actual: 0, cumulative: null, projected: null };
+        acc[point.month].actual += point.actual || 0;
+      });
+      return acc;
+    }, {})
+  )
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .filter((point) => point.month <= format(new Date(), "yyyy-MM"))
+    .map((point, index, points) => ({
+      ...point,
+      cumulative: points
+        .slice(0, index + 1)
+        .reduce((sum, p) => sum + p.actual, 0),
+    }));
+
+  const remainingBudget =
+    organizationTotals.totalBudget - organizationTotals.totalSpent;
+  const monthsLeft =
+    organizationTotals.totalMonthlyBurn > 0 && remainingBudget > 0
+      ? remainingBudget / organizationTotals.totalMonthlyBurn
+      : 0;
+
+  const formatCurrency = (amount: number, trialCurrency = currency) =>
+    formatBudgetAmount(amount, trialCurrency);
 
   const getBudgetAlertLevel = (utilization: number) => {
     if (utilization >= 90) return "critical";
@@ -119,7 +169,7 @@ export function FinancialsManagement() {
     return "ok";
   };
 
-  if (loading) {
+  if (loading || permissionsLoading || budgetsLoading) {
     return (
       <div className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -142,6 +192,13 @@ export function FinancialsManagement() {
         <p className="text-gray-600">
           Budget analysis and cost management across all trials
         </p>
+        {otherCurrencyTrials > 0 && (
+          <p className="text-xs text-gray-500 mt-1">
+            Totals are in {currency}; {otherCurrencyTrials} trial
+            {otherCurrencyTrials === 1 ? " is" : "s are"} budgeted in another
+            currency and only shown below.
+          </p>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -243,19 +300,41 @@ export function FinancialsManagement() {
           </div>
           <div>
             <div className="font-medium text-blue-600">
-              {organizationTotals.totalMonthlyBurn > 0
-                ? Math.round(
-                    (organizationTotals.totalBudget -
-                      organizationTotals.totalSpent) /
-                      organizationTotals.totalMonthlyBurn
-                  )
-                : 0}
+              {Math.round(monthsLeft)}
             </div>
             <div className="text-gray-500">Months Left</div>
           </div>
         </div>
       </Card>
 
+      {/* Charts */}
+      {totalledTrials.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Cumulative Spend
+            </h3>
+            <BudgetBurnChart
+              monthly={organizationMonthly}
+              totalBudget={organizationTotals.totalBudget}
+              currency={currency}
+            />
+          </Card>
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Budget vs Spent by Trial
+            </h3>
+            <TrialSpendChart
+              trials={totalledTrials.map((trial) => ({
+                name: trial.name,
+                summary: summaries[trial.id],
+              }))}
+              currency={currency}
+            />
+          </Card>
+        </div>
+      )}
+
       {/* Trials Breakdown */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -263,12 +342,13 @@ export function FinancialsManagement() {
         </h3>
         <div className="space-y-4">
           {trialsFinancial.map((trial) => {
-            const budgetData = trial.budget_data || {};
-            const totalBudget = budgetData.total_budget || 0;
-            const spentToDate = budgetData.spent_to_date || 0;
-            const utilization =
-              totalBudget > 0 ? (spentToDate / totalBudget) * 100 : 0;
+            const summary = summaries[trial.id];
+            if (!summary) return null;
+
+            const { totalBudget, spentToDate, utilization } = summary;
             const alertLevel = getBudgetAlertLevel(utilization);
+            const formatTrialCurrency = (amount: number) =>
+              formatCurrency(amount, summary.currency);
 
             return (
               <div
@@ -304,8 +384,8 @@ export function FinancialsManagement() {
                   <div className="flex justify-between text-sm">
                     <span>Budget Progress</span>
                     <span>
-                      {formatCurrency(spentToDate)} /{" "}
-                      {formatCurrency(totalBudget)} ({utilization.toFixed(1)}%)
+                      {formatTrialCurrency(spentToDate)} /{" "}
+                      {formatTrialCurrency(totalBudget)} ({utilization.toFixed(1)}%)
                     </span>
                   </div>
                   <Progress
@@ -320,10 +400,22 @@ export function FinancialsManagement() {
                   />
                   <div className="flex justify-between text-xs text-gray-500">
                     <span>
-                      Remaining: {formatCurrency(totalBudget - spentToDate)}
+                      Remaining: {formatTrialCurrency(summary.remaining)}
+                    </span>
+                    <span>
+                      {summary.isOverBudget
+                        ? "Over budget"
+                        : summary.projectedRunOutDate
+                        ? `Runs out ${format(
+                            parseISO(summary.projectedRunOutDate),
+                            "MMM d, yyyy"
+                          )}`
+                        : totalBudget === 0
+                        ? "No budget defined"
+                        : "No recent spend"}
                     </span>
                     <span>
-                      Burn: {formatCurrency(budgetData.burn_rate || 0)}/month
+                      Burn: {formatTrialCurrency(summary.monthlyBurnRate)}/month
                     </span>
                   </div>
                 </div>
@@ -332,6 +424,18 @@ export function FinancialsManagement() {
           })}
         </div>
       </Card>
+
+      {/* Invoicing */}
+      {trialsFinancial.length > 0 && (
+        <SponsorInvoicesPanel
+          trials={trialsFinancial.map((trial) => ({
+            id: trial.id,
+            name: trial.name,
+            currency: summaries[trial.id]?.currency || "USD",
+          }))}
+          canManage={(trialId) => can(trialId, "finances.manage")}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
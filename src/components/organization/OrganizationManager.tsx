@@ -1,13 +1,14 @@
 import React from "react";
-import { Building2, Users, Settings, Shield, BarChart3, DollarSign } from "lucide-react";
+import { Building2, Users, Settings, Shield, BarChart3, DollarSign, History } from "lucide-react";
 import { OrganizationOverview } from "./OrganizationOverview";
 import { MembersManagement } from "./MembersManagement";
 import { OrganizationSettings } from "./OrganizationSettings";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { PatientsManagement } from "./PatientsManagement.tsx";
 import { FinancialsManagement } from "./FinancialsManagement";
+import { AuditLogViewer } from "./AuditLogViewer";
 
-type TabType = "overview" | "members" | "roles" | "settings" | "patients" | "financials";
+type TabType = "overview" | "members" | "roles" | "settings" | "patients" | "financials" | "audit";
 
 interface TabItem {
   id: TabType;
@@ -47,6 +48,12 @@ const tabs: TabItem[] = [
     icon: Shield,
     description: "Configure custom roles and permissions",
   },
+  {
+    id: "audit",
+    name: "Audit Trail",
+    icon: History,
+    description: "Who changed what, when and why",
+  },
   {
     id: "settings",
     name: "Settings",
@@ -144,6 +151,8 @@ function TabContent({ activeTab }: { activeTab: TabType }) {
       return <PatientsManagement />;
     case "financials":
       return <FinancialsManagement />;
+    case "audit":
+      return <AuditLogViewer />;
     default:
       return <OrganizationOverview />;
   }
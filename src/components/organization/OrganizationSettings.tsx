@@ -14,6 +14,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { LoadingSpinner } from "./LoadingSpinner";
 import { ErrorBoundary } from "./ErrorBoundary";
+import { AIProviderSettings } from "./AIProviderSettings";
 
 interface SettingsFormData {
   name: string;
@@ -244,6 +245,9 @@ export function OrganizationSettings() {
           </form>
         </div>
 
+        {/* AI Provider Fallback Policy */}
+        <AIProviderSettings />
+
         {/* Danger Zone */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
           <div className="border-l-4 border-red-500 pl-4 mb-6">
@@ -12,6 +12,8 @@ import {
   Users,
   X,
   File,
+  History,
+  Wallet,
 } from "lucide-react";
 import {
   Sheet,
@@ -33,6 +35,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useIsMobile } from "@/hooks/use-mobile";
 import type { Patient } from "@/hooks/usePatients";
 import { PatientDocuments } from "./PatientDocuments";
+import { PatientPaymentsPanel } from "./PatientPaymentsPanel";
+import { AuditHistoryPanel } from "@/components/audit/AuditHistoryPanel";
 
 interface PatientDetailsDrawerProps {
   patient: Patient | null;
@@ -351,7 +355,7 @@ export function PatientDetailsDrawer({
 
   const content = (
     <Tabs defaultValue="overview" className="w-full">
-      <TabsList className="grid w-full grid-cols-2">
+      <TabsList className="grid w-full grid-cols-4">
         <TabsTrigger value="overview" className="flex items-center gap-2">
           <User className="w-4 h-4" />
           Overview
@@ -360,6 +364,14 @@ export function PatientDetailsDrawer({
           <File className="w-4 h-4" />
           Documents
         </TabsTrigger>
+        <TabsTrigger value="payments" className="flex items-center gap-2">
+          <Wallet className="w-4 h-4" />
+          Payments
+        </TabsTrigger>
+        <TabsTrigger value="history" className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          History
+        </TabsTrigger>
       </TabsList>
 
       <TabsContent value="overview" className="mt-6">
@@ -369,6 +381,18 @@ export function PatientDetailsDrawer({
       <TabsContent value="documents" className="mt-6">
         <PatientDocuments patientId={patient.id} patientName={patientName} />
       </TabsContent>
+
+      <TabsContent value="payments" className="mt-6">
+        <PatientPaymentsPanel patientId={patient.id} />
+      </TabsContent>
+
+      <TabsContent value="history" className="mt-6">
+        <AuditHistoryPanel
+          entityType="patient"
+          entityId={patient.id}
+          emptyMessage="No changes have been recorded for this patient yet."
+        />
+      </TabsContent>
     </Tabs>
   );
 
@@ -12,6 +12,7 @@ import {
   MoreVertical,
   Calendar,
   User,
+  FileSignature,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -60,6 +61,7 @@ import {
 } from "@/hooks/usePatientDocuments";
 import { toast } from "sonner";
 import { useAppData } from "@/hooks/useAppData";
+import { DocumentSignaturesDialog } from "@/components/signatures/DocumentSignaturesDialog";
 
 interface PatientDocumentsProps {
   patientId: string;
@@ -74,6 +76,8 @@ export function PatientDocuments({
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingDocument, setEditingDocument] =
     useState<PatientDocument | null>(null);
+  const [signaturesDocument, setSignaturesDocument] =
+    useState<PatientDocument | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
@@ -450,6 +454,12 @@ export function PatientDocuments({
                               <Edit className="w-4 h-4 mr-2" />
                               Edit Details
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setSignaturesDocument(document)}
+                            >
+                              <FileSignature className="w-4 h-4 mr-2" />
+                              Signatures
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               onClick={() => handleDeleteDocument(document.id)}
@@ -731,6 +741,13 @@ export function PatientDocuments({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <DocumentSignaturesDialog
+        open={!!signaturesDocument}
+        onOpenChange={(open) => !open && setSignaturesDocument(null)}
+        target="patient_document"
+        document={signaturesDocument}
+      />
     </div>
   );
 }
@@ -0,0 +1,559 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import {
+  AlertTriangle,
+  Banknote,
+  Check,
+  Paperclip,
+  Plus,
+  Wallet,
+  X,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAppData } from "@/hooks/useAppData";
+import { usePermissions } from "@/hooks/usePermissions";
+import { usePatientPayments } from "@/hooks/usePatientPayments";
+import { formatBudgetAmount } from "@/services/budgetService";
+import {
+  PAYMENT_KIND_LABELS,
+  PAYMENT_STATUS_LABELS,
+  PatientEnrollment,
+  PaymentKind,
+  PaymentStatus,
+  summarizePatientBalance,
+} from "@/services/patientPaymentService";
+
+interface PatientPaymentsPanelProps {
+  patientId: string;
+}
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 border-amber-200",
+  approved: "bg-blue-100 text-blue-800 border-blue-200",
+  rejected: "bg-gray-100 text-gray-500 border-gray-200",
+  paid: "bg-green-100 text-green-800 border-green-200",
+};
+
+interface TravelExpenseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  enrollments: PatientEnrollment[];
+  isSubmitting: boolean;
+  onSubmit: (input: {
+    trialId: string;
+    visitId: string;
+    amount: number;
+    description: string;
+    receipt: File | null;
+  }) => Promise<unknown>;
+}
+
+function TravelExpenseDialog({
+  open,
+  onOpenChange,
+  enrollments,
+  isSubmitting,
+  onSubmit,
+}: TravelExpenseDialogProps) {
+  const [trialId, setTrialId] = useState(enrollments[0]?.trialId || "");
+  const [visitId, setVisitId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [receipt, setReceipt] = useState<File | null>(null);
+
+  const enrollment = enrollments.find((e) => e.trialId === trialId);
+  const parsedAmount = parseFloat(amount);
+  const exceedsAllowance =
+    !!enrollment?.transportAllowance &&
+    parsedAmount > enrollment.transportAllowance;
+
+  const reset = () => {
+    setVisitId("");
+    setAmount("");
+    setDescription("");
+    setReceipt(null);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({
+        trialId,
+        visitId,
+        amount: parsedAmount,
+        description,
+        receipt,
+      });
+      reset();
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Travel Expense</DialogTitle>
+          <DialogDescription>
+            Expenses are reimbursed once an admin approves them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Trial</Label>
+            <Select
+              value={trialId}
+              onValueChange={(value) => {
+                setTrialId(value);
+                setVisitId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a trial" />
+              </SelectTrigger>
+              <SelectContent>
+                {enrollments.map((e) => (
+                  <SelectItem key={e.trialId} value={e.trialId}>
+                    {e.trialName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Visit</Label>
+            <Select value={visitId} onValueChange={setVisitId} disabled={!enrollment}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select the visit" />
+              </SelectTrigger>
+              <SelectContent>
+                {enrollment?.visits
+                  .filter((visit) => visit.status !== "cancelled")
+                  .map((visit) => (
+                    <SelectItem key={visit.id} value={visit.id}>
+                      Visit {visit.visit_number} ·{" "}
+                      {format(parseISO(visit.visit_date), "MMM d, yyyy")}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Amount ({enrollment?.currency || "USD"})</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Receipt</Label>
+              <Input
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+
+          {enrollment?.transportAllowance && (
+            <p
+              className={`text-xs flex items-center gap-1 ${
+                exceedsAllowance ? "text-amber-600" : "text-gray-500"
+              }`}
+            >
+              {exceedsAllowance && <AlertTriangle className="h-3 w-3" />}
+              Transport allowance for this trial:{" "}
+              {formatBudgetAmount(enrollment.transportAllowance, enrollment.currency)}{" "}
+              per visit
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Taxi to site and back"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              !trialId ||
+              !visitId ||
+              !(parsedAmount > 0) ||
+              !description.trim() ||
+              isSubmitting
+            }
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isSubmitting ? "Saving..." : "Add Expense"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Stipends and reimbursements owed to a patient, with admin approval and payouts
+ */
+export function PatientPaymentsPanel({ patientId }: PatientPaymentsPanelProps) {
+  const { memberId } = useAppData();
+  const { isAdmin } = usePermissions();
+  const {
+    payments,
+    enrollments,
+    isLoading,
+    addTravelExpense,
+    isAddingExpense,
+    reviewPayments,
+    markPaid,
+    isUpdating,
+  } = usePatientPayments(patientId);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isExpenseOpen, setIsExpenseOpen] = useState(false);
+  const [isPayoutOpen, setIsPayoutOpen] = useState(false);
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const balances = summarizePatientBalance(payments);
+  const selectedPayments = payments.filter((payment) => selected.has(payment.id));
+  const allPending =
+    selectedPayments.length > 0 &&
+    selectedPayments.every((payment) => payment.status === "pending");
+  const allApproved =
+    selectedPayments.length > 0 &&
+    selectedPayments.every((payment) => payment.status === "approved");
+
+  const toggle = (paymentId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(paymentId)) next.delete(paymentId);
+      else next.add(paymentId);
+      return next;
+    });
+  };
+
+  // Errors are toasted by the mutations; keep the selection on failure
+  const review = async (decision: "approved" | "rejected") => {
+    try {
+      await reviewPayments({
+        paymentIds: [...selected],
+        decision,
+        reviewerId: memberId,
+      });
+      setSelected(new Set());
+    } catch {
+      // handled by the mutation
+    }
+  };
+
+  const recordPayout = async () => {
+    try {
+      await markPaid({ paymentIds: [...selected], paymentReference });
+      setSelected(new Set());
+      setPaymentReference("");
+      setIsPayoutOpen(false);
+    } catch {
+      // handled by the mutation
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+        <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Wallet className="w-4 h-4" />
+            Stipends & Reimbursements
+          </h3>
+          <p className="text-sm text-gray-600">
+            Completed visits accrue the trial's stipend automatically.
+          </p>
+        </div>
+        {enrollments.length > 0 && (
+          <Button size="sm" variant="outline" onClick={() => setIsExpenseOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Travel Expense
+          </Button>
+        )}
+      </div>
+
+      {/* Balances */}
+      {enrollments.length === 0 ? (
+        <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+          This patient is not enrolled in any trial.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {enrollments.map((enrollment) => {
+            const balance = balances.find(
+              (b) => b.trialId === enrollment.trialId && b.currency === enrollment.currency
+            );
+            const money = (amount: number) =>
+              formatBudgetAmount(amount, enrollment.currency);
+
+            return (
+              <Card key={enrollment.trialId} className="p-4">
+                <div className="font-medium text-gray-900">{enrollment.trialName}</div>
+                <div className="text-xs text-gray-500 mb-3">
+                  Stipend{" "}
+                  {enrollment.reimbursementRate
+                    ? `${money(enrollment.reimbursementRate)}/visit`
+                    : "not set"}
+                  {enrollment.transportAllowance &&
+                    ` · Transport allowance ${money(enrollment.transportAllowance)}`}
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <div className="text-sm font-semibold text-amber-600">
+                      {money(balance?.pending || 0)}
+                    </div>
+                    <div className="text-xs text-gray-500">Pending</div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold text-blue-600">
+                      {money(balance?.owed || 0)}
+                    </div>
+                    <div className="text-xs text-gray-500">Owed</div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold text-green-600">
+                      {money(balance?.paid || 0)}
+                    </div>
+                    <div className="text-xs text-gray-500">Paid</div>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Admin actions */}
+      {isAdmin && selected.size > 0 && (
+        <div className="flex items-center justify-between rounded-lg border bg-gray-50 px-4 py-2">
+          <span className="text-sm text-gray-700">{selected.size} selected</span>
+          <div className="flex gap-2">
+            {allPending && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => review("rejected")}
+                  disabled={isUpdating}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => review("approved")}
+                  disabled={isUpdating}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </>
+            )}
+            {allApproved && (
+              <Button
+                size="sm"
+                onClick={() => setIsPayoutOpen(true)}
+                disabled={isUpdating}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                <Banknote className="h-4 w-4 mr-1" />
+                Record Payout
+              </Button>
+            )}
+            {!allPending && !allApproved && (
+              <span className="text-xs text-gray-500">
+                Select only pending or only approved entries
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Ledger */}
+      {payments.length === 0 ? (
+        enrollments.length > 0 && (
+          <div className="text-center text-sm text-gray-500 py-6">
+            No stipends or expenses recorded yet.
+          </div>
+        )
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {isAdmin && <TableHead className="w-10" />}
+              <TableHead>Date</TableHead>
+              <TableHead>Trial</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.map((payment) => {
+              const status = payment.status as PaymentStatus;
+              const selectable = status === "pending" || status === "approved";
+
+              return (
+                <TableRow key={payment.id}>
+                  {isAdmin && (
+                    <TableCell>
+                      {selectable && (
+                        <Checkbox
+                          checked={selected.has(payment.id)}
+                          onCheckedChange={() => toggle(payment.id)}
+                        />
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell className="text-sm">
+                    {format(
+                      parseISO(payment.patient_visits?.visit_date || payment.created_at),
+                      "MMM d, yyyy"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{payment.trials?.name}</TableCell>
+                  <TableCell>
+                    <div className="text-sm font-medium">
+                      {PAYMENT_KIND_LABELS[payment.kind as PaymentKind]}
+                    </div>
+                    <div className="text-xs text-gray-500 flex items-center gap-1">
+                      {payment.description}
+                      {payment.visit_documents && (
+                        <a
+                          href={payment.visit_documents.document_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline inline-flex items-center"
+                        >
+                          <Paperclip className="h-3 w-3 ml-1" />
+                          Receipt
+                        </a>
+                      )}
+                    </div>
+                    {payment.payment_reference && (
+                      <div className="text-xs text-gray-400">
+                        Ref. {payment.payment_reference}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[status]}>
+                      {PAYMENT_STATUS_LABELS[status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-medium ${
+                      status === "rejected" ? "line-through text-gray-400" : ""
+                    }`}
+                  >
+                    {formatBudgetAmount(Number(payment.amount), payment.currency)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <TravelExpenseDialog
+        open={isExpenseOpen}
+        onOpenChange={setIsExpenseOpen}
+        enrollments={enrollments}
+        isSubmitting={isAddingExpense}
+        onSubmit={(input) =>
+          addTravelExpense({ ...input, patientId, createdBy: memberId })
+        }
+      />
+
+      <Dialog open={isPayoutOpen} onOpenChange={setIsPayoutOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payout</DialogTitle>
+            <DialogDescription>
+              Mark {selected.size} approved entries as paid to the patient.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Payment reference (optional)</Label>
+            <Input
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Bank transfer or check number"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPayoutOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={recordPayout}
+              disabled={isUpdating}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              Record Payout
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -55,6 +55,7 @@ import {
 } from "@/hooks/usePatients";
 import { useAppData } from "@/hooks/useAppData";
 import { PatientDetailsDrawer } from "./PatientDetailsDrawer";
+import { ReasonForChangeDialog } from "@/components/audit/ReasonForChangeDialog";
 import { usePatientDocuments } from "@/hooks/usePatientDocuments";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -217,6 +218,10 @@ export function PatientsManagement() {
   const [currentStep, setCurrentStep] = useState("basic");
   const [isEditing, setIsEditing] = useState(false);
   const [editingPatientId, setEditingPatientId] = useState<string | null>(null);
+  // Edits wait here until a reason for change is given
+  const [pendingUpdate, setPendingUpdate] = useState<PatientInsert | null>(
+    null
+  );
 
   // Details drawer state
   const [detailsOpen, setDetailsOpen] = useState(false);
@@ -298,15 +303,7 @@ export function PatientsManagement() {
     };
 
     if (isEditing && editingPatientId) {
-      updatePatient(
-        { id: editingPatientId, updates: submitData },
-        {
-          onSuccess: () => {
-            setOpen(false);
-            resetForm();
-          },
-        }
-      );
+      setPendingUpdate(submitData);
     } else {
       createPatient(submitData, {
         onSuccess: () => {
@@ -317,6 +314,21 @@ export function PatientsManagement() {
     }
   };
 
+  const handleConfirmUpdate = (reason: string) => {
+    if (!editingPatientId || !pendingUpdate) return;
+
+    updatePatient(
+      { id: editingPatientId, updates: pendingUpdate, reason },
+      {
+        onSuccess: () => {
+          setPendingUpdate(null);
+          setOpen(false);
+          resetForm();
+        },
+      }
+    );
+  };
+
   const resetForm = () => {
     setForm(INITIAL_FORM_STATE);
     setCurrentStep("basic");
@@ -897,6 +909,15 @@ export function PatientsManagement() {
         </DialogContent>
       </Dialog>
 
+      <ReasonForChangeDialog
+        open={!!pendingUpdate}
+        onOpenChange={(isOpen) => !isOpen && setPendingUpdate(null)}
+        onConfirm={handleConfirmUpdate}
+        description="Patient records are audited. Please describe why this patient's data is being changed."
+        confirmLabel="Update Patient"
+        isSubmitting={updatePatientLoading}
+      />
+
       {/* Patient Details Drawer */}
       <PatientDetailsDrawer
         patient={selectedPatient}
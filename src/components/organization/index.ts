@@ -4,6 +4,7 @@ export { OrganizationOverview } from "./OrganizationOverview";
 export { MembersManagement } from "./MembersManagement";
 export { OrganizationSettings } from "./OrganizationSettings";
 export { InviteMemberDialog } from "./InviteMemberDialog";
+export { AuditLogViewer } from "./AuditLogViewer";
 
 // Utility components
 export { LoadingSpinner } from "./LoadingSpinner";
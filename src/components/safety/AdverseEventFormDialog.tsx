@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePatientVisits } from "@/hooks/useVisitSchedule";
+import {
+  ACTION_TAKEN_LABELS,
+  ActionTaken,
+  AdverseEvent,
+  AdverseEventInsert,
+  AdverseEventOutcome,
+  CAUSALITY_LABELS,
+  Causality,
+  CTCAE_GRADE_LABELS,
+  CtcaeGrade,
+  EXPECTEDNESS_LABELS,
+  Expectedness,
+  isSusar,
+  OUTCOME_LABELS,
+  SERIOUSNESS_LABELS,
+  SeriousnessCriterion,
+} from "@/services/adverseEventService";
+
+interface AdverseEventFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trialId: string;
+  // Patients the event can be recorded for; ignored when editing
+  patients: { id: string; label: string }[];
+  // Follow-up of an existing event
+  event?: AdverseEvent | null;
+  isSubmitting: boolean;
+  onSubmit: (input: AdverseEventInsert) => Promise<unknown>;
+}
+
+const NO_VISIT = "none";
+
+const toLocalDateTime = (iso: string) => format(parseISO(iso), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Report a new adverse event or record a follow-up on an existing one.
+ * The parent remounts the dialog per event so the form starts from its values.
+ */
+export function AdverseEventFormDialog({
+  open,
+  onOpenChange,
+  trialId,
+  patients,
+  event,
+  isSubmitting,
+  onSubmit,
+}: AdverseEventFormDialogProps) {
+  const [patientId, setPatientId] = useState(
+    event?.patient_id || (patients.length === 1 ? patients[0].id : "")
+  );
+  const [visitId, setVisitId] = useState(event?.visit_id || NO_VISIT);
+  const [term, setTerm] = useState(event?.term || "");
+  const [description, setDescription] = useState(event?.description || "");
+  const [onsetDate, setOnsetDate] = useState(
+    event?.onset_date || format(new Date(), "yyyy-MM-dd")
+  );
+  const [resolutionDate, setResolutionDate] = useState(event?.resolution_date || "");
+  const [grade, setGrade] = useState<CtcaeGrade | null>(
+    (event?.ctcae_grade as CtcaeGrade) || null
+  );
+  const [isSerious, setIsSerious] = useState(event?.is_serious || false);
+  const [seriousness, setSeriousness] = useState<SeriousnessCriterion[]>(
+    (event?.seriousness_criteria as SeriousnessCriterion[]) || []
+  );
+  const [causality, setCausality] = useState<Causality | "">(
+    (event?.causality as Causality) || ""
+  );
+  const [expectedness, setExpectedness] = useState<Expectedness>(
+    (event?.expectedness as Expectedness) || "expected"
+  );
+  const [actionTaken, setActionTaken] = useState<ActionTaken | "">(
+    (event?.action_taken as ActionTaken) || ""
+  );
+  const [outcome, setOutcome] = useState<AdverseEventOutcome | "">(
+    (event?.outcome as AdverseEventOutcome) || ""
+  );
+  const [awarenessAt, setAwarenessAt] = useState(
+    toLocalDateTime(event?.awareness_at || new Date().toISOString())
+  );
+
+  const { visits } = usePatientVisits(trialId, patientId || undefined);
+
+  // Grade 5 is death: always serious and fatal
+  const handleGradeChange = (value: string) => {
+    const next = Number(value) as CtcaeGrade;
+    setGrade(next);
+    if (next === 5) {
+      setIsSerious(true);
+      setOutcome("fatal");
+      setSeriousness((prev) => (prev.includes("death") ? prev : [...prev, "death"]));
+    }
+  };
+
+  const toggleSeriousness = (criterion: SeriousnessCriterion, checked: boolean) => {
+    setSeriousness((prev) =>
+      checked ? [...prev, criterion] : prev.filter((c) => c !== criterion)
+    );
+  };
+
+  const susar =
+    !!causality && isSusar({ is_serious: isSerious, expectedness, causality });
+
+  const validationError = (() => {
+    if (resolutionDate && resolutionDate < onsetDate) {
+      return "Resolution date cannot be before onset.";
+    }
+    if (isSerious && seriousness.length === 0) {
+      return "Select at least one seriousness criterion.";
+    }
+    if (grade === 5 && outcome !== "fatal") {
+      return "A grade 5 event must have a fatal outcome.";
+    }
+    if (grade === 5 && !seriousness.includes("death")) {
+      return "A grade 5 event must list death as a seriousness criterion.";
+    }
+    return null;
+  })();
+
+  const canSubmit =
+    !!patientId &&
+    !!term.trim() &&
+    !!onsetDate &&
+    !!grade &&
+    !!causality &&
+    !!actionTaken &&
+    !!outcome &&
+    !!awarenessAt &&
+    !validationError &&
+    !isSubmitting;
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({
+        trial_id: trialId,
+        patient_id: patientId,
+        visit_id: visitId === NO_VISIT ? null : visitId,
+        term: term.trim(),
+        description: description.trim() || null,
+        onset_date: onsetDate,
+        resolution_date: resolutionDate || null,
+        ctcae_grade: grade!,
+        is_serious: isSerious,
+        seriousness_criteria: isSerious ? seriousness : [],
+        causality: causality as Causality,
+        expectedness,
+        action_taken: actionTaken as ActionTaken,
+        outcome: outcome as AdverseEventOutcome,
+        awareness_at: new Date(awarenessAt).toISOString(),
+      });
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{event ? "Update Adverse Event" : "Report Adverse Event"}</DialogTitle>
+          <DialogDescription>
+            Grade severity with CTCAE. Serious events start the reporting clock from the
+            time the site became aware of them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select
+                value={patientId}
+                onValueChange={(value) => {
+                  setPatientId(value);
+                  setVisitId(NO_VISIT);
+                }}
+                disabled={!!event}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Visit (optional)</Label>
+              <Select value={visitId} onValueChange={setVisitId} disabled={!patientId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VISIT}>Not linked to a visit</SelectItem>
+                  {visits.map((visit) => (
+                    <SelectItem key={visit.id} value={visit.id}>
+                      Visit {visit.visit_number} ·{" "}
+                      {format(parseISO(visit.visit_date), "MMM d, yyyy")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Adverse event term</Label>
+            <Input
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              placeholder="e.g. Nausea"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Onset date</Label>
+              <Input
+                type="date"
+                value={onsetDate}
+                onChange={(e) => setOnsetDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Resolution date</Label>
+              <Input
+                type="date"
+                value={resolutionDate}
+                min={onsetDate}
+                onChange={(e) => setResolutionDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Site aware at</Label>
+              <Input
+                type="datetime-local"
+                value={awarenessAt}
+                onChange={(e) => setAwarenessAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>CTCAE grade</Label>
+              <Select value={grade ? String(grade) : ""} onValueChange={handleGradeChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select grade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CTCAE_GRADE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Causality</Label>
+              <Select
+                value={causality}
+                onValueChange={(value) => setCausality(value as Causality)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Relationship to study drug" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CAUSALITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action taken</Label>
+              <Select
+                value={actionTaken}
+                onValueChange={(value) => setActionTaken(value as ActionTaken)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Action with study drug" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACTION_TAKEN_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select
+                value={outcome}
+                onValueChange={(value) => setOutcome(value as AdverseEventOutcome)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select outcome" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(OUTCOME_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Serious adverse event (SAE)</Label>
+                <p className="text-xs text-gray-500">
+                  The sponsor must be notified within 24 hours.
+                </p>
+              </div>
+              <Switch
+                checked={isSerious}
+                onCheckedChange={setIsSerious}
+                disabled={grade === 5}
+              />
+            </div>
+
+            {isSerious && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(SERIOUSNESS_LABELS) as SeriousnessCriterion[]).map(
+                    (criterion) => (
+                      <label key={criterion} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={seriousness.includes(criterion)}
+                          onCheckedChange={(checked) =>
+                            toggleSeriousness(criterion, checked === true)
+                          }
+                        />
+                        {SERIOUSNESS_LABELS[criterion]}
+                      </label>
+                    )
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Expectedness</Label>
+                  <Select
+                    value={expectedness}
+                    onValueChange={(value) => setExpectedness(value as Expectedness)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EXPECTEDNESS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {susar && (
+                  <p className="text-xs text-red-600 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    Suspected unexpected serious adverse reaction (SUSAR): an expedited
+                    regulatory report is due within{" "}
+                    {seriousness.includes("death") || seriousness.includes("life_threatening")
+                      ? "7"
+                      : "15"}{" "}
+                    days.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {validationError && <p className="text-xs text-red-600">{validationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSubmitting ? "Saving..." : event ? "Save Follow-up" : "Report Event"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
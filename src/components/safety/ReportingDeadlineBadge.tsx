@@ -0,0 +1,50 @@
+import React from "react";
+import { format } from "date-fns";
+import { CheckCircle, Clock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatDuration, ReportingDeadline } from "@/services/adverseEventService";
+
+// Under this many minutes left the countdown turns amber
+const DUE_SOON_MINUTES = 6 * 60;
+
+/**
+ * Countdown to a reporting deadline, or when it was met
+ */
+export function ReportingDeadlineBadge({ deadline }: { deadline: ReportingDeadline }) {
+  const due = format(deadline.dueAt, "MMM d, HH:mm");
+
+  if (deadline.status === "submitted" || deadline.status === "submitted_late") {
+    const late = deadline.status === "submitted_late";
+    return (
+      <Badge
+        variant="outline"
+        className={
+          late
+            ? "bg-amber-50 text-amber-700 border-amber-200"
+            : "bg-green-50 text-green-700 border-green-200"
+        }
+        title={`Due ${due}`}
+      >
+        <CheckCircle className="h-3 w-3 mr-1" />
+        {late ? "Submitted late" : "Submitted"} {format(deadline.submittedAt!, "MMM d, HH:mm")}
+      </Badge>
+    );
+  }
+
+  const minutesLeft = deadline.minutesLeft!;
+  const style =
+    deadline.status === "overdue"
+      ? "bg-red-100 text-red-800 border-red-200"
+      : minutesLeft < DUE_SOON_MINUTES
+        ? "bg-amber-100 text-amber-800 border-amber-200"
+        : "bg-blue-50 text-blue-700 border-blue-200";
+
+  return (
+    <Badge variant="outline" className={style} title={`Due ${due}`}>
+      <Clock className="h-3 w-3 mr-1" />
+      {deadline.status === "overdue"
+        ? `Overdue by ${formatDuration(minutesLeft)}`
+        : `${formatDuration(minutesLeft)} left`}
+    </Badge>
+  );
+}
@@ -0,0 +1,290 @@
+import React, { useState } from "react";
+import { Check, FileText, Pencil, Plus, Sparkles, Trash2, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type {
+  CriterionInput,
+  CriterionKind,
+  EligibilityCriterion,
+} from "@/services/screeningService";
+
+interface EligibilityCriteriaPanelProps {
+  criteria: EligibilityCriterion[];
+  protocol: { id: string; document_name: string } | null;
+  canManage: boolean;
+  canExtract: boolean;
+  isExtracting: boolean;
+  isSaving: boolean;
+  onExtract: () => void;
+  onSave: (criterion: EligibilityCriterion | undefined, input: CriterionInput) => Promise<unknown>;
+  onRemove: (criterionId: string) => void;
+}
+
+const EMPTY_INPUT: CriterionInput = { kind: "inclusion", code: "", text: "" };
+
+function CriterionForm({
+  initial,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: {
+  initial: CriterionInput;
+  isSaving: boolean;
+  onSubmit: (input: CriterionInput) => void;
+  onCancel: () => void;
+}) {
+  const [input, setInput] = useState<CriterionInput>(initial);
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-gray-50 p-3">
+      <div className="flex gap-2">
+        <Select
+          value={input.kind}
+          onValueChange={(kind) => setInput({ ...input, kind: kind as CriterionKind })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inclusion">Inclusion</SelectItem>
+            <SelectItem value="exclusion">Exclusion</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          className="w-24"
+          placeholder="Code"
+          value={input.code}
+          onChange={(e) => setInput({ ...input, code: e.target.value })}
+        />
+      </div>
+      <Textarea
+        rows={2}
+        placeholder="Criterion as written in the protocol"
+        value={input.text}
+        onChange={(e) => setInput({ ...input, text: e.target.value })}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSubmit(input)}
+          disabled={!input.code.trim() || !input.text.trim() || isSaving}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The trial's screening checklist, extracted from the latest protocol and
+ * editable by the study team
+ */
+export function EligibilityCriteriaPanel({
+  criteria,
+  protocol,
+  canManage,
+  canExtract,
+  isExtracting,
+  isSaving,
+  onExtract,
+  onSave,
+  onRemove,
+}: EligibilityCriteriaPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [confirmExtract, setConfirmExtract] = useState(false);
+
+  const save = async (criterion: EligibilityCriterion | undefined, input: CriterionInput) => {
+    try {
+      await onSave(criterion, input);
+      setEditingId(null);
+      setIsAdding(false);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const sections: { kind: CriterionKind; title: string }[] = [
+    { kind: "inclusion", title: "Inclusion criteria" },
+    { kind: "exclusion", title: "Exclusion criteria" },
+  ];
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">Eligibility Checklist</h3>
+          <p className="text-sm text-gray-600 flex items-center gap-1">
+            <FileText className="h-3 w-3" />
+            {protocol
+              ? `Latest protocol: ${protocol.document_name}`
+              : "No protocol uploaded yet"}
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsAdding(true)}
+              disabled={isAdding}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Criterion
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => (criteria.length > 0 ? setConfirmExtract(true) : onExtract())}
+              disabled={!protocol || !canExtract || isExtracting}
+              className="bg-blue-600 hover:bg-blue-700"
+              title={!canExtract ? "AI extraction requires an Anthropic API key" : undefined}
+            >
+              <Sparkles className="h-4 w-4 mr-1" />
+              {isExtracting ? "Extracting..." : "Extract from Protocol"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isAdding && (
+        <CriterionForm
+          initial={EMPTY_INPUT}
+          isSaving={isSaving}
+          onSubmit={(input) => save(undefined, input)}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      {criteria.length === 0 && !isAdding ? (
+        <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+          No criteria yet. Extract them from the protocol or add them by hand.
+          Enrollment is not gated until the trial has criteria.
+        </div>
+      ) : (
+        sections.map(({ kind, title }) => {
+          const items = criteria.filter((criterion) => criterion.kind === kind);
+          if (items.length === 0) return null;
+
+          return (
+            <div key={kind} className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">
+                {title} ({items.length})
+              </h4>
+              {items.map((criterion) =>
+                editingId === criterion.id ? (
+                  <CriterionForm
+                    key={criterion.id}
+                    initial={{
+                      kind: criterion.kind as CriterionKind,
+                      code: criterion.code,
+                      text: criterion.text,
+                      source_page: criterion.source_page,
+                    }}
+                    isSaving={isSaving}
+                    onSubmit={(input) => save(criterion, input)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <div
+                    key={criterion.id}
+                    className="group flex items-start gap-3 rounded-lg border p-3"
+                  >
+                    <Badge
+                      variant="outline"
+                      className={
+                        kind === "inclusion"
+                          ? "bg-green-50 text-green-700 border-green-200"
+                          : "bg-red-50 text-red-700 border-red-200"
+                      }
+                    >
+                      {criterion.code}
+                    </Badge>
+                    <div className="flex-1 text-sm text-gray-800">
+                      {criterion.text}
+                      {criterion.source_page && (
+                        <span className="ml-2 text-xs text-gray-400">
+                          p. {criterion.source_page}
+                        </span>
+                      )}
+                    </div>
+                    {canManage && (
+                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => setEditingId(criterion.id)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7 text-red-600"
+                          onClick={() => onRemove(criterion.id)}
+                          disabled={isSaving}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {criteria.length > 0 && canManage && (
+        <p className="text-xs text-gray-500">
+          Editing or removing a criterion keeps past screenings as they were
+          answered; patients not yet enrolled need to be screened again.
+        </p>
+      )}
+
+      <AlertDialog open={confirmExtract} onOpenChange={setConfirmExtract}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the current criteria?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {criteria.length} current criteria will be replaced by the ones
+              extracted from {protocol?.document_name}. Patients not yet enrolled
+              will need a new screening.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onExtract}>Extract</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  HelpCircle,
+  Play,
+  Search,
+  UserPlus,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CANDIDATE_VERDICT_LABELS,
+  CandidateMatch,
+  CandidatePatient,
+  CandidateVerdict,
+  CriterionAssessment,
+  getCandidateMatchingService,
+} from "@/services/candidateMatchingService";
+import type { EligibilityCriterion } from "@/services/screeningService";
+
+interface FindCandidatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Active patients not on the trial
+  patients: CandidatePatient[];
+  criteria: EligibilityCriterion[];
+  canViewPHI: boolean;
+  onAssign: (patientId: string) => void;
+  onStartScreening: (match: CandidateMatch) => Promise<unknown>;
+}
+
+const VERDICT_STYLES: Record<CandidateVerdict, string> = {
+  likely_eligible: "bg-green-100 text-green-800 border-green-200",
+  possibly_eligible: "bg-amber-100 text-amber-800 border-amber-200",
+  likely_ineligible: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+function AssessmentIcon({ assessment }: { assessment: CriterionAssessment }) {
+  if (assessment.answer === "unknown") {
+    return <HelpCircle className="h-4 w-4 text-amber-500 flex-shrink-0" />;
+  }
+  const satisfied = (assessment.kind === "inclusion") === (assessment.answer === "met");
+  return satisfied ? (
+    <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+  ) : (
+    <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+  );
+}
+
+/**
+ * Pre-screen the registry against the trial's criteria and rank the candidates
+ */
+export function FindCandidatesDialog({
+  open,
+  onOpenChange,
+  patients,
+  criteria,
+  canViewPHI,
+  onAssign,
+  onStartScreening,
+}: FindCandidatesDialogProps) {
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<CandidateMatch[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  const matchingService = getCandidateMatchingService();
+  const isRunning = progress !== null;
+
+  const run = async () => {
+    setMatches(null);
+    setExpandedId(null);
+    try {
+      const result = await matchingService.findCandidates(patients, criteria, (done, total) =>
+        setProgress({ done, total })
+      );
+      setMatches(result);
+    } catch (error: any) {
+      toast({
+        title: "Pre-screening failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const startScreening = async (match: CandidateMatch) => {
+    setStartingId(match.patient.id);
+    try {
+      await onStartScreening(match);
+      // Patients with an open screening are no longer candidates
+      setMatches((prev) => prev?.filter((m) => m.patient.id !== match.patient.id) || null);
+    } catch {
+      // The error toast comes from the mutation
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  const patientLabel = (patient: CandidatePatient) =>
+    canViewPHI
+      ? `${patient.patient_code} · ${patient.first_name} ${patient.last_name}`
+      : patient.patient_code;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isRunning && onOpenChange(value)}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Find Candidates
+          </DialogTitle>
+          <DialogDescription>
+            Checks {patients.length} active patients who are not on this trial against{" "}
+            {criteria.length} eligibility criteria. Age and BMI are checked by rule; other
+            criteria are judged{" "}
+            {matchingService.isAiAvailable() ? "by AI" : "manually"} from medical history,
+            medications and allergies. Results are suggestions; eligibility is confirmed by
+            screening.
+          </DialogDescription>
+        </DialogHeader>
+
+        {criteria.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+            This trial has no eligibility criteria yet. Extract them from the protocol in the
+            Screening tab first.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Button onClick={run} disabled={isRunning || patients.length === 0}>
+                <Play className="h-4 w-4 mr-2" />
+                {matches ? "Run Again" : "Run Pre-Screening"}
+              </Button>
+              {progress && (
+                <div className="flex-1 space-y-1">
+                  <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                  <p className="text-xs text-gray-500">
+                    {progress.done} of {progress.total} patients checked
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {matches && matches.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No candidates to show.</p>
+            )}
+
+            {matches && matches.length > 0 && (
+              <ScrollArea className="max-h-[55vh] pr-4">
+                <div className="space-y-2">
+                  {matches.map((match) => {
+                    const isExpanded = expandedId === match.patient.id;
+
+                    return (
+                      <div key={match.patient.id} className="rounded-lg border">
+                        <div className="flex items-center gap-3 p-3">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setExpandedId(isExpanded ? null : match.patient.id)
+                            }
+                            className="flex flex-1 items-center gap-2 text-left"
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 text-gray-400" />
+                            )}
+                            <span className="font-medium text-gray-900">
+                              {patientLabel(match.patient)}
+                            </span>
+                            <Badge variant="outline" className={VERDICT_STYLES[match.verdict]}>
+                              {CANDIDATE_VERDICT_LABELS[match.verdict]}
+                            </Badge>
+                            <span className="text-xs text-gray-500">
+                              {match.satisfied}/{match.assessments.length} satisfied
+                              {match.unknown > 0 && ` · ${match.unknown} unknown`}
+                              {match.failed > 0 && ` · ${match.failed} failed`}
+                            </span>
+                          </button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => startScreening(match)}
+                            disabled={startingId !== null}
+                          >
+                            {startingId === match.patient.id ? "Starting..." : "Start Screening"}
+                          </Button>
+                          <Button size="sm" onClick={() => onAssign(match.patient.id)}>
+                            <UserPlus className="h-4 w-4 mr-1" />
+                            Assign
+                          </Button>
+                        </div>
+
+                        {isExpanded && (
+                          <div className="border-t bg-gray-50 p-3 space-y-2">
+                            {match.assessments.map((assessment) => (
+                              <div
+                                key={assessment.criterionId}
+                                className="flex items-start gap-2 text-sm"
+                              >
+                                <AssessmentIcon assessment={assessment} />
+                                <Badge variant="outline" className="text-xs">
+                                  {assessment.code}
+                                </Badge>
+                                <div className="flex-1">
+                                  <p className="text-gray-700">{assessment.explanation}</p>
+                                  <p className="text-xs text-gray-400 line-clamp-1">
+                                    {assessment.text}
+                                  </p>
+                                </div>
+                                <span className="text-xs text-gray-400 uppercase">
+                                  {assessment.source === "rule"
+                                    ? "Rule"
+                                    : assessment.source === "ai"
+                                      ? "AI"
+                                      : "—"}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CheckCircle, Paperclip, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePatientDocuments } from "@/hooks/usePatientDocuments";
+import {
+  EligibilityCriterion,
+  PatientScreening,
+  SCREENING_ANSWER_LABELS,
+  SCREENING_STATUS_LABELS,
+  ScreeningAnswer,
+  ScreeningResponseInput,
+  ScreeningStatus,
+  evaluateScreening,
+} from "@/services/screeningService";
+
+interface ScreeningChecklistDialogProps {
+  screening: PatientScreening | null;
+  criteria: EligibilityCriterion[];
+  canManage: boolean;
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaveDraft: (screeningId: string, responses: ScreeningResponseInput[]) => Promise<unknown>;
+  onComplete: (options: {
+    screeningId: string;
+    responses: ScreeningResponseInput[];
+    status: Exclude<ScreeningStatus, "in_progress">;
+    failureReason?: string;
+    notes?: string;
+  }) => Promise<unknown>;
+}
+
+const NO_DOCUMENT = "none";
+
+const ANSWERS: ScreeningAnswer[] = ["met", "not_met", "unknown"];
+
+const answerStyle = (answer: ScreeningAnswer, selected: boolean) => {
+  if (!selected) return "bg-white text-gray-600 hover:bg-gray-50";
+  if (answer === "met") return "bg-green-600 text-white border-green-600";
+  if (answer === "not_met") return "bg-red-600 text-white border-red-600";
+  return "bg-gray-600 text-white border-gray-600";
+};
+
+/**
+ * Answer each criterion for one candidate, with the evidence it rests on
+ */
+export function ScreeningChecklistDialog({
+  screening,
+  criteria,
+  canManage,
+  isSaving,
+  onOpenChange,
+  onSaveDraft,
+  onComplete,
+}: ScreeningChecklistDialogProps) {
+  // Initialized once per screening; the parent remounts the dialog with a
+  // key so background refetches don't reset answers being edited
+  const [responses, setResponses] = useState<Record<string, ScreeningResponseInput>>(() =>
+    Object.fromEntries(
+      (screening?.patient_screening_responses || []).map((response) => [
+        response.criterion_id,
+        {
+          criterion_id: response.criterion_id,
+          answer: response.answer as ScreeningAnswer,
+          evidence: response.evidence,
+          evidence_document_id: response.evidence_document_id,
+        },
+      ])
+    )
+  );
+  const [failureReason, setFailureReason] = useState(screening?.failure_reason || "");
+  const [notes, setNotes] = useState(screening?.notes || "");
+  const { documents } = usePatientDocuments({ patientId: screening?.patient_id || "" });
+
+  const isOpen = screening?.status === "in_progress";
+  const editable = isOpen && canManage;
+
+  // Completed screenings show the criteria they were answered against
+  const checklist: Pick<EligibilityCriterion, "id" | "kind" | "code" | "text">[] = isOpen
+    ? criteria
+    : (screening?.patient_screening_responses || []).map((response) => ({
+        id: response.criterion_id,
+        kind: response.trial_eligibility_criteria?.kind || "inclusion",
+        code: response.trial_eligibility_criteria?.code || "",
+        text: response.trial_eligibility_criteria?.text || "",
+      }));
+
+  const evaluation = evaluateScreening(criteria, Object.values(responses));
+
+  const setResponse = (criterionId: string, changes: Partial<ScreeningResponseInput>) => {
+    setResponses((prev) => ({
+      ...prev,
+      [criterionId]: {
+        criterion_id: criterionId,
+        answer: "unknown",
+        ...prev[criterionId],
+        ...changes,
+      },
+    }));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onOpenChange(false);
+    } catch {
+      // The error toast comes from the mutation; keep the answers
+    }
+  };
+
+  const saveDraft = () =>
+    run(() => onSaveDraft(screening!.id, Object.values(responses)));
+
+  const complete = () =>
+    run(() =>
+      onComplete({
+        screeningId: screening!.id,
+        responses: Object.values(responses),
+        status: evaluation.outcome === "passed" ? "passed" : "failed",
+        failureReason,
+        notes,
+      })
+    );
+
+  const patientLabel = screening?.patients?.patient_code || "Patient";
+
+  return (
+    <Dialog open={!!screening} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Eligibility Screening · {patientLabel}
+            {screening && (
+              <Badge variant="outline">
+                {SCREENING_STATUS_LABELS[screening.status as ScreeningStatus]}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {screening &&
+              `Started ${format(parseISO(screening.created_at), "MMM d, yyyy")}${
+                screening.screened_by_member ? ` by ${screening.screened_by_member.name}` : ""
+              }`}
+            {screening?.completed_at &&
+              ` · Completed ${format(parseISO(screening.completed_at), "MMM d, yyyy")}${
+                screening.completed_by_member ? ` by ${screening.completed_by_member.name}` : ""
+              }`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-4">
+          <div className="space-y-3">
+            {checklist.map((criterion) => {
+              const response = responses[criterion.id];
+              const failed = evaluation.failedCriteria.some((c) => c.id === criterion.id);
+
+              return (
+                <div
+                  key={criterion.id}
+                  className={`rounded-lg border p-3 space-y-2 ${
+                    failed && isOpen ? "border-red-300 bg-red-50/40" : ""
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    <Badge
+                      variant="outline"
+                      className={
+                        criterion.kind === "inclusion"
+                          ? "bg-green-50 text-green-700 border-green-200"
+                          : "bg-red-50 text-red-700 border-red-200"
+                      }
+                    >
+                      {criterion.code}
+                    </Badge>
+                    <p className="flex-1 text-sm text-gray-800">{criterion.text}</p>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {ANSWERS.map((answer) => (
+                      <button
+                        key={answer}
+                        type="button"
+                        disabled={!editable}
+                        onClick={() => setResponse(criterion.id, { answer })}
+                        className={`px-3 py-1 rounded-md border text-xs font-medium transition-colors disabled:cursor-default ${answerStyle(
+                          answer,
+                          response?.answer === answer
+                        )}`}
+                      >
+                        {SCREENING_ANSWER_LABELS[answer]}
+                      </button>
+                    ))}
+
+                    {editable ? (
+                      <Select
+                        value={response?.evidence_document_id || NO_DOCUMENT}
+                        onValueChange={(value) =>
+                          setResponse(criterion.id, {
+                            evidence_document_id: value === NO_DOCUMENT ? null : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-7 w-56 text-xs ml-auto">
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          <SelectValue placeholder="Source document" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_DOCUMENT}>No source document</SelectItem>
+                          {documents.map((document) => (
+                            <SelectItem key={document.id} value={document.id}>
+                              {document.document_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      response?.evidence_document_id && (
+                        <span className="ml-auto text-xs text-gray-500 flex items-center gap-1">
+                          <Paperclip className="h-3 w-3" />
+                          {documents.find((d) => d.id === response.evidence_document_id)
+                            ?.document_name || "Source document"}
+                        </span>
+                      )
+                    )}
+                  </div>
+
+                  {editable ? (
+                    <Textarea
+                      rows={1}
+                      className="text-sm"
+                      placeholder="Source evidence, e.g. 'HbA1c 7.9% on 2026-09-30 lab report'"
+                      value={response?.evidence || ""}
+                      onChange={(e) => setResponse(criterion.id, { evidence: e.target.value })}
+                    />
+                  ) : (
+                    response?.evidence && (
+                      <p className="text-xs text-gray-600 italic">{response.evidence}</p>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {isOpen && (
+          <div
+            className={`rounded-lg p-3 text-sm flex items-start gap-2 ${
+              evaluation.outcome === "passed"
+                ? "bg-green-50 text-green-800"
+                : evaluation.outcome === "failed"
+                  ? "bg-red-50 text-red-800"
+                  : "bg-amber-50 text-amber-800"
+            }`}
+          >
+            {evaluation.outcome === "passed" ? (
+              <CheckCircle className="h-4 w-4 mt-0.5" />
+            ) : evaluation.outcome === "failed" ? (
+              <XCircle className="h-4 w-4 mt-0.5" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 mt-0.5" />
+            )}
+            <span>
+              {evaluation.outcome === "passed" &&
+                "All criteria are satisfied. The patient is eligible."}
+              {evaluation.outcome === "failed" &&
+                `Not eligible: ${evaluation.failedCriteria.map((c) => c.code).join(", ")}.`}
+              {evaluation.outcome === "incomplete" &&
+                `${evaluation.openCriteria.length} criteria are unanswered or unknown.`}
+            </span>
+          </div>
+        )}
+
+        {(evaluation.outcome === "failed" && isOpen) || screening?.failure_reason ? (
+          <div className="space-y-2">
+            <Label>Screen-failure reason</Label>
+            <Textarea
+              rows={2}
+              value={failureReason}
+              disabled={!editable}
+              onChange={(e) => setFailureReason(e.target.value)}
+              placeholder="Why the patient did not qualify"
+            />
+          </div>
+        ) : null}
+
+        {(editable || screening?.notes) && (
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              rows={2}
+              value={notes}
+              disabled={!editable}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {editable && (
+            <>
+              <Button variant="outline" onClick={saveDraft} disabled={isSaving}>
+                Save Draft
+              </Button>
+              <Button
+                onClick={complete}
+                disabled={
+                  isSaving ||
+                  evaluation.outcome === "incomplete" ||
+                  (evaluation.outcome === "failed" && !failureReason.trim())
+                }
+                className={
+                  evaluation.outcome === "failed"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-green-600 hover:bg-green-700"
+                }
+              >
+                {evaluation.outcome === "failed"
+                  ? "Record Screen Failure"
+                  : "Complete Screening"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
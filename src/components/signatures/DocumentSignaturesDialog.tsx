@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Download, FileSignature, Lock, ShieldCheck, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/password-input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSignatures } from "@/hooks/useSignatures";
+import {
+  SignableDocument,
+  SignatureMeaning,
+  SignatureTarget,
+  SIGNATURE_MEANING_LABELS,
+  SIGNATURE_STATEMENTS,
+  signatureService,
+} from "@/services/signatureService";
+
+interface DocumentSignaturesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: SignatureTarget;
+  document: SignableDocument | null;
+  canSign?: boolean;
+}
+
+/**
+ * Signatures on a document: sign with a meaning after re-entering the
+ * password, check the file against what was signed, and export the PDF with
+ * its signature manifest
+ */
+export function DocumentSignaturesDialog({
+  open,
+  onOpenChange,
+  target,
+  document,
+  canSign = true,
+}: DocumentSignaturesDialogProps) {
+  const { toast } = useToast();
+  const { signatures, isLoading, sign, isSigning } = useSignatures(target, document?.id);
+  const [meaning, setMeaning] = useState<SignatureMeaning>("reviewer");
+  const [password, setPassword] = useState("");
+  const [integrity, setIntegrity] = useState<boolean | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setPassword("");
+      setIntegrity(null);
+    }
+    onOpenChange(value);
+  };
+
+  const handleSign = async () => {
+    if (!document) return;
+    try {
+      await sign({ document, meaning, password });
+      setPassword("");
+      setIntegrity(null);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!document) return;
+    setIsChecking(true);
+    try {
+      setIntegrity(await signatureService.verifyDocument(document, signatures));
+    } catch (error: any) {
+      toast({
+        title: "Could not check the document",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!document) return;
+    setIsExporting(true);
+    try {
+      const { blob, appended } = await signatureService.exportSignedPdf(document, signatures);
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `${document.document_name.replace(/\.pdf$/i, "")}-signed.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (!appended) {
+        toast({
+          title: "Manifest exported on its own",
+          description:
+            "The signature manifest couldn't be appended to this file, so it was exported as a separate PDF.",
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Signatures
+          </DialogTitle>
+          <DialogDescription>{document?.document_name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse" />
+          ) : signatures.length === 0 ? (
+            <p className="text-sm text-gray-500">This document has not been signed.</p>
+          ) : (
+            <div className="space-y-2">
+              {signatures.map((signature) => (
+                <div key={signature.id} className="rounded-lg border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{signature.signer_name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {SIGNATURE_MEANING_LABELS[signature.meaning as SignatureMeaning] ||
+                        signature.meaning}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {format(parseISO(signature.signed_at), "MMM d, yyyy HH:mm")} ·{" "}
+                    {signature.statement}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-2 pt-1">
+                <div className="text-xs">
+                  {integrity === true && (
+                    <span className="text-green-700 flex items-center gap-1">
+                      <ShieldCheck className="h-4 w-4" />
+                      The file matches what was signed.
+                    </span>
+                  )}
+                  {integrity === false && (
+                    <span className="text-red-600 flex items-center gap-1">
+                      <ShieldX className="h-4 w-4" />
+                      The file has changed since it was signed.
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleVerify} disabled={isChecking}>
+                    {isChecking ? "Checking..." : "Verify File"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleExport} disabled={isExporting}>
+                    <Download className="h-4 w-4 mr-1" />
+                    {isExporting ? "Exporting..." : "Export Signed PDF"}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {canSign && (
+            <div className="rounded-lg border p-4 space-y-4">
+              <div className="space-y-2">
+                <Label>Signature meaning</Label>
+                <RadioGroup
+                  value={meaning}
+                  onValueChange={(value) => setMeaning(value as SignatureMeaning)}
+                  className="space-y-1"
+                >
+                  {(Object.keys(SIGNATURE_MEANING_LABELS) as SignatureMeaning[]).map((value) => (
+                    <label key={value} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <RadioGroupItem value={value} className="mt-0.5" />
+                      <span>
+                        <span className="font-medium">{SIGNATURE_MEANING_LABELS[value]}</span>
+                        <span className="text-gray-500"> — {SIGNATURE_STATEMENTS[value]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="signature-password">Password</Label>
+                <PasswordInput
+                  id="signature-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && password && !isSigning && handleSign()}
+                  autoComplete="current-password"
+                />
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Lock className="h-3 w-3" />
+                  Re-enter your password to sign. Your signature is legally binding and can't be
+                  changed or removed.
+                </p>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSign} disabled={!password || isSigning || !document}>
+                  {isSigning ? "Signing..." : `Sign as ${SIGNATURE_MEANING_LABELS[meaning]}`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { FileSignature } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ConsentStatusBadge } from "@/components/consent/ConsentStatusBadge";
+import { RecordConsentDialog } from "@/components/consent/RecordConsentDialog";
+import { useAppData } from "@/hooks/useAppData";
+import { useConsents } from "@/hooks/useConsents";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
+import { icfVersionLabel } from "@/services/consentService";
+
+interface ConsentTrackingCardProps {
+  trial: any;
+}
+
+/**
+ * Trial dashboard view of informed consent: the current ICF, how many enrolled
+ * patients are on it, and who still has to re-consent
+ */
+export function ConsentTrackingCard({ trial }: ConsentTrackingCardProps) {
+  const { memberId } = useAppData();
+  const { canManagePatients, canViewPatientPHI } = useTrialPermissions(trial?.id);
+  const {
+    icfVersions,
+    latestIcf,
+    enrolledPatients,
+    states,
+    summary,
+    isLoading,
+    recordConsent,
+    isRecording,
+  } = useConsents(trial?.id, memberId);
+  const [consentPatientId, setConsentPatientId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+        <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+      </Card>
+    );
+  }
+
+  const patientOptions = enrolledPatients.map((patient) => ({
+    id: patient.patient_id,
+    label:
+      canViewPatientPHI && patient.patients?.first_name
+        ? `${patient.patients.patient_code} - ${patient.patients.first_name} ${patient.patients.last_name || ""}`.trim()
+        : patient.patients?.patient_code || "Unknown patient",
+  }));
+
+  // Patients who need a signature, re-consents first
+  const actionNeeded = patientOptions
+    .filter((patient) => states[patient.id]?.status !== "current")
+    .sort((a, b) =>
+      states[a.id].status === states[b.id].status
+        ? a.label.localeCompare(b.label)
+        : states[a.id].status === "reconsent_required"
+          ? -1
+          : 1
+    );
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <FileSignature className="w-4 h-4" />
+            Informed Consent
+          </h3>
+          <p className="text-sm text-gray-600">
+            {latestIcf
+              ? `Current ICF ${icfVersionLabel(latestIcf)}: ${latestIcf.document_name}, uploaded ${format(parseISO(latestIcf.created_at), "MMM d, yyyy")}`
+              : "No ICF uploaded for this trial yet."}
+          </p>
+        </div>
+        {canManagePatients && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setConsentPatientId("")}
+            disabled={enrolledPatients.length === 0 || icfVersions.length === 0}
+          >
+            Record Consent
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Enrolled", value: summary.total },
+          { label: "On current ICF", value: summary.current },
+          { label: "Re-consent pending", value: summary.reconsentRequired },
+          { label: "No consent on file", value: summary.notConsented },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-lg border p-3">
+            <div className="text-xl font-semibold text-gray-900">{stat.value}</div>
+            <div className="text-xs text-gray-600">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {summary.reconsented + summary.reconsentRequired > 0 && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Re-consent completion</span>
+            <span className="font-medium">
+              {summary.reconsented}/{summary.reconsented + summary.reconsentRequired} (
+              {summary.reconsentProgress}%)
+            </span>
+          </div>
+          <Progress value={summary.reconsentProgress} />
+        </div>
+      )}
+
+      {actionNeeded.length > 0 && (
+        <div className="space-y-2">
+          {actionNeeded.map((patient) => {
+            const state = states[patient.id];
+            return (
+              <div
+                key={patient.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm text-gray-900">{patient.label}</div>
+                  {state.latestConsent?.trial_documents && (
+                    <div className="text-xs text-gray-500">
+                      Signed {icfVersionLabel(state.latestConsent.trial_documents)} on{" "}
+                      {format(parseISO(state.latestConsent.signed_date), "MMM d, yyyy")}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <ConsentStatusBadge status={state.status} />
+                  {canManagePatients && latestIcf && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setConsentPatientId(patient.id)}
+                    >
+                      Record
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {consentPatientId !== null && (
+        <RecordConsentDialog
+          key={consentPatientId || "new"}
+          open
+          onOpenChange={(open) => !open && setConsentPatientId(null)}
+          trialId={trial.id}
+          patients={patientOptions}
+          patientId={consentPatientId || undefined}
+          icfVersions={icfVersions}
+          isSubmitting={isRecording}
+          onSubmit={recordConsent}
+        />
+      )}
+    </Card>
+  );
+}
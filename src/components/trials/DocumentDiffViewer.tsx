@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import ReactMarkdown from "react-markdown";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowRight,
+  BookmarkPlus,
+  GitCompare,
+  Loader2,
+  Sparkles,
+} from "lucide-react";
+import {
+  getProtocolDiffService,
+  LineDiff,
+  SectionDiff,
+} from "@/services/protocolDiffService";
+import { useQARepository } from "@/hooks/useQARepository";
+
+interface DocumentDiffViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trialId: string;
+  documents: any[];
+  // Document the comparison was opened from, used as the newer version
+  document: any;
+}
+
+// Protocols and their amendments are versions of the same document
+const getDocumentFamily = (type: string) =>
+  type === "protocol" || type === "amendment" ? "protocol" : type;
+
+const sortByVersion = (a: any, b: any) =>
+  (a.amendment_number ?? 0) - (b.amendment_number ?? 0) ||
+  (a.version ?? 0) - (b.version ?? 0) ||
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+const statusStyles: Record<SectionDiff["status"], string> = {
+  added: "bg-green-100 text-green-800 border-green-200",
+  removed: "bg-red-100 text-red-800 border-red-200",
+  modified: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  unchanged: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+function DiffLine({ line }: { line: LineDiff }) {
+  if (line.type === "equal") {
+    return <div className="px-3 py-0.5 text-gray-600">{line.newText}</div>;
+  }
+
+  if (line.type === "added") {
+    return (
+      <div className="px-3 py-0.5 bg-green-50 text-green-900">
+        <span className="select-none text-green-600 mr-2">+</span>
+        {line.newText}
+      </div>
+    );
+  }
+
+  if (line.type === "removed") {
+    return (
+      <div className="px-3 py-0.5 bg-red-50 text-red-900 line-through decoration-red-300">
+        <span className="select-none text-red-600 mr-2 no-underline">-</span>
+        {line.oldText}
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 py-0.5 bg-yellow-50 text-gray-800">
+      <span className="select-none text-yellow-600 mr-2">~</span>
+      {line.words?.map((word, index) => (
+        <span
+          key={index}
+          className={
+            word.type === "added"
+              ? "bg-green-200 text-green-900 rounded-sm"
+              : word.type === "removed"
+              ? "bg-red-200 text-red-900 line-through rounded-sm"
+              : undefined
+          }
+        >
+          {word.text}{" "}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function DocumentDiffViewer({
+  isOpen,
+  onClose,
+  trialId,
+  documents,
+  document,
+}: DocumentDiffViewerProps) {
+  const diffService = getProtocolDiffService();
+  const { addQAItem, isAdding } = useQARepository(trialId);
+
+  const versions = useMemo(() => {
+    if (!document) return [];
+    const family = getDocumentFamily(document.document_type);
+    return documents
+      .filter((doc) => getDocumentFamily(doc.document_type) === family)
+      .sort(sortByVersion);
+  }, [documents, document]);
+
+  const [oldDocumentId, setOldDocumentId] = useState<string>("");
+  const [newDocumentId, setNewDocumentId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // Default: the opened document against the version right before it
+  useEffect(() => {
+    if (!isOpen || !document) return;
+    const index = versions.findIndex((doc) => doc.id === document.id);
+    const previous = versions[index - 1] || versions.find((doc) => doc.id !== document.id);
+    setNewDocumentId(document.id);
+    setOldDocumentId(previous?.id || "");
+    setSummary(null);
+  }, [isOpen, document, versions]);
+
+  const oldDocument = versions.find((doc) => doc.id === oldDocumentId);
+  const newDocument = versions.find((doc) => doc.id === newDocumentId);
+
+  const diffQuery = useQuery({
+    queryKey: ["document-diff", oldDocumentId, newDocumentId],
+    queryFn: () => diffService.compareDocuments(oldDocument, newDocument),
+    enabled: isOpen && !!oldDocument && !!newDocument && oldDocumentId !== newDocumentId,
+    staleTime: Infinity,
+  });
+
+  const summaryMutation = useMutation({
+    mutationFn: () =>
+      diffService.summarizeChanges(
+        diffQuery.data!,
+        oldDocument.document_name,
+        newDocument.document_name
+      ),
+    onSuccess: (result) => setSummary(result),
+  });
+
+  const handleSaveSummary = async () => {
+    if (!summary || !diffQuery.data) return;
+
+    const changedSections = diffQuery.data.sections.filter(
+      (section) => section.status !== "unchanged"
+    );
+
+    await addQAItem(
+      `What changed between ${oldDocument.document_name} and ${newDocument.document_name}?`,
+      summary,
+      trialId,
+      ["amendment", "change-summary"],
+      changedSections.slice(0, 20).map((section) => ({
+        section: section.title,
+        page: (section.newSection || section.oldSection)?.page,
+        content: section.status,
+      }))
+    );
+  };
+
+  const handleVersionChange = (setter: (id: string) => void) => (id: string) => {
+    setter(id);
+    setSummary(null);
+  };
+
+  if (!document) return null;
+
+  const sections = (diffQuery.data?.sections || []).filter(
+    (section) => showUnchanged || section.status !== "unchanged"
+  );
+
+  const versionLabel = (doc: any) =>
+    `${doc.document_name}${
+      doc.amendment_number ? ` (Amendment ${doc.amendment_number})` : ""
+    } · ${format(new Date(doc.created_at), "yyyy-MM-dd")}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[90vh] p-0 overflow-hidden flex flex-col">
+        <DialogHeader className="p-6 border-b bg-gray-50">
+          <DialogTitle className="flex items-center gap-2 text-xl font-semibold">
+            <GitCompare className="w-5 h-5 text-blue-600" />
+            Compare Versions
+          </DialogTitle>
+          <div className="flex items-center gap-3 mt-4">
+            <Select value={oldDocumentId} onValueChange={handleVersionChange(setOldDocumentId)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Older version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>
+                    {versionLabel(doc)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <Select value={newDocumentId} onValueChange={handleVersionChange(setNewDocumentId)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Newer version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>
+                    {versionLabel(doc)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          {versions.length < 2 && (
+            <p className="text-sm text-gray-500">
+              There is only one version of this document, upload an amendment
+              to compare.
+            </p>
+          )}
+
+          {oldDocumentId && oldDocumentId === newDocumentId && (
+            <p className="text-sm text-gray-500">
+              Select two different versions to compare.
+            </p>
+          )}
+
+          {diffQuery.isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Extracting and comparing text...
+            </div>
+          )}
+
+          {diffQuery.error && (
+            <p className="text-sm text-red-600">
+              Could not compare the documents:{" "}
+              {(diffQuery.error as Error).message}
+            </p>
+          )}
+
+          {diffQuery.data && (
+            <>
+              {/* Stats and actions */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline" className={statusStyles.modified}>
+                    {diffQuery.data.stats.modified} modified
+                  </Badge>
+                  <Badge variant="outline" className={statusStyles.added}>
+                    {diffQuery.data.stats.added} added
+                  </Badge>
+                  <Badge variant="outline" className={statusStyles.removed}>
+                    {diffQuery.data.stats.removed} removed
+                  </Badge>
+                  <div className="flex items-center gap-2 ml-4">
+                    <Switch
+                      id="show-unchanged"
+                      checked={showUnchanged}
+                      onCheckedChange={setShowUnchanged}
+                    />
+                    <Label htmlFor="show-unchanged" className="text-sm text-gray-600">
+                      Show unchanged sections ({diffQuery.data.stats.unchanged})
+                    </Label>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => summaryMutation.mutate()}
+                  disabled={
+                    summaryMutation.isPending || !diffService.isSummaryAvailable()
+                  }
+                  title={
+                    diffService.isSummaryAvailable()
+                      ? undefined
+                      : "Anthropic API key missing"
+                  }
+                >
+                  {summaryMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-4 h-4 mr-2" />
+                  )}
+                  AI Change Summary
+                </Button>
+              </div>
+
+              {summaryMutation.error && (
+                <p className="text-sm text-red-600">
+                  {(summaryMutation.error as Error).message}
+                </p>
+              )}
+
+              {/* AI summary */}
+              {summary && (
+                <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-semibold text-blue-900 flex items-center gap-2">
+                      <Sparkles className="w-4 h-4" />
+                      Change Summary
+                    </h3>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSaveSummary}
+                      disabled={isAdding}
+                    >
+                      <BookmarkPlus className="w-4 h-4 mr-2" />
+                      Save to Q&A Repository
+                    </Button>
+                  </div>
+                  <div className="prose prose-sm max-w-none text-gray-800">
+                    <ReactMarkdown>{summary}</ReactMarkdown>
+                  </div>
+                </div>
+              )}
+
+              {/* Section-aligned diff */}
+              {sections.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  No differences found between the two versions.
+                </p>
+              )}
+              {sections.map((section) => (
+                <div key={section.key} className="border rounded-lg overflow-hidden">
+                  <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b">
+                    <span className="font-medium text-sm text-gray-900">
+                      {section.oldSection &&
+                      section.newSection &&
+                      section.oldSection.title !== section.newSection.title
+                        ? `${section.oldSection.title} → ${section.newSection.title}`
+                        : section.title}
+                    </span>
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      {section.oldSection && <span>old p. {section.oldSection.page}</span>}
+                      {section.newSection && <span>new p. {section.newSection.page}</span>}
+                      <Badge variant="outline" className={`${statusStyles[section.status]} text-xs`}>
+                        {section.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="text-sm font-mono leading-relaxed py-1">
+                    {section.lines.map((line, index) => (
+                      <DiffLine key={index} line={line} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
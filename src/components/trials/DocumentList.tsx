@@ -39,11 +39,27 @@ import {
   MoreVertical,
   X,
   Upload,
+  GitCompare,
+  FileSignature,
+  ClipboardCheck,
+  CalendarClock,
 } from "lucide-react";
 import { format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { documentService } from "@/services/documentService";
 import { useToast } from "@/hooks/use-toast";
+import { DocumentDiffViewer } from "./DocumentDiffViewer";
+import { DocumentSignaturesDialog } from "@/components/signatures/DocumentSignaturesDialog";
+import { DocumentReviewDialog } from "@/components/documents/DocumentReviewDialog";
+import { DocumentStatusBadge } from "@/components/documents/DocumentStatusBadge";
+import { DocumentDatesDialog } from "@/components/documents/DocumentDatesDialog";
+import { useDocumentExpiry } from "@/hooks/useDocumentExpiry";
+import { describeDue, getDocumentDue } from "@/services/documentExpiryService";
+import {
+  getDocumentStatus,
+  UNREVIEWED_STATUSES,
+} from "@/services/documentReviewService";
+import { ReasonForChangeDialog } from "@/components/audit/ReasonForChangeDialog";
 
 interface DocumentListProps {
   trialId: string;
@@ -52,6 +68,8 @@ interface DocumentListProps {
   latestProtocol?: any;
   latestAmendment?: any;
   onAddDocClick?: () => void;
+  // Archive/delete actions are hidden without edit permission on the trial
+  canEditDocuments?: boolean;
 }
 
 export function DocumentList({
@@ -61,6 +79,7 @@ export function DocumentList({
   latestProtocol,
   latestAmendment,
   onAddDocClick,
+  canEditDocuments = true,
 }: DocumentListProps) {
   const [activeTab, setActiveTab] = useState("Active");
   const navigate = useNavigate();
@@ -81,7 +100,22 @@ export function DocumentList({
   // Add state for showing the warning
   const [showWarning, setShowWarning] = useState(false);
 
-  const tabs = ["Active", "Archived", "All Documents"];
+  // Document whose versions are being compared
+  const [diffDocument, setDiffDocument] = useState<any>(null);
+
+  // Document whose e-signatures are open
+  const [signaturesDocument, setSignaturesDocument] = useState<any>(null);
+
+  // Document whose review is open; read from the list so it stays current
+  const [reviewDocumentId, setReviewDocumentId] = useState<string | null>(null);
+  const reviewDocument =
+    documents.find((doc) => doc.id === reviewDocumentId) || null;
+
+  // Document whose expiry and re-review dates are being edited
+  const [datesDocument, setDatesDocument] = useState<any>(null);
+  const { updateDates, isUpdating: isUpdatingDates } = useDocumentExpiry(trialId);
+
+  const tabs = ["Active", "In Review", "Archived", "All Documents"];
 
   // const getStatusBadgeVariant = (status: string) => {
   //   switch (status?.toLowerCase()) {
@@ -98,18 +132,6 @@ export function DocumentList({
   //   }
   // };
 
-  const getStatusBadgeColor = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case "active":
-        return "bg-green-100 text-green-800 border-green-200";
-      case "archived":
-        return "bg-gray-100 text-gray-700 border-gray-200";
-
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
-  };
-
   const formatDocumentType = (type: string) => {
     switch (type) {
       case "protocol":
@@ -137,8 +159,8 @@ export function DocumentList({
   const isActiveProtocol = (document: any) => {
     if (document.document_type !== "protocol") return false;
 
-    const activeStatuses = ["active", "archived"];
-    return activeStatuses.includes(document.status?.toLowerCase());
+    const activeStatuses = ["effective", "archived"];
+    return activeStatuses.includes(getDocumentStatus(document));
   };
 
   // Find all active protocols
@@ -152,6 +174,23 @@ export function DocumentList({
     return false;
   };
 
+  // The warning flag is set by the database once a document is past due
+  const describeWarning = (document: any) => {
+    const due = getDocumentDue(document);
+    return due ? describeDue(due) : "Past its expiry or re-review date";
+  };
+
+  // Protocols and amendments are versions of each other, other types only of themselves
+  const hasOtherVersions = (document: any) => {
+    const family = (type: string) =>
+      type === "protocol" || type === "amendment" ? "protocol" : type;
+    return documents.some(
+      (doc) =>
+        doc.id !== document.id &&
+        family(doc.document_type) === family(document.document_type)
+    );
+  };
+
   // Use the protocol passed from parent instead of searching again
   const protocolDocument =
     latestProtocol ||
@@ -160,11 +199,18 @@ export function DocumentList({
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  // Document waiting for a reason for change before it is archived
+  const [archiveDocumentId, setArchiveDocumentId] = useState<string | null>(
+    null
+  );
+
   const archiveMutation = useMutation({
-    mutationFn: (documentId: string) =>
-      documentService.updateDocument(documentId, { status: "archived" }),
+    mutationFn: ({ documentId, reason }: { documentId: string; reason: string }) =>
+      documentService.updateDocument(documentId, { status: "archived" }, reason),
     onSuccess: () => {
+      setArchiveDocumentId(null);
       queryClient.invalidateQueries({ queryKey: ["trialDocuments", trialId] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
       toast({ title: "Document archived" });
     },
     onError: () => {
@@ -175,9 +221,17 @@ export function DocumentList({
   // Filter documents by tab
   let filteredDocuments = documents;
   if (activeTab === "Active") {
-    filteredDocuments = documents.filter((doc) => doc.status === "active");
+    filteredDocuments = documents.filter(
+      (doc) => getDocumentStatus(doc) === "effective"
+    );
+  } else if (activeTab === "In Review") {
+    filteredDocuments = documents.filter((doc) =>
+      UNREVIEWED_STATUSES.includes(getDocumentStatus(doc))
+    );
   } else if (activeTab === "Archived") {
-    filteredDocuments = documents.filter((doc) => doc.status === "archived");
+    filteredDocuments = documents.filter((doc) =>
+      ["superseded", "archived"].includes(getDocumentStatus(doc))
+    );
   }
 
   return (
@@ -369,6 +423,18 @@ export function DocumentList({
                           Latest
                         </Badge>
                       )}
+                      {document.warning && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <CalendarClock className="w-4 h-4 text-amber-600 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="max-w-xs">
+                              {describeWarning(document)}
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
                       {shouldShowProtocolWarning(document) && (
                         <Tooltip>
                           <TooltipTrigger asChild>
@@ -404,14 +470,7 @@ export function DocumentList({
                   </TableCell>
 
                   <TableCell>
-                    <Badge
-                      variant="outline"
-                      className={getStatusBadgeColor(
-                        document.status || "pending"
-                      )}
-                    >
-                      {document.status || "Pending"}
-                    </Badge>
+                    <DocumentStatusBadge status={document.status} />
                   </TableCell>
 
                   <TableCell className="text-sm text-muted-foreground">
@@ -462,12 +521,13 @@ export function DocumentList({
                         </TooltipContent>
                       </Tooltip>
 
+                      {canEditDocuments && (
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => archiveMutation.mutate(document.id)}
+                            onClick={() => setArchiveDocumentId(document.id)}
                             disabled={
                               document.status === "archived" ||
                               archiveMutation.status === "pending"
@@ -480,6 +540,7 @@ export function DocumentList({
                           <p>Archive document</p>
                         </TooltipContent>
                       </Tooltip>
+                      )}
 
                       {/* More Actions Dropdown */}
                       <DropdownMenu>
@@ -496,6 +557,31 @@ export function DocumentList({
                           </TooltipContent>
                         </Tooltip>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => setDiffDocument(document)}
+                            disabled={!hasOtherVersions(document)}
+                          >
+                            <GitCompare className="w-4 h-4 mr-2" />
+                            Compare versions
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setReviewDocumentId(document.id)}
+                          >
+                            <ClipboardCheck className="w-4 h-4 mr-2" />
+                            Review
+                          </DropdownMenuItem>
+                          {canEditDocuments && (
+                            <DropdownMenuItem
+                              onClick={() => setDatesDocument(document)}
+                            >
+                              <CalendarClock className="w-4 h-4 mr-2" />
+                              Expiry & Re-review
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => setSignaturesDocument(document)}>
+                            <FileSignature className="w-4 h-4 mr-2" />
+                            Signatures
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => {
                               // Print document logic
@@ -514,16 +600,18 @@ export function DocumentList({
                             <Download className="w-4 h-4 mr-2" />
                             Download
                           </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => {
-                              // Delete document logic
-                              console.log("Delete document:", document.id);
-                            }}
-                            className="text-red-600 focus:text-red-600"
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canEditDocuments && (
+                            <DropdownMenuItem
+                              onClick={() => {
+                                // Delete document logic
+                                console.log("Delete document:", document.id);
+                              }}
+                              className="text-red-600 focus:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -533,6 +621,54 @@ export function DocumentList({
             </TableBody>
           </Table>
         </Card>
+
+        <DocumentDiffViewer
+          isOpen={!!diffDocument}
+          onClose={() => setDiffDocument(null)}
+          trialId={trialId}
+          documents={documents}
+          document={diffDocument}
+        />
+
+        <DocumentReviewDialog
+          open={!!reviewDocument}
+          onOpenChange={(open) => !open && setReviewDocumentId(null)}
+          document={reviewDocument}
+          canManage={canEditDocuments}
+        />
+
+        {datesDocument && (
+          <DocumentDatesDialog
+            key={datesDocument.id}
+            open={!!datesDocument}
+            onOpenChange={(open) => !open && setDatesDocument(null)}
+            document={datesDocument}
+            isSubmitting={isUpdatingDates}
+            onSubmit={(dates, reason) =>
+              updateDates({ documentId: datesDocument.id, dates, reason })
+            }
+          />
+        )}
+
+        <DocumentSignaturesDialog
+          open={!!signaturesDocument}
+          onOpenChange={(open) => !open && setSignaturesDocument(null)}
+          target="trial_document"
+          document={signaturesDocument}
+        />
+
+        <ReasonForChangeDialog
+          open={!!archiveDocumentId}
+          onOpenChange={(open) => !open && setArchiveDocumentId(null)}
+          onConfirm={(reason) =>
+            archiveDocumentId &&
+            archiveMutation.mutate({ documentId: archiveDocumentId, reason })
+          }
+          title="Archive document"
+          description="Archiving is recorded in the audit trail. Please describe why this document is being archived."
+          confirmLabel="Archive"
+          isSubmitting={archiveMutation.isPending}
+        />
       </div>
     </TooltipProvider>
   );
@@ -24,8 +24,10 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useDocumentUpload } from "@/hooks/useDocumentUpload";
 import { DocumentTypeEnum } from "@/services/documentService";
+import { REVIEW_INTERVAL_OPTIONS } from "@/services/documentExpiryService";
 import { cn } from "@/lib/utils";
 
 interface DocumentUploadProps {
@@ -74,6 +76,10 @@ interface FileConfig {
   description: string;
   amendmentNumber: string;
   tags: string;
+  // Upload as a draft that goes through review before it is used
+  requiresReview: boolean;
+  expiryDate: string;
+  reviewIntervalMonths: string;
   isEditingName: boolean;
 }
 
@@ -117,6 +123,9 @@ export function DocumentUpload({
             description: "",
             amendmentNumber: "",
             tags: "",
+            requiresReview: false,
+            expiryDate: "",
+            reviewIntervalMonths: "none",
             isEditingName: false,
           })
         );
@@ -183,6 +192,12 @@ export function DocumentUpload({
         amendmentNumber: config.amendmentNumber
           ? parseInt(config.amendmentNumber)
           : undefined,
+        requiresReview: config.requiresReview,
+        expiryDate: config.expiryDate || undefined,
+        reviewIntervalMonths:
+          config.reviewIntervalMonths !== "none"
+            ? parseInt(config.reviewIntervalMonths)
+            : undefined,
       }));
 
       const uploadedDocuments = await uploadMultipleDocuments(uploadOptions);
@@ -411,6 +426,56 @@ export function DocumentUpload({
                     </div>
                   </div>
 
+                  {/* Expiry and periodic re-review */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label
+                        htmlFor={`expiryDate-${index}`}
+                        className="text-xs font-medium"
+                      >
+                        Expiry Date
+                      </Label>
+                      <Input
+                        id={`expiryDate-${index}`}
+                        type="date"
+                        value={config.expiryDate}
+                        onChange={(e) =>
+                          updateFileConfig(index, {
+                            expiryDate: e.target.value,
+                          })
+                        }
+                        className="h-8 text-sm"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="text-xs font-medium">Re-review</Label>
+                      <Select
+                        value={config.reviewIntervalMonths}
+                        onValueChange={(value) =>
+                          updateFileConfig(index, {
+                            reviewIntervalMonths: value,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not required</SelectItem>
+                          {REVIEW_INTERVAL_OPTIONS.map((option) => (
+                            <SelectItem
+                              key={option.months}
+                              value={String(option.months)}
+                            >
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
                   {/* Description */}
                   <div>
                     <Label
@@ -430,6 +495,32 @@ export function DocumentUpload({
                       className="text-sm"
                     />
                   </div>
+
+                  {/* Review */}
+                  <div className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`requiresReview-${index}`}
+                      checked={config.requiresReview}
+                      onCheckedChange={(checked) =>
+                        updateFileConfig(index, {
+                          requiresReview: checked === true,
+                        })
+                      }
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label
+                        htmlFor={`requiresReview-${index}`}
+                        className="text-xs font-medium"
+                      >
+                        Require review before use
+                      </Label>
+                      <p className="text-xs text-gray-500">
+                        Uploaded as a draft. It replaces the current version
+                        and becomes available to the AI assistant once
+                        reviewers approve it and it is made effective.
+                      </p>
+                    </div>
+                  </div>
                 </div>
               ))}
             </div>
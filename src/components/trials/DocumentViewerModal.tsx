@@ -21,14 +21,17 @@ import {
   CheckCircle,
   Clock,
   AlertCircle,
+  History,
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
+import { AuditHistoryPanel } from "@/components/audit/AuditHistoryPanel";
+import { ReasonForChangeDialog } from "@/components/audit/ReasonForChangeDialog";
 
 interface DocumentViewerModalProps {
   isOpen: boolean;
   onClose: () => void;
   document: any;
-  onStatusChange?: (newStatus: string) => void;
+  onStatusChange?: (newStatus: string, reason: string) => void;
 }
 
 export function DocumentViewerModal({
@@ -39,6 +42,9 @@ export function DocumentViewerModal({
 }: DocumentViewerModalProps) {
   const [zoom, setZoom] = useState(100);
   const [rotation, setRotation] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  // Status changes wait here until a reason for change is given
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
 
   if (!document) return null;
 
@@ -149,10 +155,17 @@ export function DocumentViewerModal({
 
   const handleStatusChange = (newStatus: string) => {
     if (onStatusChange) {
-      onStatusChange(newStatus);
+      setPendingStatus(newStatus);
     }
   };
 
+  const handleConfirmStatusChange = (reason: string) => {
+    if (onStatusChange && pendingStatus) {
+      onStatusChange(pendingStatus, reason);
+    }
+    setPendingStatus(null);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-800';
@@ -260,6 +273,14 @@ export function DocumentViewerModal({
             )}
             
             {/* Action Buttons */}
+            <Button
+              variant={showHistory ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              <History className="w-4 h-4 mr-1" />
+              History
+            </Button>
             <Button variant="outline" size="sm" onClick={handlePrint}>
               <Printer className="w-4 h-4 mr-1" />
               Print
@@ -275,48 +296,72 @@ export function DocumentViewerModal({
           </div>
         </div>
 
-        {/* Document Content */}
-        <div className="flex-1 overflow-auto p-6 bg-gray-50">
-          <div 
-            className="bg-white shadow-lg mx-auto p-8 min-h-full"
-            style={{ 
-              transform: `scale(${zoom / 100}) rotate(${rotation}deg)`,
-              transformOrigin: 'top center',
-              maxWidth: '800px',
-              transition: 'transform 0.2s ease'
-            }}
-          >
-            <div className="prose prose-sm max-w-none">
-              <ReactMarkdown
-                components={{
-                  // Custom rendering for checklists
-                  p: ({ children }) => {
-                    const text = children?.toString() || '';
-                    if (text.includes('[ ]') || text.includes('[x]')) {
-                      return (
-                        <div className="flex items-start gap-2 mb-2">
-                          <div className="w-4 h-4 border-2 border-gray-400 mt-1 flex-shrink-0"></div>
-                          <span>{text.replace(/\[[ x]\]\s*/, '')}</span>
-                        </div>
-                      );
-                    }
-                    return <p className="mb-3">{children}</p>;
-                  },
-                  h1: ({ children }) => <h1 className="text-2xl font-bold mb-4 text-gray-900">{children}</h1>,
-                  h2: ({ children }) => <h2 className="text-xl font-semibold mb-3 text-gray-800 border-b border-gray-200 pb-2">{children}</h2>,
-                  h3: ({ children }) => <h3 className="text-lg font-medium mb-2 text-gray-700">{children}</h3>,
-                  ul: ({ children }) => <ul className="list-disc pl-6 mb-4 space-y-1">{children}</ul>,
-                  ol: ({ children }) => <ol className="list-decimal pl-6 mb-4 space-y-1">{children}</ol>,
-                  li: ({ children }) => <li className="text-gray-700">{children}</li>,
-                  strong: ({ children }) => <strong className="font-semibold text-gray-900">{children}</strong>,
-                  em: ({ children }) => <em className="italic text-gray-600">{children}</em>,
-                }}
-              >
-                {document.content}
-              </ReactMarkdown>
+        <div className="flex flex-1 overflow-hidden">
+          {/* Document Content */}
+          <div className="flex-1 overflow-auto p-6 bg-gray-50">
+            <div 
+              className="bg-white shadow-lg mx-auto p-8 min-h-full"
+              style={{ 
+                transform: `scale(${zoom / 100}) rotate(${rotation}deg)`,
+                transformOrigin: 'top center',
+                maxWidth: '800px',
+                transition: 'transform 0.2s ease'
+              }}
+            >
+              <div className="prose prose-sm max-w-none">
+                <ReactMarkdown
+                  components={{
+                    // Custom rendering for checklists
+                    p: ({ children }) => {
+                      const text = children?.toString() || '';
+                      if (text.includes('[ ]') || text.includes('[x]')) {
+                        return (
+                          <div className="flex items-start gap-2 mb-2">
+                            <div className="w-4 h-4 border-2 border-gray-400 mt-1 flex-shrink-0"></div>
+                            <span>{text.replace(/\[[ x]\]\s*/, '')}</span>
+                          </div>
+                        );
+                      }
+                      return <p className="mb-3">{children}</p>;
+                    },
+                    h1: ({ children }) => <h1 className="text-2xl font-bold mb-4 text-gray-900">{children}</h1>,
+                    h2: ({ children }) => <h2 className="text-xl font-semibold mb-3 text-gray-800 border-b border-gray-200 pb-2">{children}</h2>,
+                    h3: ({ children }) => <h3 className="text-lg font-medium mb-2 text-gray-700">{children}</h3>,
+                    ul: ({ children }) => <ul className="list-disc pl-6 mb-4 space-y-1">{children}</ul>,
+                    ol: ({ children }) => <ol className="list-decimal pl-6 mb-4 space-y-1">{children}</ol>,
+                    li: ({ children }) => <li className="text-gray-700">{children}</li>,
+                    strong: ({ children }) => <strong className="font-semibold text-gray-900">{children}</strong>,
+                    em: ({ children }) => <em className="italic text-gray-600">{children}</em>,
+                  }}
+                >
+                  {document.content}
+                </ReactMarkdown>
+              </div>
             </div>
           </div>
+
+          {/* Change History */}
+          {showHistory && (
+            <div className="w-80 border-l bg-white overflow-auto p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">
+                Change History
+              </h3>
+              <AuditHistoryPanel
+                entityType="patient_checklist"
+                entityId={document.id}
+                emptyMessage="No status changes have been recorded yet."
+              />
+            </div>
+          )}
         </div>
+
+        <ReasonForChangeDialog
+          open={!!pendingStatus}
+          onOpenChange={(open) => !open && setPendingStatus(null)}
+          onConfirm={handleConfirmStatusChange}
+          title={`Change status to ${pendingStatus?.replace("_", " ") ?? ""}`}
+          confirmLabel="Change status"
+        />
       </DialogContent>
     </Dialog>
   );
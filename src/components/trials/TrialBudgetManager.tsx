@@ -0,0 +1,527 @@
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Lock, Plus, Save, Trash2, Undo2, Wallet } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BudgetBurnChart, BudgetCategoryChart } from "@/components/budget/BudgetCharts";
+import { useTrialBudget } from "@/hooks/useTrialBudget";
+import { useVisitSchedule } from "@/hooks/useVisitSchedule";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
+import {
+  BUDGET_CATEGORIES,
+  BUDGET_CATEGORY_LABELS,
+  BudgetCategory,
+  BudgetLineItem,
+  formatBudgetAmount,
+} from "@/services/budgetService";
+import { VISIT_TYPE_LABELS, VisitType } from "@/services/visitScheduleService";
+
+interface TrialBudgetManagerProps {
+  trial: any;
+}
+
+const CURRENCIES = ["USD", "EUR", "GBP", "CHF", "CAD", "AUD", "JPY"];
+
+// Applies-to value of a visit-driven item: "all", "schedule:<id>" or "type:<visit_type>"
+type AppliesTo = string;
+
+interface BudgetRow {
+  key: string;
+  id?: string;
+  category: BudgetCategory;
+  name: string;
+  unit_cost: number;
+  quantity: number;
+  overhead_percent: number | null;
+  applies_to: AppliesTo;
+}
+
+const toRow = (item: BudgetLineItem): BudgetRow => ({
+  key: item.id,
+  id: item.id,
+  category: item.category as BudgetCategory,
+  name: item.name,
+  unit_cost: item.unit_cost,
+  quantity: item.quantity,
+  overhead_percent: item.overhead_percent,
+  applies_to: item.schedule_item_id
+    ? `schedule:${item.schedule_item_id}`
+    : item.visit_type
+    ? `type:${item.visit_type}`
+    : "all",
+});
+
+const isVisitDriven = (category: BudgetCategory) =>
+  category === "per_visit" || category === "procedure";
+
+let newRowCounter = 0;
+
+export function TrialBudgetManager({ trial }: TrialBudgetManagerProps) {
+  const { items, summary, isLoading, saveBudget, isSaving } = useTrialBudget(
+    trial.id
+  );
+  const { schedule } = useVisitSchedule(trial.id);
+  const { canViewFinances, canManageFinances, isLoading: permissionsLoading } =
+    useTrialPermissions(trial.id);
+  const [rows, setRows] = useState<BudgetRow[]>([]);
+  const [currency, setCurrency] = useState("USD");
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    setRows(items.map(toRow));
+    setIsDirty(false);
+  }, [items]);
+
+  useEffect(() => {
+    if (summary) setCurrency(summary.currency);
+  }, [summary]);
+
+  const updateRow = (key: string, changes: Partial<BudgetRow>) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === key ? { ...row, ...changes } : row))
+    );
+    setIsDirty(true);
+  };
+
+  const addRow = (category: BudgetCategory) => {
+    setRows((prev) => [
+      ...prev,
+      {
+        key: `new-${++newRowCounter}`,
+        category,
+        name: BUDGET_CATEGORY_LABELS[category],
+        unit_cost: 0,
+        quantity: 1,
+        overhead_percent: category === "overhead" ? 20 : null,
+        applies_to: "all",
+      },
+    ]);
+    setIsDirty(true);
+  };
+
+  const removeRow = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    await saveBudget({
+      currency,
+      items: rows.map((row) => ({
+        id: row.id,
+        category: row.category,
+        name: row.name || BUDGET_CATEGORY_LABELS[row.category],
+        unit_cost: row.unit_cost,
+        quantity: row.quantity,
+        overhead_percent: row.overhead_percent,
+        schedule_item_id:
+          isVisitDriven(row.category) && row.applies_to.startsWith("schedule:")
+            ? row.applies_to.slice("schedule:".length)
+            : null,
+        visit_type:
+          isVisitDriven(row.category) && row.applies_to.startsWith("type:")
+            ? (row.applies_to.slice("type:".length) as VisitType)
+            : null,
+      })),
+    });
+  };
+
+  const parseAmount = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? 0 : Math.max(0, parsed);
+  };
+
+  const formatAmount = (amount: number) => formatBudgetAmount(amount, currency);
+
+  const lineFor = (row: BudgetRow) =>
+    row.id ? summary?.lines.find((line) => line.item.id === row.id) : undefined;
+
+  if (isLoading || permissionsLoading) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+        <div className="h-3 bg-gray-200 rounded w-3/4 mb-2"></div>
+        <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+      </Card>
+    );
+  }
+
+  if (!canViewFinances) {
+    return (
+      <Card className="p-8 text-center text-gray-600">
+        <Lock className="h-6 w-6 mx-auto mb-2 text-gray-400" />
+        Your role in this trial does not include access to finances.
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="p-4">
+            <div className="text-sm text-gray-600">Total Budget</div>
+            <div className="text-2xl font-bold text-gray-900">
+              {formatBudgetAmount(summary.totalBudget, summary.currency)}
+            </div>
+          </Card>
+          <Card className="p-4">
+            <div className="text-sm text-gray-600">Spent to Date</div>
+            <div className="text-2xl font-bold text-gray-900">
+              {formatBudgetAmount(summary.spentToDate, summary.currency)}
+            </div>
+            <div className="text-xs text-gray-500">
+              {summary.utilization.toFixed(1)}% utilized
+            </div>
+          </Card>
+          <Card className="p-4">
+            <div className="text-sm text-gray-600">Monthly Burn</div>
+            <div className="text-2xl font-bold text-gray-900">
+              {formatBudgetAmount(summary.monthlyBurnRate, summary.currency)}
+            </div>
+            <div className="text-xs text-gray-500">Average of the last 90 days</div>
+          </Card>
+          <Card className="p-4">
+            <div className="text-sm text-gray-600">Projected Run-out</div>
+            <div
+              className={`text-2xl font-bold ${
+                summary.isOverBudget ? "text-red-600" : "text-gray-900"
+              }`}
+            >
+              {summary.isOverBudget
+                ? "Over budget"
+                : summary.projectedRunOutDate
+                ? format(parseISO(summary.projectedRunOutDate), "MMM d, yyyy")
+                : "—"}
+            </div>
+            <div className="text-xs text-gray-500">
+              {formatBudgetAmount(summary.remaining, summary.currency)} remaining
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {summary && summary.totalBudget > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Cumulative Spend
+            </h3>
+            <BudgetBurnChart
+              monthly={summary.monthly}
+              totalBudget={summary.totalBudget}
+              currency={summary.currency}
+            />
+          </Card>
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Budget vs Actual by Category
+            </h3>
+            <BudgetCategoryChart summary={summary} />
+          </Card>
+        </div>
+      )}
+
+      {/* Line items */}
+      <Card className="p-6">
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Budget Line Items
+              </h3>
+              <p className="text-sm text-gray-600">
+                Per-visit fees and procedures are charged for every completed
+                visit they apply to. Pass-through actuals come from invoices
+                and billing statements on visit documents and from approved
+                patient payments.
+              </p>
+              {summary && summary.excludedPassThrough > 0 && (
+                <p className="text-xs text-amber-600 mt-1">
+                  {summary.excludedPassThrough} pass-through amount
+                  {summary.excludedPassThrough === 1 ? " is" : "s are"} in another
+                  currency and not counted.
+                </p>
+              )}
+            </div>
+            {canManageFinances && (
+              <div className="flex gap-2">
+                <Select
+                  value={currency}
+                  onValueChange={(value) => {
+                    setCurrency(value);
+                    setIsDirty(true);
+                  }}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isDirty && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setRows(items.map(toRow));
+                      setCurrency(summary?.currency || "USD");
+                      setIsDirty(false);
+                    }}
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Discard
+                  </Button>
+                )}
+                <Select onValueChange={(value) => addRow(value as BudgetCategory)} value="">
+                  <SelectTrigger className="w-40">
+                    <Plus className="h-4 w-4 mr-2" />
+                    <SelectValue placeholder="Add Item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUDGET_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {BUDGET_CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={!isDirty || isSaving}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSaving ? "Saving..." : "Save Budget"}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="border border-dashed rounded-lg p-8 text-center text-sm text-gray-600">
+              No budget defined for this trial yet.
+              {canManageFinances &&
+                " Add per-visit fees, procedures, pass-through costs and overhead to track spending."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">Category</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-48">Applies to</TableHead>
+                  <TableHead className="w-32">Unit cost</TableHead>
+                  <TableHead className="w-24">Qty</TableHead>
+                  <TableHead className="w-32 text-right">Budgeted</TableHead>
+                  <TableHead className="w-32 text-right">Actual</TableHead>
+                  {canManageFinances && <TableHead className="w-10" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const line = lineFor(row);
+                  const isPercentOverhead =
+                    row.category === "overhead" && row.overhead_percent !== null;
+
+                  return (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {BUDGET_CATEGORY_LABELS[row.category]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {canManageFinances ? (
+                          <Input
+                            value={row.name}
+                            onChange={(e) =>
+                              updateRow(row.key, { name: e.target.value })
+                            }
+                          />
+                        ) : (
+                          <span className="font-medium">{row.name}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isVisitDriven(row.category) ? (
+                          <Select
+                            value={row.applies_to}
+                            disabled={!canManageFinances}
+                            onValueChange={(value) =>
+                              updateRow(row.key, { applies_to: value })
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All visits</SelectItem>
+                              {schedule.map((item) => (
+                                <SelectItem key={item.id} value={`schedule:${item.id}`}>
+                                  {item.name}
+                                </SelectItem>
+                              ))}
+                              {Object.entries(VISIT_TYPE_LABELS).map(
+                                ([value, label]) => (
+                                  <SelectItem key={value} value={`type:${value}`}>
+                                    Any {label.toLowerCase()} visit
+                                  </SelectItem>
+                                )
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : row.category === "overhead" ? (
+                          <Select
+                            value={isPercentOverhead ? "percent" : "flat"}
+                            disabled={!canManageFinances}
+                            onValueChange={(value) =>
+                              updateRow(row.key, {
+                                overhead_percent: value === "percent" ? 20 : null,
+                              })
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="percent">% of direct costs</SelectItem>
+                              <SelectItem value="flat">Flat amount</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-gray-500">At actuals</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isPercentOverhead ? (
+                          canManageFinances ? (
+                            <div className="flex items-center gap-1">
+                              <Input
+                                type="number"
+                                min={0}
+                                value={row.overhead_percent ?? 0}
+                                onChange={(e) =>
+                                  updateRow(row.key, {
+                                    overhead_percent: parseAmount(e.target.value),
+                                  })
+                                }
+                              />
+                              <span className="text-gray-500">%</span>
+                            </div>
+                          ) : (
+                            `${row.overhead_percent}%`
+                          )
+                        ) : canManageFinances ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            value={row.unit_cost}
+                            onChange={(e) =>
+                              updateRow(row.key, {
+                                unit_cost: parseAmount(e.target.value),
+                              })
+                            }
+                          />
+                        ) : (
+                          formatAmount(row.unit_cost)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isPercentOverhead ? (
+                          <span className="text-gray-400">—</span>
+                        ) : canManageFinances ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            value={row.quantity}
+                            onChange={(e) =>
+                              updateRow(row.key, {
+                                quantity: parseAmount(e.target.value),
+                              })
+                            }
+                          />
+                        ) : (
+                          row.quantity
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {line
+                          ? formatAmount(line.budgeted)
+                          : isPercentOverhead
+                          ? "—"
+                          : formatAmount(row.unit_cost * row.quantity)}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-700">
+                        {line?.actual != null ? (
+                          <div>
+                            {formatAmount(line.actual)}
+                            {line.units > 0 && (
+                              <div className="text-xs text-gray-500">
+                                {line.units} visits
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                      {canManageFinances && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeRow(row.key)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {summary && summary.byCategory.pass_through.actual > 0 && (
+            <div className="text-sm text-gray-600 text-right">
+              Pass-through actuals:{" "}
+              <span className="font-medium">
+                {formatBudgetAmount(
+                  summary.byCategory.pass_through.actual,
+                  summary.currency
+                )}
+              </span>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
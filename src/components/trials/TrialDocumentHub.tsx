@@ -4,8 +4,10 @@ import { useSearchParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { DocumentList } from "./DocumentList";
 import { DocumentUpload } from "./DocumentUpload";
+import { ExpiringDocumentsPanel } from "@/components/documents/ExpiringDocumentsPanel";
 import { useTrialDocuments } from "@/hooks/useDocuments";
 import { useToast } from "@/hooks/use-toast";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
 
 interface TrialDocumentHubProps {
   trial: any;
@@ -17,14 +19,15 @@ export function TrialDocumentHub({ trial }: TrialDocumentHubProps) {
   const [showUpload, setShowUpload] = useState(false);
   const { toast } = useToast();
   const { data: documents = [] } = useTrialDocuments(trial.id);
+  const { canEditDocuments } = useTrialPermissions(trial.id);
 
   // Check if upload parameter is in URL
   useEffect(() => {
     const uploadParam = searchParams.get("upload");
-    if (uploadParam === "true") {
+    if (uploadParam === "true" && canEditDocuments) {
       setShowUpload(true);
     }
-  }, [searchParams]);
+  }, [searchParams, canEditDocuments]);
 
   // Find latest protocol and amendments
   const latestProtocol = documents.find(
@@ -67,7 +70,7 @@ export function TrialDocumentHub({ trial }: TrialDocumentHubProps) {
     });
   };
 
-  if (showUpload) {
+  if (showUpload && canEditDocuments) {
     return (
       <>
         {/* Upload Header */}
@@ -96,20 +99,30 @@ export function TrialDocumentHub({ trial }: TrialDocumentHubProps) {
   }
 
   return (
-    <>
+    <div className="space-y-4">
+      <ExpiringDocumentsPanel
+        trialId={trial.id}
+        documents={documents}
+        canEditDocuments={canEditDocuments}
+      />
       <DocumentList
         trialId={trial.id}
         trialName={trial.name}
         trialDescription={trial.description}
         latestProtocol={latestProtocol}
         latestAmendment={latestAmendment}
-        onAddDocClick={() => {
-          setShowUpload(true);
-          // Add upload parameter to URL
-          searchParams.set("upload", "true");
-          setSearchParams(searchParams, { replace: true });
-        }}
+        canEditDocuments={canEditDocuments}
+        onAddDocClick={
+          canEditDocuments
+            ? () => {
+                setShowUpload(true);
+                // Add upload parameter to URL
+                searchParams.set("upload", "true");
+                setSearchParams(searchParams, { replace: true });
+              }
+            : undefined
+        }
       />
-    </>
+    </div>
   );
 }
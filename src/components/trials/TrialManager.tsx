@@ -1,11 +1,32 @@
 import React, { useState } from "react";
-import { FileText, Users, BarChart3, UserCheck } from "lucide-react";
+import {
+  FileText,
+  Users,
+  BarChart3,
+  UserCheck,
+  CalendarClock,
+  Wallet,
+  ClipboardCheck,
+  ShieldAlert,
+} from "lucide-react";
 import { TrialDocumentHub } from "./TrialDocumentHub.tsx";
 import { TrialOverview } from "./TrialOverview.tsx";
 import { TrialTeam } from "./TrialTeam.tsx";
 import { TrialPatientsManager } from "./TrialPatientsManager.tsx";
+import { VisitScheduleEditor } from "./VisitScheduleEditor";
+import { TrialBudgetManager } from "./TrialBudgetManager";
+import { TrialScreeningManager } from "./TrialScreeningManager";
+import { TrialSafetyManager } from "./TrialSafetyManager";
 
-type TabType = "overview" | "document-hub" | "team" | "patients";
+type TabType =
+  | "overview"
+  | "document-hub"
+  | "team"
+  | "patients"
+  | "screening"
+  | "visits"
+  | "safety"
+  | "budget";
 
 interface TabItem {
   id: TabType;
@@ -39,6 +60,30 @@ const tabs: TabItem[] = [
     icon: UserCheck,
     description: "Patient assignment and management",
   },
+  {
+    id: "screening",
+    name: "Screening",
+    icon: ClipboardCheck,
+    description: "Eligibility criteria, screenings and screen failures",
+  },
+  {
+    id: "visits",
+    name: "Visits",
+    icon: CalendarClock,
+    description: "Schedule of assessments and patient visits",
+  },
+  {
+    id: "safety",
+    name: "Safety",
+    icon: ShieldAlert,
+    description: "Adverse events, SAE reporting deadlines and line listing",
+  },
+  {
+    id: "budget",
+    name: "Budget",
+    icon: Wallet,
+    description: "Budget line items, actuals and burn rate",
+  },
 ];
 
 interface TrialManagerProps {
@@ -102,6 +147,14 @@ function TabContent({ activeTab, trial }: { activeTab: TabType; trial: any }) {
       return <TrialTeam trial={trial} />;
     case "patients":
       return <TrialPatients trial={trial} />;
+    case "screening":
+      return <TrialScreeningManager trial={trial} />;
+    case "visits":
+      return <VisitScheduleEditor trial={trial} />;
+    case "safety":
+      return <TrialSafetyManager trial={trial} />;
+    case "budget":
+      return <TrialBudgetManager trial={trial} />;
     default:
       return <TrialOverview trial={trial} />;
   }
@@ -18,6 +18,7 @@ import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { TrialBreadcrumb } from "@/components/common/breadcrumbs/TrialBreadcrumb";
+import { ConsentTrackingCard } from "./ConsentTrackingCard";
 
 interface TrialOverviewProps {
   trial: any;
@@ -185,6 +186,8 @@ export function TrialOverview({ trial }: TrialOverviewProps) {
           </ul>
         </div>
       </div>
+
+      <ConsentTrackingCard trial={trial} />
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,7 +20,7 @@ import {
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useAppData } from "@/hooks/useAppData";
-import { usePermissions } from "@/hooks/usePermissions";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import {
@@ -43,6 +44,19 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { ScheduleVisitModal } from "./patients/ScheduleVisitModal";
 import { DocumentViewerModal } from "./DocumentViewerModal";
+import { notificationService } from "@/services/notificationService";
+import { auditService } from "@/services/auditService";
+import { visitScheduleService } from "@/services/visitScheduleService";
+import { getEnrollmentEligibility } from "@/services/screeningService";
+import { useScreening } from "@/hooks/useScreening";
+import { FindCandidatesDialog } from "@/components/screening/FindCandidatesDialog";
+import type { CandidateMatch } from "@/services/candidateMatchingService";
+import { VisitSummaryCard } from "./patients/VisitSummaryCard";
+import { AdverseEventsCard } from "./patients/AdverseEventsCard";
+import { ConsentHistoryCard } from "./patients/ConsentHistoryCard";
+import { ConsentStatusBadge } from "@/components/consent/ConsentStatusBadge";
+import { useConsents } from "@/hooks/useConsents";
+import { format } from "date-fns";
 
 interface Patient {
   id: string;
@@ -58,6 +72,11 @@ interface Patient {
   country: string;
   is_active: boolean;
   organization_id: string;
+  height_cm: number | null;
+  weight_kg: number | null;
+  medical_history: string | null;
+  current_medications: string | null;
+  known_allergies: string | null;
 }
 
 interface TrialPatient {
@@ -86,6 +105,15 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
   const [showAssignDialog, setShowAssignDialog] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [assignmentNotes, setAssignmentNotes] = useState("");
+  // Trial team member the generated visits are assigned to
+  const [investigatorId, setInvestigatorId] = useState("");
+  const [investigators, setInvestigators] = useState<
+    { id: string; name: string }[]
+  >([]);
+  // Day 0 of the trial visit schedule for the new patient
+  const [baselineDate, setBaselineDate] = useState(
+    format(new Date(), "yyyy-MM-dd")
+  );
   const [submitting, setSubmitting] = useState(false);
   const [showScheduleVisitModal, setShowScheduleVisitModal] = useState(false);
   const [selectedTrialPatient, setSelectedTrialPatient] =
@@ -96,8 +124,27 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
   const [selectedDocument, setSelectedDocument] = useState<any>(null);
 
   const { organizationId, memberId } = useAppData();
-  const { canManageMembers } = usePermissions();
+  const { canManagePatients, canViewPatientPHI, canViewFinances } =
+    useTrialPermissions(trial?.id);
+  const [showFindCandidates, setShowFindCandidates] = useState(false);
+  const { criteria, screenings, startScreening, saveResponses } = useScreening(
+    trial?.id,
+    memberId
+  );
+  const { states: consentStates } = useConsents(trial?.id, memberId);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Patients can only be enrolled after passing eligibility screening,
+  // once the trial has criteria (also enforced by the database)
+  const getEligibility = (patientId: string) =>
+    getEnrollmentEligibility(
+      criteria,
+      screenings.filter((screening) => screening.patient_id === patientId)
+    );
+  const selectedEligibility = selectedPatient
+    ? getEligibility(selectedPatient.id)
+    : null;
 
   // Load data
   useEffect(() => {
@@ -133,6 +180,14 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
 
       if (trialPatientsError) throw trialPatientsError;
 
+      const { data: trialMembers, error: trialMembersError } = await supabase
+        .from("trial_members")
+        .select("members(id, name)")
+        .eq("trial_id", trial.id)
+        .eq("is_active", true);
+
+      if (trialMembersError) throw trialMembersError;
+
       // Filter available patients (exclude already assigned)
       const assignedPatientIds = new Set(
         trialPatients?.map((tp) => tp.patient_id) || []
@@ -142,6 +197,9 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
 
       setAvailablePatients(available);
       setAssignedPatients(trialPatients || []);
+      setInvestigators(
+        (trialMembers || []).map((tm) => tm.members).filter(Boolean)
+      );
     } catch (error) {
       console.error("Error loading patient data:", error);
       toast({
@@ -154,8 +212,43 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
     }
   };
 
+  // Pre-screening candidates: patients without an open screening
+  const screeningCandidates = availablePatients.filter(
+    (patient) =>
+      !screenings.some(
+        (screening) =>
+          screening.patient_id === patient.id && screening.status === "in_progress"
+      )
+  );
+
+  const handleAssignCandidate = (patientId: string) => {
+    setSelectedPatient(availablePatients.find((p) => p.id === patientId) || null);
+    setShowFindCandidates(false);
+    setShowAssignDialog(true);
+  };
+
+  // Start a screening with the pre-screening answers filled in as a draft
+  const handleScreenCandidate = async (match: CandidateMatch) => {
+    const screeningId = await startScreening(match.patient.id);
+    await saveResponses({
+      screeningId,
+      responses: match.assessments
+        .filter((assessment) => assessment.answer !== "unknown")
+        .map((assessment) => ({
+          criterion_id: assessment.criterionId,
+          answer: assessment.answer,
+          evidence: `Pre-screening (${assessment.source === "rule" ? "rule" : "AI"}): ${assessment.explanation}`,
+        })),
+    });
+    toast({
+      title: "Screening started",
+      description: `Review and complete ${match.patient.patient_code}'s screening in the Screening tab.`,
+    });
+  };
+
   const handleAssignPatient = async () => {
-    if (!selectedPatient || !memberId) return;
+    if (!selectedPatient || !memberId || !investigatorId) return;
+    if (!getEligibility(selectedPatient.id).eligible) return;
 
     try {
       setSubmitting(true);
@@ -166,21 +259,70 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
         status: "enrolled",
         notes: assignmentNotes,
         assigned_by: memberId,
+        enrollment_date: baselineDate,
       });
 
       if (error) throw error;
+
+      // Generate the patient's visits from the trial schedule of assessments.
+      // The enrollment already succeeded, so a failure here only warns.
+      let generatedVisits = 0;
+      try {
+        const visits = await visitScheduleService.generateVisitsForEnrollment({
+          trialId: trial.id,
+          patientId: selectedPatient.id,
+          baselineDate,
+          doctorId: investigatorId,
+          createdBy: memberId,
+        });
+        generatedVisits = visits.length;
+      } catch (visitError) {
+        console.error("Error generating scheduled visits:", visitError);
+        toast({
+          title: "Visits not generated",
+          description:
+            "The patient was assigned, but the scheduled visits could not be created.",
+          variant: "destructive",
+        });
+      }
+
+      await notificationService.notifyTrialTeam({
+        trialId: trial.id,
+        type: "trial_update",
+        title: "Patient assigned",
+        message: `Patient ${selectedPatient.patient_code} was assigned to ${trial.name}.`,
+        actionUrl: `/trials/${trial.id}/patients`,
+        actionLabel: "View Patients",
+        metadata: {
+          patientId: selectedPatient.id,
+          patientCode: selectedPatient.patient_code,
+        },
+        senderId: memberId,
+      });
+
       toast({
         title: "Success",
-        description: `Patient ${selectedPatient.patient_code} assigned to trial`,
+        description: generatedVisits
+          ? `Patient ${selectedPatient.patient_code} assigned to trial with ${generatedVisits} scheduled visits`
+          : `Patient ${selectedPatient.patient_code} assigned to trial`,
       });
 
       // Refresh data
+      queryClient.invalidateQueries({ queryKey: ["patient-visits", trial.id] });
+      queryClient.invalidateQueries({
+        queryKey: ["trial-enrolled-patient-ids", trial.id],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["consent-enrolled-patients", trial.id],
+      });
       await loadData();
 
       // Reset form
       setShowAssignDialog(false);
       setSelectedPatient(null);
       setAssignmentNotes("");
+      setInvestigatorId("");
+      setBaselineDate(format(new Date(), "yyyy-MM-dd"));
     } catch (error) {
       console.error("Error assigning patient:", error);
       toast({
@@ -195,7 +337,8 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
 
   const handleDocumentStatusChange = async (
     documentId: string,
-    newStatus: string
+    newStatus: string,
+    reason: string
   ) => {
     if (!selectedDocument) return;
 
@@ -225,15 +368,23 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
         assignedChecklists: updatedDocs,
       };
 
-      const { error } = await supabase
-        .from("trial_patients")
-        .update({
-          patient_data: updatedPatientData,
-        })
-        .eq("id", trialPatient.id);
+      // The audit trigger records the checklist status change with the reason
+      const { error } = await auditService.withReason(
+        supabase
+          .from("trial_patients")
+          .update({
+            patient_data: updatedPatientData,
+          })
+          .eq("id", trialPatient.id),
+        reason
+      );
 
       if (error) throw error;
 
+      queryClient.invalidateQueries({
+        queryKey: ["audit-log", "patient_checklist", documentId],
+      });
+
       toast({
         title: "Success",
         description: `Document status updated to ${newStatus.replace(
@@ -350,82 +501,170 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
           </Select>
         </div>
 
-        {canManageMembers && (
-          <Dialog open={showAssignDialog} onOpenChange={setShowAssignDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Assign Patient
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>Assign Patient to Trial</DialogTitle>
-                <DialogDescription>
-                  Select a patient from your organization to assign to this
-                  trial.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium text-gray-700">
-                    Select Patient
-                  </label>
-                  <Select
-                    value={selectedPatient?.id || ""}
-                    onValueChange={(value) => {
-                      const patient = availablePatients.find(
-                        (p) => p.id === value
-                      );
-                      setSelectedPatient(patient || null);
-                    }}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Choose a patient..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {availablePatients.map((patient) => (
-                        <SelectItem key={patient.id} value={patient.id}>
-                          {patient.patient_code} - {patient.first_name}{" "}
-                          {patient.last_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+        {canManagePatients && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowFindCandidates(true)}>
+              <Search className="h-4 w-4 mr-2" />
+              Find Candidates
+            </Button>
+            <Dialog open={showAssignDialog} onOpenChange={setShowAssignDialog}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Assign Patient
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Assign Patient to Trial</DialogTitle>
+                  <DialogDescription>
+                    Select a patient from your organization to assign to this
+                    trial.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Select Patient
+                    </label>
+                    <Select
+                      value={selectedPatient?.id || ""}
+                      onValueChange={(value) => {
+                        const patient = availablePatients.find(
+                          (p) => p.id === value
+                        );
+                        setSelectedPatient(patient || null);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a patient..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availablePatients.map((patient) => {
+                          const eligibility = getEligibility(patient.id);
+                          return (
+                            <SelectItem key={patient.id} value={patient.id}>
+                              {patient.patient_code} - {patient.first_name}{" "}
+                              {patient.last_name}
+                              {eligibility.required &&
+                                (eligibility.eligible
+                                  ? " · Screening passed"
+                                  : " · Not eligible yet")}
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    {selectedEligibility?.required &&
+                      !selectedEligibility.eligible && (
+                        <div className="mt-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800 flex items-start gap-2">
+                          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                          <span>
+                            {selectedEligibility.latestScreening?.status ===
+                            "failed"
+                              ? "This patient failed eligibility screening and can't be enrolled."
+                              : selectedEligibility.latestScreening?.status ===
+                                  "in_progress"
+                                ? "This patient's eligibility screening is still in progress."
+                                : "This patient has not passed eligibility screening against the current criteria. Screen them in the Screening tab first."}
+                          </span>
+                        </div>
+                      )}
+                  </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700">
-                    Assignment Notes
-                  </label>
-                  <Textarea
-                    value={assignmentNotes}
-                    onChange={(e) => setAssignmentNotes(e.target.value)}
-                    placeholder="Optional notes about this assignment..."
-                    rows={3}
-                  />
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Baseline Date
+                    </label>
+                    <Input
+                      type="date"
+                      value={baselineDate}
+                      onChange={(e) => setBaselineDate(e.target.value)}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Visits from the trial's schedule of assessments are
+                      generated relative to this date.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Assigned Investigator
+                    </label>
+                    <Select
+                      value={investigatorId}
+                      onValueChange={setInvestigatorId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose an investigator..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {investigators.map((investigator) => (
+                          <SelectItem
+                            key={investigator.id}
+                            value={investigator.id}
+                          >
+                            {investigator.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {investigators.length > 0
+                        ? "The patient's scheduled visits are assigned to this team member."
+                        : "Add an investigator to the trial team before assigning patients."}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Assignment Notes
+                    </label>
+                    <Textarea
+                      value={assignmentNotes}
+                      onChange={(e) => setAssignmentNotes(e.target.value)}
+                      placeholder="Optional notes about this assignment..."
+                      rows={3}
+                    />
+                  </div>
                 </div>
-              </div>
-              <DialogFooter>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setShowAssignDialog(false);
-                    setSelectedPatient(null);
-                    setAssignmentNotes("");
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleAssignPatient}
-                  disabled={!selectedPatient || submitting}
-                >
-                  {submitting ? "Assigning..." : "Assign Patient"}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setShowAssignDialog(false);
+                      setSelectedPatient(null);
+                      setAssignmentNotes("");
+                      setInvestigatorId("");
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleAssignPatient}
+                    disabled={
+                      !selectedPatient ||
+                      !baselineDate ||
+                      !investigatorId ||
+                      submitting ||
+                      !selectedEligibility?.eligible
+                    }
+                  >
+                    {submitting ? "Assigning..." : "Assign Patient"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+            <FindCandidatesDialog
+              open={showFindCandidates}
+              onOpenChange={setShowFindCandidates}
+              patients={screeningCandidates}
+              criteria={criteria}
+              canViewPHI={canViewPatientPHI}
+              onAssign={handleAssignCandidate}
+              onStartScreening={handleScreenCandidate}
+            />
+          </div>
         )}
       </div>
 
@@ -450,40 +689,67 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
                     <div className="flex items-center gap-4">
                       <Avatar className="h-12 w-12">
                         <AvatarFallback>
-                          {trialPatient.patient.first_name.charAt(0)}
-                          {trialPatient.patient.last_name.charAt(0)}
+                          {canViewPatientPHI ? (
+                            <>
+                              {trialPatient.patient.first_name.charAt(0)}
+                              {trialPatient.patient.last_name.charAt(0)}
+                            </>
+                          ) : (
+                            trialPatient.patient.patient_code.slice(0, 2)
+                          )}
                         </AvatarFallback>
                       </Avatar>
                       <div>
                         <div className="flex items-center gap-3 mb-1">
                           <h4 className="font-semibold">
-                            {trialPatient.patient.first_name}{" "}
-                            {trialPatient.patient.last_name}
+                            {canViewPatientPHI ? (
+                              <>
+                                {trialPatient.patient.first_name}{" "}
+                                {trialPatient.patient.last_name}
+                              </>
+                            ) : (
+                              trialPatient.patient.patient_code
+                            )}
                           </h4>
                           {getStatusBadge(trialPatient.status)}
-                          <Badge variant="outline" className="text-xs">
-                            {trialPatient.patient.patient_code}
-                          </Badge>
+                          {consentStates[trialPatient.patient_id]?.status ===
+                            "reconsent_required" && (
+                            <ConsentStatusBadge status="reconsent_required" />
+                          )}
+                          {canViewPatientPHI && (
+                            <Badge variant="outline" className="text-xs">
+                              {trialPatient.patient.patient_code}
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          Age:{" "}
-                          {calculateAge(trialPatient.patient.date_of_birth)} •
+                          {canViewPatientPHI && (
+                            <>
+                              Age:{" "}
+                              {calculateAge(trialPatient.patient.date_of_birth)}{" "}
+                              •{" "}
+                            </>
+                          )}
                           Enrolled:{" "}
                           {new Date(
                             trialPatient.enrollment_date
                           ).toLocaleDateString()}
                         </div>
-                        <div className="text-sm text-muted-foreground">
-                          {trialPatient.patient.email} •{" "}
-                          {trialPatient.patient.phone_number}
-                        </div>
+                        {canViewPatientPHI && (
+                          <div className="text-sm text-muted-foreground">
+                            {trialPatient.patient.email} •{" "}
+                            {trialPatient.patient.phone_number}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-2">
-                      <Button variant="outline" size="sm">
-                        <MessageSquare className="h-4 w-4 mr-1" />
-                        Contact
-                      </Button>
+                      {canViewPatientPHI && (
+                        <Button variant="outline" size="sm">
+                          <MessageSquare className="h-4 w-4 mr-1" />
+                          Contact
+                        </Button>
+                      )}
                       <Button size="sm">
                         <Eye className="h-4 w-4 mr-1" />
                         View Details
@@ -493,25 +759,37 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
 
                   {/* Tabbed Patient Information */}
                   <Tabs defaultValue="overview" className="w-full">
-                    <TabsList className="grid w-full grid-cols-6">
+                    <TabsList
+                      className={`grid w-full ${
+                        canViewFinances ? "grid-cols-8" : "grid-cols-7"
+                      }`}
+                    >
                       <TabsTrigger value="overview" className="text-xs">
                         Overview
                       </TabsTrigger>
                       <TabsTrigger value="visits" className="text-xs">
                         Visits
                       </TabsTrigger>
-                      <TabsTrigger value="costs" className="text-xs">
-                        Costs
-                      </TabsTrigger>
+                      {canViewFinances && (
+                        <TabsTrigger value="costs" className="text-xs">
+                          Costs
+                        </TabsTrigger>
+                      )}
                       <TabsTrigger value="medical" className="text-xs">
                         Medical
                       </TabsTrigger>
                       <TabsTrigger value="compliance" className="text-xs">
                         Compliance
                       </TabsTrigger>
+                      <TabsTrigger value="consent" className="text-xs">
+                        Consent
+                      </TabsTrigger>
                       <TabsTrigger value="documents" className="text-xs">
                         Documents
                       </TabsTrigger>
+                      <TabsTrigger value="safety" className="text-xs">
+                        Safety
+                      </TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="overview" className="mt-4">
@@ -659,57 +937,18 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
                     </TabsContent>
 
                     <TabsContent value="visits" className="mt-4">
-                      <div className="space-y-4">
-                        <h5 className="font-medium">
-                          Visit History & Schedule
-                        </h5>
-                        {patientData.visitHistory &&
-                        patientData.visitHistory.length > 0 ? (
-                          <div className="space-y-2">
-                            {patientData.visitHistory.map(
-                              (visit: any, index: number) => (
-                                <div
-                                  key={index}
-                                  className="flex items-center justify-between p-3 rounded-lg border"
-                                >
-                                  <div className="flex items-center gap-3">
-                                    <div
-                                      className={`w-2 h-2 rounded-full ${
-                                        visit.status === "completed"
-                                          ? "bg-blue-600"
-                                          : "bg-gray-400"
-                                      }`}
-                                    />
-                                    <div>
-                                      <div className="font-medium">
-                                        {visit.type}
-                                      </div>
-                                      <div className="text-sm text-muted-foreground">
-                                        {visit.date}
-                                      </div>
-                                    </div>
-                                  </div>
-                                  <Badge
-                                    variant={
-                                      visit.status === "completed"
-                                        ? "default"
-                                        : "secondary"
-                                    }
-                                  >
-                                    {visit.status}
-                                  </Badge>
-                                </div>
-                              )
-                            )}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-muted-foreground">
-                            No visit history available
-                          </div>
-                        )}
-                      </div>
+                      <VisitSummaryCard
+                        trialPatient={trialPatient}
+                        trial={trial}
+                        canSchedule={canManagePatients}
+                        onScheduleClick={() => {
+                          setSelectedTrialPatient(trialPatient);
+                          setShowScheduleVisitModal(true);
+                        }}
+                      />
                     </TabsContent>
 
+                    {canViewFinances && (
                     <TabsContent value="costs" className="mt-4">
                       <div className="space-y-4">
                         {costs ? (
@@ -809,6 +1048,7 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
                         )}
                       </div>
                     </TabsContent>
+                    )}
 
                     <TabsContent value="medical" className="mt-4">
                       {medical ? (
@@ -1066,6 +1306,20 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
                       )}
                     </TabsContent>
 
+                    <TabsContent value="consent" className="mt-4">
+                      <ConsentHistoryCard
+                        trialPatient={trialPatient}
+                        canRecord={canManagePatients}
+                      />
+                    </TabsContent>
+
+                    <TabsContent value="safety" className="mt-4">
+                      <AdverseEventsCard
+                        trialPatient={trialPatient}
+                        canReport={canManagePatients}
+                      />
+                    </TabsContent>
+
                     <TabsContent value="documents" className="mt-4">
                       {(() => {
                         const assignedDocuments =
@@ -1181,6 +1435,7 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
         trial={trial}
         onVisitScheduled={() => {
           // Refresh data when a visit is scheduled
+          queryClient.invalidateQueries({ queryKey: ["patient-visits", trial.id] });
           loadData();
         }}
       />
@@ -1193,9 +1448,9 @@ export function TrialPatientsManager({ trial }: TrialPatientsManagerProps) {
           setSelectedDocument(null);
         }}
         document={selectedDocument}
-        onStatusChange={(newStatus) => {
+        onStatusChange={(newStatus, reason) => {
           if (selectedDocument) {
-            handleDocumentStatusChange(selectedDocument.id, newStatus);
+            handleDocumentStatusChange(selectedDocument.id, newStatus, reason);
           }
         }}
       />
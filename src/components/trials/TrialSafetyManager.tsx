@@ -0,0 +1,384 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Download, Lock, Plus, ShieldAlert } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AdverseEventFormDialog } from "@/components/safety/AdverseEventFormDialog";
+import { ReportingDeadlineBadge } from "@/components/safety/ReportingDeadlineBadge";
+import { useAppData } from "@/hooks/useAppData";
+import { useAdverseEvents } from "@/hooks/useAdverseEvents";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
+import {
+  AdverseEvent,
+  AdverseEventOutcome,
+  adverseEventService,
+  CAUSALITY_LABELS,
+  Causality,
+  getReportingDeadlines,
+  isSusar,
+  OUTCOME_LABELS,
+  ReportingDeadline,
+} from "@/services/adverseEventService";
+
+interface TrialSafetyManagerProps {
+  trial: any;
+}
+
+type SeriousnessFilter = "all" | "serious" | "non_serious";
+
+const GRADE_STYLES: Record<number, string> = {
+  1: "bg-gray-100 text-gray-700 border-gray-200",
+  2: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  3: "bg-orange-100 text-orange-800 border-orange-200",
+  4: "bg-red-100 text-red-800 border-red-200",
+  5: "bg-gray-900 text-white border-gray-900",
+};
+
+export function TrialSafetyManager({ trial }: TrialSafetyManagerProps) {
+  const { memberId } = useAppData();
+  const { canManagePatients, canViewPatientPHI, isLoading: permissionsLoading } =
+    useTrialPermissions(trial?.id);
+  const {
+    adverseEvents,
+    trialPatients,
+    isLoading,
+    createAdverseEvent,
+    updateAdverseEvent,
+    markReported,
+    isSaving,
+  } = useAdverseEvents(trial?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AdverseEvent | null>(null);
+  const [patientFilter, setPatientFilter] = useState("all");
+  const [gradeFilter, setGradeFilter] = useState("all");
+  const [seriousnessFilter, setSeriousnessFilter] = useState<SeriousnessFilter>("all");
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Open reporting obligations, most urgent first
+  const openDeadlines = useMemo(
+    () =>
+      adverseEvents
+        .flatMap((event) =>
+          getReportingDeadlines(event, now)
+            .filter((deadline) => deadline.status === "pending" || deadline.status === "overdue")
+            .map((deadline) => ({ event, deadline }))
+        )
+        .sort((a, b) => a.deadline.dueAt.getTime() - b.deadline.dueAt.getTime()),
+    [adverseEvents, now]
+  );
+
+  const filteredEvents = adverseEvents.filter(
+    (event) =>
+      (patientFilter === "all" || event.patient_id === patientFilter) &&
+      (gradeFilter === "all" || event.ctcae_grade === Number(gradeFilter)) &&
+      (seriousnessFilter === "all" || event.is_serious === (seriousnessFilter === "serious"))
+  );
+
+  const patientOptions = trialPatients.map((patient) => ({
+    id: patient.id,
+    label:
+      canViewPatientPHI && patient.first_name
+        ? `${patient.patient_code} - ${patient.first_name} ${patient.last_name || ""}`.trim()
+        : patient.patient_code,
+  }));
+
+  const openForm = (event: AdverseEvent | null) => {
+    setEditing(event);
+    setFormOpen(true);
+  };
+
+  const handleMarkReported = async (event: AdverseEvent, deadline: ReportingDeadline) => {
+    try {
+      await markReported({
+        eventId: event.id,
+        kind: deadline.kind,
+        submittedAt: new Date().toISOString(),
+      });
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const exportLineListing = () => {
+    const url = URL.createObjectURL(
+      new Blob([adverseEventService.toLineListingCSV(filteredEvents)], {
+        type: "text/csv;charset=utf-8",
+      })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${trial.name}-ae-line-listing.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading || permissionsLoading) {
+    return (
+      <div className="space-y-6">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const seriousCount = adverseEvents.filter((event) => event.is_serious).length;
+  const susarCount = adverseEvents.filter((event) => isSusar(event)).length;
+  const overdueCount = openDeadlines.filter((d) => d.deadline.status === "overdue").length;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Adverse events", value: adverseEvents.length },
+          { label: "Serious (SAE)", value: seriousCount },
+          { label: "SUSARs", value: susarCount },
+          { label: "Overdue reports", value: overdueCount },
+        ].map((stat) => (
+          <Card key={stat.label} className="p-4">
+            <div className="text-2xl font-semibold text-gray-900">{stat.value}</div>
+            <div className="text-sm text-gray-600">{stat.label}</div>
+          </Card>
+        ))}
+      </div>
+
+      {/* Reporting deadlines */}
+      <Card className="p-6 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            SAE Reporting Deadlines
+          </h3>
+          <p className="text-sm text-gray-600">
+            Sponsor notification within 24 hours of awareness; expedited SUSAR reports
+            within 7 days (fatal or life-threatening) or 15 days.
+          </p>
+        </div>
+
+        {openDeadlines.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No reports outstanding.</p>
+        ) : (
+          <div className="space-y-2">
+            {openDeadlines.map(({ event, deadline }) => (
+              <div
+                key={`${event.id}-${deadline.kind}`}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm text-gray-900">
+                    {event.patients?.patient_code} · {event.term}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {deadline.label} · due {format(deadline.dueAt, "MMM d, yyyy HH:mm")}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <ReportingDeadlineBadge deadline={deadline} />
+                  {canManagePatients && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleMarkReported(event, deadline)}
+                      disabled={isSaving}
+                    >
+                      Mark Submitted
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* Line listing */}
+      <Card className="p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Adverse Events
+            </h3>
+            <p className="text-sm text-gray-600">
+              All adverse events reported on this trial, graded with CTCAE.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={exportLineListing}
+              disabled={filteredEvents.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export Line Listing
+            </Button>
+            {canManagePatients && (
+              <Button size="sm" onClick={() => openForm(null)} disabled={trialPatients.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Report AE
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={patientFilter} onValueChange={setPatientFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All patients</SelectItem>
+              {patientOptions.map((patient) => (
+                <SelectItem key={patient.id} value={patient.id}>
+                  {patient.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={gradeFilter} onValueChange={setGradeFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All grades</SelectItem>
+              {[1, 2, 3, 4, 5].map((grade) => (
+                <SelectItem key={grade} value={String(grade)}>
+                  Grade {grade}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={seriousnessFilter}
+            onValueChange={(value) => setSeriousnessFilter(value as SeriousnessFilter)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              <SelectItem value="serious">Serious only</SelectItem>
+              <SelectItem value="non_serious">Non-serious only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {filteredEvents.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+            {adverseEvents.length === 0
+              ? "No adverse events have been reported on this trial."
+              : "No adverse events match the filters."}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Onset</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead>Causality</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>Reporting</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredEvents.map((event) => (
+                <TableRow
+                  key={event.id}
+                  className={canManagePatients ? "cursor-pointer" : undefined}
+                  onClick={() => canManagePatients && openForm(event)}
+                >
+                  <TableCell className="font-medium">{event.patients?.patient_code}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {event.term}
+                      {event.is_serious && (
+                        <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">
+                          {isSusar(event) ? "SUSAR" : "SAE"}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {format(parseISO(event.onset_date), "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={GRADE_STYLES[event.ctcae_grade]}>
+                      {event.ctcae_grade}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {CAUSALITY_LABELS[event.causality as Causality]}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {OUTCOME_LABELS[event.outcome as AdverseEventOutcome]}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {getReportingDeadlines(event, now).map((deadline) => (
+                        <ReportingDeadlineBadge key={deadline.kind} deadline={deadline} />
+                      ))}
+                      {!event.is_serious && <span className="text-xs text-gray-400">—</span>}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {!canManagePatients && (
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <Lock className="h-3 w-3" />
+          You can view adverse events but not report them for this trial.
+        </p>
+      )}
+
+      {formOpen && (
+        <AdverseEventFormDialog
+          key={editing?.id || "new"}
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          trialId={trial.id}
+          patients={patientOptions}
+          event={editing}
+          isSubmitting={isSaving}
+          onSubmit={(input) =>
+            editing
+              ? updateAdverseEvent({ eventId: editing.id, changes: input })
+              : createAdverseEvent({ ...input, reported_by: memberId })
+          }
+        />
+      )}
+    </div>
+  );
+}
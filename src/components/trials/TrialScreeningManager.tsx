@@ -0,0 +1,367 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import {
+  ClipboardCheck,
+  Download,
+  Lock,
+  Play,
+  Trash2,
+  UserX,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EligibilityCriteriaPanel } from "@/components/screening/EligibilityCriteriaPanel";
+import { ScreeningChecklistDialog } from "@/components/screening/ScreeningChecklistDialog";
+import { useAppData } from "@/hooks/useAppData";
+import { usePatients } from "@/hooks/usePatients";
+import { useScreening } from "@/hooks/useScreening";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
+import { getCriteriaExtractionService } from "@/services/criteriaExtractionService";
+import {
+  PatientScreening,
+  SCREENING_STATUS_LABELS,
+  ScreeningStatus,
+  getFailedResponses,
+  screeningService,
+} from "@/services/screeningService";
+
+interface TrialScreeningManagerProps {
+  trial: any;
+}
+
+const STATUS_STYLES: Record<ScreeningStatus, string> = {
+  in_progress: "bg-blue-100 text-blue-800 border-blue-200",
+  passed: "bg-green-100 text-green-800 border-green-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+};
+
+export function TrialScreeningManager({ trial }: TrialScreeningManagerProps) {
+  const { organizationId, memberId } = useAppData();
+  const { canManagePatients, canViewPatientPHI, isLoading: permissionsLoading } =
+    useTrialPermissions(trial?.id);
+  const { patients } = usePatients({ organizationId });
+  const {
+    criteria,
+    screenings,
+    protocol,
+    enrolledPatientIds,
+    isLoading,
+    extractCriteria,
+    isExtracting,
+    saveCriterion,
+    retireCriterion,
+    isSavingCriterion,
+    startScreening,
+    isStarting,
+    saveResponses,
+    completeScreening,
+    deleteScreening,
+    isSavingScreening,
+  } = useScreening(trial?.id, memberId);
+  const [candidateId, setCandidateId] = useState("");
+  const [openScreeningId, setOpenScreeningId] = useState<string | null>(null);
+
+  const openScreening = screenings.find((s) => s.id === openScreeningId) || null;
+  const failures = screenings.filter((s) => s.status === "failed");
+  const completed = screenings.filter((s) => s.status !== "in_progress");
+
+  // Active patients not on the trial and without an open screening
+  const candidates = useMemo(() => {
+    const excluded = new Set([
+      ...enrolledPatientIds,
+      ...screenings.filter((s) => s.status === "in_progress").map((s) => s.patient_id),
+    ]);
+    return patients.filter((patient) => !excluded.has(patient.id));
+  }, [patients, enrolledPatientIds, screenings]);
+
+  const patientLabel = (screening: PatientScreening) =>
+    canViewPatientPHI && screening.patients
+      ? `${screening.patients.patient_code} · ${screening.patients.first_name} ${screening.patients.last_name}`
+      : screening.patients?.patient_code || "Unknown patient";
+
+  const handleStart = async () => {
+    try {
+      const screeningId = await startScreening(candidateId);
+      setCandidateId("");
+      setOpenScreeningId(screeningId);
+    } catch {
+      // The error toast comes from the mutation
+    }
+  };
+
+  const exportFailureLog = () => {
+    const url = URL.createObjectURL(
+      new Blob([screeningService.toFailureLogCSV(screenings)], {
+        type: "text/csv;charset=utf-8",
+      })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${trial.name}-screen-failures.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading || permissionsLoading) {
+    return (
+      <div className="space-y-6">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const failureRate = completed.length
+    ? Math.round((failures.length / completed.length) * 100)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Screened", value: completed.length },
+          {
+            label: "Passed",
+            value: screenings.filter((s) => s.status === "passed").length,
+          },
+          { label: "Screen failures", value: failures.length },
+          { label: "Screen-failure rate", value: `${failureRate}%` },
+        ].map((stat) => (
+          <Card key={stat.label} className="p-4">
+            <div className="text-2xl font-semibold text-gray-900">{stat.value}</div>
+            <div className="text-sm text-gray-600">{stat.label}</div>
+          </Card>
+        ))}
+      </div>
+
+      <EligibilityCriteriaPanel
+        criteria={criteria}
+        protocol={protocol}
+        canManage={canManagePatients}
+        canExtract={getCriteriaExtractionService().isAvailable()}
+        isExtracting={isExtracting}
+        isSaving={isSavingCriterion}
+        onExtract={() => extractCriteria()}
+        onSave={(criterion, input) => saveCriterion({ criterion, input })}
+        onRemove={retireCriterion}
+      />
+
+      {/* Screenings */}
+      <Card className="p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <ClipboardCheck className="w-4 h-4" />
+              Screenings
+            </h3>
+            <p className="text-sm text-gray-600">
+              Patients must pass screening before they can be enrolled.
+            </p>
+          </div>
+          {canManagePatients && (
+            <div className="flex gap-2">
+              <Select value={candidateId} onValueChange={setCandidateId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Choose a candidate..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {canViewPatientPHI
+                        ? `${patient.patient_code} - ${patient.first_name} ${patient.last_name}`
+                        : patient.patient_code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleStart}
+                disabled={!candidateId || criteria.length === 0 || isStarting}
+                title={criteria.length === 0 ? "Add eligibility criteria first" : undefined}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Screen Patient
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {screenings.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-6 text-center text-sm text-gray-600">
+            No patients have been screened for this trial yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Answered</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {screenings.map((screening) => {
+                const status = screening.status as ScreeningStatus;
+                return (
+                  <TableRow key={screening.id}>
+                    <TableCell className="font-medium">{patientLabel(screening)}</TableCell>
+                    <TableCell className="text-sm">
+                      {format(parseISO(screening.created_at), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[status]}>
+                        {SCREENING_STATUS_LABELS[status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {screening.patient_screening_responses.length}
+                      {status === "in_progress" && ` / ${criteria.length}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setOpenScreeningId(screening.id)}
+                      >
+                        {status === "in_progress" && canManagePatients ? "Continue" : "View"}
+                      </Button>
+                      {status === "in_progress" && canManagePatients && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-red-600 ml-1"
+                          onClick={() => deleteScreening(screening.id)}
+                          title="Discard screening"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {/* Screen-failure log */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <UserX className="w-4 h-4" />
+              Screen-Failure Log
+            </h3>
+            <p className="text-sm text-gray-600">
+              Patients who did not qualify, with the criteria they failed.
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={exportFailureLog}
+            disabled={failures.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+
+        {failures.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No screen failures.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Failed criteria</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Screened by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {failures.map((screening) => (
+                <TableRow
+                  key={screening.id}
+                  className="cursor-pointer"
+                  onClick={() => setOpenScreeningId(screening.id)}
+                >
+                  <TableCell className="font-medium">{patientLabel(screening)}</TableCell>
+                  <TableCell className="text-sm">
+                    {screening.completed_at &&
+                      format(parseISO(screening.completed_at), "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {getFailedResponses(screening).map((response) => (
+                        <Badge
+                          key={response.id}
+                          variant="outline"
+                          className="bg-red-50 text-red-700 border-red-200"
+                          title={response.trial_eligibility_criteria?.text}
+                        >
+                          {response.trial_eligibility_criteria?.code}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700 max-w-xs">
+                    {screening.failure_reason}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {screening.screened_by_member?.name}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {!canManagePatients && (
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <Lock className="h-3 w-3" />
+          You can view screenings but not record them for this trial.
+        </p>
+      )}
+
+      {openScreening && (
+        <ScreeningChecklistDialog
+          key={openScreening.id}
+          screening={openScreening}
+          criteria={criteria}
+          canManage={canManagePatients}
+          isSaving={isSavingScreening}
+          onOpenChange={(open) => !open && setOpenScreeningId(null)}
+          onSaveDraft={(screeningId, responses) => saveResponses({ screeningId, responses })}
+          onComplete={completeScreening}
+        />
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ import {
 import { User, Users, UserCheck, Clock, UserPlus } from "lucide-react";
 import { TeamMemberAssignment } from "@/components/onboarding/TeamMemberAssignment";
 import { useAppData } from "@/hooks/useAppData";
-import { usePermissions } from "@/hooks/usePermissions";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 
@@ -30,7 +30,7 @@ export function TrialTeam({ trial }: TrialTeamProps) {
   const queryClient = useQueryClient();
   const { organizationId, roles } = useAppData();
   const { user } = useAuth();
-  const { canManageMembers } = usePermissions();
+  const { canManageTeam } = useTrialPermissions(trial.id);
 
   // Get confirmed trial team members
   const { data: trialTeam = [], isLoading: teamLoading } = useQuery({
@@ -173,7 +173,7 @@ export function TrialTeam({ trial }: TrialTeamProps) {
           </p>
         </div>
 
-        {canManageMembers && (
+        {canManageTeam && (
           <Dialog
             open={showAssignmentDialog}
             onOpenChange={(open) => {
@@ -398,7 +398,7 @@ export function TrialTeam({ trial }: TrialTeamProps) {
           <p className="text-gray-600 mb-4">
             Team members will appear here once they are assigned to this trial.
           </p>
-          {canManageMembers && (
+          {canManageTeam && (
             <Button
               className="bg-blue-600 hover:bg-blue-700"
               onClick={() => setShowAssignmentDialog(true)}
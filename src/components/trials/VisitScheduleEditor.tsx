@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from "react";
+import { CalendarClock, Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useVisitSchedule } from "@/hooks/useVisitSchedule";
+import { useTrialPermissions } from "@/hooks/useTrialPermissions";
+import {
+  VISIT_TYPE_LABELS,
+  VisitScheduleItem,
+  VisitType,
+} from "@/services/visitScheduleService";
+
+interface VisitScheduleEditorProps {
+  trial: any;
+}
+
+// Form row; procedures are edited as comma separated text
+interface ScheduleRow {
+  key: string;
+  id?: string;
+  name: string;
+  visit_type: VisitType;
+  day_offset: number;
+  window_before: number;
+  window_after: number;
+  procedures: string;
+}
+
+const toRow = (item: VisitScheduleItem): ScheduleRow => ({
+  key: item.id,
+  id: item.id,
+  name: item.name,
+  visit_type: item.visit_type,
+  day_offset: item.day_offset,
+  window_before: item.window_before,
+  window_after: item.window_after,
+  procedures: item.procedures.join(", "),
+});
+
+let newRowCounter = 0;
+
+export function VisitScheduleEditor({ trial }: VisitScheduleEditorProps) {
+  const { schedule, isLoading, saveSchedule, isSaving } = useVisitSchedule(
+    trial.id
+  );
+  const { canManagePatients } = useTrialPermissions(trial.id);
+  const [rows, setRows] = useState<ScheduleRow[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    setRows(schedule.map(toRow));
+    setIsDirty(false);
+  }, [schedule]);
+
+  const updateRow = (key: string, changes: Partial<ScheduleRow>) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === key ? { ...row, ...changes } : row))
+    );
+    setIsDirty(true);
+  };
+
+  const addRow = () => {
+    const lastOffset = rows.length ? rows[rows.length - 1].day_offset : -1;
+    setRows((prev) => [
+      ...prev,
+      {
+        key: `new-${++newRowCounter}`,
+        name: `Visit ${prev.length + 1}`,
+        visit_type: prev.length === 0 ? "screening" : "follow_up",
+        day_offset: lastOffset + 1,
+        window_before: 0,
+        window_after: 0,
+        procedures: "",
+      },
+    ]);
+    setIsDirty(true);
+  };
+
+  const removeRow = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    await saveSchedule(
+      rows.map((row) => ({
+        id: row.id,
+        name: row.name || VISIT_TYPE_LABELS[row.visit_type],
+        visit_type: row.visit_type,
+        day_offset: row.day_offset,
+        window_before: row.window_before,
+        window_after: row.window_after,
+        procedures: row.procedures.split(","),
+      }))
+    );
+  };
+
+  const parseDays = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+        <div className="h-3 bg-gray-200 rounded w-3/4 mb-2"></div>
+        <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Schedule of Assessments
+            </h3>
+            <p className="text-sm text-gray-600">
+              Visits are generated from this schedule when a patient is
+              enrolled. Day 0 is the patient's baseline date.
+            </p>
+          </div>
+          {canManagePatients && (
+            <div className="flex gap-2">
+              {isDirty && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setRows(schedule.map(toRow));
+                    setIsDirty(false);
+                  }}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={addRow}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Visit
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!isDirty || isSaving}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? "Saving..." : "Save Schedule"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="border border-dashed rounded-lg p-8 text-center text-sm text-gray-600">
+            No visit schedule defined for this trial yet.
+            {canManagePatients &&
+              " Add the protocol visits to generate them automatically on enrollment."}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>Visit</TableHead>
+                <TableHead className="w-44">Type</TableHead>
+                <TableHead className="w-24">Day</TableHead>
+                <TableHead className="w-40">Window (days)</TableHead>
+                <TableHead>Required procedures</TableHead>
+                {canManagePatients && <TableHead className="w-10" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={row.key}>
+                  <TableCell className="text-gray-500">{index + 1}</TableCell>
+                  <TableCell>
+                    {canManagePatients ? (
+                      <Input
+                        value={row.name}
+                        onChange={(e) =>
+                          updateRow(row.key, { name: e.target.value })
+                        }
+                      />
+                    ) : (
+                      <span className="font-medium">{row.name}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canManagePatients ? (
+                      <Select
+                        value={row.visit_type}
+                        onValueChange={(value) =>
+                          updateRow(row.key, { visit_type: value as VisitType })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(VISIT_TYPE_LABELS).map(
+                            ([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">
+                        {VISIT_TYPE_LABELS[row.visit_type]}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canManagePatients ? (
+                      <Input
+                        type="number"
+                        value={row.day_offset}
+                        onChange={(e) =>
+                          updateRow(row.key, {
+                            day_offset: parseDays(e.target.value),
+                          })
+                        }
+                      />
+                    ) : (
+                      `Day ${row.day_offset}`
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canManagePatients ? (
+                      <div className="flex items-center gap-1">
+                        <span className="text-gray-500">−</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={row.window_before}
+                          onChange={(e) =>
+                            updateRow(row.key, {
+                              window_before: Math.max(0, parseDays(e.target.value)),
+                            })
+                          }
+                        />
+                        <span className="text-gray-500">+</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={row.window_after}
+                          onChange={(e) =>
+                            updateRow(row.key, {
+                              window_after: Math.max(0, parseDays(e.target.value)),
+                            })
+                          }
+                        />
+                      </div>
+                    ) : (
+                      `−${row.window_before} / +${row.window_after}`
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canManagePatients ? (
+                      <Input
+                        value={row.procedures}
+                        placeholder="e.g. Vital signs, ECG, Blood draw"
+                        onChange={(e) =>
+                          updateRow(row.key, { procedures: e.target.value })
+                        }
+                      />
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {row.procedures
+                          .split(",")
+                          .map((p) => p.trim())
+                          .filter(Boolean)
+                          .map((procedure) => (
+                            <Badge
+                              key={procedure}
+                              variant="secondary"
+                              className="text-xs"
+                            >
+                              {procedure}
+                            </Badge>
+                          ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  {canManagePatients && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeRow(row.key)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Plus, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AdverseEventFormDialog } from "@/components/safety/AdverseEventFormDialog";
+import { ReportingDeadlineBadge } from "@/components/safety/ReportingDeadlineBadge";
+import { useAppData } from "@/hooks/useAppData";
+import { useAdverseEvents } from "@/hooks/useAdverseEvents";
+import {
+  AdverseEvent,
+  CAUSALITY_LABELS,
+  Causality,
+  getReportingDeadlines,
+  OUTCOME_LABELS,
+  AdverseEventOutcome,
+} from "@/services/adverseEventService";
+
+interface AdverseEventsCardProps {
+  trialPatient: any;
+  canReport?: boolean;
+}
+
+/**
+ * Adverse events of one patient on the trial
+ */
+export function AdverseEventsCard({ trialPatient, canReport = true }: AdverseEventsCardProps) {
+  const { memberId } = useAppData();
+  const { adverseEvents, isLoading, createAdverseEvent, updateAdverseEvent, isSaving } =
+    useAdverseEvents(trialPatient?.trial_id, trialPatient?.patient_id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AdverseEvent | null>(null);
+
+  const openForm = (event: AdverseEvent | null) => {
+    setEditing(event);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 rounded animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-medium text-sm flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4" />
+          Adverse Events ({adverseEvents.length})
+        </h5>
+        {canReport && (
+          <Button size="sm" variant="outline" onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Report AE
+          </Button>
+        )}
+      </div>
+
+      {adverseEvents.length === 0 ? (
+        <p className="text-sm text-gray-500">No adverse events recorded.</p>
+      ) : (
+        <div className="space-y-2">
+          {adverseEvents.map((event) => (
+            <div
+              key={event.id}
+              className="p-3 border rounded-lg hover:border-gray-300 cursor-pointer"
+              onClick={() => canReport && openForm(event)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">{event.term}</span>
+                  <Badge variant="outline" className="text-xs">
+                    Grade {event.ctcae_grade}
+                  </Badge>
+                  {event.is_serious && (
+                    <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">SAE</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500">
+                  Onset {format(parseISO(event.onset_date), "MMM d, yyyy")}
+                </span>
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                {CAUSALITY_LABELS[event.causality as Causality]} ·{" "}
+                {OUTCOME_LABELS[event.outcome as AdverseEventOutcome]}
+              </div>
+              {event.is_serious && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {getReportingDeadlines(event).map((deadline) => (
+                    <ReportingDeadlineBadge key={deadline.kind} deadline={deadline} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {formOpen && (
+        <AdverseEventFormDialog
+          key={editing?.id || "new"}
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          trialId={trialPatient.trial_id}
+          patients={[
+            { id: trialPatient.patient_id, label: trialPatient.patient?.patient_code || "Patient" },
+          ]}
+          event={editing}
+          isSubmitting={isSaving}
+          onSubmit={(input) =>
+            editing
+              ? updateAdverseEvent({ eventId: editing.id, changes: input })
+              : createAdverseEvent({ ...input, reported_by: memberId })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ExternalLink, FileSignature, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConsentStatusBadge } from "@/components/consent/ConsentStatusBadge";
+import { RecordConsentDialog } from "@/components/consent/RecordConsentDialog";
+import { useAppData } from "@/hooks/useAppData";
+import { useConsents } from "@/hooks/useConsents";
+import { getPatientConsentState, icfVersionLabel } from "@/services/consentService";
+
+interface ConsentHistoryCardProps {
+  trialPatient: any;
+  canRecord?: boolean;
+}
+
+/**
+ * Every ICF version a patient signed on the trial, newest first
+ */
+export function ConsentHistoryCard({ trialPatient, canRecord = true }: ConsentHistoryCardProps) {
+  const { memberId } = useAppData();
+  const { icfVersions, latestIcf, consents, isLoading, recordConsent, isRecording } =
+    useConsents(trialPatient?.trial_id, memberId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 rounded animate-pulse" />;
+  }
+
+  const patientConsents = consents.filter((c) => c.patient_id === trialPatient.patient_id);
+  const state = getPatientConsentState(patientConsents, latestIcf);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-medium text-sm flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Informed Consent
+          <ConsentStatusBadge status={state.status} />
+        </h5>
+        {canRecord && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDialogOpen(true)}
+            disabled={icfVersions.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Record Consent
+          </Button>
+        )}
+      </div>
+
+      {state.status === "reconsent_required" && latestIcf && (
+        <p className="text-xs text-amber-600">
+          ICF {icfVersionLabel(latestIcf)} was uploaded after this patient consented. Obtain
+          and record a new signature.
+        </p>
+      )}
+
+      {patientConsents.length === 0 ? (
+        <p className="text-sm text-gray-500">No consent recorded for this trial.</p>
+      ) : (
+        <div className="space-y-2">
+          {patientConsents.map((consent) => (
+            <div key={consent.id} className="p-3 border rounded-lg flex items-start justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">
+                    {consent.trial_documents ? icfVersionLabel(consent.trial_documents) : "ICF"}
+                  </span>
+                  {consent.icf_document_id === latestIcf?.id && (
+                    <Badge variant="outline" className="text-xs">
+                      Current
+                    </Badge>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {consent.trial_documents?.document_name}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-600 mt-1">
+                  Signed {format(parseISO(consent.signed_date), "MMM d, yyyy")}
+                  {consent.obtained_by_member && ` · obtained by ${consent.obtained_by_member.name}`}
+                </div>
+                {consent.notes && <p className="text-xs text-gray-500 mt-1">{consent.notes}</p>}
+              </div>
+              {consent.trial_documents && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => window.open(consent.trial_documents!.document_url, "_blank")}
+                  title="Open the signed ICF version"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dialogOpen && (
+        <RecordConsentDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          trialId={trialPatient.trial_id}
+          patients={[
+            { id: trialPatient.patient_id, label: trialPatient.patient?.patient_code || "Patient" },
+          ]}
+          patientId={trialPatient.patient_id}
+          icfVersions={icfVersions}
+          isSubmitting={isRecording}
+          onSubmit={recordConsent}
+        />
+      )}
+    </div>
+  );
+}
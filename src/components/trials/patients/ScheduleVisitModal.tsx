@@ -13,6 +13,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useAppData } from "@/hooks/useAppData";
+import { notificationService } from "@/services/notificationService";
 import {
   Dialog,
   DialogContent,
@@ -49,6 +51,7 @@ export function ScheduleVisitModal({
   const [doctors, setDoctors] = useState<any[]>([]);
 
   const { toast } = useToast();
+  const { memberId } = useAppData();
 
   // Simple visit types with nice visuals but minimal data
   const visitTypes = [
@@ -115,7 +118,7 @@ export function ScheduleVisitModal({
     try {
       setLoading(true);
 
-      await supabase.from("patient_visits").insert({
+      const { error } = await supabase.from("patient_visits").insert({
         patient_id: trialPatient.patient_id,
         trial_id: trialPatient.trial_id,
         doctor_id: selectedDoctor,
@@ -124,6 +127,30 @@ export function ScheduleVisitModal({
         status: "scheduled",
       });
 
+      if (error) throw error;
+
+      const patientCode = trialPatient.patient?.patient_code || "Patient";
+      const visitLabel =
+        visitTypes.find((type) => type.value === visitType)?.label || visitType;
+
+      await notificationService.notifyTrialTeam({
+        trialId: trialPatient.trial_id,
+        type: "reminder",
+        title: "Visit scheduled",
+        message: `${visitLabel} visit for ${patientCode} scheduled on ${new Date(
+          visitDate
+        ).toLocaleDateString()}.`,
+        actionUrl: `/trials/${trialPatient.trial_id}/patients`,
+        actionLabel: "View Patients",
+        metadata: {
+          patientId: trialPatient.patient_id,
+          patientCode,
+          visitDate,
+          visitType,
+        },
+        senderId: memberId,
+      });
+
       toast({
         title: "Visit Scheduled",
         description: `Visit scheduled for ${new Date(
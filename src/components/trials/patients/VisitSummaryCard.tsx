@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,63 +9,60 @@ import {
   User,
   Plus,
   Activity,
+  AlertTriangle,
 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { usePatientVisits, useVisitSchedule } from "@/hooks/useVisitSchedule";
+import {
+  getVisitDeviationDays,
+  getVisitWindowStatus,
+  isVisitOutOfWindow,
+  VISIT_TYPE_LABELS,
+  VisitWindowStatus,
+} from "@/services/visitScheduleService";
 
 interface VisitSummaryCardProps {
   trialPatient: any;
   trial: any;
   onScheduleClick: () => void;
+  canSchedule?: boolean;
 }
 
+const WINDOW_BADGES: Partial<Record<VisitWindowStatus, { label: string; className: string }>> = {
+  early: { label: "Early", className: "bg-amber-100 text-amber-800" },
+  late: { label: "Late", className: "bg-red-100 text-red-800" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+};
+
 export function VisitSummaryCard({
   trialPatient,
   trial,
   onScheduleClick,
+  canSchedule = true,
 }: VisitSummaryCardProps) {
-  const [visits, setVisits] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [nextVisit, setNextVisit] = useState<any>(null);
-
-  useEffect(() => {
-    if (trialPatient?.patient_id && trialPatient?.trial_id) {
-      loadVisits();
-    }
-  }, [trialPatient?.patient_id, trialPatient?.trial_id]);
-
-  const loadVisits = async () => {
-    try {
-      setLoading(true);
-      const { data } = await supabase
-        .from("patient_visits")
-        .select("*, members:doctor_id(name)")
-        .eq("patient_id", trialPatient.patient_id)
-        .eq("trial_id", trialPatient.trial_id)
-        .order("visit_date", { ascending: true });
-
-      setVisits(data || []);
-
-      // Find next upcoming visit
-      const today = new Date().toISOString().split("T")[0];
-      const upcomingVisits = (data || []).filter(
-        (visit: any) => visit.visit_date >= today && visit.status === "scheduled"
-      );
-      setNextVisit(upcomingVisits[0] || null);
-    } catch (error) {
-      console.error("Error loading visits:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { visits, isLoading: loading } = usePatientVisits(
+    trialPatient?.trial_id,
+    trialPatient?.patient_id
+  );
+  const { schedule } = useVisitSchedule(trial?.id);
+
+  // Find next upcoming visit
+  const today = new Date().toISOString().split("T")[0];
+  const nextVisit =
+    visits.find(
+      (visit) => visit.visit_date >= today && visit.status === "scheduled"
+    ) || null;
 
   // Simple calculations
   const visitStats = {
     completed: visits.filter((v) => v.status === "completed").length,
     scheduled: visits.filter((v) => v.status === "scheduled").length,
+    outOfWindow: visits.filter((v) => isVisitOutOfWindow(v)).length,
     total: visits.length,
   };
 
-  const targetVisits = trialPatient.cost_data?.target_visits || 8;
+  // The trial's schedule of assessments defines how many visits a patient has
+  const targetVisits =
+    schedule.length || trialPatient.cost_data?.target_visits || visits.length;
   const progressPercentage =
     targetVisits > 0 ? (visitStats.completed / targetVisits) * 100 : 0;
   const remainingVisits = Math.max(0, targetVisits - visitStats.completed);
@@ -96,14 +93,16 @@ export function VisitSummaryCard({
             <Activity className="h-5 w-5" />
             Visit Progress
           </h3>
-          <Button
-            size="sm"
-            onClick={onScheduleClick}
-            className="bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Schedule
-          </Button>
+          {canSchedule && (
+            <Button
+              size="sm"
+              onClick={onScheduleClick}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Schedule
+            </Button>
+          )}
         </div>
 
         {/* Progress Overview - Visual but Simple */}
@@ -153,7 +152,7 @@ export function VisitSummaryCard({
                 <div className="space-y-1 text-sm">
                   <div className="flex items-center gap-2 text-gray-700">
                     <span className="font-medium capitalize">
-                      {nextVisit.visit_type.replace("_", " ")}
+                      {VISIT_TYPE_LABELS[nextVisit.visit_type]}
                     </span>
                     <span>•</span>
                     <span>{formatDate(nextVisit.visit_date)}</span>
@@ -178,13 +177,90 @@ export function VisitSummaryCard({
               <div className="text-sm text-gray-600">
                 No upcoming visits scheduled
               </div>
-              <Button
-                size="sm"
-                onClick={onScheduleClick}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                Schedule Next Visit
-              </Button>
+              {canSchedule && (
+                <Button
+                  size="sm"
+                  onClick={onScheduleClick}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Schedule Next Visit
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* All visits with their protocol window */}
+        {visits.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Visits</h4>
+            {visits.map((visit) => {
+              const windowStatus = getVisitWindowStatus(visit);
+              const windowBadge = WINDOW_BADGES[windowStatus];
+              const deviation = getVisitDeviationDays(visit);
+
+              return (
+                <div
+                  key={visit.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    windowBadge ? "border-red-200 bg-red-50/40" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={`w-2 h-2 rounded-full ${
+                        visit.status === "completed"
+                          ? "bg-blue-600"
+                          : "bg-gray-400"
+                      }`}
+                    />
+                    <div>
+                      <div className="font-medium text-sm">
+                        {visit.visit_number ? `V${visit.visit_number} · ` : ""}
+                        {VISIT_TYPE_LABELS[visit.visit_type]}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatDate(visit.visit_date)}
+                        {visit.window_start && visit.window_end && (
+                          <>
+                            {" "}
+                            · window {formatDate(visit.window_start)} –{" "}
+                            {formatDate(visit.window_end)}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {windowBadge && (
+                      <Badge className={`${windowBadge.className} text-xs`}>
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {windowBadge.label}
+                        {deviation ? ` (${deviation > 0 ? "+" : ""}${deviation}d)` : ""}
+                      </Badge>
+                    )}
+                    <Badge
+                      variant={
+                        visit.status === "completed" ? "default" : "secondary"
+                      }
+                      className="text-xs"
+                    >
+                      {visit.status.replace("_", " ")}
+                    </Badge>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {visitStats.outOfWindow > 0 && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <div className="text-sm text-red-800">
+              {visitStats.outOfWindow} visit
+              {visitStats.outOfWindow === 1 ? " is" : "s are"} outside the
+              protocol window.
             </div>
           </div>
         )}
@@ -0,0 +1,611 @@
+import React, { useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import {
+  AlertTriangle,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  MapPin,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useAppData } from "@/hooks/useAppData";
+import { useTrialPermissionLevels } from "@/hooks/useTrialPermissions";
+import { useCalendarVisits, useRescheduleVisit } from "@/hooks/useVisitCalendar";
+import { useToast } from "@/hooks/use-toast";
+import {
+  visitCalendarService,
+  CalendarVisit,
+  RescheduleCheck,
+  RescheduleTarget,
+} from "@/services/visitCalendarService";
+import { VISIT_TYPE_LABELS } from "@/services/visitScheduleService";
+
+type CalendarView = "month" | "week" | "day";
+
+interface PendingMove {
+  visit: CalendarVisit;
+  target: RescheduleTarget;
+  check: RescheduleCheck;
+}
+
+// Hours shown in the week and day views
+const HOURS = Array.from({ length: 13 }, (_, i) => i + 7);
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const STATUS_STYLES: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-900 border-blue-200",
+  rescheduled: "bg-amber-100 text-amber-900 border-amber-200",
+  in_progress: "bg-purple-100 text-purple-900 border-purple-200",
+  completed: "bg-green-100 text-green-900 border-green-200",
+  cancelled: "bg-gray-100 text-gray-500 border-gray-200 line-through",
+  no_show: "bg-red-100 text-red-900 border-red-200",
+};
+
+const MOVABLE_STATUSES = ["scheduled", "rescheduled"];
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+const formatTime = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+function getRange(view: CalendarView, cursor: Date) {
+  if (view === "month") {
+    return {
+      start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS),
+      end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS),
+    };
+  }
+  if (view === "week") {
+    return {
+      start: startOfWeek(cursor, WEEK_OPTIONS),
+      end: endOfWeek(cursor, WEEK_OPTIONS),
+    };
+  }
+  return { start: cursor, end: cursor };
+}
+
+interface VisitChipProps {
+  visit: CalendarVisit;
+  draggable: boolean;
+  onDragStart: (visit: CalendarVisit) => void;
+  compact?: boolean;
+}
+
+function VisitChip({ visit, draggable, onDragStart, compact }: VisitChipProps) {
+  const time = formatTime(visit.visit_time);
+  const label = `${visit.patient_code} · ${
+    visit.visit_type ? VISIT_TYPE_LABELS[visit.visit_type] : "Visit"
+  }`;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          draggable={draggable}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", visit.id || "");
+            onDragStart(visit);
+          }}
+          className={`rounded border px-1.5 py-0.5 text-xs truncate ${
+            STATUS_STYLES[visit.status || "scheduled"] || ""
+          } ${draggable ? "cursor-grab active:cursor-grabbing" : "cursor-default"}`}
+        >
+          {time && <span className="font-medium mr-1">{time}</span>}
+          {label}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="right" className="max-w-xs">
+        <div className="space-y-1 text-xs">
+          <div className="font-semibold">{label}</div>
+          <div>{visit.trial_name}</div>
+          {visit.doctor_name && <div>Dr. {visit.doctor_name}</div>}
+          {visit.location && (
+            <div className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {visit.location}
+            </div>
+          )}
+          <div className="capitalize">{visit.status?.replace("_", " ")}</div>
+          {!compact && draggable && (
+            <div className="text-gray-400">Drag to reschedule</div>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Organization-wide calendar of patient visits. Open visits can be dragged to
+ * another day (month view) or time slot (week/day views) to reschedule them.
+ */
+export function VisitCalendar() {
+  const { metrics, members, isUserAssignedToTrial } = useAppData();
+  const { can } = useTrialPermissionLevels();
+  const { toast } = useToast();
+  const rescheduleMutation = useRescheduleVisit();
+
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(new Date());
+  const [trialFilter, setTrialFilter] = useState("all");
+  const [doctorFilter, setDoctorFilter] = useState("all");
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [draggedVisit, setDraggedVisit] = useState<CalendarVisit | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const trials = useMemo(
+    () =>
+      (metrics?.trials || []).filter((trial) =>
+        isUserAssignedToTrial(trial.id)
+      ),
+    [metrics?.trials, isUserAssignedToTrial]
+  );
+
+  const trialIds = useMemo(
+    () =>
+      trialFilter === "all" ? trials.map((trial) => trial.id) : [trialFilter],
+    [trials, trialFilter]
+  );
+
+  const range = getRange(view, cursor);
+  const days = eachDayOfInterval(range);
+
+  const { visits, locations, isLoading } = useCalendarVisits({
+    from: toDateString(range.start),
+    to: toDateString(range.end),
+    trialIds,
+    doctorId: doctorFilter === "all" ? undefined : doctorFilter,
+    location: locationFilter === "all" ? undefined : locationFilter,
+  });
+
+  const visitsByDay = useMemo(() => {
+    const byDay: Record<string, CalendarVisit[]> = {};
+    visits.forEach((visit) => {
+      if (!visit.visit_date) return;
+      (byDay[visit.visit_date] ||= []).push(visit);
+    });
+    return byDay;
+  }, [visits]);
+
+  const canMove = (visit: CalendarVisit) =>
+    MOVABLE_STATUSES.includes(visit.status || "") &&
+    !!visit.trial_id &&
+    can(visit.trial_id, "patients.manage");
+
+  const navigate = (direction: 1 | -1) => {
+    if (view === "month") setCursor(addMonths(cursor, direction));
+    else if (view === "week") setCursor(addWeeks(cursor, direction));
+    else setCursor(addDays(cursor, direction));
+  };
+
+  const title =
+    view === "month"
+      ? format(cursor, "MMMM yyyy")
+      : view === "week"
+      ? `${format(range.start, "MMM d")} – ${format(range.end, "MMM d, yyyy")}`
+      : format(cursor, "EEEE, MMMM d, yyyy");
+
+  const handleDrop = async (date: Date, hour?: number) => {
+    const visit = draggedVisit;
+    setDraggedVisit(null);
+    setDropTarget(null);
+    if (!visit?.id) return;
+
+    const target: RescheduleTarget = {
+      visit_date: toDateString(date),
+      // Month view keeps the time, week/day views move to the slot's hour
+      visit_time:
+        hour !== undefined
+          ? `${String(hour).padStart(2, "0")}:00`
+          : visit.visit_time,
+    };
+
+    if (
+      target.visit_date === visit.visit_date &&
+      formatTime(target.visit_time) === formatTime(visit.visit_time)
+    ) {
+      return;
+    }
+
+    try {
+      setIsChecking(true);
+      const check = await visitCalendarService.checkReschedule(visit, target);
+      const outOfWindow =
+        check.windowStatus === "early" || check.windowStatus === "late";
+
+      if (check.clashes.length > 0 || outOfWindow) {
+        setPendingMove({ visit, target, check });
+      } else {
+        rescheduleMutation.mutate({ visitId: visit.id, target });
+      }
+    } catch (error) {
+      console.error("Error checking visit slot:", error);
+      toast({
+        title: "Error checking availability",
+        description: "The visit was not moved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const dropProps = (key: string, date: Date, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedVisit) return;
+      e.preventDefault();
+      if (dropTarget !== key) setDropTarget(key);
+    },
+    onDragLeave: () => {
+      if (dropTarget === key) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(date, hour);
+    },
+  });
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {days.slice(0, 7).map((day) => (
+        <div
+          key={`header-${day.toISOString()}`}
+          className="border-r border-b bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600"
+        >
+          {format(day, "EEE")}
+        </div>
+      ))}
+      {days.map((day) => {
+        const key = toDateString(day);
+        const dayVisits = visitsByDay[key] || [];
+
+        return (
+          <div
+            key={key}
+            {...dropProps(key, day)}
+            className={`min-h-[110px] border-r border-b p-1 space-y-1 ${
+              isSameMonth(day, cursor) ? "bg-white" : "bg-gray-50"
+            } ${dropTarget === key ? "ring-2 ring-inset ring-blue-400" : ""}`}
+          >
+            <button
+              onClick={() => {
+                setCursor(day);
+                setView("day");
+              }}
+              className={`text-xs font-medium rounded-full w-6 h-6 ${
+                isToday(day)
+                  ? "bg-blue-600 text-white"
+                  : isSameMonth(day, cursor)
+                  ? "text-gray-900 hover:bg-gray-100"
+                  : "text-gray-400"
+              }`}
+            >
+              {format(day, "d")}
+            </button>
+            {dayVisits.slice(0, 4).map((visit) => (
+              <VisitChip
+                key={visit.id}
+                visit={visit}
+                draggable={canMove(visit)}
+                onDragStart={setDraggedVisit}
+                compact
+              />
+            ))}
+            {dayVisits.length > 4 && (
+              <button
+                onClick={() => {
+                  setCursor(day);
+                  setView("day");
+                }}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                +{dayVisits.length - 4} more
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTimeGrid = () => (
+    <div
+      className="grid border-l border-t"
+      style={{ gridTemplateColumns: `60px repeat(${days.length}, minmax(0, 1fr))` }}
+    >
+      <div className="border-r border-b bg-gray-50" />
+      {days.map((day) => (
+        <div
+          key={`header-${day.toISOString()}`}
+          className={`border-r border-b px-2 py-1 text-xs font-medium ${
+            isToday(day) ? "bg-blue-50 text-blue-700" : "bg-gray-50 text-gray-600"
+          }`}
+        >
+          {format(day, "EEE d")}
+        </div>
+      ))}
+
+      {/* Visits without a time */}
+      <div className="border-r border-b px-1 py-1 text-[10px] text-gray-500">
+        All day
+      </div>
+      {days.map((day) => {
+        const key = `${toDateString(day)}-allday`;
+        return (
+          <div
+            key={key}
+            {...dropProps(key, day)}
+            className={`border-r border-b p-1 space-y-1 min-h-[36px] ${
+              dropTarget === key ? "ring-2 ring-inset ring-blue-400" : ""
+            }`}
+          >
+            {(visitsByDay[toDateString(day)] || [])
+              .filter((visit) => !visit.visit_time)
+              .map((visit) => (
+                <VisitChip
+                  key={visit.id}
+                  visit={visit}
+                  draggable={canMove(visit)}
+                  onDragStart={setDraggedVisit}
+                />
+              ))}
+          </div>
+        );
+      })}
+
+      {HOURS.map((hour) => (
+        <React.Fragment key={hour}>
+          <div className="border-r border-b px-1 py-1 text-[10px] text-gray-500">
+            {`${String(hour).padStart(2, "0")}:00`}
+          </div>
+          {days.map((day) => {
+            const key = `${toDateString(day)}-${hour}`;
+            const slotVisits = (visitsByDay[toDateString(day)] || []).filter(
+              (visit) =>
+                visit.visit_time &&
+                (parseInt(visit.visit_time.slice(0, 2), 10) === hour ||
+                  // Early/late visits land in the first/last row
+                  (hour === HOURS[0] &&
+                    parseInt(visit.visit_time.slice(0, 2), 10) < hour) ||
+                  (hour === HOURS[HOURS.length - 1] &&
+                    parseInt(visit.visit_time.slice(0, 2), 10) > hour))
+            );
+
+            return (
+              <div
+                key={key}
+                {...dropProps(key, day, hour)}
+                className={`border-r border-b p-1 space-y-1 min-h-[44px] ${
+                  dropTarget === key ? "ring-2 ring-inset ring-blue-400" : ""
+                }`}
+              >
+                {slotVisits.map((visit) => (
+                  <VisitChip
+                    key={visit.id}
+                    visit={visit}
+                    draggable={canMove(visit)}
+                    onDragStart={setDraggedVisit}
+                  />
+                ))}
+              </div>
+            );
+          })}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-4">
+        {/* Toolbar */}
+        <Card className="p-4">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => navigate(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="text-lg font-semibold text-gray-900 ml-2">{title}</h2>
+              {isChecking && (
+                <span className="text-xs text-gray-500 flex items-center gap-1">
+                  <Clock className="h-3 w-3 animate-pulse" />
+                  Checking availability...
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={trialFilter} onValueChange={setTrialFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Trial" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All trials</SelectItem>
+                  {trials.map((trial) => (
+                    <SelectItem key={trial.id} value={trial.id}>
+                      {trial.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={doctorFilter} onValueChange={setDoctorFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Doctor" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All doctors</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location} value={location}>
+                      {location}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex rounded-md border overflow-hidden">
+                {(["month", "week", "day"] as CalendarView[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1.5 text-sm capitalize ${
+                      view === option
+                        ? "bg-blue-600 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        {/* Calendar */}
+        <Card className="p-4 overflow-x-auto">
+          {isLoading ? (
+            <div className="py-16 text-center text-gray-500">Loading visits...</div>
+          ) : trials.length === 0 ? (
+            <div className="py-16 text-center text-gray-500">
+              <CalendarDays className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              You are not assigned to any trials yet.
+            </div>
+          ) : view === "month" ? (
+            renderMonth()
+          ) : (
+            renderTimeGrid()
+          )}
+        </Card>
+
+        {/* Confirm moves that clash or leave the protocol window */}
+        <AlertDialog
+          open={!!pendingMove}
+          onOpenChange={(open) => !open && setPendingMove(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-500" />
+                Reschedule anyway?
+              </AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-3 text-sm text-muted-foreground">
+                  {pendingMove && pendingMove.check.clashes.length > 0 && (
+                    <div>
+                      <p>
+                        {pendingMove.visit.doctor_name
+                          ? `Dr. ${pendingMove.visit.doctor_name}`
+                          : "The doctor"}{" "}
+                        already has{" "}
+                        {pendingMove.check.clashes.length === 1
+                          ? "a visit"
+                          : `${pendingMove.check.clashes.length} visits`}{" "}
+                        at this time:
+                      </p>
+                      <ul className="mt-2 space-y-1">
+                        {pendingMove.check.clashes.map((clash) => (
+                          <li key={clash.id} className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              {formatTime(clash.visit_time) || "All day"}
+                            </Badge>
+                            {clash.patient_code} · {clash.trial_name}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {pendingMove &&
+                    (pendingMove.check.windowStatus === "early" ||
+                      pendingMove.check.windowStatus === "late") && (
+                      <p>
+                        {format(
+                          new Date(`${pendingMove.target.visit_date}T00:00:00`),
+                          "MMM d"
+                        )}{" "}
+                        is {pendingMove.check.windowStatus === "early" ? "before" : "after"}{" "}
+                        this visit's protocol window.
+                      </p>
+                    )}
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (pendingMove?.visit.id) {
+                    rescheduleMutation.mutate({
+                      visitId: pendingMove.visit.id,
+                      target: pendingMove.target,
+                    });
+                  }
+                  setPendingMove(null);
+                }}
+              >
+                Reschedule
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAppData } from "@/hooks/useAppData";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AIServiceType,
+  DEFAULT_FALLBACK_POLICY,
+} from "@/services/aiProviderRegistry";
+
+/**
+ * Organization-level AI fallback policy: the ordered list of providers the
+ * document assistant tries when the selected provider fails
+ */
+export function useAIProviderPolicy() {
+  const { organization } = useAppData();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: fallbackPolicy = DEFAULT_FALLBACK_POLICY, isLoading } =
+    useQuery({
+      queryKey: ["ai-fallback-policy", organization?.id],
+      queryFn: async (): Promise<AIServiceType[]> => {
+        if (!organization?.id) return DEFAULT_FALLBACK_POLICY;
+
+        const { data, error } = await supabase
+          .from("organizations")
+          .select("ai_fallback_policy")
+          .eq("id", organization.id)
+          .single();
+
+        if (error) throw error;
+        return data?.ai_fallback_policy || DEFAULT_FALLBACK_POLICY;
+      },
+      enabled: !!organization?.id,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (policy: AIServiceType[]) => {
+      if (!organization?.id) throw new Error("No organization");
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({ ai_fallback_policy: policy })
+        .eq("id", organization.id);
+
+      if (error) throw error;
+      return policy;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["ai-fallback-policy", organization?.id],
+      });
+      toast({
+        title: "AI fallback policy saved",
+        description: "The document assistant will use the new provider order",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save AI fallback policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    fallbackPolicy,
+    isLoading,
+    updateFallbackPolicy: updatePolicyMutation.mutate,
+    isUpdating: updatePolicyMutation.isPending,
+  };
+}
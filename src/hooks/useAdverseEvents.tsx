@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AdverseEventInsert,
+  adverseEventService,
+  DeadlineKind,
+} from "@/services/adverseEventService";
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Adverse events of a trial, optionally narrowed to one patient
+ */
+export function useAdverseEvents(trialId?: string, patientId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: adverseEvents = [], isLoading } = useQuery({
+    queryKey: ["adverse-events", trialId, patientId ?? "all"],
+    queryFn: () =>
+      patientId
+        ? adverseEventService.getPatientAdverseEvents(trialId!, patientId)
+        : adverseEventService.getTrialAdverseEvents(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: trialPatients = [] } = useQuery({
+    queryKey: ["adverse-event-patients", trialId],
+    queryFn: () => adverseEventService.getTrialPatients(trialId!),
+    enabled: !!trialId && !patientId,
+  });
+
+  // Trial listing and patient views share the prefix
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["adverse-events", trialId] });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: AdverseEventInsert) => adverseEventService.createAdverseEvent(input),
+    onSuccess: (event) => {
+      invalidate();
+      toast({
+        title: event.is_serious ? "Serious adverse event reported" : "Adverse event recorded",
+        description: event.is_serious
+          ? "The trial team was alerted. Notify the sponsor within 24 hours."
+          : undefined,
+      });
+    },
+    onError: onError("Error recording adverse event"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      eventId,
+      changes,
+    }: {
+      eventId: string;
+      changes: Database["public"]["Tables"]["adverse_events"]["Update"];
+    }) => adverseEventService.updateAdverseEvent(eventId, changes),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Adverse event updated" });
+    },
+    onError: onError("Error updating adverse event"),
+  });
+
+  const markReportedMutation = useMutation({
+    mutationFn: ({
+      eventId,
+      kind,
+      submittedAt,
+    }: {
+      eventId: string;
+      kind: DeadlineKind;
+      submittedAt: string;
+    }) => adverseEventService.markReported(eventId, kind, submittedAt),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Report submission recorded" });
+    },
+    onError: onError("Error recording report"),
+  });
+
+  return {
+    adverseEvents,
+    trialPatients,
+    isLoading,
+    createAdverseEvent: createMutation.mutateAsync,
+    updateAdverseEvent: updateMutation.mutateAsync,
+    markReported: markReportedMutation.mutateAsync,
+    isSaving:
+      createMutation.isPending || updateMutation.isPending || markReportedMutation.isPending,
+  };
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  assistantEvalService,
+  EvalCaseInput,
+  EvalProgress,
+  EvalSet,
+} from "@/services/assistantEvalService";
+import type { AssistantConfig } from "@/services/documentAssistantEngine";
+import type { DocumentInfo } from "@/services/aiServiceSwitcher";
+
+/**
+ * Eval sets of a trial, plus the questions and runs of the selected set
+ */
+export function useAssistantEvals(trialId: string, setId: string | null, memberId?: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<EvalProgress | null>(null);
+
+  const { data: sets = [], isLoading: setsLoading } = useQuery({
+    queryKey: ["assistant-eval-sets", trialId],
+    queryFn: () => assistantEvalService.getSets(trialId),
+  });
+
+  const { data: cases = [] } = useQuery({
+    queryKey: ["assistant-eval-cases", setId],
+    queryFn: () => assistantEvalService.getCases(setId!),
+    enabled: !!setId,
+  });
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ["assistant-eval-runs", setId],
+    queryFn: () => assistantEvalService.getRuns(setId!),
+    enabled: !!setId,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const invalidateCases = () =>
+    queryClient.invalidateQueries({ queryKey: ["assistant-eval-cases", setId] });
+
+  const createSetMutation = useMutation({
+    mutationFn: ({ name, description }: { name: string; description: string | null }) =>
+      assistantEvalService.createSet(trialId, name, description, memberId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["assistant-eval-sets", trialId] });
+      toast({ title: "Eval set created" });
+    },
+    onError: onError("Error creating eval set"),
+  });
+
+  const deleteSetMutation = useMutation({
+    mutationFn: (id: string) => assistantEvalService.deleteSet(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["assistant-eval-sets", trialId] });
+      toast({ title: "Eval set deleted" });
+    },
+    onError: onError("Error deleting eval set"),
+  });
+
+  const addCaseMutation = useMutation({
+    mutationFn: (input: EvalCaseInput) => assistantEvalService.addCase(setId!, input),
+    onSuccess: () => {
+      invalidateCases();
+      toast({ title: "Question added" });
+    },
+    onError: onError("Error adding question"),
+  });
+
+  const deleteCaseMutation = useMutation({
+    mutationFn: (caseId: string) => assistantEvalService.deleteCase(caseId),
+    onSuccess: invalidateCases,
+    onError: onError("Error removing question"),
+  });
+
+  const seedMutation = useMutation({
+    mutationFn: () => assistantEvalService.seedFromQARepository(setId!, trialId),
+    onSuccess: (added) => {
+      invalidateCases();
+      toast({
+        title: added > 0 ? `${added} verified Q&A items added` : "No new verified Q&A items",
+        description: added > 0 ? undefined : "Verify answers in the QA Repository to use them here.",
+      });
+    },
+    onError: onError("Error seeding from QA repository"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: ({
+      evalSet,
+      config,
+      document,
+      signal,
+    }: {
+      evalSet: EvalSet;
+      config: AssistantConfig;
+      document: DocumentInfo | null;
+      signal?: AbortSignal;
+    }) => {
+      setProgress({ done: 0, total: cases.length });
+      return assistantEvalService.runEval(evalSet, config, document, memberId, {
+        signal,
+        onProgress: setProgress,
+      });
+    },
+    onSuccess: (run) => {
+      toast({
+        title:
+          run.status === "completed"
+            ? "Eval run completed"
+            : run.status === "cancelled"
+            ? "Eval run stopped"
+            : "Eval run failed",
+        description: `${run.case_count} questions via ${run.target_label}`,
+        variant: run.status === "failed" ? "destructive" : undefined,
+      });
+    },
+    onError: onError("Error running evaluation"),
+    onSettled: () => {
+      setProgress(null);
+      queryClient.invalidateQueries({ queryKey: ["assistant-eval-runs", setId] });
+    },
+  });
+
+  return {
+    sets,
+    setsLoading,
+    cases,
+    runs,
+    progress,
+    createSet: createSetMutation.mutateAsync,
+    deleteSet: deleteSetMutation.mutateAsync,
+    addCase: addCaseMutation.mutateAsync,
+    deleteCase: deleteCaseMutation.mutateAsync,
+    seedFromQARepository: seedMutation.mutateAsync,
+    runEval: runMutation.mutateAsync,
+    isSaving:
+      createSetMutation.isPending ||
+      deleteSetMutation.isPending ||
+      addCaseMutation.isPending ||
+      seedMutation.isPending,
+    isRunning: runMutation.isPending,
+  };
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAppData } from "@/hooks/useAppData";
+import {
+  auditService,
+  AuditEntityType,
+  AuditLogFilters,
+} from "@/services/auditService";
+
+/**
+ * Change history of a single entity, for history panels
+ */
+export function useEntityAuditHistory(
+  entityType: AuditEntityType,
+  entityId?: string | null
+) {
+  const { data: history = [], isLoading, error } = useQuery({
+    queryKey: ["audit-log", entityType, entityId],
+    queryFn: () => auditService.getEntityHistory(entityType, entityId!),
+    enabled: !!entityId,
+  });
+
+  return { history, isLoading, error };
+}
+
+/**
+ * Organization-wide audit log for the audit viewer
+ */
+export function useOrganizationAuditLog(filters: AuditLogFilters = {}) {
+  const { organizationId } = useAppData();
+  const { entityType, action, actorId, trialId, from, to } = filters;
+
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: [
+      "audit-log",
+      organizationId,
+      entityType,
+      action,
+      actorId,
+      trialId,
+      from,
+      to,
+    ],
+    queryFn: () =>
+      auditService.getOrganizationLog(organizationId!, {
+        entityType,
+        action,
+        actorId,
+        trialId,
+        from,
+        to,
+      }),
+    enabled: !!organizationId,
+  });
+
+  return { entries, isLoading, error };
+}
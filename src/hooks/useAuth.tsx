@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { getDocumentContextCache } from "@/services/documentContextCache";
 
 interface AuthContextType {
   user: User | null;
@@ -97,6 +98,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    // Cached trial documents must not outlive the session on a shared device
+    await getDocumentContextCache()
+      .clear()
+      .catch((error) => console.warn("⚠️ Failed to clear the document cache:", error));
   };
 
   const value = {
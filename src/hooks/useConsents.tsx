@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ConsentInput,
+  consentService,
+  getConsentStates,
+  summarizeConsents,
+} from "@/services/consentService";
+
+/**
+ * ICF versions, consent records and re-consent status of a trial
+ */
+export function useConsents(trialId?: string, memberId?: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: icfVersions = [], isLoading: icfLoading } = useQuery({
+    queryKey: ["icf-versions", trialId],
+    queryFn: () => consentService.getIcfVersions(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: consents = [], isLoading: consentsLoading } = useQuery({
+    queryKey: ["patient-consents", trialId],
+    queryFn: () => consentService.getTrialConsents(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: enrolledPatients = [], isLoading: patientsLoading } = useQuery({
+    queryKey: ["consent-enrolled-patients", trialId],
+    queryFn: () => consentService.getEnrolledPatients(trialId!),
+    enabled: !!trialId,
+  });
+
+  const latestIcf = icfVersions.find((icf) => icf.is_latest) || icfVersions[0] || null;
+
+  const states = useMemo(
+    () => getConsentStates(enrolledPatients, consents, latestIcf),
+    [enrolledPatients, consents, latestIcf]
+  );
+
+  const recordConsentMutation = useMutation({
+    mutationFn: (input: ConsentInput) => consentService.recordConsent(input, memberId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["patient-consents", trialId] });
+      toast({ title: "Consent recorded" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error recording consent",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    icfVersions,
+    latestIcf,
+    consents,
+    enrolledPatients,
+    states,
+    summary: summarizeConsents(states),
+    isLoading: icfLoading || consentsLoading || patientsLoading,
+    recordConsent: recordConsentMutation.mutateAsync,
+    isRecording: recordConsentMutation.isPending,
+  };
+}
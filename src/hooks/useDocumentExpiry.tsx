@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { DOCUMENTS_QUERY_KEYS } from "@/hooks/useDocuments";
+import {
+  DatedDocument,
+  DocumentDates,
+  documentExpiryService,
+} from "@/services/documentExpiryService";
+
+/**
+ * Expiry and re-review date changes on a trial's documents
+ */
+export function useDocumentExpiry(trialId: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEYS.trial(trialId) });
+    queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEYS.lists() });
+    queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error updating document dates",
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const updateDatesMutation = useMutation({
+    mutationFn: ({
+      documentId,
+      dates,
+      reason,
+    }: {
+      documentId: string;
+      dates: DocumentDates;
+      reason?: string;
+    }) => documentExpiryService.updateDates(documentId, dates, reason),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Document dates updated" });
+    },
+    onError,
+  });
+
+  const markReviewedMutation = useMutation({
+    mutationFn: (document: DatedDocument) => documentExpiryService.markReviewed(document),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Re-review recorded" });
+    },
+    onError,
+  });
+
+  return {
+    updateDates: updateDatesMutation.mutateAsync,
+    markReviewed: markReviewedMutation.mutateAsync,
+    isUpdating: updateDatesMutation.isPending || markReviewedMutation.isPending,
+  };
+}
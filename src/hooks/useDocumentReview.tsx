@@ -0,0 +1,146 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { DOCUMENTS_QUERY_KEYS } from "@/hooks/useDocuments";
+import { documentService } from "@/services/documentService";
+import {
+  DocumentReview,
+  documentReviewService,
+  ReviewDecision,
+} from "@/services/documentReviewService";
+
+/**
+ * Review workflow of a trial document: reviewers, their decisions and
+ * comments, and the document's status changes
+ */
+export function useDocumentReview(document: any | null, memberId?: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const documentId = document?.id as string | undefined;
+  const trialId = document?.trial_id as string | undefined;
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ["document-reviews", documentId],
+    queryFn: () => documentReviewService.getReviews(documentId!),
+    enabled: !!documentId,
+  });
+
+  const { data: team = [] } = useQuery({
+    queryKey: ["trial-team-members", trialId],
+    queryFn: () => documentReviewService.getTrialTeam(trialId!),
+    enabled: !!trialId,
+  });
+
+  // Decisions change the document status too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["document-reviews", documentId] });
+    if (trialId) {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEYS.trial(trialId) });
+      queryClient.invalidateQueries({ queryKey: ["icf-versions", trialId] });
+    }
+    queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEYS.lists() });
+    queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Review update failed",
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: (reviewerIds: string[]) =>
+      documentReviewService.assignReviewers(documentId!, reviewerIds, memberId ?? null),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (reviewId: string) => documentReviewService.removeReviewer(reviewId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () =>
+      documentReviewService.transition(document, "in_review", memberId ?? null, "Submitted for review"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Submitted for review", description: "The reviewers have been notified." });
+    },
+    onError,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: () =>
+      documentReviewService.transition(document, "draft", memberId ?? null, "Withdrawn from review"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Withdrawn from review" });
+    },
+    onError,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({
+      review,
+      decision,
+      comment,
+    }: {
+      review: DocumentReview;
+      decision: Exclude<ReviewDecision, "pending">;
+      comment?: string;
+    }) => documentReviewService.decide(review, document, decision, comment),
+    onSuccess: (_, { decision }) => {
+      invalidate();
+      toast({
+        title: decision === "approved" ? "Document approved" : "Changes requested",
+      });
+    },
+    onError,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: ({ reviewId, body }: { reviewId: string; body: string }) =>
+      documentReviewService.addComment(reviewId, body),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const makeEffectiveMutation = useMutation({
+    mutationFn: () => documentService.makeEffective(documentId!, memberId!),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Document in effect",
+        description: "It is now the version the AI assistant uses.",
+      });
+    },
+    onError,
+  });
+
+  const myReview = reviews.find((review) => review.reviewer_id === memberId) || null;
+
+  return {
+    reviews,
+    team,
+    myReview,
+    isLoading,
+    assignReviewers: assignMutation.mutateAsync,
+    removeReviewer: removeMutation.mutateAsync,
+    submitForReview: submitMutation.mutateAsync,
+    withdraw: withdrawMutation.mutateAsync,
+    decide: decideMutation.mutateAsync,
+    addComment: commentMutation.mutateAsync,
+    makeEffective: makeEffectiveMutation.mutateAsync,
+    isUpdating:
+      assignMutation.isPending ||
+      removeMutation.isPending ||
+      submitMutation.isPending ||
+      withdrawMutation.isPending ||
+      decideMutation.isPending ||
+      commentMutation.isPending ||
+      makeEffectiveMutation.isPending,
+  };
+}
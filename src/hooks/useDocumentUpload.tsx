@@ -41,6 +41,7 @@ export function useDocumentUpload(): UseDocumentUploadReturn {
         queryKey: DOCUMENTS_QUERY_KEYS.trial(variables.trialId),
       });
       queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEYS.lists() });
+      queryClient.invalidateQueries({ queryKey: ["icf-versions", variables.trialId] });
 
       toast({
         title: "Document uploaded",
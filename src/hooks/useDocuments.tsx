@@ -80,12 +80,15 @@ export function useUpdateDocument() {
     mutationFn: ({
       documentId,
       updates,
+      reason,
     }: {
       documentId: string;
       updates: Partial<
         Pick<TrialDocument, "document_name" | "description" | "tags" | "status">
       >;
-    }) => documentService.updateDocument(documentId, updates),
+      // Reason for change, stored in the audit trail
+      reason?: string;
+    }) => documentService.updateDocument(documentId, updates, reason),
     onSuccess: (updatedDocument) => {
       // Update the cached document
       queryClient.setQueryData(
@@ -0,0 +1,172 @@
+import { useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAppData } from "@/hooks/useAppData";
+import {
+  notificationService,
+  NotificationPriority,
+  NotificationRow,
+  NotificationType,
+} from "@/services/notificationService";
+
+export interface NotificationFilters {
+  status?: "all" | "unread" | "archived";
+  priority?: NotificationPriority;
+  type?: NotificationType;
+}
+
+/**
+ * Keep the notification queries fresh while the app is open: any insert,
+ * update or delete for the current member invalidates them
+ */
+function useNotificationsRealtime(scope: string, memberId?: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!memberId) return;
+
+    const channel = supabase
+      .channel(`notifications:${scope}:${memberId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "notifications",
+          filter: `recipient_id=eq.${memberId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["notifications", memberId] });
+          queryClient.invalidateQueries({
+            queryKey: ["notifications-unread", memberId],
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scope, memberId, queryClient]);
+}
+
+/**
+ * Unread notification count for the sidebar badge, updated in realtime
+ */
+export function useUnreadNotificationCount() {
+  const { memberId } = useAppData();
+  useNotificationsRealtime("badge", memberId);
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ["notifications-unread", memberId],
+    queryFn: () => notificationService.getUnreadCount(memberId!),
+    enabled: !!memberId,
+  });
+
+  return unreadCount;
+}
+
+export function useNotifications({
+  status = "all",
+  priority,
+  type,
+}: NotificationFilters = {}) {
+  const { memberId } = useAppData();
+  const queryClient = useQueryClient();
+  useNotificationsRealtime("list", memberId);
+
+  const { data: allNotifications = [], isLoading, error } = useQuery({
+    queryKey: ["notifications", memberId],
+    queryFn: () =>
+      notificationService.getNotifications(memberId!, { includeArchived: true }),
+    enabled: !!memberId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["notifications", memberId] });
+    queryClient.invalidateQueries({ queryKey: ["notifications-unread", memberId] });
+  };
+
+  // Optimistically patch the cached list before the server confirms
+  const patchCache = (
+    update: (notifications: NotificationRow[]) => NotificationRow[]
+  ) => {
+    queryClient.setQueryData(
+      ["notifications", memberId],
+      (old: NotificationRow[] | undefined) => (old ? update(old) : old)
+    );
+  };
+
+  const markAsReadMutation = useMutation({
+    mutationFn: (ids: string[]) => notificationService.markAsRead(ids),
+    onMutate: (ids) => {
+      const readAt = new Date().toISOString();
+      patchCache((old) =>
+        old.map((n) => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n))
+      );
+    },
+    onSettled: invalidate,
+  });
+
+  const markAllAsReadMutation = useMutation({
+    mutationFn: () => notificationService.markAllAsRead(memberId!),
+    onMutate: () => {
+      const readAt = new Date().toISOString();
+      patchCache((old) => old.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    },
+    onSettled: invalidate,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+      notificationService.setArchived(id, archived),
+    onMutate: ({ id, archived }) => {
+      const archivedAt = archived ? new Date().toISOString() : null;
+      patchCache((old) =>
+        old.map((n) => (n.id === id ? { ...n, archived_at: archivedAt } : n))
+      );
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => notificationService.deleteNotification(id),
+    onMutate: (id) => {
+      patchCache((old) => old.filter((n) => n.id !== id));
+    },
+    onSettled: invalidate,
+  });
+
+  const active = useMemo(
+    () => allNotifications.filter((n) => !n.archived_at),
+    [allNotifications]
+  );
+
+  const notifications = useMemo(() => {
+    return allNotifications.filter((n) => {
+      if (status === "archived" ? !n.archived_at : n.archived_at) return false;
+      if (status === "unread" && n.read_at) return false;
+      if (priority && n.priority !== priority) return false;
+      if (type && n.type !== type) return false;
+      return true;
+    });
+  }, [allNotifications, status, priority, type]);
+
+  return {
+    // Data
+    notifications,
+    isLoading,
+    error,
+    totalCount: active.length,
+    unreadCount: active.filter((n) => !n.read_at).length,
+    urgentCount: active.filter((n) => n.priority === "urgent" && !n.read_at).length,
+    archivedCount: allNotifications.length - active.length,
+
+    // Mutations
+    markAsRead: (id: string) => markAsReadMutation.mutateAsync([id]),
+    markAllAsRead: markAllAsReadMutation.mutateAsync,
+    archive: (id: string) => archiveMutation.mutateAsync({ id, archived: true }),
+    unarchive: (id: string) => archiveMutation.mutateAsync({ id, archived: false }),
+    deleteNotification: deleteMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  patientPaymentService,
+  TravelExpenseInput,
+} from "@/services/patientPaymentService";
+
+export function usePatientPayments(patientId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: payments = [], isLoading } = useQuery({
+    queryKey: ["patient-payments", patientId],
+    queryFn: () => patientPaymentService.getPatientPayments(patientId!),
+    enabled: !!patientId,
+  });
+
+  const { data: enrollments = [] } = useQuery({
+    queryKey: ["patient-enrollments", patientId],
+    queryFn: () => patientPaymentService.getEnrollments(patientId!),
+    enabled: !!patientId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["patient-payments", patientId] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const addTravelExpenseMutation = useMutation({
+    mutationFn: (input: TravelExpenseInput) =>
+      patientPaymentService.addTravelExpense(input),
+    onSuccess: () => {
+      invalidate();
+      // Receipts count as pass-through costs
+      queryClient.invalidateQueries({ queryKey: ["trial-budget-summaries"] });
+      toast({ title: "Travel expense recorded", description: "Waiting for approval." });
+    },
+    onError: onError("Error recording expense"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({
+      paymentIds,
+      decision,
+      reviewerId,
+      note,
+    }: {
+      paymentIds: string[];
+      decision: "approved" | "rejected";
+      reviewerId: string | null;
+      note?: string;
+    }) => patientPaymentService.reviewPayments(paymentIds, decision, reviewerId, note),
+    onSuccess: (_, { paymentIds, decision }) => {
+      invalidate();
+      toast({ title: `${paymentIds.length} entries ${decision}` });
+    },
+    onError: onError("Error reviewing payments"),
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: ({
+      paymentIds,
+      paymentReference,
+    }: {
+      paymentIds: string[];
+      paymentReference?: string;
+    }) => patientPaymentService.markPaid(paymentIds, paymentReference),
+    onSuccess: (_, { paymentIds }) => {
+      invalidate();
+      toast({ title: `Payout recorded for ${paymentIds.length} entries` });
+    },
+    onError: onError("Error recording payout"),
+  });
+
+  return {
+    payments,
+    enrollments,
+    isLoading,
+    addTravelExpense: addTravelExpenseMutation.mutateAsync,
+    isAddingExpense: addTravelExpenseMutation.isPending,
+    reviewPayments: reviewMutation.mutateAsync,
+    markPaid: markPaidMutation.mutateAsync,
+    isUpdating: reviewMutation.isPending || markPaidMutation.isPending,
+  };
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { auditService } from "@/services/auditService";
 import type {
   Tables,
   TablesInsert,
@@ -75,14 +76,17 @@ export function usePatients({ organizationId }: UsePatientOptions = {}) {
     mutationFn: async ({
       id,
       updates,
+      reason,
     }: {
       id: string;
       updates: PatientUpdate;
+      // Reason for change, stored in the audit trail
+      reason?: string;
     }) => {
       // First check if patient exists
       const { data: existingPatient, error: checkError } = await supabase
         .from("patients")
-        .select("id, patient_code, organization_id")
+        .select("*")
         .eq("id", id)
         .single();
 
@@ -116,13 +120,11 @@ export function usePatients({ organizationId }: UsePatientOptions = {}) {
         }
       }
 
-      // Perform the update
-      const { data, error } = await supabase
-        .from("patients")
-        .update(updates)
-        .eq("id", id)
-        .select()
-        .single();
+      // Perform the update; the audit trigger records it with the reason
+      const { data, error } = await auditService.withReason(
+        supabase.from("patients").update(updates).eq("id", id).select().single(),
+        reason
+      );
 
       if (error) {
         console.error("Error updating patient:", error);
@@ -133,6 +135,7 @@ export function usePatients({ organizationId }: UsePatientOptions = {}) {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["patients", organizationId] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
       toast({
         title: "Patient Updated",
         description: `Patient ${data.patient_code} has been updated successfully.`,
@@ -151,18 +154,22 @@ export function usePatients({ organizationId }: UsePatientOptions = {}) {
   // Deactivate a patient (soft delete)
   const deactivatePatientMutation = useMutation({
     mutationFn: async (patientId: string) => {
-      const { data, error } = await supabase
-        .from("patients")
-        .update({ is_active: false })
-        .eq("id", patientId)
-        .select()
-        .single();
+      const { data, error } = await auditService.withReason(
+        supabase
+          .from("patients")
+          .update({ is_active: false })
+          .eq("id", patientId)
+          .select()
+          .single(),
+        "Patient deactivated"
+      );
 
       if (error) throw error;
       return data;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["patients", organizationId] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
       toast({
         title: "Patient Deactivated",
         description: `Patient ${data.patient_code} has been deactivated.`,
@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { useToast } from "./use-toast";
+import { auditService } from "@/services/auditService";
 
 // TypeScript interfaces
 interface QAItemSource {
@@ -150,13 +151,16 @@ export function useQARepository(trialId?: string) {
   // Mutation to toggle verified status
   const toggleVerifiedMutation = useMutation({
     mutationFn: async ({ id, isVerified }: { id: string; isVerified: boolean }): Promise<void> => {
-      const { error } = await supabase
-        .from("qa_repository")
-        .update({
-          is_verified: isVerified,
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", id);
+      const { error } = await auditService.withReason(
+        supabase
+          .from("qa_repository")
+          .update({
+            is_verified: isVerified,
+            updated_at: new Date().toISOString()
+          })
+          .eq("id", id),
+        isVerified ? "Answer verified" : "Verification removed"
+      );
 
       if (error) {
         console.error("Error toggling verified:", error);
@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CriterionInput,
+  EligibilityCriterion,
+  ScreeningResponseInput,
+  ScreeningStatus,
+  screeningService,
+} from "@/services/screeningService";
+import { getCriteriaExtractionService } from "@/services/criteriaExtractionService";
+
+/**
+ * Eligibility criteria and screenings of a trial
+ */
+export function useScreening(trialId?: string, memberId?: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: criteria = [], isLoading: criteriaLoading } = useQuery({
+    queryKey: ["eligibility-criteria", trialId],
+    queryFn: () => screeningService.getCriteria(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: screenings = [], isLoading: screeningsLoading } = useQuery({
+    queryKey: ["patient-screenings", trialId],
+    queryFn: () => screeningService.getScreenings(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: protocol = null } = useQuery({
+    queryKey: ["latest-protocol", trialId],
+    queryFn: () => screeningService.getLatestProtocol(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { data: enrolledPatientIds = [] } = useQuery({
+    queryKey: ["trial-enrolled-patient-ids", trialId],
+    queryFn: () => screeningService.getEnrolledPatientIds(trialId!),
+    enabled: !!trialId,
+  });
+
+  const invalidateCriteria = () =>
+    queryClient.invalidateQueries({ queryKey: ["eligibility-criteria", trialId] });
+  const invalidateScreenings = () =>
+    queryClient.invalidateQueries({ queryKey: ["patient-screenings", trialId] });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const extractCriteriaMutation = useMutation({
+    mutationFn: async () => {
+      if (!protocol) throw new Error("Upload a protocol to extract its criteria");
+      const extracted = await getCriteriaExtractionService().extractCriteria(protocol);
+      return screeningService.replaceCriteria(trialId!, extracted, protocol.id, memberId);
+    },
+    onSuccess: (saved) => {
+      invalidateCriteria();
+      toast({
+        title: "Criteria extracted",
+        description: `${saved.length} criteria were added from the protocol. Review them before screening.`,
+      });
+    },
+    onError: onError("Error extracting criteria"),
+  });
+
+  const saveCriterionMutation = useMutation({
+    mutationFn: ({
+      criterion,
+      input,
+    }: {
+      criterion?: EligibilityCriterion;
+      input: CriterionInput;
+    }) =>
+      criterion
+        ? screeningService.updateCriterion(criterion, input, memberId)
+        : screeningService.addCriterion(trialId!, input, memberId),
+    onSuccess: invalidateCriteria,
+    onError: onError("Error saving criterion"),
+  });
+
+  const retireCriterionMutation = useMutation({
+    mutationFn: (criterionId: string) => screeningService.retireCriterion(criterionId),
+    onSuccess: invalidateCriteria,
+    onError: onError("Error removing criterion"),
+  });
+
+  const startScreeningMutation = useMutation({
+    mutationFn: (patientId: string) =>
+      screeningService.startScreening(trialId!, patientId, memberId),
+    onSuccess: invalidateScreenings,
+    onError: onError("Error starting screening"),
+  });
+
+  const saveResponsesMutation = useMutation({
+    mutationFn: ({
+      screeningId,
+      responses,
+    }: {
+      screeningId: string;
+      responses: ScreeningResponseInput[];
+    }) => screeningService.saveResponses(screeningId, responses, memberId),
+    onSuccess: invalidateScreenings,
+    onError: onError("Error saving screening"),
+  });
+
+  const completeScreeningMutation = useMutation({
+    mutationFn: async ({
+      screeningId,
+      responses,
+      status,
+      failureReason,
+      notes,
+    }: {
+      screeningId: string;
+      responses: ScreeningResponseInput[];
+      status: Exclude<ScreeningStatus, "in_progress">;
+      failureReason?: string;
+      notes?: string;
+    }) => {
+      await screeningService.saveResponses(screeningId, responses, memberId);
+      await screeningService.completeScreening(screeningId, status, {
+        failureReason,
+        notes,
+        completedBy: memberId,
+      });
+      return status;
+    },
+    onSuccess: (status) => {
+      invalidateScreenings();
+      toast({
+        title: status === "passed" ? "Screening passed" : "Screen failure recorded",
+        description:
+          status === "passed"
+            ? "The patient can now be enrolled in the trial."
+            : "The screening was added to the screen-failure log.",
+      });
+    },
+    onError: onError("Error completing screening"),
+  });
+
+  const deleteScreeningMutation = useMutation({
+    mutationFn: (screeningId: string) => screeningService.deleteScreening(screeningId),
+    onSuccess: invalidateScreenings,
+    onError: onError("Error discarding screening"),
+  });
+
+  return {
+    criteria,
+    screenings,
+    protocol,
+    enrolledPatientIds,
+    isLoading: criteriaLoading || screeningsLoading,
+    extractCriteria: extractCriteriaMutation.mutate,
+    isExtracting: extractCriteriaMutation.isPending,
+    saveCriterion: saveCriterionMutation.mutateAsync,
+    retireCriterion: retireCriterionMutation.mutate,
+    isSavingCriterion:
+      saveCriterionMutation.isPending || retireCriterionMutation.isPending,
+    startScreening: startScreeningMutation.mutateAsync,
+    isStarting: startScreeningMutation.isPending,
+    saveResponses: saveResponsesMutation.mutateAsync,
+    completeScreening: completeScreeningMutation.mutateAsync,
+    deleteScreening: deleteScreeningMutation.mutate,
+    isSavingScreening:
+      saveResponsesMutation.isPending || completeScreeningMutation.isPending,
+  };
+}
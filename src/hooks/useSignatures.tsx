@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SignatureTarget,
+  SignInput,
+  SIGNATURE_MEANING_LABELS,
+  signatureService,
+} from "@/services/signatureService";
+
+/**
+ * Electronic signatures on a trial or patient document
+ */
+export function useSignatures(target: SignatureTarget, documentId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: signatures = [], isLoading } = useQuery({
+    queryKey: ["e-signatures", target, documentId],
+    queryFn: () => signatureService.getSignatures(target, documentId!),
+    enabled: !!documentId,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: (input: Omit<SignInput, "target">) => signatureService.sign({ ...input, target }),
+    onSuccess: (signature) => {
+      queryClient.invalidateQueries({ queryKey: ["e-signatures", target, documentId] });
+      toast({
+        title: "Document signed",
+        description: `Signed as ${SIGNATURE_MEANING_LABELS[signature.meaning as keyof typeof SIGNATURE_MEANING_LABELS].toLowerCase()}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Signature failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    signatures,
+    isLoading,
+    sign: signMutation.mutateAsync,
+    isSigning: signMutation.isPending,
+  };
+}
@@ -0,0 +1,103 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  invoiceService,
+  CreateInvoiceOptions,
+} from "@/services/invoiceService";
+
+export function useSponsorInvoices(trialIds: string[]) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invoices = [], isLoading, error } = useQuery({
+    queryKey: ["sponsor-invoices", trialIds],
+    queryFn: () => invoiceService.getInvoices(trialIds),
+    enabled: trialIds.length > 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["sponsor-invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["unbilled-visits"] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const createInvoiceMutation = useMutation({
+    mutationFn: (options: CreateInvoiceOptions) =>
+      invoiceService.createDraftInvoice(options),
+    onSuccess: (invoice) => {
+      invalidate();
+      toast({
+        title: "Draft invoice created",
+        description: `${invoice.invoice_number} for ${invoice.sponsor}`,
+      });
+    },
+    onError: onError("Error creating invoice"),
+  });
+
+  const sendInvoiceMutation = useMutation({
+    mutationFn: (invoiceId: string) => invoiceService.sendInvoice(invoiceId),
+    onSuccess: (invoice) => {
+      invalidate();
+      // The PDF is stored as a visit document with an amount
+      queryClient.invalidateQueries({ queryKey: ["trial-budget-summaries"] });
+      toast({
+        title: "Invoice sent",
+        description: `${invoice.invoice_number} was stored with the visit documents.`,
+      });
+    },
+    onError: onError("Error sending invoice"),
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: (invoiceId: string) => invoiceService.markPaid(invoiceId),
+    onSuccess: (invoice) => {
+      invalidate();
+      toast({ title: `${invoice.invoice_number} marked as paid` });
+    },
+    onError: onError("Error updating invoice"),
+  });
+
+  const deleteDraftMutation = useMutation({
+    mutationFn: (invoiceId: string) => invoiceService.deleteDraft(invoiceId),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Draft invoice deleted" });
+    },
+    onError: onError("Error deleting invoice"),
+  });
+
+  return {
+    invoices,
+    isLoading: isLoading && trialIds.length > 0,
+    error,
+    createInvoice: createInvoiceMutation.mutateAsync,
+    isCreating: createInvoiceMutation.isPending,
+    sendInvoice: sendInvoiceMutation.mutate,
+    markPaid: markPaidMutation.mutate,
+    deleteDraft: deleteDraftMutation.mutate,
+    isUpdating:
+      sendInvoiceMutation.isPending ||
+      markPaidMutation.isPending ||
+      deleteDraftMutation.isPending,
+  };
+}
+
+/**
+ * Completed visits of a trial not on any invoice yet, priced from the budget
+ */
+export function useUnbilledVisits(trialId?: string) {
+  const { data: visits = [], isLoading } = useQuery({
+    queryKey: ["unbilled-visits", trialId],
+    queryFn: () => invoiceService.getUnbilledVisits(trialId!),
+    enabled: !!trialId,
+  });
+
+  return { visits, isLoading };
+}
@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  budgetService,
+  BudgetLineItemInput,
+} from "@/services/budgetService";
+
+/**
+ * Budget summaries (budget, actuals, burn rate, run-out) of several trials
+ */
+export function useBudgetSummaries(trialIds: string[]) {
+  const { data: summaries = {}, isLoading, error } = useQuery({
+    queryKey: ["trial-budget-summaries", trialIds],
+    queryFn: () => budgetService.getBudgetSummaries(trialIds),
+    enabled: trialIds.length > 0,
+  });
+
+  return { summaries, isLoading: isLoading && trialIds.length > 0, error };
+}
+
+export function useTrialBudget(trialId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ["trial-budget-items", trialId],
+    queryFn: () => budgetService.getLineItems(trialId!),
+    enabled: !!trialId,
+  });
+
+  const { summaries, isLoading: summaryLoading } = useBudgetSummaries(
+    trialId ? [trialId] : []
+  );
+
+  const saveBudgetMutation = useMutation({
+    mutationFn: ({
+      items,
+      currency,
+    }: {
+      items: BudgetLineItemInput[];
+      currency: string;
+    }) => budgetService.saveBudget(trialId!, items, currency),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["trial-budget-items", trialId], saved);
+      queryClient.invalidateQueries({ queryKey: ["trial-budget-summaries"] });
+      toast({
+        title: "Budget saved",
+        description: `${saved.length} line items in the trial budget.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving budget",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    items,
+    summary: trialId ? summaries[trialId] : undefined,
+    isLoading: itemsLoading || summaryLoading,
+    saveBudget: saveBudgetMutation.mutateAsync,
+    isSaving: saveBudgetMutation.isPending,
+  };
+}
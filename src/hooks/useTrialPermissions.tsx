@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAppData } from "@/hooks/useAppData";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  hasTrialPermission,
+  highestPermissionLevel,
+  PermissionLevel,
+  TrialAction,
+} from "@/lib/permissions";
+
+/**
+ * Permissions of the current member inside one trial, resolved by the
+ * user_trial_permission RPC from their custom role on the trial.
+ * Organization admins have admin permission on every trial.
+ */
+export function useTrialPermissions(trialId?: string) {
+  const { user } = useAuth();
+  const { member } = useAppData();
+  const isOrgAdmin = member?.default_role === "admin";
+
+  const { data: trialLevel = null, isLoading } = useQuery({
+    queryKey: ["trial-permission", trialId, user?.id],
+    queryFn: async (): Promise<PermissionLevel | null> => {
+      const { data, error } = await supabase.rpc("user_trial_permission", {
+        user_profile_id: user!.id,
+        trial_id_param: trialId!,
+      });
+
+      if (error) throw error;
+      return data ?? null;
+    },
+    enabled: !!trialId && !!user?.id && !isOrgAdmin,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const level: PermissionLevel | null = isOrgAdmin ? "admin" : trialLevel;
+  const can = (action: TrialAction) => hasTrialPermission(level, action);
+
+  return {
+    level,
+    can,
+
+    // Shortcuts for the most common checks
+    canViewDocuments: can("documents.view"),
+    canEditDocuments: can("documents.edit"),
+    canViewPatients: can("patients.view"),
+    canViewPatientPHI: can("patients.viewPHI"),
+    canManagePatients: can("patients.manage"),
+    canViewFinances: can("finances.view"),
+    canManageFinances: can("finances.manage"),
+    canManageTeam: can("team.manage"),
+
+    isLoading: !member || (!isOrgAdmin && isLoading),
+  };
+}
+
+/**
+ * Permission level of the current member in every trial they belong to, for
+ * screens that list several trials at once (e.g. organization financials)
+ */
+export function useTrialPermissionLevels() {
+  const { member } = useAppData();
+  const isOrgAdmin = member?.default_role === "admin";
+
+  const { data: levels = {}, isLoading } = useQuery({
+    queryKey: ["trial-permission-levels", member?.id],
+    queryFn: async (): Promise<Record<string, PermissionLevel>> => {
+      const { data, error } = await supabase
+        .from("trial_members")
+        .select("trial_id, roles(permission_level)")
+        .eq("member_id", member!.id)
+        .eq("is_active", true);
+
+      if (error) throw error;
+
+      const byTrial: Record<string, PermissionLevel[]> = {};
+      (data || []).forEach((row) => {
+        if (!row.roles?.permission_level) return;
+        (byTrial[row.trial_id] ||= []).push(row.roles.permission_level);
+      });
+
+      return Object.fromEntries(
+        Object.entries(byTrial).map(([trialId, trialLevels]) => [
+          trialId,
+          highestPermissionLevel(trialLevels)!,
+        ])
+      );
+    },
+    enabled: !!member?.id && !isOrgAdmin,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const levelFor = (trialId: string): PermissionLevel | null =>
+    isOrgAdmin ? "admin" : levels[trialId] ?? null;
+
+  return {
+    levelFor,
+    can: (trialId: string, action: TrialAction) =>
+      hasTrialPermission(levelFor(trialId), action),
+    isLoading: !member || (!isOrgAdmin && isLoading),
+  };
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  visitCalendarService,
+  CalendarVisitFilters,
+  RescheduleTarget,
+} from "@/services/visitCalendarService";
+
+export function useCalendarVisits(filters: CalendarVisitFilters) {
+  const { from, to, trialIds, doctorId, location } = filters;
+
+  const { data: visits = [], isLoading, error } = useQuery({
+    queryKey: ["calendar-visits", from, to, trialIds, doctorId, location],
+    queryFn: () =>
+      visitCalendarService.getVisits({ from, to, trialIds, doctorId, location }),
+    enabled: trialIds.length > 0,
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ["visit-locations", trialIds],
+    queryFn: () => visitCalendarService.getLocations(trialIds),
+    enabled: trialIds.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return { visits, locations, isLoading, error };
+}
+
+export function useRescheduleVisit() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      visitId,
+      target,
+    }: {
+      visitId: string;
+      target: RescheduleTarget;
+    }) => visitCalendarService.rescheduleVisit(visitId, target),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["calendar-visits"] });
+      queryClient.invalidateQueries({ queryKey: ["patient-visits"] });
+      toast({ title: "Visit rescheduled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error rescheduling visit",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  visitScheduleService,
+  VisitScheduleItemInput,
+} from "@/services/visitScheduleService";
+
+export function useVisitSchedule(trialId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedule = [], isLoading, error } = useQuery({
+    queryKey: ["visit-schedule", trialId],
+    queryFn: () => visitScheduleService.getSchedule(trialId!),
+    enabled: !!trialId,
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: (items: VisitScheduleItemInput[]) =>
+      visitScheduleService.saveSchedule(trialId!, items),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["visit-schedule", trialId], saved);
+      toast({
+        title: "Visit schedule saved",
+        description: `${saved.length} visits in the schedule of assessments.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving visit schedule",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    schedule,
+    isLoading,
+    error,
+    saveSchedule: saveScheduleMutation.mutateAsync,
+    isSaving: saveScheduleMutation.isPending,
+  };
+}
+
+/**
+ * Visits of one patient in a trial, in date order
+ */
+export function usePatientVisits(trialId?: string, patientId?: string) {
+  const { data: visits = [], isLoading } = useQuery({
+    queryKey: ["patient-visits", trialId, patientId],
+    queryFn: () => visitScheduleService.getPatientVisits(trialId!, patientId!),
+    enabled: !!trialId && !!patientId,
+  });
+
+  return { visits, isLoading };
+}
@@ -14,6 +14,392 @@ export type Database = {
   };
   public: {
     Tables: {
+      adverse_events: {
+        Row: {
+          action_taken: string;
+          awareness_at: string;
+          causality: string;
+          created_at: string;
+          ctcae_grade: number;
+          description: string | null;
+          expectedness: string;
+          id: string;
+          is_serious: boolean;
+          onset_date: string;
+          outcome: string;
+          patient_id: string;
+          regulatory_reported_at: string | null;
+          reported_by: string | null;
+          resolution_date: string | null;
+          seriousness_criteria: string[];
+          sponsor_notified_at: string | null;
+          term: string;
+          trial_id: string;
+          updated_at: string;
+          visit_id: string | null;
+        };
+        Insert: {
+          action_taken: string;
+          awareness_at?: string;
+          causality: string;
+          created_at?: string;
+          ctcae_grade: number;
+          description?: string | null;
+          expectedness?: string;
+          id?: string;
+          is_serious?: boolean;
+          onset_date: string;
+          outcome: string;
+          patient_id: string;
+          regulatory_reported_at?: string | null;
+          reported_by?: string | null;
+          resolution_date?: string | null;
+          seriousness_criteria?: string[];
+          sponsor_notified_at?: string | null;
+          term: string;
+          trial_id: string;
+          updated_at?: string;
+          visit_id?: string | null;
+        };
+        Update: {
+          action_taken?: string;
+          awareness_at?: string;
+          causality?: string;
+          created_at?: string;
+          ctcae_grade?: number;
+          description?: string | null;
+          expectedness?: string;
+          id?: string;
+          is_serious?: boolean;
+          onset_date?: string;
+          outcome?: string;
+          patient_id?: string;
+          regulatory_reported_at?: string | null;
+          reported_by?: string | null;
+          resolution_date?: string | null;
+          seriousness_criteria?: string[];
+          sponsor_notified_at?: string | null;
+          term?: string;
+          trial_id?: string;
+          updated_at?: string;
+          visit_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "adverse_events_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "adverse_events_patient_id_fkey";
+            columns: ["patient_id"];
+            isOneToOne: false;
+            referencedRelation: "patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "adverse_events_visit_id_fkey";
+            columns: ["visit_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_visits";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "adverse_events_reported_by_fkey";
+            columns: ["reported_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      assistant_eval_cases: {
+        Row: {
+          created_at: string;
+          expected_answer: string;
+          expected_pages: number[];
+          id: string;
+          qa_item_id: string | null;
+          question: string;
+          set_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expected_answer: string;
+          expected_pages?: number[];
+          id?: string;
+          qa_item_id?: string | null;
+          question: string;
+          set_id: string;
+        };
+        Update: {
+          created_at?: string;
+          expected_answer?: string;
+          expected_pages?: number[];
+          id?: string;
+          qa_item_id?: string | null;
+          question?: string;
+          set_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "assistant_eval_cases_set_id_fkey";
+            columns: ["set_id"];
+            isOneToOne: false;
+            referencedRelation: "assistant_eval_sets";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      assistant_eval_results: {
+        Row: {
+          answer: string | null;
+          answer_overlap: number | null;
+          case_id: string;
+          cited_pages: number[];
+          cost: number | null;
+          created_at: string;
+          error: string | null;
+          id: string;
+          latency_ms: number | null;
+          page_accuracy: number | null;
+          run_id: string;
+        };
+        Insert: {
+          answer?: string | null;
+          answer_overlap?: number | null;
+          case_id: string;
+          cited_pages?: number[];
+          cost?: number | null;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          latency_ms?: number | null;
+          page_accuracy?: number | null;
+          run_id: string;
+        };
+        Update: {
+          answer?: string | null;
+          answer_overlap?: number | null;
+          case_id?: string;
+          cited_pages?: number[];
+          cost?: number | null;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          latency_ms?: number | null;
+          page_accuracy?: number | null;
+          run_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "assistant_eval_results_case_id_fkey";
+            columns: ["case_id"];
+            isOneToOne: false;
+            referencedRelation: "assistant_eval_cases";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "assistant_eval_results_run_id_fkey";
+            columns: ["run_id"];
+            isOneToOne: false;
+            referencedRelation: "assistant_eval_runs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      assistant_eval_runs: {
+        Row: {
+          answer_overlap: number | null;
+          avg_latency_ms: number | null;
+          case_count: number;
+          completed_at: string | null;
+          config: Json;
+          document_id: string | null;
+          error_count: number;
+          id: string;
+          page_accuracy: number | null;
+          set_id: string;
+          started_at: string;
+          started_by: string | null;
+          status: string;
+          target_label: string;
+          total_cost: number | null;
+          trial_id: string;
+        };
+        Insert: {
+          answer_overlap?: number | null;
+          avg_latency_ms?: number | null;
+          case_count?: number;
+          completed_at?: string | null;
+          config: Json;
+          document_id?: string | null;
+          error_count?: number;
+          id?: string;
+          page_accuracy?: number | null;
+          set_id: string;
+          started_at?: string;
+          started_by?: string | null;
+          status?: string;
+          target_label: string;
+          total_cost?: number | null;
+          trial_id: string;
+        };
+        Update: {
+          answer_overlap?: number | null;
+          avg_latency_ms?: number | null;
+          case_count?: number;
+          completed_at?: string | null;
+          config?: Json;
+          document_id?: string | null;
+          error_count?: number;
+          id?: string;
+          page_accuracy?: number | null;
+          set_id?: string;
+          started_at?: string;
+          started_by?: string | null;
+          status?: string;
+          target_label?: string;
+          total_cost?: number | null;
+          trial_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "assistant_eval_runs_document_id_fkey";
+            columns: ["document_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "assistant_eval_runs_set_id_fkey";
+            columns: ["set_id"];
+            isOneToOne: false;
+            referencedRelation: "assistant_eval_sets";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "assistant_eval_runs_started_by_fkey";
+            columns: ["started_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "assistant_eval_runs_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      assistant_eval_sets: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          id: string;
+          name: string;
+          trial_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          name: string;
+          trial_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          trial_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "assistant_eval_sets_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "assistant_eval_sets_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      audit_log: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          actor_name: string | null;
+          actor_profile_id: string | null;
+          after: Json | null;
+          before: Json | null;
+          changed_fields: string[];
+          created_at: string;
+          entity_id: string;
+          entity_label: string | null;
+          entity_type: string;
+          id: string;
+          organization_id: string;
+          reason: string | null;
+          trial_id: string | null;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          actor_profile_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          changed_fields?: string[];
+          created_at?: string;
+          entity_id: string;
+          entity_label?: string | null;
+          entity_type: string;
+          id?: string;
+          organization_id: string;
+          reason?: string | null;
+          trial_id?: string | null;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          actor_profile_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          changed_fields?: string[];
+          created_at?: string;
+          entity_id?: string;
+          entity_label?: string | null;
+          entity_type?: string;
+          id?: string;
+          organization_id?: string;
+          reason?: string | null;
+          trial_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       chat_document_links: {
         Row: {
           chat_session_id: string;
@@ -153,6 +539,97 @@ export type Database = {
           }
         ];
       };
+      document_review_comments: {
+        Row: {
+          body: string;
+          created_at: string;
+          id: string;
+          review_id: string;
+        };
+        Insert: {
+          body: string;
+          created_at?: string;
+          id?: string;
+          review_id: string;
+        };
+        Update: {
+          body?: string;
+          created_at?: string;
+          id?: string;
+          review_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "document_review_comments_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "document_reviews";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      document_reviews: {
+        Row: {
+          assigned_by: string | null;
+          created_at: string;
+          decided_at: string | null;
+          decision: string;
+          document_id: string;
+          id: string;
+          reviewer_id: string;
+          trial_id: string;
+        };
+        Insert: {
+          assigned_by?: string | null;
+          created_at?: string;
+          decided_at?: string | null;
+          decision?: string;
+          document_id: string;
+          id?: string;
+          reviewer_id: string;
+          trial_id?: string;
+        };
+        Update: {
+          assigned_by?: string | null;
+          created_at?: string;
+          decided_at?: string | null;
+          decision?: string;
+          document_id?: string;
+          id?: string;
+          reviewer_id?: string;
+          trial_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "document_reviews_assigned_by_fkey";
+            columns: ["assigned_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "document_reviews_document_id_fkey";
+            columns: ["document_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "document_reviews_reviewer_id_fkey";
+            columns: ["reviewer_id"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "document_reviews_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       documents: {
         Row: {
           chunks: Json | null;
@@ -201,6 +678,93 @@ export type Database = {
         };
         Relationships: [];
       };
+      e_signatures: {
+        Row: {
+          document_hash: string | null;
+          document_name: string;
+          id: string;
+          meaning: string;
+          organization_id: string;
+          patient_document_id: string | null;
+          signed_at: string;
+          signer_email: string;
+          signer_id: string;
+          signer_name: string;
+          signer_profile_id: string;
+          statement: string;
+          trial_document_id: string | null;
+          trial_id: string | null;
+        };
+        Insert: {
+          document_hash?: string | null;
+          document_name: string;
+          id?: string;
+          meaning: string;
+          organization_id: string;
+          patient_document_id?: string | null;
+          signed_at?: string;
+          signer_email: string;
+          signer_id: string;
+          signer_name: string;
+          signer_profile_id: string;
+          statement: string;
+          trial_document_id?: string | null;
+          trial_id?: string | null;
+        };
+        Update: {
+          document_hash?: string | null;
+          document_name?: string;
+          id?: string;
+          meaning?: string;
+          organization_id?: string;
+          patient_document_id?: string | null;
+          signed_at?: string;
+          signer_email?: string;
+          signer_id?: string;
+          signer_name?: string;
+          signer_profile_id?: string;
+          statement?: string;
+          trial_document_id?: string | null;
+          trial_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "e_signatures_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "e_signatures_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "e_signatures_trial_document_id_fkey";
+            columns: ["trial_document_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "e_signatures_patient_document_id_fkey";
+            columns: ["patient_document_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "e_signatures_signer_id_fkey";
+            columns: ["signer_id"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       invitations: {
         Row: {
           accepted_at: string | null;
@@ -302,8 +866,92 @@ export type Database = {
           }
         ];
       };
+      notifications: {
+        Row: {
+          action_label: string | null;
+          action_url: string | null;
+          archived_at: string | null;
+          created_at: string;
+          id: string;
+          message: string;
+          metadata: Json;
+          organization_id: string;
+          priority: string;
+          read_at: string | null;
+          recipient_id: string;
+          sender_id: string | null;
+          title: string;
+          trial_id: string | null;
+          type: string;
+        };
+        Insert: {
+          action_label?: string | null;
+          action_url?: string | null;
+          archived_at?: string | null;
+          created_at?: string;
+          id?: string;
+          message: string;
+          metadata?: Json;
+          organization_id: string;
+          priority?: string;
+          read_at?: string | null;
+          recipient_id: string;
+          sender_id?: string | null;
+          title: string;
+          trial_id?: string | null;
+          type: string;
+        };
+        Update: {
+          action_label?: string | null;
+          action_url?: string | null;
+          archived_at?: string | null;
+          created_at?: string;
+          id?: string;
+          message?: string;
+          metadata?: Json;
+          organization_id?: string;
+          priority?: string;
+          read_at?: string | null;
+          recipient_id?: string;
+          sender_id?: string | null;
+          title?: string;
+          trial_id?: string | null;
+          type?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_recipient_id_fkey";
+            columns: ["recipient_id"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_sender_id_fkey";
+            columns: ["sender_id"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       organizations: {
         Row: {
+          ai_fallback_policy: string[];
           created_at: string | null;
           created_by: string;
           id: string;
@@ -312,6 +960,7 @@ export type Database = {
           updated_at: string | null;
         };
         Insert: {
+          ai_fallback_policy?: string[];
           created_at?: string | null;
           created_by: string;
           id?: string;
@@ -320,6 +969,7 @@ export type Database = {
           updated_at?: string | null;
         };
         Update: {
+          ai_fallback_policy?: string[];
           created_at?: string | null;
           created_by?: string;
           id?: string;
@@ -337,6 +987,68 @@ export type Database = {
           }
         ];
       };
+      patient_consents: {
+        Row: {
+          created_at: string;
+          icf_document_id: string;
+          id: string;
+          notes: string | null;
+          obtained_by: string | null;
+          patient_id: string;
+          signed_date: string;
+          trial_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          icf_document_id: string;
+          id?: string;
+          notes?: string | null;
+          obtained_by?: string | null;
+          patient_id: string;
+          signed_date: string;
+          trial_id: string;
+        };
+        Update: {
+          created_at?: string;
+          icf_document_id?: string;
+          id?: string;
+          notes?: string | null;
+          obtained_by?: string | null;
+          patient_id?: string;
+          signed_date?: string;
+          trial_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "patient_consents_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_consents_patient_id_fkey";
+            columns: ["patient_id"];
+            isOneToOne: false;
+            referencedRelation: "patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_consents_icf_document_id_fkey";
+            columns: ["icf_document_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_consents_obtained_by_fkey";
+            columns: ["obtained_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       patient_documents: {
         Row: {
           created_at: string;
@@ -406,6 +1118,245 @@ export type Database = {
           }
         ];
       };
+      patient_payments: {
+        Row: {
+          amount: number;
+          created_at: string;
+          created_by: string | null;
+          currency: string;
+          description: string;
+          id: string;
+          kind: string;
+          paid_at: string | null;
+          patient_id: string;
+          payment_reference: string | null;
+          receipt_document_id: string | null;
+          review_note: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          status: string;
+          trial_id: string;
+          updated_at: string;
+          visit_id: string | null;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string;
+          created_by?: string | null;
+          currency?: string;
+          description: string;
+          id?: string;
+          kind: string;
+          paid_at?: string | null;
+          patient_id: string;
+          payment_reference?: string | null;
+          receipt_document_id?: string | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          status?: string;
+          trial_id: string;
+          updated_at?: string;
+          visit_id?: string | null;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string;
+          created_by?: string | null;
+          currency?: string;
+          description?: string;
+          id?: string;
+          kind?: string;
+          paid_at?: string | null;
+          patient_id?: string;
+          payment_reference?: string | null;
+          receipt_document_id?: string | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          status?: string;
+          trial_id?: string;
+          updated_at?: string;
+          visit_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "patient_payments_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_payments_patient_id_fkey";
+            columns: ["patient_id"];
+            isOneToOne: false;
+            referencedRelation: "patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_payments_visit_id_fkey";
+            columns: ["visit_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_visits";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_payments_receipt_document_id_fkey";
+            columns: ["receipt_document_id"];
+            isOneToOne: false;
+            referencedRelation: "visit_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_payments_reviewed_by_fkey";
+            columns: ["reviewed_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_payments_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      patient_screening_responses: {
+        Row: {
+          answer: string;
+          criterion_id: string;
+          evidence: string | null;
+          evidence_document_id: string | null;
+          id: string;
+          recorded_at: string;
+          recorded_by: string | null;
+          screening_id: string;
+        };
+        Insert: {
+          answer: string;
+          criterion_id: string;
+          evidence?: string | null;
+          evidence_document_id?: string | null;
+          id?: string;
+          recorded_at?: string;
+          recorded_by?: string | null;
+          screening_id: string;
+        };
+        Update: {
+          answer?: string;
+          criterion_id?: string;
+          evidence?: string | null;
+          evidence_document_id?: string | null;
+          id?: string;
+          recorded_at?: string;
+          recorded_by?: string | null;
+          screening_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "patient_screening_responses_screening_id_fkey";
+            columns: ["screening_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_screenings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screening_responses_criterion_id_fkey";
+            columns: ["criterion_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_eligibility_criteria";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screening_responses_evidence_document_id_fkey";
+            columns: ["evidence_document_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screening_responses_recorded_by_fkey";
+            columns: ["recorded_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      patient_screenings: {
+        Row: {
+          completed_at: string | null;
+          completed_by: string | null;
+          created_at: string;
+          failure_reason: string | null;
+          id: string;
+          notes: string | null;
+          patient_id: string;
+          screened_by: string | null;
+          status: string;
+          trial_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          completed_at?: string | null;
+          completed_by?: string | null;
+          created_at?: string;
+          failure_reason?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id: string;
+          screened_by?: string | null;
+          status?: string;
+          trial_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          completed_at?: string | null;
+          completed_by?: string | null;
+          created_at?: string;
+          failure_reason?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id?: string;
+          screened_by?: string | null;
+          status?: string;
+          trial_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "patient_screenings_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screenings_patient_id_fkey";
+            columns: ["patient_id"];
+            isOneToOne: false;
+            referencedRelation: "patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screenings_screened_by_fkey";
+            columns: ["screened_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "patient_screenings_completed_by_fkey";
+            columns: ["completed_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       patient_visits: {
         Row: {
           cost_data: Json | null;
@@ -418,13 +1369,17 @@ export type Database = {
           next_visit_date: string | null;
           notes: string | null;
           patient_id: string;
+          schedule_item_id: string | null;
           status: Database["public"]["Enums"]["visit_status_enum"];
+          target_date: string | null;
           trial_id: string;
           updated_at: string | null;
           visit_date: string;
           visit_number: number | null;
           visit_time: string | null;
           visit_type: Database["public"]["Enums"]["visit_type_enum"];
+          window_end: string | null;
+          window_start: string | null;
         };
         Insert: {
           cost_data?: Json | null;
@@ -437,13 +1392,17 @@ export type Database = {
           next_visit_date?: string | null;
           notes?: string | null;
           patient_id: string;
+          schedule_item_id?: string | null;
           status?: Database["public"]["Enums"]["visit_status_enum"];
+          target_date?: string | null;
           trial_id: string;
           updated_at?: string | null;
           visit_date: string;
           visit_number?: number | null;
           visit_time?: string | null;
           visit_type?: Database["public"]["Enums"]["visit_type_enum"];
+          window_end?: string | null;
+          window_start?: string | null;
         };
         Update: {
           cost_data?: Json | null;
@@ -456,15 +1415,26 @@ export type Database = {
           next_visit_date?: string | null;
           notes?: string | null;
           patient_id?: string;
+          schedule_item_id?: string | null;
           status?: Database["public"]["Enums"]["visit_status_enum"];
+          target_date?: string | null;
           trial_id?: string;
           updated_at?: string | null;
           visit_date?: string;
           visit_number?: number | null;
           visit_time?: string | null;
           visit_type?: Database["public"]["Enums"]["visit_type_enum"];
+          window_end?: string | null;
+          window_start?: string | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "patient_visits_schedule_item_id_fkey";
+            columns: ["schedule_item_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_visit_schedule";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "patient_enrolled_in_trial";
             columns: ["patient_id", "trial_id"];
@@ -632,18 +1602,75 @@ export type Database = {
           email: string;
           first_name?: string | null;
           id?: string;
-          last_name?: string | null;
-          updated_at?: string | null;
+          last_name?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          email?: string;
+          first_name?: string | null;
+          id?: string;
+          last_name?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      qa_repository: {
+        Row: {
+          answer: string;
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          is_verified: boolean;
+          question: string;
+          source: string | null;
+          sources: Json | null;
+          tags: string[] | null;
+          trial_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          answer: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_verified?: boolean;
+          question: string;
+          source?: string | null;
+          sources?: Json | null;
+          tags?: string[] | null;
+          trial_id: string;
+          updated_at?: string;
         };
         Update: {
-          created_at?: string | null;
-          email?: string;
-          first_name?: string | null;
+          answer?: string;
+          created_at?: string;
+          created_by?: string | null;
           id?: string;
-          last_name?: string | null;
-          updated_at?: string | null;
+          is_verified?: boolean;
+          question?: string;
+          source?: string | null;
+          sources?: Json | null;
+          tags?: string[] | null;
+          trial_id?: string;
+          updated_at?: string;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "qa_repository_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "qa_repository_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
       };
       roles: {
         Row: {
@@ -686,6 +1713,197 @@ export type Database = {
           }
         ];
       };
+      shared_responses: {
+        Row: {
+          created_at: string;
+          delivery_results: Json;
+          id: string;
+          message: string | null;
+          prompt: string;
+          recipients: string[];
+          response: string;
+          shared_by: string | null;
+          sources: Json;
+          status: string;
+          subject: string;
+          trial_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          delivery_results?: Json;
+          id?: string;
+          message?: string | null;
+          prompt: string;
+          recipients: string[];
+          response: string;
+          shared_by?: string | null;
+          sources?: Json;
+          status?: string;
+          subject: string;
+          trial_id: string;
+        };
+        Update: {
+          created_at?: string;
+          delivery_results?: Json;
+          id?: string;
+          message?: string | null;
+          prompt?: string;
+          recipients?: string[];
+          response?: string;
+          shared_by?: string | null;
+          sources?: Json;
+          status?: string;
+          subject?: string;
+          trial_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shared_responses_shared_by_fkey";
+            columns: ["shared_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "shared_responses_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      sponsor_invoice_lines: {
+        Row: {
+          amount: number;
+          created_at: string;
+          description: string;
+          id: string;
+          invoice_id: string;
+          visit_id: string;
+        };
+        Insert: {
+          amount?: number;
+          created_at?: string;
+          description: string;
+          id?: string;
+          invoice_id: string;
+          visit_id: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string;
+          description?: string;
+          id?: string;
+          invoice_id?: string;
+          visit_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sponsor_invoice_lines_invoice_id_fkey";
+            columns: ["invoice_id"];
+            isOneToOne: false;
+            referencedRelation: "sponsor_invoices";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sponsor_invoice_lines_visit_id_fkey";
+            columns: ["visit_id"];
+            isOneToOne: true;
+            referencedRelation: "patient_visits";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      sponsor_invoices: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          currency: string;
+          document_id: string | null;
+          due_date: string;
+          id: string;
+          invoice_number: string;
+          issue_date: string;
+          notes: string | null;
+          organization_id: string;
+          paid_at: string | null;
+          sent_at: string | null;
+          sponsor: string;
+          status: string;
+          total: number;
+          trial_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          currency?: string;
+          document_id?: string | null;
+          due_date?: string;
+          id?: string;
+          invoice_number?: string;
+          issue_date?: string;
+          notes?: string | null;
+          organization_id: string;
+          paid_at?: string | null;
+          sent_at?: string | null;
+          sponsor: string;
+          status?: string;
+          total?: number;
+          trial_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          currency?: string;
+          document_id?: string | null;
+          due_date?: string;
+          id?: string;
+          invoice_number?: string;
+          issue_date?: string;
+          notes?: string | null;
+          organization_id?: string;
+          paid_at?: string | null;
+          sent_at?: string | null;
+          sponsor?: string;
+          status?: string;
+          total?: number;
+          trial_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sponsor_invoices_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sponsor_invoices_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sponsor_invoices_document_id_fkey";
+            columns: ["document_id"];
+            isOneToOne: false;
+            referencedRelation: "visit_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sponsor_invoices_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       themison_admins: {
         Row: {
           active: boolean | null;
@@ -713,6 +1931,69 @@ export type Database = {
         };
         Relationships: [];
       };
+      trial_budget_items: {
+        Row: {
+          category: string;
+          created_at: string;
+          description: string | null;
+          id: string;
+          name: string;
+          overhead_percent: number | null;
+          quantity: number;
+          schedule_item_id: string | null;
+          sort_order: number;
+          trial_id: string;
+          unit_cost: number;
+          updated_at: string;
+          visit_type: Database["public"]["Enums"]["visit_type_enum"] | null;
+        };
+        Insert: {
+          category: string;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name: string;
+          overhead_percent?: number | null;
+          quantity?: number;
+          schedule_item_id?: string | null;
+          sort_order?: number;
+          trial_id: string;
+          unit_cost?: number;
+          updated_at?: string;
+          visit_type?: Database["public"]["Enums"]["visit_type_enum"] | null;
+        };
+        Update: {
+          category?: string;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          overhead_percent?: number | null;
+          quantity?: number;
+          schedule_item_id?: string | null;
+          sort_order?: number;
+          trial_id?: string;
+          unit_cost?: number;
+          updated_at?: string;
+          visit_type?: Database["public"]["Enums"]["visit_type_enum"] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "trial_budget_items_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "trial_budget_items_schedule_item_id_fkey";
+            columns: ["schedule_item_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_visit_schedule";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       trial_documents: {
         Row: {
           amendment_number: number | null;
@@ -721,10 +2002,15 @@ export type Database = {
           document_name: string;
           document_type: Database["public"]["Enums"]["document_type_enum"];
           document_url: string;
+          effective_date: string | null;
+          expiry_date: string | null;
+          expiry_reminder: string | null;
           file_size: number | null;
           id: string;
           is_latest: boolean | null;
           mime_type: string | null;
+          next_review_date: string | null;
+          review_interval_months: number | null;
           status: string | null;
           tags: string[] | null;
           trial_id: string | null;
@@ -740,10 +2026,15 @@ export type Database = {
           document_name: string;
           document_type: Database["public"]["Enums"]["document_type_enum"];
           document_url: string;
+          effective_date?: string | null;
+          expiry_date?: string | null;
+          expiry_reminder?: string | null;
           file_size?: number | null;
           id?: string;
           is_latest?: boolean | null;
           mime_type?: string | null;
+          next_review_date?: string | null;
+          review_interval_months?: number | null;
           status?: string | null;
           tags?: string[] | null;
           trial_id?: string | null;
@@ -759,10 +2050,15 @@ export type Database = {
           document_name?: string;
           document_type?: Database["public"]["Enums"]["document_type_enum"];
           document_url?: string;
+          effective_date?: string | null;
+          expiry_date?: string | null;
+          expiry_reminder?: string | null;
           file_size?: number | null;
           id?: string;
           is_latest?: boolean | null;
           mime_type?: string | null;
+          next_review_date?: string | null;
+          review_interval_months?: number | null;
           status?: string | null;
           tags?: string[] | null;
           trial_id?: string | null;
@@ -788,6 +2084,73 @@ export type Database = {
           }
         ];
       };
+      trial_eligibility_criteria: {
+        Row: {
+          code: string;
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          is_active: boolean;
+          kind: string;
+          sort_order: number;
+          source_document_id: string | null;
+          source_page: number | null;
+          text: string;
+          trial_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_active?: boolean;
+          kind: string;
+          sort_order?: number;
+          source_document_id?: string | null;
+          source_page?: number | null;
+          text: string;
+          trial_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_active?: boolean;
+          kind?: string;
+          sort_order?: number;
+          source_document_id?: string | null;
+          source_page?: number | null;
+          text?: string;
+          trial_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "trial_eligibility_criteria_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "trial_eligibility_criteria_source_document_id_fkey";
+            columns: ["source_document_id"];
+            isOneToOne: false;
+            referencedRelation: "trial_documents";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "trial_eligibility_criteria_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       trial_members: {
         Row: {
           created_at: string | null;
@@ -966,8 +2329,62 @@ export type Database = {
           }
         ];
       };
+      trial_visit_schedule: {
+        Row: {
+          created_at: string;
+          day_offset: number;
+          duration_minutes: number | null;
+          id: string;
+          name: string;
+          procedures: string[];
+          trial_id: string;
+          updated_at: string;
+          visit_number: number;
+          visit_type: Database["public"]["Enums"]["visit_type_enum"];
+          window_after: number;
+          window_before: number;
+        };
+        Insert: {
+          created_at?: string;
+          day_offset?: number;
+          duration_minutes?: number | null;
+          id?: string;
+          name: string;
+          procedures?: string[];
+          trial_id: string;
+          updated_at?: string;
+          visit_number: number;
+          visit_type?: Database["public"]["Enums"]["visit_type_enum"];
+          window_after?: number;
+          window_before?: number;
+        };
+        Update: {
+          created_at?: string;
+          day_offset?: number;
+          duration_minutes?: number | null;
+          id?: string;
+          name?: string;
+          procedures?: string[];
+          trial_id?: string;
+          updated_at?: string;
+          visit_number?: number;
+          visit_type?: Database["public"]["Enums"]["visit_type_enum"];
+          window_after?: number;
+          window_before?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "trial_visit_schedule_trial_id_fkey";
+            columns: ["trial_id"];
+            isOneToOne: false;
+            referencedRelation: "trials";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       trials: {
         Row: {
+          budget_currency: string;
           budget_data: Json | null;
           created_at: string | null;
           created_by: string | null;
@@ -985,6 +2402,7 @@ export type Database = {
           updated_at: string | null;
         };
         Insert: {
+          budget_currency?: string;
           budget_data?: Json | null;
           created_at?: string | null;
           created_by?: string | null;
@@ -1002,6 +2420,7 @@ export type Database = {
           updated_at?: string | null;
         };
         Update: {
+          budget_currency?: string;
           budget_data?: Json | null;
           created_at?: string | null;
           created_by?: string | null;
@@ -1208,6 +2627,15 @@ export type Database = {
       };
     };
     Functions: {
+      create_sponsor_invoice: {
+        Args: {
+          trial_id_param: string;
+          lines: Json;
+          payment_terms_days?: number;
+          notes_param?: string | null;
+        };
+        Returns: Database["public"]["Tables"]["sponsor_invoices"]["Row"];
+      };
       create_trial_with_members: {
         Args: { trial_data: Json; team_assignments: Json[] };
         Returns: string;
@@ -1276,6 +2704,10 @@ export type Database = {
         Args: Record<PropertyKey, never>;
         Returns: boolean;
       };
+      make_trial_document_current: {
+        Args: { document_id_param: string };
+        Returns: Database["public"]["Tables"]["trial_documents"]["Row"];
+      };
       mock_calculate_burn_rate: {
         Args: { trial_id: string };
         Returns: number;
@@ -1288,6 +2720,22 @@ export type Database = {
         Args: { patient_id: string; trial_id: string };
         Returns: number;
       };
+      price_trial_visit: {
+        Args: { visit_id_param: string };
+        Returns: number;
+      };
+      save_visit_schedule: {
+        Args: { trial_id_param: string; items: Json };
+        Returns: Database["public"]["Tables"]["trial_visit_schedule"]["Row"][];
+      };
+      send_sponsor_invoice: {
+        Args: {
+          invoice_id_param: string;
+          document_url_param: string;
+          file_size_param?: number | null;
+        };
+        Returns: Database["public"]["Tables"]["sponsor_invoices"]["Row"];
+      };
       user_belongs_to_organization: {
         Args: Record<PropertyKey, never>;
         Returns: string;
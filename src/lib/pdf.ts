@@ -0,0 +1,364 @@
+/**
+ * Minimal PDF writer for generated text documents (invoices, reports).
+ * Lays out rows of text top to bottom on A4 pages with the standard
+ * Helvetica fonts, so no fonts or layout engine have to be bundled.
+ * The same pages can be appended to an existing PDF (signature manifests).
+ */
+
+export interface PdfTextSegment {
+  text: string;
+  // Points from the left page edge; for right aligned text, where it ends
+  x: number;
+  bold?: boolean;
+  align?: "left" | "right";
+}
+
+export interface PdfRow {
+  segments: PdfTextSegment[];
+  size?: number;
+  // Extra space above the row, in points
+  spaceBefore?: number;
+  // Horizontal rule under the row
+  rule?: boolean;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+const LINE_HEIGHT = 1.5;
+
+export const PDF_CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+export const PDF_CONTENT_LEFT = MARGIN;
+
+// Characters outside ASCII that WinAnsiEncoding can still show
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "–": 0x96,
+  "—": 0x97,
+  "•": 0x95,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+};
+
+function encodeText(text: string) {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === "(" || char === ")" || char === "\\") {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      encoded += char;
+    } else {
+      const winAnsi = WIN_ANSI[char] ?? (code >= 160 && code <= 255 ? code : 63);
+      encoded += `\\${winAnsi.toString(8).padStart(3, "0")}`;
+    }
+  }
+  return encoded;
+}
+
+// Rough Helvetica advance widths (per 1000 units), good enough to right-align
+function textWidth(text: string, size: number, bold?: boolean) {
+  const units = [...text].reduce((sum, char) => {
+    if (/[0-9$€£.,]/.test(char)) return sum + (/[.,]/.test(char) ? 278 : 556);
+    if (char === " ") return sum + 278;
+    if (/[A-Z]/.test(char)) return sum + 667;
+    return sum + 500;
+  }, 0);
+  return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+// Content streams of the pages the rows flow onto
+function layoutPages(rows: PdfRow[]): string[] {
+  const pages: string[] = [];
+  let content = "";
+  let y = PAGE_HEIGHT - MARGIN;
+
+  rows.forEach((row) => {
+    const size = row.size ?? DEFAULT_SIZE;
+    const height = size * LINE_HEIGHT + (row.spaceBefore ?? 0);
+
+    if (y - height < MARGIN) {
+      pages.push(content);
+      content = "";
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    y -= height;
+    row.segments.forEach((segment) => {
+      const x =
+        segment.align === "right"
+          ? segment.x - textWidth(segment.text, size, segment.bold)
+          : segment.x;
+      content += `BT /${segment.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(
+        2
+      )} Td (${encodeText(segment.text)}) Tj ET\n`;
+    });
+
+    if (row.rule) {
+      const ruleY = y - size * 0.4;
+      content += `0.8 G 0.5 w ${MARGIN} ${ruleY.toFixed(2)} m ${PDF_CONTENT_RIGHT} ${ruleY.toFixed(
+        2
+      )} l S 0 G\n`;
+    }
+  });
+  pages.push(content);
+
+  return pages;
+}
+
+const FONT_OBJECTS = [
+  "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+];
+
+/**
+ * Build a PDF from rows of text and return it as a Blob
+ */
+export function buildTextPdf(rows: PdfRow[]): Blob {
+  const pages = layoutPages(rows);
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, i) => `${5 + i * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    ...FONT_OBJECTS,
+  ];
+
+  pages.forEach((pageContent, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${pageContent.length} >>\nstream\n${pageContent}endstream`
+    );
+  });
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([pdf], { type: "application/pdf" });
+}
+
+// Byte-exact conversions: one char per byte, so string offsets are byte offsets
+function bytesToString(bytes: Uint8Array) {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+function stringToBytes(text: string) {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function lastMatch(text: string, pattern: RegExp) {
+  let match: RegExpExecArray | null = null;
+  for (const m of text.matchAll(pattern)) match = m;
+  return match;
+}
+
+async function inflate(data: Uint8Array) {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read-only view of an existing PDF's objects, enough to find and rewrite
+ * its page tree. Objects can sit at the top level or, since PDF 1.5, inside
+ * compressed object streams.
+ */
+class PdfObjects {
+  private compressed: Map<number, string> | null = null;
+
+  constructor(private readonly text: string) {}
+
+  private async loadObjectStreams() {
+    const objects = new Map<number, string>();
+    const headers = this.text.matchAll(/(?<!\d)\d+\s+\d+\s+obj\s*(<<(?:(?!stream)[\s\S])*?>>)\s*stream\r?\n/g);
+
+    for (const header of headers) {
+      const dict = header[1];
+      if (!/\/Type\s*\/ObjStm/.test(dict)) continue;
+      if (/\/DecodeParms/.test(dict) || (/\/Filter/.test(dict) && !/\/Filter\s*\/FlateDecode/.test(dict))) {
+        throw new Error("Unsupported object stream encoding");
+      }
+
+      const start = header.index! + header[0].length;
+      const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      const end = length ? start + Number(length[1]) : this.text.indexOf("endstream", start);
+      let data = stringToBytes(this.text.slice(start, end));
+      if (/\/Filter/.test(dict)) data = await inflate(data);
+
+      const decoded = bytesToString(data);
+      const first = Number(dict.match(/\/First\s+(\d+)/)?.[1]);
+      const count = Number(dict.match(/\/N\s+(\d+)/)?.[1]);
+      const index = decoded.slice(0, first).trim().split(/\s+/).map(Number);
+
+      for (let i = 0; i < count; i++) {
+        const from = first + index[i * 2 + 1];
+        const to = i + 1 < count ? first + index[i * 2 + 3] : decoded.length;
+        objects.set(index[i * 2], decoded.slice(from, to).trim());
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * Body of the latest definition of an object, with its generation
+   */
+  async get(num: number): Promise<{ body: string; gen: number }> {
+    const match = lastMatch(this.text, new RegExp(`(?<!\\d)${num}\\s+(\\d+)\\s+obj\\b`, "g"));
+    if (match) {
+      const start = match.index! + match[0].length;
+      return {
+        body: this.text.slice(start, this.text.indexOf("endobj", start)).trim(),
+        gen: Number(match[1]),
+      };
+    }
+
+    this.compressed ??= await this.loadObjectStreams();
+    const body = this.compressed.get(num);
+    if (body === undefined) throw new Error(`PDF object ${num} not found`);
+    return { body, gen: 0 };
+  }
+
+  /**
+   * First free object number after everything defined so far
+   */
+  nextObjectNumber() {
+    const sizes = [...this.text.matchAll(/\/Size\s+(\d+)/g)].map((m) => Number(m[1]));
+    const numbers = [...this.text.matchAll(/(?<!\d)(\d+)\s+\d+\s+obj\b/g)].map((m) => Number(m[1]) + 1);
+    return Math.max(1, ...sizes, ...numbers);
+  }
+}
+
+/**
+ * Append pages of text to an existing PDF as an incremental update: the
+ * original bytes are kept as they are and the new pages, the updated page
+ * tree root and a new cross-reference section are written after them.
+ * Throws when the file can't be extended this way (e.g. it is encrypted).
+ */
+export async function appendTextPages(original: ArrayBuffer, rows: PdfRow[]): Promise<Blob> {
+  const bytes = new Uint8Array(original);
+  const text = bytesToString(bytes);
+
+  if (!text.startsWith("%PDF-")) throw new Error("Not a PDF file");
+  if (/\/Encrypt\s/.test(text)) throw new Error("Encrypted PDFs can't be extended");
+
+  const prevXref = Number(lastMatch(text, /startxref\s+(\d+)/g)?.[1]);
+  const root = lastMatch(text, /\/Root\s+(\d+)\s+(\d+)\s+R/g);
+  if (!prevXref || !root) throw new Error("PDF trailer not found");
+
+  const objects = new PdfObjects(text);
+  const catalog = await objects.get(Number(root[1]));
+  const pagesRef = catalog.body.match(/\/Pages\s+(\d+)\s+(\d+)\s+R/);
+  if (!pagesRef) throw new Error("PDF page tree not found");
+
+  const pagesNum = Number(pagesRef[1]);
+  const pagesRoot = await objects.get(pagesNum);
+  const kids = pagesRoot.body.match(/\/Kids\s*\[([^\]]*)\]/);
+  const count = pagesRoot.body.match(/\/Count\s+(\d+)/);
+  if (!kids || !count) throw new Error("Unsupported PDF page tree");
+
+  const contents = layoutPages(rows);
+  const firstNum = objects.nextObjectNumber();
+  const fontRefs = [firstNum, firstNum + 1];
+  const pageRefs = contents.map((_, i) => firstNum + 2 + i * 2);
+
+  // Updated page tree root first, then the fonts and each new page with its content
+  const updates: { num: number; gen: number; body: string }[] = [
+    {
+      num: pagesNum,
+      gen: pagesRoot.gen,
+      body: pagesRoot.body
+        .replace(kids[0], `/Kids [${kids[1].trim()} ${pageRefs.map((n) => `${n} 0 R`).join(" ")}]`)
+        .replace(count[0], `/Count ${Number(count[1]) + contents.length}`),
+    },
+    ...FONT_OBJECTS.map((body, i) => ({ num: fontRefs[i], gen: 0, body })),
+  ];
+  contents.forEach((content, i) => {
+    updates.push({
+      num: pageRefs[i],
+      gen: 0,
+      body:
+        `<< /Type /Page /Parent ${pagesNum} ${pagesRoot.gen} R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Rotate 0 ` +
+        `/Resources << /Font << /F1 ${fontRefs[0]} 0 R /F2 ${fontRefs[1]} 0 R >> >> /Contents ${pageRefs[i] + 1} 0 R >>`,
+    });
+    updates.push({
+      num: pageRefs[i] + 1,
+      gen: 0,
+      body: `<< /Length ${content.length} >>\nstream\n${content}endstream`,
+    });
+  });
+
+  let appended = text.endsWith("\n") ? "" : "\n";
+  const offsets = new Map<number, number>();
+  updates.forEach((update) => {
+    offsets.set(update.num, bytes.length + appended.length);
+    appended += `${update.num} ${update.gen} obj\n${update.body}\nendobj\n`;
+  });
+
+  const info = lastMatch(text, /\/Info\s+\d+\s+\d+\s+R/g)?.[0];
+  const id = lastMatch(text, /\/ID\s*\[\s*<[0-9a-fA-F]*>\s*<[0-9a-fA-F]*>\s*\]/g)?.[0];
+  const trailerEntries = `/Root ${root[1]} ${root[2]} R /Prev ${prevXref}${info ? ` ${info}` : ""}${id ? ` ${id}` : ""}`;
+  const lastNum = pageRefs[pageRefs.length - 1] + 1;
+  const xrefOffset = bytes.length + appended.length;
+
+  // Follow the original's cross-reference style: a table, or a stream since PDF 1.5
+  if (/^\s*\d+\s+\d+\s+obj/.test(text.slice(prevXref, prevXref + 32))) {
+    const xrefNum = lastNum + 1;
+    offsets.set(xrefNum, xrefOffset);
+    const entry = (num: number) => {
+      const offset = offsets.get(num)!;
+      const gen = num === pagesNum ? pagesRoot.gen : 0;
+      return String.fromCharCode(
+        1,
+        (offset >>> 24) & 0xff,
+        (offset >>> 16) & 0xff,
+        (offset >>> 8) & 0xff,
+        offset & 0xff,
+        (gen >>> 8) & 0xff,
+        gen & 0xff
+      );
+    };
+    let data = entry(pagesNum);
+    for (let num = firstNum; num <= xrefNum; num++) data += entry(num);
+
+    appended +=
+      `${xrefNum} 0 obj\n<< /Type /XRef /Size ${xrefNum + 1} /W [1 4 2] ` +
+      `/Index [${pagesNum} 1 ${firstNum} ${xrefNum - firstNum + 1}] ${trailerEntries} /Length ${data.length} >>\n` +
+      `stream\n${data}\nendstream\nendobj\n`;
+  } else {
+    const entry = (num: number) =>
+      `${String(offsets.get(num)).padStart(10, "0")} ${String(
+        num === pagesNum ? pagesRoot.gen : 0
+      ).padStart(5, "0")} n \n`;
+    appended += `xref\n${pagesNum} 1\n${entry(pagesNum)}${firstNum} ${lastNum - firstNum + 1}\n`;
+    for (let num = firstNum; num <= lastNum; num++) appended += entry(num);
+    appended += `trailer\n<< /Size ${lastNum + 1} ${trailerEntries} >>\n`;
+  }
+
+  appended += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([bytes, stringToBytes(appended)], { type: "application/pdf" });
+}
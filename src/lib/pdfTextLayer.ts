@@ -0,0 +1,54 @@
+/**
+ * Text of a PDF page as PDF.js lays out its text layer: the text items in
+ * content order, with a line break after each item that ends a line. Character
+ * offsets into this text (citation ranges) mean the same thing wherever the
+ * page is extracted or rendered.
+ */
+
+export interface TextLayerItem {
+  str: string;
+  hasEOL?: boolean;
+}
+
+// Half-open character range [start, end) in a page's text layer
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextLayer {
+  text: string;
+  // Offset of each item's first character in `text`
+  itemOffsets: number[];
+}
+
+export function buildTextLayer(items: TextLayerItem[]): TextLayer {
+  let text = "";
+  const itemOffsets: number[] = [];
+
+  for (const item of items) {
+    itemOffsets.push(text.length);
+    text += item.str;
+    if (item.hasEOL) text += "\n";
+  }
+
+  return { text, itemOffsets };
+}
+
+/**
+ * The part of one item that falls inside a range, as offsets into the item's
+ * own string, or null when the item is outside the range
+ */
+export function getItemRange(
+  layer: TextLayer,
+  itemIndex: number,
+  itemLength: number,
+  range: TextRange
+): TextRange | null {
+  const itemStart = layer.itemOffsets[itemIndex];
+  if (itemStart === undefined) return null;
+
+  const start = Math.max(range.start, itemStart) - itemStart;
+  const end = Math.min(range.end, itemStart + itemLength) - itemStart;
+  return start < end ? { start, end } : null;
+}
@@ -0,0 +1,57 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type PermissionLevel = Database["public"]["Enums"]["permission_level"];
+
+/**
+ * Everything that can be done inside a trial. The level a member gets in a
+ * trial comes from the permission_level of their custom role on that trial
+ * (trial_members.role_id → roles.permission_level).
+ */
+export type TrialAction =
+  | "documents.view"
+  | "documents.edit"
+  | "patients.view"
+  | "patients.viewPHI"
+  | "patients.manage"
+  | "finances.view"
+  | "finances.manage"
+  | "team.manage";
+
+const LEVEL_RANK: Record<PermissionLevel, number> = {
+  read: 1,
+  edit: 2,
+  admin: 3,
+};
+
+// Minimum permission level needed for each action
+export const TRIAL_ACTION_LEVELS: Record<TrialAction, PermissionLevel> = {
+  "documents.view": "read",
+  "documents.edit": "edit",
+  "patients.view": "read",
+  "patients.viewPHI": "edit",
+  "patients.manage": "edit",
+  "finances.view": "edit",
+  "finances.manage": "admin",
+  "team.manage": "admin",
+};
+
+export function hasTrialPermission(
+  level: PermissionLevel | null | undefined,
+  action: TrialAction
+): boolean {
+  if (!level) return false;
+  return LEVEL_RANK[level] >= LEVEL_RANK[TRIAL_ACTION_LEVELS[action]];
+}
+
+/**
+ * Highest of several levels, e.g. when a member holds more than one role in a trial
+ */
+export function highestPermissionLevel(
+  levels: (PermissionLevel | null | undefined)[]
+): PermissionLevel | null {
+  return levels.reduce<PermissionLevel | null>((best, level) => {
+    if (!level) return best;
+    if (!best || LEVEL_RANK[level] > LEVEL_RANK[best]) return level;
+    return best;
+  }, null);
+}
@@ -12,16 +12,17 @@ import { ChatPDFFallbackProvider } from "@/components/documents/ChatPDFFallbackP
 import { MessageSquare } from "lucide-react";
 import type { BreadcrumbItem } from "@/components/ui/breadcrumb";
 import { TrialDropdownBreadcrumb } from "@/components/common/breadcrumbs/TrialDropdownBreadcrumb";
-import { DocumentRag } from "@/components/documents/DocumentRag";
-import { DocumentRagBioBERT } from "@/components/documents/DocumentRagBioBERT";
+import { AssistantCompare } from "@/components/documents/AssistantCompare";
+import { AssistantEvals } from "@/components/documents/AssistantEvals";
+import { ASSISTANT_PRESETS, isAssistantPreset } from "@/services/documentAssistantEngine";
 
 const tabNames: Record<string, string> = {
-  "document-ai": "Document AI",
   "active-documents": "Active Documents",
   "qa-repository": "QA Repository",
   "select-trial": "Select Trial",
-  "rag": "RAG",
-  "rag-biobert": "RAG-BioBERT",
+  "compare": "Compare Strategies",
+  "evaluation": "Evaluation",
+  ...Object.fromEntries(ASSISTANT_PRESETS.map((preset) => [preset.id, preset.label])),
 };
 
 export default function DocumentAssistantPage() {
@@ -148,17 +149,20 @@ function DocumentAssistantContent({
   };
   currentTab: string;
 }) {
+  // Every assistant preset is the same chat, started with a different configuration
+  if (isAssistantPreset(currentTab)) {
+    return <DocumentAI key={currentTab} trial={trial} preset={currentTab} />;
+  }
+
   switch (currentTab) {
-    case "document-ai":
-      return <DocumentAI trial={trial} />;
     case "active-documents":
       return <ActiveDocuments trial={trial} />;
     case "qa-repository":
       return <QARepository trial={trial} />;
-    case "rag":
-      return <DocumentRag trial={trial} />;
-    case "rag-biobert":
-      return <DocumentRagBioBERT trial={trial} />;
+    case "compare":
+      return <AssistantCompare trial={trial} />;
+    case "evaluation":
+      return <AssistantEvals trial={trial} />;
     default:
       return <ActiveDocuments trial={trial} />;
   }
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
 import { AppLayout } from "@/components/layout/AppLayout";
 import {
   Card,
@@ -33,6 +35,9 @@ import {
   Heart,
   Activity,
   Home,
+  Archive,
+  ArchiveRestore,
+  Loader2,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -40,141 +45,56 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "../components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
 import { toast } from "sonner";
 import type { BreadcrumbItem } from "@/components/ui/breadcrumb";
+import { useNotifications } from "@/hooks/useNotifications";
+import type {
+  NotificationPriority,
+  NotificationRow,
+  NotificationType,
+} from "@/services/notificationService";
 
 interface Notification {
   id: string;
-  type:
-    | "trial_update"
-    | "patient_alert"
-    | "team_invite"
-    | "system"
-    | "reminder"
-    | "approval"
-    | "milestone";
+  type: NotificationType;
   title: string;
   message: string;
   timestamp: string;
   read: boolean;
-  priority: "low" | "medium" | "high" | "urgent";
+  archived: boolean;
+  priority: NotificationPriority;
   actionUrl?: string;
   actionLabel?: string;
   avatar?: string;
   sender?: string;
   metadata?: {
     patientId?: string;
+    patientCode?: string;
     trialName?: string;
     documentType?: string;
   };
 }
 
-const mockNotifications: Notification[] = [
-  {
-    id: "1",
-    type: "patient_alert",
-    title: "Patient Adverse Event Reported",
-    message:
-      "Patient P-003 in Diabetes trial has reported a Grade 2 adverse event. Immediate review required within 24 hours.",
-    timestamp: "5 minutes ago",
-    read: false,
-    priority: "urgent",
-    actionUrl: "/trials/diabetes/patients/P-003",
-    actionLabel: "Review Patient",
-    metadata: {
-      patientId: "P-003",
-      trialName: "Diabetes Phase I",
-    },
-  },
-  {
-    id: "2",
-    type: "team_invite",
-    title: "Team Invitation Received",
-    message:
-      "Dr. Michael Pavlou has invited you to join the Arthritis Phase II trial as Clinical Research Coordinator.",
-    timestamp: "2 hours ago",
-    read: false,
-    priority: "high",
-    sender: "Dr. Michael Pavlou",
-    avatar: "MP",
-    actionLabel: "Accept Invite",
-    metadata: {
-      trialName: "Arthritis Phase II",
-    },
-  },
-  {
-    id: "3",
-    type: "approval",
-    title: "Document Approval Required",
-    message:
-      "Protocol amendment for Opera trial requires your approval. Review deadline: January 15, 2025.",
-    timestamp: "3 hours ago",
-    read: false,
-    priority: "high",
-    actionUrl: "/trials/opera/documents",
-    actionLabel: "Review & Approve",
-    metadata: {
-      trialName: "Opera Phase II",
-      documentType: "Protocol Amendment",
-    },
-  },
-  {
-    id: "4",
-    type: "trial_update",
-    title: "Patient Enrollment Update",
-    message:
-      "Obesity Phase I trial has successfully enrolled 3 new patients this week. Total: 15/20 patients enrolled.",
-    timestamp: "4 hours ago",
-    read: false,
-    priority: "medium",
-    actionUrl: "/trials/obesity",
-    actionLabel: "View Progress",
-    metadata: {
-      trialName: "Obesity Phase I",
-    },
-  },
-  {
-    id: "5",
-    type: "milestone",
-    title: "Trial Milestone Achieved! 🎉",
-    message:
-      "Congratulations! The Diabetes trial has reached 75% enrollment milestone (15/20 patients). Excellent progress!",
-    timestamp: "1 day ago",
-    read: true,
-    priority: "medium",
-    actionUrl: "/trials/diabetes",
-    actionLabel: "View Celebration",
-    metadata: {
-      trialName: "Diabetes Phase I",
-    },
-  },
-  {
-    id: "6",
-    type: "reminder",
-    title: "Upcoming Visit Scheduled",
-    message:
-      "Patient P-001 has a screening visit scheduled for tomorrow at 10:00 AM. Please prepare required documentation.",
-    timestamp: "1 day ago",
-    read: true,
-    priority: "medium",
-    actionUrl: "/trials/diabetes/patients/P-001/visits",
-    actionLabel: "Prepare Visit",
-    metadata: {
-      patientId: "P-001",
-      trialName: "Diabetes Phase I",
-    },
-  },
-  {
-    id: "7",
-    type: "system",
-    title: "System Maintenance Notice",
-    message:
-      "Scheduled system maintenance on January 20-21. Some features may be temporarily unavailable during this time.",
-    timestamp: "2 days ago",
-    read: true,
-    priority: "low",
-  },
-];
+const toNotification = (row: NotificationRow): Notification => ({
+  id: row.id,
+  type: row.type as NotificationType,
+  title: row.title,
+  message: row.message,
+  timestamp: row.created_at,
+  read: !!row.read_at,
+  archived: !!row.archived_at,
+  priority: row.priority as NotificationPriority,
+  actionUrl: row.action_url ?? undefined,
+  actionLabel: row.action_label ?? undefined,
+  metadata: (row.metadata ?? undefined) as Notification["metadata"],
+});
 
 const notificationIcons = {
   trial_update: Activity,
@@ -215,8 +135,11 @@ const iconBackgroundColors = {
 };
 
 export function Notifications() {
-  const [notifications, setNotifications] = useState(mockNotifications);
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState("all");
+  const [priorityFilter, setPriorityFilter] = useState<
+    NotificationPriority | "all"
+  >("all");
   const [notificationSettings, setNotificationSettings] = useState({
     desktop: true,
     email: true,
@@ -240,37 +163,83 @@ export function Notifications() {
     },
   ];
 
-  const unreadCount = notifications.filter((n) => !n.read).length;
-  const urgentCount = notifications.filter(
-    (n) => n.priority === "urgent" && !n.read
-  ).length;
+  const {
+    notifications: notificationRows,
+    isLoading,
+    totalCount,
+    unreadCount,
+    urgentCount,
+    archivedCount,
+    markAsRead: markNotificationAsRead,
+    markAllAsRead: markAllNotificationsAsRead,
+    archive,
+    unarchive,
+    deleteNotification: removeNotification,
+  } = useNotifications({
+    status:
+      activeTab === "unread" || activeTab === "archived" ? activeTab : "all",
+    priority:
+      activeTab === "urgent"
+        ? "urgent"
+        : priorityFilter === "all"
+        ? undefined
+        : priorityFilter,
+    type:
+      activeTab === "patient_alert" || activeTab === "team_invite"
+        ? activeTab
+        : undefined,
+  });
 
-  const markAsRead = (id: string) => {
-    setNotifications((prev) =>
-      prev.map((n) => (n.id === id ? { ...n, read: true } : n))
-    );
-    toast.success("Notification marked as read");
+  const filteredNotifications = notificationRows.map(toNotification);
+
+  const markAsRead = async (id: string) => {
+    try {
+      await markNotificationAsRead(id);
+      toast.success("Notification marked as read");
+    } catch {
+      toast.error("Failed to update notification");
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
-    toast.success("All notifications marked as read");
+  const markAllAsRead = async () => {
+    try {
+      await markAllNotificationsAsRead();
+      toast.success("All notifications marked as read");
+    } catch {
+      toast.error("Failed to update notifications");
+    }
   };
 
-  const deleteNotification = (id: string) => {
-    setNotifications((prev) => prev.filter((n) => n.id !== id));
-    toast.success("Notification deleted");
+  const toggleArchived = async (notification: Notification) => {
+    try {
+      if (notification.archived) {
+        await unarchive(notification.id);
+        toast.success("Notification restored");
+      } else {
+        await archive(notification.id);
+        toast.success("Notification archived");
+      }
+    } catch {
+      toast.error("Failed to update notification");
+    }
   };
 
-  const filteredNotifications = notifications.filter((notification) => {
-    if (activeTab === "all") return true;
-    if (activeTab === "unread") return !notification.read;
-    if (activeTab === "urgent") return notification.priority === "urgent";
-    return notification.type === activeTab;
-  });
+  const deleteNotification = async (id: string) => {
+    try {
+      await removeNotification(id);
+      toast.success("Notification deleted");
+    } catch {
+      toast.error("Failed to delete notification");
+    }
+  };
+
+  const handleAction = (notification: Notification) => {
+    if (!notification.read) markNotificationAsRead(notification.id);
+    if (notification.actionUrl) navigate(notification.actionUrl);
+  };
 
   const getRelativeTime = (timestamp: string) => {
-    return timestamp;
+    return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
   };
 
   const renderNotificationItem = (notification: Notification) => {
@@ -353,10 +322,12 @@ export function Notifications() {
                           {notification.metadata.trialName}
                         </div>
                       )}
-                      {notification.metadata.patientId && (
+                      {(notification.metadata.patientCode ||
+                        notification.metadata.patientId) && (
                         <div className="flex items-center gap-1">
                           <Users className="h-3 w-3" />
-                          {notification.metadata.patientId}
+                          {notification.metadata.patientCode ||
+                            notification.metadata.patientId}
                         </div>
                       )}
                     </div>
@@ -368,7 +339,12 @@ export function Notifications() {
                       {getRelativeTime(notification.timestamp)}
                     </span>
                     {notification.actionLabel && (
-                      <Button variant="outline" size="sm" className="h-7">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleAction(notification)}
+                      >
                         {notification.actionLabel}
                       </Button>
                     )}
@@ -395,6 +371,16 @@ export function Notifications() {
                         Mark as read
                       </DropdownMenuItem>
                     )}
+                    <DropdownMenuItem
+                      onClick={() => toggleArchived(notification)}
+                    >
+                      {notification.archived ? (
+                        <ArchiveRestore className="h-4 w-4 mr-2" />
+                      ) : (
+                        <Archive className="h-4 w-4 mr-2" />
+                      )}
+                      {notification.archived ? "Restore" : "Archive"}
+                    </DropdownMenuItem>
                     <DropdownMenuItem
                       onClick={() => deleteNotification(notification.id)}
                       className="text-destructive focus:text-destructive"
@@ -592,54 +578,89 @@ export function Notifications() {
                 onValueChange={setActiveTab}
                 className="space-y-6"
               >
-                <TabsList className="grid w-full grid-cols-5 bg-muted/50 p-1 rounded-xl">
-                  <TabsTrigger
-                    value="all"
-                    className="flex items-center gap-2 data-[state=active]:bg-background"
-                  >
-                    All
-                    <Badge variant="secondary" className="ml-1 text-xs">
-                      {notifications.length}
-                    </Badge>
-                  </TabsTrigger>
-                  <TabsTrigger
-                    value="unread"
-                    className="flex items-center gap-2 data-[state=active]:bg-background"
-                  >
-                    Unread
-                    {unreadCount > 0 && (
-                      <Badge variant="default" className="ml-1 text-xs">
-                        {unreadCount}
-                      </Badge>
-                    )}
-                  </TabsTrigger>
-                  <TabsTrigger
-                    value="urgent"
-                    className="flex items-center gap-2 data-[state=active]:bg-background"
-                  >
-                    Urgent
-                    {urgentCount > 0 && (
-                      <Badge variant="destructive" className="ml-1 text-xs">
-                        {urgentCount}
+                <div className="flex items-center gap-3">
+                  <TabsList className="grid flex-1 grid-cols-6 bg-muted/50 p-1 rounded-xl">
+                    <TabsTrigger
+                      value="all"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      All
+                      <Badge variant="secondary" className="ml-1 text-xs">
+                        {totalCount}
                       </Badge>
-                    )}
-                  </TabsTrigger>
-                  <TabsTrigger
-                    value="patient_alert"
-                    className="flex items-center gap-2 data-[state=active]:bg-background"
-                  >
-                    Alerts
-                  </TabsTrigger>
-                  <TabsTrigger
-                    value="team_invite"
-                    className="flex items-center gap-2 data-[state=active]:bg-background"
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="unread"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      Unread
+                      {unreadCount > 0 && (
+                        <Badge variant="default" className="ml-1 text-xs">
+                          {unreadCount}
+                        </Badge>
+                      )}
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="urgent"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      Urgent
+                      {urgentCount > 0 && (
+                        <Badge variant="destructive" className="ml-1 text-xs">
+                          {urgentCount}
+                        </Badge>
+                      )}
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="patient_alert"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      Alerts
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="team_invite"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      Invites
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="archived"
+                      className="flex items-center gap-2 data-[state=active]:bg-background"
+                    >
+                      Archived
+                      {archivedCount > 0 && (
+                        <Badge variant="secondary" className="ml-1 text-xs">
+                          {archivedCount}
+                        </Badge>
+                      )}
+                    </TabsTrigger>
+                  </TabsList>
+                  <Select
+                    value={priorityFilter}
+                    onValueChange={(value) =>
+                      setPriorityFilter(value as NotificationPriority | "all")
+                    }
+                    disabled={activeTab === "urgent"}
                   >
-                    Invites
-                  </TabsTrigger>
-                </TabsList>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Priority" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All priorities</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
                 <TabsContent value={activeTab} className="space-y-4">
-                  {filteredNotifications.length === 0 ? (
+                  {isLoading ? (
+                    <div className="flex justify-center p-12">
+                      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : filteredNotifications.length === 0 ? (
                     <Card className="shadow-sm">
                       <CardContent className="p-12 text-center">
                         <div className="p-4 bg-muted/50 rounded-full w-fit mx-auto mb-4">
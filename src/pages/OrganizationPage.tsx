@@ -26,6 +26,10 @@ const tabs = [
     id: "financials",
     name: "Financials",
   },
+  {
+    id: "audit",
+    name: "Audit Trail",
+  },
   {
     id: "settings",
     name: "Settings",
@@ -13,6 +13,10 @@ const tabNames = {
   "document-hub": "Document Hub",
   team: "Team",
   patients: "Patients",
+  screening: "Screening",
+  visits: "Visits",
+  safety: "Safety",
+  budget: "Budget",
 };
 
 export default function TrialDetailPage() {
@@ -22,7 +26,15 @@ export default function TrialDetailPage() {
   const trials = metrics?.trials || [];
 
   const currentTab =
-    (tab as "overview" | "document-hub" | "team" | "patients") || "overview";
+    (tab as
+      | "overview"
+      | "document-hub"
+      | "team"
+      | "patients"
+      | "screening"
+      | "visits"
+      | "safety"
+      | "budget") || "overview";
 
   // Validate trial exists and user has access
   const selectedTrial = trials.find((t) => t.id === trialId);
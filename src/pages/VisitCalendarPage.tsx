@@ -0,0 +1,21 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { VisitCalendar } from "@/components/visits/VisitCalendar";
+import { CalendarDays } from "lucide-react";
+import type { BreadcrumbItem } from "@/components/ui/breadcrumb";
+
+export function VisitCalendarPage() {
+  const breadcrumbItems: BreadcrumbItem[] = [
+    {
+      label: "Visit Calendar",
+      href: "/visits",
+      icon: CalendarDays,
+      isActive: true,
+    },
+  ];
+
+  return (
+    <AppLayout title="Visit Calendar" breadcrumbItems={breadcrumbItems}>
+      <VisitCalendar />
+    </AppLayout>
+  );
+}
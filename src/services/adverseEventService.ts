@@ -0,0 +1,364 @@
+import { addDays, addHours, differenceInMinutes, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { notificationService } from "./notificationService";
+
+export type AdverseEventRow = Database["public"]["Tables"]["adverse_events"]["Row"];
+export type AdverseEventInsert = Database["public"]["Tables"]["adverse_events"]["Insert"];
+
+export type CtcaeGrade = 1 | 2 | 3 | 4 | 5;
+export type SeriousnessCriterion =
+  | "death"
+  | "life_threatening"
+  | "hospitalization"
+  | "disability"
+  | "congenital_anomaly"
+  | "medically_important";
+export type Causality = "not_related" | "unlikely" | "possible" | "probable" | "definite";
+export type Expectedness = "expected" | "unexpected";
+export type ActionTaken =
+  | "none"
+  | "dose_reduced"
+  | "dose_interrupted"
+  | "drug_withdrawn"
+  | "not_applicable";
+export type AdverseEventOutcome =
+  | "recovered"
+  | "recovering"
+  | "not_recovered"
+  | "recovered_with_sequelae"
+  | "fatal"
+  | "unknown";
+
+export const CTCAE_GRADE_LABELS: Record<CtcaeGrade, string> = {
+  1: "Grade 1 · Mild",
+  2: "Grade 2 · Moderate",
+  3: "Grade 3 · Severe",
+  4: "Grade 4 · Life-threatening",
+  5: "Grade 5 · Death",
+};
+
+export const SERIOUSNESS_LABELS: Record<SeriousnessCriterion, string> = {
+  death: "Resulted in death",
+  life_threatening: "Life-threatening",
+  hospitalization: "Hospitalization (initial or prolonged)",
+  disability: "Persistent or significant disability",
+  congenital_anomaly: "Congenital anomaly / birth defect",
+  medically_important: "Other medically important event",
+};
+
+export const CAUSALITY_LABELS: Record<Causality, string> = {
+  not_related: "Not related",
+  unlikely: "Unlikely related",
+  possible: "Possibly related",
+  probable: "Probably related",
+  definite: "Definitely related",
+};
+
+export const EXPECTEDNESS_LABELS: Record<Expectedness, string> = {
+  expected: "Expected",
+  unexpected: "Unexpected",
+};
+
+export const ACTION_TAKEN_LABELS: Record<ActionTaken, string> = {
+  none: "Dose not changed",
+  dose_reduced: "Dose reduced",
+  dose_interrupted: "Drug interrupted",
+  drug_withdrawn: "Drug withdrawn",
+  not_applicable: "Not applicable",
+};
+
+export const OUTCOME_LABELS: Record<AdverseEventOutcome, string> = {
+  recovered: "Recovered / resolved",
+  recovering: "Recovering / resolving",
+  not_recovered: "Not recovered / not resolved",
+  recovered_with_sequelae: "Recovered with sequelae",
+  fatal: "Fatal",
+  unknown: "Unknown",
+};
+
+export interface AdverseEvent extends AdverseEventRow {
+  patients: { patient_code: string } | null;
+  reported_by_member: { name: string } | null;
+}
+
+export type DeadlineKind = "sponsor_24h" | "regulatory_7d" | "regulatory_15d";
+
+export interface ReportingDeadline {
+  kind: DeadlineKind;
+  label: string;
+  dueAt: Date;
+  submittedAt: Date | null;
+  // Minutes left, negative when overdue; null once submitted
+  minutesLeft: number | null;
+  status: "pending" | "overdue" | "submitted" | "submitted_late";
+}
+
+const RELATED_CAUSALITIES: Causality[] = ["possible", "probable", "definite"];
+
+/**
+ * Serious, unexpected and at least possibly related
+ */
+export function isSusar(
+  event: Pick<AdverseEventRow, "is_serious" | "expectedness" | "causality">
+): boolean {
+  return (
+    event.is_serious &&
+    event.expectedness === "unexpected" &&
+    RELATED_CAUSALITIES.includes(event.causality as Causality)
+  );
+}
+
+/**
+ * Reporting deadlines of an event: 24 hours to notify the sponsor of any SAE,
+ * plus the expedited regulatory report for SUSARs (7 days when fatal or
+ * life-threatening by criteria, grade or outcome, 15 days otherwise). Non-serious events have none.
+ */
+export function getReportingDeadlines(
+  event: Pick<
+    AdverseEventRow,
+    | "is_serious"
+    | "expectedness"
+    | "causality"
+    | "seriousness_criteria"
+    | "ctcae_grade"
+    | "outcome"
+    | "awareness_at"
+    | "sponsor_notified_at"
+    | "regulatory_reported_at"
+  >,
+  now: Date = new Date()
+): ReportingDeadline[] {
+  if (!event.is_serious) return [];
+
+  const awareness = parseISO(event.awareness_at);
+
+  const build = (
+    kind: DeadlineKind,
+    label: string,
+    dueAt: Date,
+    submitted: string | null
+  ): ReportingDeadline => {
+    const submittedAt = submitted ? parseISO(submitted) : null;
+    const minutesLeft = submittedAt ? null : differenceInMinutes(dueAt, now);
+
+    return {
+      kind,
+      label,
+      dueAt,
+      submittedAt,
+      minutesLeft,
+      status: submittedAt
+        ? submittedAt > dueAt
+          ? "submitted_late"
+          : "submitted"
+        : minutesLeft! < 0
+          ? "overdue"
+          : "pending",
+    };
+  };
+
+  const deadlines = [
+    build("sponsor_24h", "Sponsor notification (24h)", addHours(awareness, 24), event.sponsor_notified_at),
+  ];
+
+  if (isSusar(event)) {
+    // CTCAE grade 4 is life-threatening and grade 5 is death
+    const isFatalOrLifeThreatening =
+      event.ctcae_grade >= 4 ||
+      event.outcome === "fatal" ||
+      event.seriousness_criteria.some(
+        (criterion) => criterion === "death" || criterion === "life_threatening"
+      );
+    deadlines.push(
+      isFatalOrLifeThreatening
+        ? build("regulatory_7d", "Expedited report (7 days)", addDays(awareness, 7), event.regulatory_reported_at)
+        : build("regulatory_15d", "Expedited report (15 days)", addDays(awareness, 15), event.regulatory_reported_at)
+    );
+  }
+
+  return deadlines;
+}
+
+/**
+ * "5h 12m", "3d 4h"
+ */
+export function formatDuration(minutes: number): string {
+  const total = Math.abs(minutes);
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const mins = total % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+class AdverseEventService {
+  private readonly SELECT = `
+    *,
+    patients!adverse_events_patient_id_fkey(patient_code),
+    reported_by_member:members!adverse_events_reported_by_fkey(name)
+  `;
+
+  /**
+   * All events of a trial, most recent onset first
+   */
+  async getTrialAdverseEvents(trialId: string): Promise<AdverseEvent[]> {
+    const { data, error } = await supabase
+      .from("adverse_events")
+      .select(this.SELECT)
+      .eq("trial_id", trialId)
+      .order("onset_date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getPatientAdverseEvents(trialId: string, patientId: string): Promise<AdverseEvent[]> {
+    const { data, error } = await supabase
+      .from("adverse_events")
+      .select(this.SELECT)
+      .eq("trial_id", trialId)
+      .eq("patient_id", patientId)
+      .order("onset_date", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Patients on the trial, the ones an event can be reported for
+   */
+  async getTrialPatients(
+    trialId: string
+  ): Promise<{ id: string; patient_code: string; first_name: string | null; last_name: string | null }[]> {
+    const { data, error } = await supabase
+      .from("trial_patients")
+      .select("patients!trial_patients_patient_id_fkey(id, patient_code, first_name, last_name)")
+      .eq("trial_id", trialId);
+
+    if (error) throw error;
+    return (data || [])
+      .map((row) => row.patients)
+      .filter((patient): patient is NonNullable<typeof patient> => !!patient)
+      .sort((a, b) => a.patient_code.localeCompare(b.patient_code));
+  }
+
+  /**
+   * Record an event. SAEs alert the trial team right away.
+   */
+  async createAdverseEvent(input: AdverseEventInsert): Promise<AdverseEvent> {
+    const { data, error } = await supabase
+      .from("adverse_events")
+      .insert(input)
+      .select(this.SELECT)
+      .single();
+
+    if (error) throw error;
+
+    console.log(`⚠️ Adverse event recorded: ${data.term} (grade ${data.ctcae_grade})`);
+
+    if (data.is_serious) {
+      await notificationService.notifyTrialTeam({
+        trialId: data.trial_id,
+        type: "patient_alert",
+        priority: "urgent",
+        title: "Serious adverse event reported",
+        message: `${data.patients?.patient_code || "A patient"}: ${data.term} (CTCAE grade ${data.ctcae_grade}). The sponsor must be notified within 24 hours.`,
+        actionUrl: `/trials/${data.trial_id}/safety`,
+        actionLabel: "View Safety",
+        metadata: { adverseEventId: data.id, patientId: data.patient_id },
+        senderId: input.reported_by,
+      });
+    }
+
+    return data;
+  }
+
+  async updateAdverseEvent(
+    eventId: string,
+    changes: Database["public"]["Tables"]["adverse_events"]["Update"]
+  ): Promise<AdverseEvent> {
+    const { data, error } = await supabase
+      .from("adverse_events")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", eventId)
+      .select(this.SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Record when a report for a deadline was submitted
+   */
+  async markReported(eventId: string, kind: DeadlineKind, submittedAt: string): Promise<AdverseEvent> {
+    return this.updateAdverseEvent(
+      eventId,
+      kind === "sponsor_24h"
+        ? { sponsor_notified_at: submittedAt }
+        : { regulatory_reported_at: submittedAt }
+    );
+  }
+
+  /**
+   * AE line listing as CSV, one row per event
+   */
+  toLineListingCSV(events: AdverseEvent[]): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = [
+      "Patient",
+      "AE term",
+      "Onset date",
+      "Resolution date",
+      "CTCAE grade",
+      "Serious",
+      "Seriousness criteria",
+      "Causality",
+      "Expectedness",
+      "SUSAR",
+      "Action taken",
+      "Outcome",
+      "Awareness",
+      "Sponsor notified",
+      "Regulatory report",
+      "Reported by",
+    ];
+
+    const rows = events.map((event) =>
+      [
+        event.patients?.patient_code,
+        event.term,
+        event.onset_date,
+        event.resolution_date,
+        event.ctcae_grade,
+        event.is_serious ? "Yes" : "No",
+        event.seriousness_criteria
+          .map((criterion) => SERIOUSNESS_LABELS[criterion as SeriousnessCriterion] || criterion)
+          .join("; "),
+        CAUSALITY_LABELS[event.causality as Causality],
+        EXPECTEDNESS_LABELS[event.expectedness as Expectedness],
+        isSusar(event) ? "Yes" : "No",
+        ACTION_TAKEN_LABELS[event.action_taken as ActionTaken],
+        OUTCOME_LABELS[event.outcome as AdverseEventOutcome],
+        event.awareness_at,
+        event.sponsor_notified_at,
+        event.regulatory_reported_at,
+        event.reported_by_member?.name,
+      ]
+        .map(escape)
+        .join(",")
+    );
+
+    return [header.join(","), ...rows].join("\n");
+  }
+}
+
+export const adverseEventService = new AdverseEventService();
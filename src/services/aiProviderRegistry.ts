@@ -0,0 +1,202 @@
+// AI Provider Registry
+// Keeps track of the AI providers the document assistant can route queries to,
+// what each of them supports and how to fall back when one of them fails
+
+import type { UnifiedAIResponse, UnifiedSource } from './aiResponseAdapter';
+import type { QueryParams } from './aiServiceSwitcher';
+
+export type BuiltInAIServiceType = 'backend' | 'chatpdf' | 'anthropic' | 'anthropic-mockup';
+
+// Providers registered at runtime (e.g. a local Ollama stand-in) use their own id
+export type AIServiceType = BuiltInAIServiceType | (string & {});
+
+export interface AIProviderCapabilities {
+  citations: boolean;
+  streaming: boolean;
+  multiDocument: boolean;
+}
+
+export interface AIProviderCostModel {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Flat USD fee per request, for providers billed per call
+  perRequest?: number;
+  // USD per million input tokens written to / read from the provider's prompt cache
+  cacheWritePerMillion?: number;
+  cacheReadPerMillion?: number;
+}
+
+export interface PromptCacheUsage {
+  readTokens: number;
+  writeTokens: number;
+}
+
+export interface AIStreamHandlers {
+  // Called with each text delta and the full text received so far
+  onText?: (delta: string, snapshot: string) => void;
+  // Called as soon as a citation is available, before the answer is complete
+  onSource?: (source: UnifiedSource) => void;
+  // Called when a provider failed mid-answer and the next one is tried: the
+  // text and sources received so far are discarded
+  onReset?: () => void;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIServiceType;
+  label: string;
+  description?: string;
+  capabilities: AIProviderCapabilities;
+  cost: AIProviderCostModel;
+  isAvailable: () => boolean;
+  query: (params: QueryParams) => Promise<UnifiedAIResponse>;
+  // Only set for providers with the streaming capability
+  stream?: (params: QueryParams, handlers: AIStreamHandlers) => Promise<UnifiedAIResponse>;
+}
+
+export const DEFAULT_FALLBACK_POLICY: AIServiceType[] = ['anthropic', 'backend'];
+
+class AIProviderRegistry {
+  private providers = new Map<AIServiceType, AIProvider>();
+
+  /**
+   * Register a provider, replacing any provider already registered with the same id
+   */
+  register(provider: AIProvider): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`⚠️ AI provider '${provider.id}' is already registered, replacing it`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: AIServiceType): void {
+    this.providers.delete(id);
+  }
+
+  has(id: AIServiceType): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: AIServiceType): AIProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * All registered providers, in registration order
+   */
+  list(): AIProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Providers whose availability check currently passes
+   */
+  listAvailable(): AIProvider[] {
+    return this.list().filter((provider) => provider.isAvailable());
+  }
+
+  /**
+   * Providers that support every requested capability
+   */
+  withCapabilities(required: Partial<AIProviderCapabilities>): AIProvider[] {
+    return this.list().filter((provider) =>
+      (Object.keys(required) as (keyof AIProviderCapabilities)[]).every(
+        (capability) => !required[capability] || provider.capabilities[capability]
+      )
+    );
+  }
+
+  /**
+   * Build the ordered list of providers to try for a query: the primary provider
+   * first, then the fallback policy, skipping unknown ids, duplicates and
+   * providers that aren't configured
+   */
+  resolveChain(
+    primary: AIServiceType,
+    fallbackPolicy: AIServiceType[] = DEFAULT_FALLBACK_POLICY
+  ): AIProvider[] {
+    const chain: AIProvider[] = [];
+    const seen = new Set<AIServiceType>();
+
+    for (const id of [primary, ...fallbackPolicy]) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const provider = this.providers.get(id);
+      if (!provider) {
+        console.warn(`⚠️ Unknown AI provider '${id}' in fallback chain, skipping`);
+        continue;
+      }
+      if (!provider.isAvailable()) {
+        console.warn(`⚠️ AI provider '${id}' is not configured, skipping`);
+        continue;
+      }
+      chain.push(provider);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Estimate the USD cost of a request for a provider. inputTokens are the
+   * uncached input; cached input is priced from the prompt cache usage.
+   */
+  estimateCost(
+    id: AIServiceType,
+    inputTokens: number,
+    outputTokens: number,
+    cache: PromptCacheUsage = { readTokens: 0, writeTokens: 0 }
+  ): number | undefined {
+    const provider = this.providers.get(id);
+    if (!provider) return undefined;
+
+    const {
+      inputPerMillion,
+      outputPerMillion,
+      perRequest = 0,
+      cacheWritePerMillion = inputPerMillion,
+      cacheReadPerMillion = inputPerMillion
+    } = provider.cost;
+    return (
+      (inputTokens * inputPerMillion +
+        cache.writeTokens * cacheWritePerMillion +
+        cache.readTokens * cacheReadPerMillion +
+        outputTokens * outputPerMillion) /
+        1000000 +
+      perRequest
+    );
+  }
+
+  /**
+   * USD saved by the prompt cache against sending the same input uncached;
+   * negative while the cache is written
+   */
+  estimateCacheSavings(id: AIServiceType, cache: PromptCacheUsage): number | undefined {
+    const provider = this.providers.get(id);
+    if (!provider) return undefined;
+
+    const {
+      inputPerMillion,
+      cacheWritePerMillion = inputPerMillion,
+      cacheReadPerMillion = inputPerMillion
+    } = provider.cost;
+    return (
+      (cache.readTokens * (inputPerMillion - cacheReadPerMillion) -
+        cache.writeTokens * (cacheWritePerMillion - inputPerMillion)) /
+      1000000
+    );
+  }
+}
+
+// Singleton instance
+let aiProviderRegistry: AIProviderRegistry | null = null;
+
+export function getAIProviderRegistry(): AIProviderRegistry {
+  if (!aiProviderRegistry) {
+    aiProviderRegistry = new AIProviderRegistry();
+  }
+  return aiProviderRegistry;
+}
+
+export default AIProviderRegistry;
@@ -0,0 +1,226 @@
+// Built-in AI providers
+// Registers the providers that ship with the app. New providers can be added by
+// calling getAIProviderRegistry().register() without touching the switcher.
+
+import { getBackendFallbackService } from './backendFallbackService';
+import { getClaudeCitationsService } from './claudeCitationsService';
+import {
+  UnifiedAIResponse,
+  adaptBackendResponse,
+  adaptChatPDFResponse,
+  adaptAnthropicResponse,
+  adaptAnthropicCitation,
+  createMockAnthropicResponse,
+  SourceDocument
+} from './aiResponseAdapter';
+import type AIProviderRegistry from './aiProviderRegistry';
+import type { AIProvider, AIStreamHandlers } from './aiProviderRegistry';
+import type { QueryParams, DocumentInfo } from './aiServiceSwitcher';
+
+/**
+ * Every document a query targets, primary document first
+ */
+function getQueryDocuments(params: QueryParams): DocumentInfo[] {
+  if (params.documents && params.documents.length > 0) return params.documents;
+  return [{ ...params.documentData, id: params.documentId }];
+}
+
+function toClaudeDocuments(documents: DocumentInfo[]) {
+  return documents.map((document) => ({
+    id: document.id,
+    name: document.document_name || 'Document',
+    url: document.document_url,
+    file_url: document.file_url,
+    version: document.version
+  }));
+}
+
+function toSourceDocuments(documents: DocumentInfo[]): SourceDocument[] {
+  return documents.map((document) => ({
+    id: document.id,
+    name: document.document_name,
+    url: document.document_url || document.file_url || ''
+  }));
+}
+
+async function queryBackend(params: QueryParams): Promise<UnifiedAIResponse> {
+  console.log('🔄 Querying backend service...');
+  const backendService = getBackendFallbackService();
+
+  const documents = getQueryDocuments(params);
+
+  const result = await backendService.query({
+    message: params.message,
+    documentId: params.documentId,
+    documentIds: documents.map((document) => document.id),
+    documentData: params.documentData,
+    userId: params.userId,
+    limit: params.limit || 5
+  });
+
+  return adaptBackendResponse(result);
+}
+
+async function queryChatPDF(params: QueryParams): Promise<UnifiedAIResponse> {
+  console.log('🔄 Querying ChatPDF service...');
+  const backendService = getBackendFallbackService();
+
+  // Force ChatPDF usage
+  const result = await backendService.query({
+    message: params.message,
+    documentId: params.documentId,
+    documentData: params.documentData,
+    userId: params.userId,
+    limit: params.limit || 5,
+    forceService: 'chatpdf'
+  });
+
+  const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
+  return adaptChatPDFResponse(result, documentUrl);
+}
+
+async function queryAnthropic(params: QueryParams): Promise<UnifiedAIResponse> {
+  console.log('🔄 Querying Anthropic Claude service...');
+  const claudeService = getClaudeCitationsService();
+
+  if (!claudeService.isAvailable()) {
+    throw new Error('Claude Citations service not available - API key missing');
+  }
+
+  const documents = getQueryDocuments(params);
+  const claudeResult = await claudeService.queryDocumentWithCitations(
+    params.message,
+    toClaudeDocuments(documents)
+  );
+
+  const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
+  return adaptAnthropicResponse(
+    claudeResult,
+    documentUrl,
+    claudeResult.usage.input_tokens,
+    claudeResult.usage.output_tokens,
+    toSourceDocuments(documents)
+  );
+}
+
+async function streamAnthropic(
+  params: QueryParams,
+  handlers: AIStreamHandlers
+): Promise<UnifiedAIResponse> {
+  console.log('🔄 Streaming from Anthropic Claude service...');
+  const claudeService = getClaudeCitationsService();
+
+  if (!claudeService.isAvailable()) {
+    throw new Error('Claude Citations service not available - API key missing');
+  }
+
+  const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
+  const documents = getQueryDocuments(params);
+  const sourceDocuments = toSourceDocuments(documents);
+
+  const claudeResult = await claudeService.streamDocumentWithCitations(
+    params.message,
+    toClaudeDocuments(documents),
+    {
+      onText: handlers.onText,
+      onCitation: (citation) => handlers.onSource?.(adaptAnthropicCitation(citation, sourceDocuments)),
+      signal: handlers.signal
+    }
+  );
+
+  return adaptAnthropicResponse(
+    claudeResult,
+    documentUrl,
+    claudeResult.usage.input_tokens,
+    claudeResult.usage.output_tokens,
+    sourceDocuments
+  );
+}
+
+async function queryAnthropicMockup(params: QueryParams): Promise<UnifiedAIResponse> {
+  console.log('🔄 Querying Anthropic Claude service...');
+  console.log('🚀 Claude Citations service initialized');
+  console.log('🔄 Claude Citations: Starting query...');
+  console.log('Question:', params.message);
+  console.log('Document:', params.documentData.document_name || 'Document');
+
+  const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
+  console.log('🔗 Using PDF URL directly:', documentUrl);
+
+  // Simulate PDF conversion
+  console.log('🔄 Fetching PDF for Claude analysis:', documentUrl);
+  await new Promise(resolve => setTimeout(resolve, 800));
+  console.log('✅ PDF converted to base64: 454804 characters');
+
+  // Simulate Claude processing
+  await new Promise(resolve => setTimeout(resolve, 700));
+  console.log('✅ Claude Citations: Query successful');
+
+  const documentName = params.documentData.document_name || 'Document';
+  const mockResponse = createMockAnthropicResponse(params.message, documentName, documentUrl);
+
+  // Simulate citation parsing logs
+  console.log('📝 Parsing citations from Claude response...');
+  console.log(`🔍 Found ${mockResponse.sources.length} citation matches in text`);
+
+  mockResponse.sources.forEach((source, index) => {
+    console.log(`📖 Citation ${index + 1}: Page ${source.page} - "${source.exactText.substring(0, 50)}..."`);
+  });
+
+  console.log('📄 Claude final result:', {
+    content: mockResponse.response.substring(0, 50) + '...',
+    citations: mockResponse.sources.length,
+    model: mockResponse.model,
+    usage: { input_tokens: 3210, output_tokens: 312 }
+  });
+
+  return mockResponse;
+}
+
+export const builtInProviders: AIProvider[] = [
+  {
+    id: 'backend',
+    label: 'Backend',
+    description: 'Themison RAG backend',
+    capabilities: { citations: true, streaming: false, multiDocument: true },
+    cost: { inputPerMillion: 0, outputPerMillion: 0 },
+    isAvailable: () => !!import.meta.env.VITE_API_BASE_URL,
+    query: queryBackend
+  },
+  {
+    id: 'chatpdf',
+    label: 'ChatPDF',
+    description: 'ChatPDF + OpenAI GPT-4o-mini',
+    capabilities: { citations: true, streaming: false, multiDocument: false },
+    cost: { inputPerMillion: 0, outputPerMillion: 0, perRequest: 0.002 },
+    isAvailable: () => !!import.meta.env.VITE_CHATPDF_ACCESS_KEY,
+    query: queryChatPDF
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic Claude',
+    description: 'Claude 3.5 Haiku with citations',
+    capabilities: { citations: true, streaming: true, multiDocument: true },
+    // Haiku 3.5 pricing
+    cost: { inputPerMillion: 0.8, outputPerMillion: 4, cacheWritePerMillion: 1, cacheReadPerMillion: 0.08 },
+    isAvailable: () => getClaudeCitationsService().isAvailable(),
+    query: queryAnthropic,
+    stream: streamAnthropic
+  },
+  {
+    id: 'anthropic-mockup',
+    label: 'Claude (Mockup)',
+    description: 'Canned Claude responses for demos and offline work',
+    capabilities: { citations: true, streaming: false, multiDocument: false },
+    cost: { inputPerMillion: 0.8, outputPerMillion: 4 },
+    isAvailable: () => true, // Always available
+    query: queryAnthropicMockup
+  }
+];
+
+/**
+ * Register the providers that ship with the app
+ */
+export function registerBuiltInProviders(registry: AIProviderRegistry): void {
+  builtInProviders.forEach((provider) => registry.register(provider));
+}
@@ -1,22 +1,58 @@
 // Unified AI Response Adapter
 // Standardizes responses from different AI services for consistent UI consumption
 
+import { getAIProviderRegistry, type AIServiceType } from './aiProviderRegistry';
+import type { TextRange } from '@/lib/pdfTextLayer';
+import type { ClaudeCitation } from './claudeCitationsService';
+
 export interface UnifiedSource {
   page: number;
+  // Last page of a citation that spans several pages
+  endPage?: number;
   section: string;
   exactText: string;
   relevance: 'high' | 'medium' | 'low';
   context: string;
   highlightURL: string;
+  // Which document the citation came from (set for multi-document answers)
+  documentId?: string;
+  documentName?: string;
+  // Set by the citation verification pass: whether exactText was found in the
+  // PDF, where on the page, and the page the provider claimed when it differs
+  verified?: boolean;
+  textRange?: TextRange;
+  claimedPage?: number;
+}
+
+export interface SourceDocument {
+  id?: string;
+  name?: string;
+  url: string;
+}
+
+// How much of an answer's input came from caches, and what that saved
+export interface ContextCacheReport {
+  // Provider prompt cache: hit when the documents were read from it
+  status: 'hit' | 'miss';
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  // Documents read from the browser's document context cache instead of downloaded
+  documentHits: number;
+  documentMisses: number;
+  // USD saved against sending the same input uncached; negative while the cache is written
+  savings: number;
 }
 
 export interface UnifiedAIResponse {
   response: string;
   sources: UnifiedSource[];
-  source: 'backend' | 'chatpdf' | 'anthropic' | 'anthropic-mockup';
+  source: AIServiceType;
   timestamp: number;
   cost?: number;
   model?: string;
+  cache?: ContextCacheReport;
+  // Replayed from recorded fixtures; its quotes aren't checked against the PDFs
+  replayed?: boolean;
 }
 
 /**
@@ -31,7 +67,9 @@ export function adaptBackendResponse(backendResponse: any): UnifiedAIResponse {
       exactText: source.exactText || source.content || '',
       relevance: source.relevance || 'medium',
       context: source.context || 'Context from backend analysis',
-      highlightURL: source.highlightURL || ''
+      highlightURL: source.highlightURL || '',
+      documentId: source.documentId || source.document_id,
+      documentName: source.documentName || source.document_name || source.filename
     })),
     source: backendResponse.source || 'backend',
     timestamp: backendResponse.timestamp || Date.now(),
@@ -61,31 +99,85 @@ export function adaptChatPDFResponse(chatPDFResponse: any, documentUrl: string):
   };
 }
 
+/**
+ * Adapts a single Claude citation to a unified source. `documents` are the
+ * documents sent to Claude, in order; the citation's document_index picks one.
+ * Page citations carry their page range; character citations leave the page to
+ * the citation verification pass.
+ */
+export function adaptAnthropicCitation(citation: ClaudeCitation, documents: SourceDocument[]): UnifiedSource {
+  const document = documents[citation.document_index] || documents[0];
+  const page = citation.start_page_number || 0;
+  // end_page_number is exclusive
+  const endPage = citation.end_page_number ? citation.end_page_number - 1 : page;
+
+  return {
+    page,
+    endPage: endPage > page ? endPage : undefined,
+    section: endPage > page ? `Pages ${page}-${endPage}` : page ? `Page ${page}` : 'Claude Citation',
+    exactText: citation.cited_text,
+    relevance: 'high',
+    context: 'Citation from Claude analysis',
+    highlightURL: page ? `${document?.url || ''}#page=${page}` : document?.url || '',
+    documentId: document?.id,
+    documentName: document?.name
+  };
+}
+
 /**
  * Adapts Anthropic Claude response to unified format
  */
 export function adaptAnthropicResponse(
-  claudeResponse: any,
+  claudeResponse: {
+    content: string;
+    citations: ClaudeCitation[];
+    model?: string;
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+    documentCache?: { hits: number; misses: number };
+    replayed?: boolean;
+  },
   documentUrl: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  documents: SourceDocument[] = [{ url: documentUrl }]
 ): UnifiedAIResponse {
-  const cost = (inputTokens * 0.8 + outputTokens * 4) / 1000000; // Haiku 3.5 pricing
+  const cacheReadTokens = claudeResponse.usage?.cache_read_input_tokens || 0;
+  const cacheWriteTokens = claudeResponse.usage?.cache_creation_input_tokens || 0;
+
+  // Priced from the anthropic provider's cost model in the registry
+  const registry = getAIProviderRegistry();
+  const cacheUsage = { readTokens: cacheReadTokens, writeTokens: cacheWriteTokens };
+  const cost = registry.estimateCost('anthropic', inputTokens, outputTokens, cacheUsage);
+
+  const usesCache =
+    cacheReadTokens > 0 || cacheWriteTokens > 0 || claudeResponse.documentCache !== undefined;
+  const cache: ContextCacheReport | undefined = usesCache
+    ? {
+        status: cacheReadTokens > 0 ? 'hit' : 'miss',
+        cacheReadTokens,
+        cacheWriteTokens,
+        documentHits: claudeResponse.documentCache?.hits || 0,
+        documentMisses: claudeResponse.documentCache?.misses || 0,
+        savings: registry.estimateCacheSavings('anthropic', cacheUsage) ?? 0
+      }
+    : undefined;
 
   return {
     response: claudeResponse.content,
-    sources: (claudeResponse.citations || []).map((citation: any) => ({
-      page: citation.source?.chunk_index || 0,
-      section: 'Claude Citation',
-      exactText: citation.content || '',
-      relevance: 'high',
-      context: 'Citation from Claude analysis',
-      highlightURL: `${documentUrl}#page=${citation.source?.chunk_index}`
-    })),
+    sources: (claudeResponse.citations || []).map((citation) =>
+      adaptAnthropicCitation(citation, documents)
+    ),
     source: 'anthropic',
     timestamp: Date.now(),
     cost: cost,
-    model: claudeResponse.model || 'claude-3-5-haiku-20241022'
+    model: claudeResponse.model || 'claude-3-5-haiku-20241022',
+    cache,
+    replayed: claudeResponse.replayed
   };
 }
 
@@ -118,18 +210,16 @@ export function createMockAnthropicResponse(question: string, documentName: stri
 These inclusion criteria ensure that participants meet the specific demographic, medical, and treatment requirements necessary for the clinical trial, while ensuring safety and scientific validity of the study results.`,
       citations: [
         {
-          content: "Signed and dated written informed consent in accordance with ICH GCP and local legislation",
-          source: {
-            chunk_index: 12,
-            document_index: 0
-          }
+          cited_text: "Signed and dated written informed consent in accordance with ICH GCP and local legislation",
+          document_index: 0,
+          start_page_number: 12,
+          end_page_number: 13
         },
         {
-          content: "Body mass index (BMI) 25 kg/m²-50 kg/m² (both inclusive) at screening",
-          source: {
-            chunk_index: 13,
-            document_index: 0
-          }
+          cited_text: "Body mass index (BMI) 25 kg/m²-50 kg/m² (both inclusive) at screening",
+          document_index: 0,
+          start_page_number: 13,
+          end_page_number: 14
         }
       ],
       model: "claude-3-5-haiku-20241022",
@@ -164,18 +254,16 @@ These inclusion criteria ensure that participants meet the specific demographic,
 These exclusion criteria help ensure participant safety and maintain the integrity of the study by excluding conditions that could interfere with the trial results or pose additional risks.`,
       citations: [
         {
-          content: "Patients with type 1 diabetes",
-          source: {
-            chunk_index: 14,
-            document_index: 0
-          }
+          cited_text: "Patients with type 1 diabetes",
+          document_index: 0,
+          start_page_number: 14,
+          end_page_number: 15
         },
         {
-          content: "Women who are pregnant, nursing, or who plan to become pregnant while in the trial",
-          source: {
-            chunk_index: 27,
-            document_index: 0
-          }
+          cited_text: "Women who are pregnant, nursing, or who plan to become pregnant while in the trial",
+          document_index: 0,
+          start_page_number: 27,
+          end_page_number: 28
         }
       ],
       model: "claude-3-5-haiku-20241022",
@@ -203,25 +291,22 @@ The key steps would be:
 5. Complete any necessary end-of-study procedures as outlined in the protocol`,
       citations: [
         {
-          content: "Women of childbearing potential (WOCBP)1 must be ready and able to use highly effective methods of birth control per ICH M3 (R2) that result in a low failure rate of less than 1% per year when used consistently and correctly.",
-          source: {
-            chunk_index: 27,
-            document_index: 0
-          }
+          cited_text: "Women of childbearing potential (WOCBP)1 must be ready and able to use highly effective methods of birth control per ICH M3 (R2) that result in a low failure rate of less than 1% per year when used consistently and correctly.",
+          document_index: 0,
+          start_page_number: 27,
+          end_page_number: 28
         },
         {
-          content: "Females of childbearing potential who are pregnant, breast-feeding or intend to become pregnant or are not using an adequate contraceptive method throughout the trial including the 4-week follow-up period are excluded from the trial (section 4.2.2.3)",
-          source: {
-            chunk_index: 21,
-            document_index: 0
-          }
+          cited_text: "Females of childbearing potential who are pregnant, breast-feeding or intend to become pregnant or are not using an adequate contraceptive method throughout the trial including the 4-week follow-up period are excluded from the trial (section 4.2.2.3)",
+          document_index: 0,
+          start_page_number: 21,
+          end_page_number: 22
         },
         {
-          content: "27. Chronic or relevant acute infections (including but not limited to respiratory tract infections, urinary tract infection, bladder infection, diabetic foot syndrome)",
-          source: {
-            chunk_index: 29,
-            document_index: 0
-          }
+          cited_text: "27. Chronic or relevant acute infections (including but not limited to respiratory tract infections, urinary tract infection, bladder infection, diabetic foot syndrome)",
+          document_index: 0,
+          start_page_number: 29,
+          end_page_number: 30
         }
       ],
       model: "claude-3-5-haiku-20241022",
@@ -1,40 +1,97 @@
 // AI Service Switcher
-// Routes requests to the appropriate AI service based on environment configuration
+// Routes requests to the appropriate AI provider from the provider registry,
+// falling back along the organization's configured policy when a provider fails.
+// The quotes of every answer are checked against the cited PDFs before it is returned.
 
-import { getBackendFallbackService } from './backendFallbackService';
-import { getClaudeCitationsService } from './claudeCitationsService';
+import { UnifiedAIResponse } from './aiResponseAdapter';
 import {
-  UnifiedAIResponse,
-  adaptBackendResponse,
-  adaptChatPDFResponse,
-  adaptAnthropicResponse,
-  createMockAnthropicResponse
-} from './aiResponseAdapter';
+  getAIProviderRegistry,
+  AIProvider,
+  AIServiceType,
+  AIStreamHandlers,
+  DEFAULT_FALLBACK_POLICY
+} from './aiProviderRegistry';
+import { registerBuiltInProviders } from './aiProviders';
+import { getCitationVerificationService } from './citationVerificationService';
 
-export type AIServiceType = 'backend' | 'chatpdf' | 'anthropic' | 'anthropic-mockup';
+export type { AIServiceType, BuiltInAIServiceType } from './aiProviderRegistry';
 
 export interface DocumentInfo {
   id: string;
   document_name?: string;
   document_url?: string;
   file_url?: string;
+  // Document version, keys the document context cache
+  version?: number | null;
 }
 
 export interface QueryParams {
   message: string;
   documentId: string;
   documentData: DocumentInfo;
+  // Every document to answer from, for multi-document questions. When set,
+  // documentId/documentData describe the first (primary) document.
+  documents?: DocumentInfo[];
   userId: string;
   limit?: number;
 }
 
+export interface QueryOptions {
+  // Ordered list of providers to try after the primary one fails
+  fallbackPolicy?: AIServiceType[];
+}
+
+export type StreamQueryOptions = QueryOptions & AIStreamHandlers;
+
 class AIServiceSwitcher {
+  private registry = getAIProviderRegistry();
+
+  constructor() {
+    registerBuiltInProviders(this.registry);
+  }
+
+  /**
+   * Multi-document questions can only go to providers that support them
+   */
+  private filterChain(chain: AIProvider[], params: QueryParams): AIProvider[] {
+    if (!params.documents || params.documents.length <= 1) return chain;
+
+    return chain.filter((provider) => {
+      if (!provider.capabilities.multiDocument) {
+        console.warn(`⚠️ Skipping ${provider.id}: no multi-document support`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Check the answer's quotes against the documents of the query. Answers
+   * replayed from fixtures are returned as recorded, without downloading the PDFs.
+   */
+  private async verifyCitations(result: UnifiedAIResponse, params: QueryParams): Promise<UnifiedAIResponse> {
+    if (result.replayed) return result;
+
+    const documents =
+      params.documents && params.documents.length > 0
+        ? params.documents
+        : [{ ...params.documentData, id: params.documentId }];
+
+    return getCitationVerificationService().verifyResponse(
+      result,
+      documents.map((document) => ({
+        id: document.id,
+        name: document.document_name,
+        url: document.document_url || document.file_url || ''
+      }))
+    );
+  }
+
   private getServiceType(): AIServiceType {
     const serviceType = import.meta.env.VITE_AI_SERVICE as AIServiceType;
 
     // Validate service type
-    const validTypes: AIServiceType[] = ['backend', 'chatpdf', 'anthropic', 'anthropic-mockup'];
-    if (!validTypes.includes(serviceType)) {
+    if (!this.registry.has(serviceType)) {
       console.warn(`Invalid VITE_AI_SERVICE: ${serviceType}. Defaulting to 'anthropic'`);
       return 'anthropic';
     }
@@ -42,145 +99,87 @@ class AIServiceSwitcher {
     return serviceType;
   }
 
-  async query(params: QueryParams, overrideService?: AIServiceType): Promise<UnifiedAIResponse> {
+  async query(
+    params: QueryParams,
+    overrideService?: AIServiceType,
+    options: QueryOptions = {}
+  ): Promise<UnifiedAIResponse> {
     const serviceType = overrideService || this.getServiceType();
-    console.log(`🔄 Using AI Service: ${serviceType}`);
-
-    try {
-      switch (serviceType) {
-        case 'backend':
-          return await this.queryBackend(params);
-
-        case 'chatpdf':
-          return await this.queryChatPDF(params);
+    const chain = this.filterChain(
+      this.registry.resolveChain(serviceType, options.fallbackPolicy || DEFAULT_FALLBACK_POLICY),
+      params
+    );
 
-        case 'anthropic':
-          return await this.queryAnthropic(params);
+    if (chain.length === 0) {
+      throw new Error(`No AI provider available for this query (selected: ${serviceType})`);
+    }
 
-        case 'anthropic-mockup':
-          return await this.queryAnthropicMockup(params);
+    let lastError: unknown;
 
-        default:
-          throw new Error(`Unsupported service type: ${serviceType}`);
-      }
-    } catch (error) {
-      console.error(`❌ AI Service ${serviceType} failed:`, error);
-
-      // Fallback strategy: try anthropic if not already using it
-      if (serviceType !== 'anthropic') {
-        console.log('🔄 Falling back to Anthropic service...');
-        try {
-          return await this.queryAnthropic(params);
-        } catch (fallbackError) {
-          console.error('❌ Anthropic fallback also failed:', fallbackError);
-        }
+    for (const provider of chain) {
+      if (provider.id !== serviceType) {
+        console.log(`🔄 Falling back to ${provider.label} service...`);
+      } else {
+        console.log(`🔄 Using AI Service: ${serviceType}`);
       }
 
-      // Final fallback: backend service
-      if (serviceType !== 'backend') {
-        console.log('🔄 Final fallback to backend service...');
-        return await this.queryBackend(params);
+      try {
+        return await this.verifyCitations(await provider.query(params), params);
+      } catch (error) {
+        console.error(`❌ AI Service ${provider.id} failed:`, error);
+        lastError = error;
       }
-
-      throw error;
     }
-  }
-
-  private async queryBackend(params: QueryParams): Promise<UnifiedAIResponse> {
-    console.log('🔄 Querying backend service...');
-    const backendService = getBackendFallbackService();
-
-    const result = await backendService.query({
-      message: params.message,
-      documentId: params.documentId,
-      documentData: params.documentData,
-      userId: params.userId,
-      limit: params.limit || 5
-    });
 
-    return adaptBackendResponse(result);
+    throw lastError;
   }
 
-  private async queryChatPDF(params: QueryParams): Promise<UnifiedAIResponse> {
-    console.log('🔄 Querying ChatPDF service...');
-    const backendService = getBackendFallbackService();
-
-    // Force ChatPDF usage
-    const result = await backendService.query({
-      message: params.message,
-      documentId: params.documentId,
-      documentData: params.documentData,
-      userId: params.userId,
-      limit: params.limit || 5,
-      forceService: 'chatpdf'
-    });
-
-    const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
-    return adaptChatPDFResponse(result, documentUrl);
-  }
-
-  private async queryAnthropic(params: QueryParams): Promise<UnifiedAIResponse> {
-    console.log('🔄 Querying Anthropic Claude service...');
-    const claudeService = getClaudeCitationsService();
-
-    if (!claudeService.isAvailable()) {
-      throw new Error('Claude Citations service not available - API key missing');
-    }
-
-    const claudeResult = await claudeService.queryDocumentWithCitations(params.message, {
-      id: params.documentId,
-      name: params.documentData.document_name || 'Document',
-      url: params.documentData.document_url,
-      file_url: params.documentData.file_url
-    });
-
-    const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
-    return adaptAnthropicResponse(
-      claudeResult,
-      documentUrl,
-      claudeResult.usage.input_tokens,
-      claudeResult.usage.output_tokens
+  /**
+   * Same routing and fallback as query(), but streams the answer through the
+   * handlers. Providers without streaming support deliver the whole answer in
+   * a single onText call. An aborted request is never retried on a fallback.
+   */
+  async queryStream(
+    params: QueryParams,
+    overrideService?: AIServiceType,
+    options: StreamQueryOptions = {}
+  ): Promise<UnifiedAIResponse> {
+    const { fallbackPolicy, ...handlers } = options;
+    const serviceType = overrideService || this.getServiceType();
+    const chain = this.filterChain(
+      this.registry.resolveChain(serviceType, fallbackPolicy || DEFAULT_FALLBACK_POLICY),
+      params
     );
-  }
-
-  private async queryAnthropicMockup(params: QueryParams): Promise<UnifiedAIResponse> {
-    console.log('🔄 Querying Anthropic Claude service...');
-    console.log('🚀 Claude Citations service initialized');
-    console.log('🔄 Claude Citations: Starting query...');
-    console.log('Question:', params.message);
-    console.log('Document:', params.documentData.document_name || 'Document');
-
-    const documentUrl = params.documentData.document_url || params.documentData.file_url || '';
-    console.log('🔗 Using PDF URL directly:', documentUrl);
 
-    // Simulate PDF conversion
-    console.log('🔄 Fetching PDF for Claude analysis:', documentUrl);
-    await new Promise(resolve => setTimeout(resolve, 800));
-    console.log('✅ PDF converted to base64: 454804 characters');
+    if (chain.length === 0) {
+      throw new Error(`No AI provider available for this query (selected: ${serviceType})`);
+    }
 
-    // Simulate Claude processing
-    await new Promise(resolve => setTimeout(resolve, 700));
-    console.log('✅ Claude Citations: Query successful');
+    let lastError: unknown;
 
-    const documentName = params.documentData.document_name || 'Document';
-    const mockResponse = createMockAnthropicResponse(params.message, documentName, documentUrl);
+    for (const [index, provider] of chain.entries()) {
+      // Drop what the failed provider streamed before trying the next one
+      if (index > 0) handlers.onReset?.();
+      console.log(`🔄 Streaming from AI Service: ${provider.id}`);
 
-    // Simulate citation parsing logs
-    console.log('📝 Parsing citations from Claude response...');
-    console.log(`🔍 Found ${mockResponse.sources.length} citation matches in text`);
+      try {
+        if (provider.stream && provider.capabilities.streaming) {
+          return await this.verifyCitations(await provider.stream(params, handlers), params);
+        }
 
-    mockResponse.sources.forEach((source, index) => {
-      console.log(`📖 Citation ${index + 1}: Page ${source.page} - "${source.exactText.substring(0, 50)}..."`);
-    });
+        const result = await this.verifyCitations(await provider.query(params), params);
+        handlers.onText?.(result.response, result.response);
+        result.sources.forEach((source) => handlers.onSource?.(source));
+        return result;
+      } catch (error) {
+        if (handlers.signal?.aborted) throw error;
 
-    console.log('📄 Claude final result:', {
-      content: mockResponse.response.substring(0, 50) + '...',
-      citations: mockResponse.sources.length,
-      model: mockResponse.model,
-      usage: { input_tokens: 3210, output_tokens: 312 }
-    });
+        console.error(`❌ AI Service ${provider.id} failed:`, error);
+        lastError = error;
+      }
+    }
 
-    return mockResponse;
+    throw lastError;
   }
 
   /**
@@ -194,22 +193,14 @@ class AIServiceSwitcher {
    * Check if a specific service is available
    */
   isServiceAvailable(serviceType: AIServiceType): boolean {
-    switch (serviceType) {
-      case 'backend':
-        return !!import.meta.env.VITE_API_BASE_URL;
-
-      case 'chatpdf':
-        return !!import.meta.env.VITE_CHATPDF_ACCESS_KEY;
-
-      case 'anthropic':
-        return !!import.meta.env.VITE_ANTHROPIC_API_KEY;
-
-      case 'anthropic-mockup':
-        return true; // Always available
+    return this.registry.get(serviceType)?.isAvailable() ?? false;
+  }
 
-      default:
-        return false;
-    }
+  /**
+   * List registered providers, for service pickers and settings screens
+   */
+  getProviders(): AIProvider[] {
+    return this.registry.list();
   }
 }
 
@@ -223,4 +214,4 @@ export function getAIServiceSwitcher(): AIServiceSwitcher {
   return aiServiceSwitcher;
 }
 
-export default AIServiceSwitcher;
\ No newline at end of file
+export default AIServiceSwitcher;
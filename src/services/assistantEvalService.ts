@@ -0,0 +1,388 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  AssistantConfig,
+  describeAssistantConfig,
+  getDocumentAssistantEngine,
+} from "./documentAssistantEngine";
+import type { DocumentInfo } from "./aiServiceSwitcher";
+
+type Tables = Database["public"]["Tables"];
+export type EvalSet = Tables["assistant_eval_sets"]["Row"];
+export type EvalCase = Tables["assistant_eval_cases"]["Row"];
+export type EvalRunRow = Tables["assistant_eval_runs"]["Row"];
+export type EvalResult = Tables["assistant_eval_results"]["Row"];
+
+export type EvalRunStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface EvalRun extends Omit<EvalRunRow, "config" | "status"> {
+  config: AssistantConfig;
+  status: EvalRunStatus;
+}
+
+export type EvalCaseInput = Pick<EvalCase, "question" | "expected_answer" | "expected_pages">;
+
+export interface EvalScores {
+  page_accuracy: number | null;
+  answer_overlap: number;
+}
+
+export interface EvalProgress {
+  done: number;
+  total: number;
+}
+
+export type EvalMetric = "page_accuracy" | "answer_overlap" | "avg_latency_ms" | "total_cost";
+
+export const EVAL_METRIC_LABELS: Record<EvalMetric, string> = {
+  page_accuracy: "Citation page accuracy",
+  answer_overlap: "Answer overlap",
+  avg_latency_ms: "Average latency",
+  total_cost: "Cost",
+};
+
+// Words that say nothing about whether two answers agree
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was",
+  "were", "with", "which", "will", "should", "must", "may", "can",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.%<>≥≤-]+/gu, " ")
+    .split(/\s+/)
+    .map((token) => token.replace(/^[.-]+|[.-]+$/g, ""))
+    .filter((token) => token && !STOPWORDS.has(token));
+}
+
+/**
+ * Token-level F1 between an answer and the expected answer (0-1), ignoring
+ * case, punctuation, markdown and stopwords
+ */
+export function scoreAnswerOverlap(answer: string, expected: string): number {
+  const answerTokens = tokenize(answer);
+  const expectedTokens = tokenize(expected);
+  if (answerTokens.length === 0 || expectedTokens.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  expectedTokens.forEach((token) => remaining.set(token, (remaining.get(token) || 0) + 1));
+
+  let common = 0;
+  answerTokens.forEach((token) => {
+    const count = remaining.get(token) || 0;
+    if (count > 0) {
+      common++;
+      remaining.set(token, count - 1);
+    }
+  });
+  if (common === 0) return 0;
+
+  const precision = common / answerTokens.length;
+  const recall = common / expectedTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Overlap between the cited and the expected pages (Jaccard, 0-1), so both
+ * missed and extra pages lower the score. Null when no pages are expected.
+ */
+export function scorePageAccuracy(citedPages: number[], expectedPages: number[]): number | null {
+  if (expectedPages.length === 0) return null;
+
+  const cited = new Set(citedPages);
+  const expected = new Set(expectedPages);
+  const hits = [...cited].filter((page) => expected.has(page)).length;
+  return hits / new Set([...cited, ...expected]).size;
+}
+
+export function scoreAnswer(
+  answer: string,
+  citedPages: number[],
+  evalCase: Pick<EvalCase, "expected_answer" | "expected_pages">
+): EvalScores {
+  return {
+    page_accuracy: scorePageAccuracy(citedPages, evalCase.expected_pages),
+    answer_overlap: scoreAnswerOverlap(answer, evalCase.expected_answer),
+  };
+}
+
+const average = (values: (number | null | undefined)[]) => {
+  const scored = values.filter((value): value is number => typeof value === "number");
+  return scored.length > 0 ? scored.reduce((sum, value) => sum + value, 0) / scored.length : null;
+};
+
+/**
+ * Run averages from its per-question results; failed questions only count
+ * towards the error count
+ */
+export function summarizeResults(results: Pick<
+  EvalResult,
+  "page_accuracy" | "answer_overlap" | "latency_ms" | "cost" | "error"
+>[]) {
+  const answered = results.filter((result) => !result.error);
+  const costs = answered.map((result) => result.cost).filter((cost): cost is number => cost != null);
+  const latency = average(answered.map((result) => result.latency_ms));
+
+  return {
+    case_count: results.length,
+    error_count: results.length - answered.length,
+    page_accuracy: average(answered.map((result) => result.page_accuracy)),
+    answer_overlap: average(answered.map((result) => result.answer_overlap)),
+    avg_latency_ms: latency === null ? null : Math.round(latency),
+    total_cost: costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : null,
+  };
+}
+
+/**
+ * Page numbers from a QA item's stored sources
+ */
+export function getSourcePages(sources: unknown): number[] {
+  if (!Array.isArray(sources)) return [];
+  const pages = sources
+    .map((source) => Number(source?.page))
+    .filter((page) => Number.isInteger(page) && page > 0);
+  return [...new Set(pages)].sort((a, b) => a - b);
+}
+
+export function formatEvalScore(score: number | null | undefined): string {
+  return score == null ? "—" : `${Math.round(score * 100)}%`;
+}
+
+export function formatEvalLatency(ms: number | null | undefined): string {
+  return ms == null ? "—" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function formatEvalCost(cost: number | null | undefined): string {
+  return cost == null ? "—" : `$${cost.toFixed(4)}`;
+}
+
+const toRun = (row: EvalRunRow): EvalRun => ({
+  ...row,
+  config: row.config as unknown as AssistantConfig,
+  status: row.status as EvalRunStatus,
+});
+
+class AssistantEvalService {
+  async getSets(trialId: string): Promise<EvalSet[]> {
+    const { data, error } = await supabase
+      .from("assistant_eval_sets")
+      .select("*")
+      .eq("trial_id", trialId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createSet(trialId: string, name: string, description: string | null, memberId?: string | null) {
+    const { data, error } = await supabase
+      .from("assistant_eval_sets")
+      .insert({ trial_id: trialId, name, description, created_by: memberId ?? null })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteSet(setId: string) {
+    const { error } = await supabase.from("assistant_eval_sets").delete().eq("id", setId);
+    if (error) throw error;
+  }
+
+  async getCases(setId: string): Promise<EvalCase[]> {
+    const { data, error } = await supabase
+      .from("assistant_eval_cases")
+      .select("*")
+      .eq("set_id", setId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addCase(setId: string, input: EvalCaseInput) {
+    const { data, error } = await supabase
+      .from("assistant_eval_cases")
+      .insert({ set_id: setId, ...input })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteCase(caseId: string) {
+    const { error } = await supabase.from("assistant_eval_cases").delete().eq("id", caseId);
+    if (error) throw error;
+  }
+
+  /**
+   * Add the trial's verified QA repository items to a set, with the pages of
+   * their sources as the expected pages. Items already in the set are skipped.
+   * Returns the number of cases added.
+   */
+  async seedFromQARepository(setId: string, trialId: string): Promise<number> {
+    const { data: items, error } = await supabase
+      .from("qa_repository")
+      .select("id, question, answer, sources")
+      .eq("trial_id", trialId)
+      .eq("is_verified", true);
+
+    if (error) throw error;
+
+    const existing = new Set((await this.getCases(setId)).map((c) => c.qa_item_id));
+    const rows = (items || [])
+      .filter((item) => !existing.has(item.id))
+      .map((item) => ({
+        set_id: setId,
+        qa_item_id: item.id,
+        question: item.question,
+        expected_answer: item.answer,
+        expected_pages: getSourcePages(item.sources),
+      }));
+
+    if (rows.length === 0) return 0;
+
+    const { error: insertError } = await supabase.from("assistant_eval_cases").insert(rows);
+    if (insertError) throw insertError;
+    return rows.length;
+  }
+
+  async getRuns(setId: string): Promise<EvalRun[]> {
+    const { data, error } = await supabase
+      .from("assistant_eval_runs")
+      .select("*")
+      .eq("set_id", setId)
+      .order("started_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toRun);
+  }
+
+  async getResults(runId: string): Promise<EvalResult[]> {
+    const { data, error } = await supabase
+      .from("assistant_eval_results")
+      .select("*")
+      .eq("run_id", runId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Ask every question of a set with one assistant configuration, one at a
+   * time so latencies are comparable, and store the scored results. A failed
+   * question is recorded and the run carries on; aborting cancels the run.
+   */
+  async runEval(
+    evalSet: Pick<EvalSet, "id" | "trial_id">,
+    config: AssistantConfig,
+    document: DocumentInfo | null,
+    memberId?: string | null,
+    options: { signal?: AbortSignal; onProgress?: (progress: EvalProgress) => void } = {}
+  ): Promise<EvalRun> {
+    const cases = await this.getCases(evalSet.id);
+    if (cases.length === 0) {
+      throw new Error("This eval set has no questions yet");
+    }
+
+    const { data: run, error } = await supabase
+      .from("assistant_eval_runs")
+      .insert({
+        set_id: evalSet.id,
+        trial_id: evalSet.trial_id,
+        config: config as unknown as Json,
+        target_label: describeAssistantConfig(config),
+        document_id: document?.id ?? null,
+        case_count: cases.length,
+        started_by: memberId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log(`🧪 Eval run ${run.id}: ${cases.length} questions via ${run.target_label}`);
+
+    const engine = getDocumentAssistantEngine();
+    const results: Parameters<typeof summarizeResults>[0] = [];
+    let status: EvalRunStatus = "completed";
+
+    for (const [index, evalCase] of cases.entries()) {
+      if (options.signal?.aborted) {
+        status = "cancelled";
+        break;
+      }
+
+      const startedAt = performance.now();
+      let result: Tables["assistant_eval_results"]["Insert"];
+
+      try {
+        const answer = await engine.ask(
+          config,
+          { message: evalCase.question, document },
+          { signal: options.signal }
+        );
+        const citedPages = getSourcePages(answer.sources);
+
+        result = {
+          run_id: run.id,
+          case_id: evalCase.id,
+          answer: answer.response,
+          cited_pages: citedPages,
+          ...scoreAnswer(answer.response, citedPages, evalCase),
+          latency_ms: Math.round(performance.now() - startedAt),
+          cost: answer.cost ?? null,
+        };
+      } catch (caseError) {
+        if (options.signal?.aborted) {
+          status = "cancelled";
+          break;
+        }
+        console.error(`❌ Eval question failed: ${evalCase.question}`, caseError);
+        result = {
+          run_id: run.id,
+          case_id: evalCase.id,
+          error:
+            caseError instanceof Error ? caseError.message : "The assistant could not answer",
+          latency_ms: Math.round(performance.now() - startedAt),
+        };
+      }
+
+      const { error: resultError } = await supabase.from("assistant_eval_results").insert(result);
+      if (resultError) console.error("Failed to save eval result:", resultError);
+
+      results.push({
+        page_accuracy: result.page_accuracy ?? null,
+        answer_overlap: result.answer_overlap ?? null,
+        latency_ms: result.latency_ms ?? null,
+        cost: result.cost ?? null,
+        error: result.error ?? null,
+      });
+      options.onProgress?.({ done: index + 1, total: cases.length });
+    }
+
+    const summary = summarizeResults(results);
+    if (status === "completed" && summary.error_count === results.length) {
+      status = "failed";
+    }
+
+    const { data: finished, error: finishError } = await supabase
+      .from("assistant_eval_runs")
+      .update({ ...summary, status, completed_at: new Date().toISOString() })
+      .eq("id", run.id)
+      .select()
+      .single();
+
+    if (finishError) throw finishError;
+
+    console.log(`✅ Eval run ${run.id} ${status}:`, summary);
+    return toRun(finished);
+  }
+}
+
+export const assistantEvalService = new AssistantEvalService();
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AuditLogEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+
+export type AuditEntityType =
+  | "patient"
+  | "trial_patient"
+  | "trial_document"
+  | "patient_checklist"
+  | "qa_item"
+  | "adverse_event";
+
+export type AuditAction = "create" | "update" | "delete" | "status_change";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  patient: "Patient",
+  trial_patient: "Trial enrollment",
+  trial_document: "Trial document",
+  patient_checklist: "Patient checklist",
+  qa_item: "Q&A item",
+  adverse_event: "Adverse event",
+};
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  actorId?: string;
+  trialId?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+}
+
+class AuditService {
+  /**
+   * Attach a reason for change to a write. Audit entries themselves are written
+   * by database triggers, which store the reason with the entry.
+   */
+  withReason<Query extends { setHeader(name: string, value: string): unknown }>(
+    query: Query,
+    reason?: string | null
+  ): Query {
+    const text = reason?.trim();
+    if (!text) return query;
+
+    // Headers are ASCII only, so the UTF-8 text travels as base64
+    const bytes = new TextEncoder().encode(text);
+    query.setHeader("x-audit-reason", btoa(String.fromCharCode(...bytes)));
+    return query;
+  }
+
+  /**
+   * Full history of one entity, newest first
+   */
+  async getEntityHistory(
+    entityType: AuditEntityType,
+    entityId: string
+  ): Promise<AuditLogEntry[]> {
+    const { data, error } = await supabase
+      .from("audit_log")
+      .select("*")
+      .eq("entity_type", entityType)
+      .eq("entity_id", entityId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Organization-wide audit log, newest first
+   */
+  async getOrganizationLog(
+    organizationId: string,
+    filters: AuditLogFilters = {},
+    limit = 1000
+  ): Promise<AuditLogEntry[]> {
+    let query = supabase
+      .from("audit_log")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+    if (filters.action) query = query.eq("action", filters.action);
+    if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+    if (filters.trialId) query = query.eq("trial_id", filters.trialId);
+    if (filters.from) query = query.gte("created_at", filters.from);
+    if (filters.to) query = query.lte("created_at", filters.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * CSV export of audit entries, one row per entry
+   */
+  toCSV(entries: AuditLogEntry[]): string {
+    const headers = [
+      "Timestamp",
+      "Actor",
+      "Entity Type",
+      "Entity",
+      "Entity ID",
+      "Action",
+      "Changed Fields",
+      "Before",
+      "After",
+      "Reason",
+    ];
+
+    const rows = entries.map((entry) => [
+      entry.created_at,
+      entry.actor_name || entry.actor_id || "",
+      AUDIT_ENTITY_LABELS[entry.entity_type as AuditEntityType] || entry.entity_type,
+      entry.entity_label || "",
+      entry.entity_id,
+      entry.action,
+      entry.changed_fields.join("; "),
+      entry.before ? JSON.stringify(entry.before) : "",
+      entry.after ? JSON.stringify(entry.after) : "",
+      entry.reason || "",
+    ]);
+
+    return [headers, ...rows]
+      .map((row) => row.map((cell) => this.escapeCSV(cell)).join(","))
+      .join("\n");
+  }
+
+  private escapeCSV(value: string): string {
+    if (/[",\n\r]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+}
+
+export const auditService = new AuditService();
@@ -11,6 +11,8 @@ interface BackendResponse {
     relevance?: string;
     context?: string;
     highlightURL?: string;
+    document_id?: string;
+    document_name?: string;
   }>;
   source: 'primary' | 'chatpdf' | 'mock';
   timestamp: number;
@@ -26,6 +28,8 @@ interface BackendError {
 interface QueryOptions {
   message: string;
   documentId: string;
+  // All documents to search; defaults to [documentId]
+  documentIds?: string[];
   documentData?: {
     document_name?: string;
     document_url?: string;
@@ -53,10 +57,15 @@ class BackendFallbackService {
    * Main query method that handles primary backend with ChatPDF fallback
    */
   async query(options: QueryOptions): Promise<BackendResponse> {
-    const { message, documentId, documentData, userId, limit = 5, timeout } = options;
+    const { message, documentId, documentIds, documentData, userId, limit = 5, timeout } = options;
+    // ChatPDF only gets one document, so it can't answer a multi-document question
+    const isMultiDocument = (documentIds?.length ?? 0) > 1;
 
     // Check if ChatPDF should be used as primary
     if (shouldUseChatPDFAsPrimary()) {
+      if (isMultiDocument) {
+        throw new Error('ChatPDF can only answer questions about a single document');
+      }
       console.log('🔄 Using ChatPDF as primary service');
       return this.queryWithChatPDF(message, documentId, documentData);
     }
@@ -67,6 +76,7 @@ class BackendFallbackService {
       const response = await this.queryPrimaryBackend({
         message,
         documentId,
+        documentIds,
         userId,
         limit,
         timeout: timeout || this.requestTimeout,
@@ -82,7 +92,9 @@ class BackendFallbackService {
       
       // Check if we should try ChatPDF fallback
       const chatPDFService = getChatPDFService();
-      if (chatPDFService && this.shouldUseFallback(primaryError)) {
+      if (isMultiDocument) {
+        console.warn('⚠️ Skipping ChatPDF fallback: multi-document question');
+      } else if (chatPDFService && this.shouldUseFallback(primaryError)) {
         console.log('🔄 Attempting ChatPDF fallback');
         
         try {
@@ -96,7 +108,7 @@ class BackendFallbackService {
       }
 
       // No fallback available or not appropriate, throw original error
-      throw this.createBackendError(primaryError, 'primary');
+      throw this.createBackendError(primaryError, 'primary', !isMultiDocument);
     }
   }
 
@@ -106,11 +118,12 @@ class BackendFallbackService {
   private async queryPrimaryBackend(options: {
     message: string;
     documentId: string;
+    documentIds?: string[];
     userId: string;
     limit: number;
     timeout: number;
   }): Promise<{ response: string; sources?: any[] }> {
-    const { message, documentId, userId, limit, timeout } = options;
+    const { message, documentId, documentIds, userId, limit, timeout } = options;
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -120,7 +133,7 @@ class BackendFallbackService {
         message: `${message}. Please be thorough and provide references to all relevant sections of the document, including page numbers and section titles where this information appears.`,
         user_id: userId,
         limit,
-        document_ids: documentId ? [documentId] : undefined,
+        document_ids: documentIds?.length ? documentIds : documentId ? [documentId] : undefined,
       };
 
       console.log('🔍 Primary Backend Request:', {
@@ -265,14 +278,18 @@ class BackendFallbackService {
   /**
    * Create a structured error for backend failures
    */
-  private createBackendError(error: unknown, source: 'primary' | 'chatpdf'): BackendError {
+  private createBackendError(
+    error: unknown,
+    source: 'primary' | 'chatpdf',
+    fallbackPossible = true
+  ): BackendError {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
     return {
       error: errorMessage,
       source,
       canRetry: this.shouldUseFallback(error),
-      suggestFallback: source === 'primary' && !!getChatPDFService(),
+      suggestFallback: fallbackPossible && source === 'primary' && !!getChatPDFService(),
     };
   }
 
@@ -0,0 +1,495 @@
+import {
+  addDays,
+  addMonths,
+  format,
+  parseISO,
+  startOfMonth,
+  subDays,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { PatientVisit, VisitType } from "./visitScheduleService";
+
+export type BudgetLineItem =
+  Database["public"]["Tables"]["trial_budget_items"]["Row"];
+export type BudgetCategory = "per_visit" | "procedure" | "pass_through" | "overhead";
+
+export const BUDGET_CATEGORY_LABELS: Record<BudgetCategory, string> = {
+  per_visit: "Per-visit fees",
+  procedure: "Procedures",
+  pass_through: "Pass-through costs",
+  overhead: "Overhead",
+};
+
+export const BUDGET_CATEGORIES = Object.keys(
+  BUDGET_CATEGORY_LABELS
+) as BudgetCategory[];
+
+/**
+ * Editable line item. Items without an id are new.
+ */
+export interface BudgetLineItemInput {
+  id?: string;
+  category: BudgetCategory;
+  name: string;
+  description?: string | null;
+  unit_cost: number;
+  quantity: number;
+  overhead_percent?: number | null;
+  visit_type?: VisitType | null;
+  schedule_item_id?: string | null;
+}
+
+/**
+ * What actuals are computed from: the trial's completed visits and its
+ * pass-through costs, i.e. invoice amounts recorded on visit documents and
+ * approved patient payments
+ */
+export interface BudgetActualsSource {
+  completedVisits: Pick<
+    PatientVisit,
+    "id" | "visit_date" | "visit_type" | "schedule_item_id"
+  >[];
+  passThrough: { amount: number; currency: string | null; date: string }[];
+}
+
+export interface BudgetLineSummary {
+  item: BudgetLineItem;
+  budgeted: number;
+  // Pass-through actuals are only known per category
+  actual: number | null;
+  // Completed visits the item was charged for
+  units: number;
+}
+
+export interface BudgetMonthPoint {
+  // yyyy-MM
+  month: string;
+  actual: number | null;
+  cumulative: number | null;
+  projected: number | null;
+}
+
+export interface TrialBudgetSummary {
+  trialId: string;
+  currency: string;
+  lines: BudgetLineSummary[];
+  byCategory: Record<BudgetCategory, { budgeted: number; actual: number }>;
+  totalBudget: number;
+  spentToDate: number;
+  remaining: number;
+  // Percentage of the budget spent
+  utilization: number;
+  // Average monthly spend over the last BURN_RATE_WINDOW_DAYS
+  monthlyBurnRate: number;
+  // yyyy-MM-dd, null when nothing is being spent or the budget is exhausted
+  projectedRunOutDate: string | null;
+  isOverBudget: boolean;
+  monthly: BudgetMonthPoint[];
+  // Pass-through amounts in another currency, left out of the actuals
+  excludedPassThrough: number;
+}
+
+// Tag of the visit_documents records holding sponsor invoices (set by the
+// send_sponsor_invoice database function)
+export const SPONSOR_INVOICE_TAG = "sponsor_invoice";
+
+// Visit document kinds whose amount is a pass-through cost. Patient expense
+// receipts aren't among them: they count through their patient_payments entry.
+const PASS_THROUGH_DOCUMENT_TYPES = ["invoice", "billing_statement"] as const;
+// Patient payments that count as spent
+const SPENT_PAYMENT_STATUSES = ["approved", "paid"];
+
+const BURN_RATE_WINDOW_DAYS = 90;
+// How far ahead the monthly series projects spending
+const PROJECTION_MONTHS = 12;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+const toMonth = (date: string) => date.slice(0, 7);
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Line item with its numeric columns as numbers; PostgREST may return
+ * numeric columns as strings
+ */
+export function normalizeBudgetItem(item: BudgetLineItem): BudgetLineItem {
+  return {
+    ...item,
+    unit_cost: Number(item.unit_cost),
+    quantity: Number(item.quantity),
+    overhead_percent:
+      item.overhead_percent === null ? null : Number(item.overhead_percent),
+  };
+}
+
+/**
+ * Whether a visit-driven item (per-visit fee or procedure) applies to a visit
+ */
+export function appliesToVisit(
+  item: Pick<BudgetLineItem, "schedule_item_id" | "visit_type">,
+  visit: Pick<PatientVisit, "schedule_item_id" | "visit_type">
+) {
+  if (item.schedule_item_id) return visit.schedule_item_id === item.schedule_item_id;
+  if (item.visit_type) return visit.visit_type === item.visit_type;
+  return true;
+}
+
+/**
+ * Budgeted amounts, actuals, burn rate and projected run-out date of a trial.
+ * Percentage overhead follows the direct costs; flat overhead is booked when
+ * it is added to the budget.
+ */
+export function summarizeBudget(
+  trialId: string,
+  items: BudgetLineItem[],
+  currency: string,
+  source: BudgetActualsSource,
+  today: Date = new Date()
+): TrialBudgetSummary {
+  const byCategory = Object.fromEntries(
+    BUDGET_CATEGORIES.map((category) => [category, { budgeted: 0, actual: 0 }])
+  ) as TrialBudgetSummary["byCategory"];
+  const entries: { date: string; amount: number }[] = [];
+  const lines: BudgetLineSummary[] = [];
+
+  const addActual = (category: BudgetCategory, date: string, amount: number) => {
+    byCategory[category].actual += amount;
+    entries.push({ date, amount });
+  };
+
+  // Direct costs first, overhead percentages depend on them
+  const direct = items.filter((item) => item.category !== "overhead");
+  const overhead = items.filter((item) => item.category === "overhead");
+
+  direct.forEach((item) => {
+    const category = item.category as BudgetCategory;
+    const budgeted = item.unit_cost * item.quantity;
+    byCategory[category].budgeted += budgeted;
+
+    if (category === "pass_through") {
+      lines.push({ item, budgeted, actual: null, units: 0 });
+      return;
+    }
+
+    const visits = source.completedVisits.filter((visit) =>
+      appliesToVisit(item, visit)
+    );
+    visits.forEach((visit) => addActual(category, visit.visit_date, item.unit_cost));
+    lines.push({
+      item,
+      budgeted,
+      actual: visits.length * item.unit_cost,
+      units: visits.length,
+    });
+  });
+
+  let excludedPassThrough = 0;
+  source.passThrough.forEach((cost) => {
+    if (cost.currency && cost.currency !== currency) {
+      excludedPassThrough++;
+      return;
+    }
+    addActual("pass_through", cost.date, cost.amount);
+  });
+
+  const directBudgeted = direct.reduce((sum, item) => sum + item.unit_cost * item.quantity, 0);
+  const directEntries = [...entries];
+
+  overhead.forEach((item) => {
+    if (item.overhead_percent !== null) {
+      const rate = item.overhead_percent / 100;
+      const budgeted = directBudgeted * rate;
+      let actual = 0;
+      directEntries.forEach((entry) => {
+        addActual("overhead", entry.date, entry.amount * rate);
+        actual += entry.amount * rate;
+      });
+      byCategory.overhead.budgeted += budgeted;
+      lines.push({ item, budgeted, actual, units: 0 });
+      return;
+    }
+
+    const budgeted = item.unit_cost * item.quantity;
+    byCategory.overhead.budgeted += budgeted;
+    addActual("overhead", item.created_at.slice(0, 10), budgeted);
+    lines.push({ item, budgeted, actual: budgeted, units: 0 });
+  });
+
+  const totalBudget = BUDGET_CATEGORIES.reduce(
+    (sum, category) => sum + byCategory[category].budgeted,
+    0
+  );
+  const spentToDate = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const remaining = totalBudget - spentToDate;
+
+  const todayString = toDateString(today);
+  const windowStart = toDateString(subDays(today, BURN_RATE_WINDOW_DAYS));
+  const recentSpend = entries
+    .filter((entry) => entry.date > windowStart && entry.date <= todayString)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const monthlyBurnRate = recentSpend / (BURN_RATE_WINDOW_DAYS / 30);
+
+  const isOverBudget = totalBudget > 0 && remaining < 0;
+  const projectedRunOutDate =
+    monthlyBurnRate > 0 && remaining > 0
+      ? toDateString(addDays(today, Math.ceil(remaining / (monthlyBurnRate / 30))))
+      : null;
+
+  // Monthly spend up to this month, then the projection at the current burn rate
+  const spentByMonth: Record<string, number> = {};
+  entries.forEach((entry) => {
+    const month = toMonth(entry.date);
+    spentByMonth[month] = (spentByMonth[month] || 0) + entry.amount;
+  });
+
+  const currentMonth = toMonth(todayString);
+  const firstMonth = Object.keys(spentByMonth).sort()[0] || currentMonth;
+  const monthly: BudgetMonthPoint[] = [];
+  let cumulative = 0;
+
+  for (
+    let month = startOfMonth(parseISO(`${firstMonth}-01`));
+    toMonth(toDateString(month)) <= currentMonth;
+    month = addMonths(month, 1)
+  ) {
+    const key = toMonth(toDateString(month));
+    cumulative += spentByMonth[key] || 0;
+    monthly.push({
+      month: key,
+      actual: round(spentByMonth[key] || 0),
+      cumulative: round(cumulative),
+      projected: key === currentMonth ? round(cumulative) : null,
+    });
+  }
+
+  if (monthlyBurnRate > 0) {
+    for (let i = 1; i <= PROJECTION_MONTHS; i++) {
+      const projected = cumulative + monthlyBurnRate * i;
+      monthly.push({
+        month: toMonth(toDateString(addMonths(parseISO(`${currentMonth}-01`), i))),
+        actual: null,
+        cumulative: null,
+        projected: round(projected),
+      });
+      if (totalBudget > 0 && projected >= totalBudget) break;
+    }
+  }
+
+  return {
+    trialId,
+    currency,
+    lines,
+    byCategory,
+    totalBudget: round(totalBudget),
+    spentToDate: round(spentToDate),
+    remaining: round(remaining),
+    utilization: totalBudget > 0 ? (spentToDate / totalBudget) * 100 : 0,
+    monthlyBurnRate: round(monthlyBurnRate),
+    projectedRunOutDate,
+    isOverBudget,
+    monthly,
+    excludedPassThrough,
+  };
+}
+
+export function formatBudgetAmount(amount: number, currency = "USD") {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+class BudgetService {
+  /**
+   * Budget line items of a trial, in display order
+   */
+  async getLineItems(trialId: string): Promise<BudgetLineItem[]> {
+    const { data, error } = await supabase
+      .from("trial_budget_items")
+      .select("*")
+      .eq("trial_id", trialId)
+      .order("sort_order", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(normalizeBudgetItem);
+  }
+
+  /**
+   * Replace a trial's budget line items and its budget currency
+   */
+  async saveBudget(
+    trialId: string,
+    items: BudgetLineItemInput[],
+    currency: string
+  ): Promise<BudgetLineItem[]> {
+    const current = await this.getLineItems(trialId);
+    const keptIds = new Set(items.filter((item) => item.id).map((item) => item.id));
+    const removedIds = current
+      .filter((item) => !keptIds.has(item.id))
+      .map((item) => item.id);
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from("trial_budget_items")
+        .delete()
+        .in("id", removedIds);
+      if (error) throw error;
+    }
+
+    const toRow = (item: BudgetLineItemInput, index: number) => ({
+      trial_id: trialId,
+      category: item.category,
+      name: item.name.trim(),
+      description: item.description?.trim() || null,
+      unit_cost: Math.max(0, item.unit_cost),
+      quantity: Math.max(0, item.quantity),
+      overhead_percent:
+        item.category === "overhead" ? item.overhead_percent ?? null : null,
+      visit_type: item.visit_type ?? null,
+      schedule_item_id: item.schedule_item_id ?? null,
+      sort_order: index,
+      updated_at: new Date().toISOString(),
+    });
+
+    // Bulk writes need the same columns in every row, so existing and new
+    // items go in separate requests
+    const updatedRows = items.flatMap((item, index) =>
+      item.id ? [{ id: item.id, ...toRow(item, index) }] : []
+    );
+    const newRows = items.flatMap((item, index) =>
+      item.id ? [] : [toRow(item, index)]
+    );
+
+    if (updatedRows.length > 0) {
+      const { error } = await supabase
+        .from("trial_budget_items")
+        .upsert(updatedRows, { onConflict: "id" });
+      if (error) throw error;
+    }
+
+    if (newRows.length > 0) {
+      const { error } = await supabase.from("trial_budget_items").insert(newRows);
+      if (error) throw error;
+    }
+
+    const { error: currencyError } = await supabase
+      .from("trials")
+      .update({ budget_currency: currency })
+      .eq("id", trialId);
+    if (currencyError) throw currencyError;
+
+    console.log(`💰 Saved budget for trial ${trialId}: ${items.length} line items`);
+    return this.getLineItems(trialId);
+  }
+
+  /**
+   * Completed visits and pass-through costs of the given trials, by trial
+   */
+  async getActualsSources(
+    trialIds: string[]
+  ): Promise<Record<string, BudgetActualsSource>> {
+    const [
+      { data: visits, error: visitsError },
+      { data: documents, error: documentsError },
+      { data: payments, error: paymentsError },
+    ] = await Promise.all([
+      supabase
+        .from("patient_visits")
+        .select("id, trial_id, visit_date, visit_type, schedule_item_id")
+        .in("trial_id", trialIds)
+        .eq("status", "completed"),
+      supabase
+        .from("visit_documents")
+        .select(
+          "amount, currency, is_latest, tags, patient_visits!visit_documents_visit_id_fkey!inner(trial_id, visit_date)"
+        )
+        .in("patient_visits.trial_id", trialIds)
+        .in("document_type", [...PASS_THROUGH_DOCUMENT_TYPES])
+        .not("amount", "is", null),
+      supabase
+        .from("patient_payments")
+        .select("trial_id, amount, currency, created_at, patient_visits!patient_payments_visit_id_fkey(visit_date)")
+        .in("trial_id", trialIds)
+        .in("status", SPENT_PAYMENT_STATUSES),
+    ]);
+
+    if (visitsError) throw visitsError;
+    if (documentsError) throw documentsError;
+    if (paymentsError) throw paymentsError;
+
+    const sources: Record<string, BudgetActualsSource> = Object.fromEntries(
+      trialIds.map((trialId) => [trialId, { completedVisits: [], passThrough: [] }])
+    );
+
+    (visits || []).forEach((visit) => {
+      sources[visit.trial_id]?.completedVisits.push(visit);
+    });
+
+    (documents || [])
+      // Older versions of a document are superseded by the latest one, and
+      // invoices sent to the sponsor are revenue, not costs
+      .filter(
+        (document) =>
+          document.is_latest !== false &&
+          !document.tags?.includes(SPONSOR_INVOICE_TAG)
+      )
+      .forEach((document) => {
+        sources[document.patient_visits.trial_id]?.passThrough.push({
+          amount: Number(document.amount),
+          currency: document.currency,
+          date: document.patient_visits.visit_date,
+        });
+      });
+
+    (payments || []).forEach((payment) => {
+      sources[payment.trial_id]?.passThrough.push({
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        date: payment.patient_visits?.visit_date ?? payment.created_at.slice(0, 10),
+      });
+    });
+
+    return sources;
+  }
+
+  /**
+   * Budget summaries of the given trials, keyed by trial id
+   */
+  async getBudgetSummaries(
+    trialIds: string[]
+  ): Promise<Record<string, TrialBudgetSummary>> {
+    if (trialIds.length === 0) return {};
+
+    const [{ data: items, error: itemsError }, { data: trials, error: trialsError }, sources] =
+      await Promise.all([
+        supabase
+          .from("trial_budget_items")
+          .select("*")
+          .in("trial_id", trialIds)
+          .order("sort_order", { ascending: true }),
+        supabase.from("trials").select("id, budget_currency").in("id", trialIds),
+        this.getActualsSources(trialIds),
+      ]);
+
+    if (itemsError) throw itemsError;
+    if (trialsError) throw trialsError;
+
+    return Object.fromEntries(
+      (trials || []).map((trial) => [
+        trial.id,
+        summarizeBudget(
+          trial.id,
+          (items || [])
+            .filter((item) => item.trial_id === trial.id)
+            .map(normalizeBudgetItem),
+          trial.budget_currency,
+          sources[trial.id]
+        ),
+      ])
+    );
+  }
+}
+
+export const budgetService = new BudgetService();
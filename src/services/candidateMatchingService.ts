@@ -0,0 +1,509 @@
+// Candidate Matching Service - Pre-screens the patient registry against a
+// trial's eligibility criteria. Age and BMI criteria are checked with
+// deterministic rules; the remaining free-text criteria are judged by Claude
+// from the medical history, medications and allergies. Patients are sent
+// under anonymous keys without names or contact details.
+
+import Anthropic from '@anthropic-ai/sdk';
+import { differenceInYears, parseISO } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+import type { EligibilityCriterion, ScreeningAnswer } from './screeningService';
+
+export type CandidatePatient = Pick<
+  Database['public']['Tables']['patients']['Row'],
+  | 'id'
+  | 'patient_code'
+  | 'first_name'
+  | 'last_name'
+  | 'date_of_birth'
+  | 'gender'
+  | 'height_cm'
+  | 'weight_kg'
+  | 'medical_history'
+  | 'current_medications'
+  | 'known_allergies'
+>;
+
+export interface CriterionAssessment {
+  criterionId: string;
+  code: string;
+  kind: string;
+  text: string;
+  // Whether the criterion applies to the patient, as in a screening
+  answer: ScreeningAnswer;
+  explanation: string;
+  source: 'rule' | 'ai' | 'none';
+}
+
+export type CandidateVerdict = 'likely_eligible' | 'possibly_eligible' | 'likely_ineligible';
+
+export interface CandidateMatch {
+  patient: CandidatePatient;
+  assessments: CriterionAssessment[];
+  // Inclusion criteria met and exclusion criteria not met
+  satisfied: number;
+  failed: number;
+  unknown: number;
+  // Share of criteria satisfied, 0-1
+  score: number;
+  verdict: CandidateVerdict;
+}
+
+export interface NumericRange {
+  min?: number;
+  minInclusive?: boolean;
+  max?: number;
+  maxInclusive?: boolean;
+}
+
+interface RuleMatch {
+  measure: 'age' | 'bmi';
+  range: NumericRange;
+  // True when the criterion says nothing beyond the age/BMI limit
+  isComplete: boolean;
+}
+
+export const CANDIDATE_VERDICT_LABELS: Record<CandidateVerdict, string> = {
+  likely_eligible: 'Likely eligible',
+  possibly_eligible: 'Needs review',
+  likely_ineligible: 'Likely ineligible',
+};
+
+const CLAUDE_MODEL = "claude-3-5-haiku-20241022";
+
+const MATCHING_SYSTEM_PROMPT = "You are a clinical research coordinator pre-screening a patient registry for a clinical trial. You judge each eligibility criterion only from the patient data given. When the data doesn't mention what a criterion asks about, the answer is unknown; never assume a condition is absent because it isn't listed.";
+
+// Patients judged per request, to keep prompts and answers small
+const PATIENTS_PER_BATCH = 8;
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const RANGE_REGEX = new RegExp(String.raw`(?:between\s+)?${NUMBER}\s*(?:-|–|to|and)\s*${NUMBER}`);
+const COMPARATOR_REGEX = new RegExp(
+  String.raw`(≥|>=|=>|>|≤|<=|=<|<|at least|no less than|not less than|minimum of|greater than|more than|older than|above|over|no more than|not more than|maximum of|up to|less than|younger than|below|under)\s*(?:or equal to\s*)?${NUMBER}`,
+  'g'
+);
+const TRAILING_BOUND_REGEX = new RegExp(
+  String.raw`${NUMBER}\s*(?:years?\s*(?:of age\s*)?|kg\/m2|kg\/m²)?\s*(?:or|and)\s*(older|over|above|more|greater|higher|younger|less|below|under|lower)`
+);
+
+const AGE_KEYWORD_REGEX = /\b(?:age[ds]?|years? old|years? of age)\b/;
+const BMI_KEYWORD_REGEX = /\bbmi\b|body mass index/;
+
+// Words that don't add a condition beyond the age/BMI limit itself
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'or', 'and', 'to', 'at', 'is', 'be', 'must', 'with', 'have', 'has',
+  'patient', 'patients', 'subject', 'subjects', 'participant', 'participants', 'adult', 'adults',
+  'male', 'female', 'males', 'females', 'men', 'women', 'either', 'sex', 'gender',
+  'age', 'aged', 'ages', 'year', 'years', 'old', 'inclusive', 'between',
+  'bmi', 'body', 'mass', 'index', 'kg/m2', 'kg/m²',
+  'least', 'than', 'equal', 'older', 'younger', 'greater', 'less', 'more', 'higher', 'lower',
+  'over', 'under', 'above', 'below', 'up', 'no', 'not', 'minimum', 'maximum',
+  'time', 'screening', 'signing', 'informed', 'consent', 'day', 'visit', 'enrollment',
+]);
+
+const LOWER_BOUND_WORDS = new Set([
+  '≥', '>=', '=>', '>', 'at least', 'no less than', 'not less than', 'minimum of',
+  'greater than', 'more than', 'older than', 'above', 'over',
+]);
+
+const EXCLUSIVE_WORDS = new Set([
+  '>', '<', 'greater than', 'more than', 'older than', 'above', 'over',
+  'less than', 'younger than', 'below', 'under',
+]);
+
+/**
+ * Read a numeric limit such as "18 to 75", "≥ 18.5 and ≤ 35" or
+ * "65 years or older" from a piece of criterion text
+ */
+export function parseNumericRange(text: string): NumericRange | null {
+  const range = text.match(RANGE_REGEX);
+  if (range) {
+    const [low, high] = [parseFloat(range[1]), parseFloat(range[2])];
+    if (low < high) {
+      return { min: low, minInclusive: true, max: high, maxInclusive: true };
+    }
+  }
+
+  const result: NumericRange = {};
+
+  for (const match of text.matchAll(COMPARATOR_REGEX)) {
+    const word = match[1];
+    const value = parseFloat(match[2]);
+    const inclusive = !EXCLUSIVE_WORDS.has(word) || /or equal to/.test(match[0]);
+
+    if (LOWER_BOUND_WORDS.has(word)) {
+      result.min = value;
+      result.minInclusive = inclusive;
+    } else {
+      result.max = value;
+      result.maxInclusive = inclusive;
+    }
+  }
+
+  const trailing = text.match(TRAILING_BOUND_REGEX);
+  if (trailing && result.min === undefined && result.max === undefined) {
+    const value = parseFloat(trailing[1]);
+    if (/older|over|above|more|greater|higher/.test(trailing[2])) {
+      result.min = value;
+      result.minInclusive = true;
+    } else {
+      result.max = value;
+      result.maxInclusive = true;
+    }
+  }
+
+  return result.min !== undefined || result.max !== undefined ? result : null;
+}
+
+export function isInRange(value: number, range: NumericRange): boolean {
+  if (range.min !== undefined) {
+    if (range.minInclusive ? value < range.min : value <= range.min) return false;
+  }
+  if (range.max !== undefined) {
+    if (range.maxInclusive ? value > range.max : value >= range.max) return false;
+  }
+  return true;
+}
+
+export function formatRange(range: NumericRange): string {
+  if (range.min !== undefined && range.max !== undefined) {
+    return `${range.min}–${range.max}`;
+  }
+  if (range.min !== undefined) return `${range.minInclusive ? '≥' : '>'} ${range.min}`;
+  return `${range.maxInclusive ? '≤' : '<'} ${range.max}`;
+}
+
+/**
+ * Age or BMI limit stated by a criterion, if any. A criterion that states both
+ * ("aged 18-65 with BMI 18-32") gives the BMI limit but is left incomplete, so
+ * the whole criterion is assessed by AI.
+ */
+export function parseRuleCriterion(criterionText: string): RuleMatch | null {
+  const text = criterionText.toLowerCase();
+  const keywords = { bmi: text.match(BMI_KEYWORD_REGEX), age: text.match(AGE_KEYWORD_REGEX) };
+
+  for (const [measure, other] of [
+    ['bmi', 'age'],
+    ['age', 'bmi'],
+  ] as const) {
+    const keywordMatch = keywords[measure];
+    if (!keywordMatch) continue;
+
+    const keywordStart = keywordMatch.index!;
+    const keywordEnd = keywordStart + keywordMatch[0].length;
+    let start = Math.max(0, keywordStart - 40);
+    let end = keywordEnd + 60;
+
+    // Don't reach across the other measure's keyword for a limit
+    const otherMatch = keywords[other];
+    if (otherMatch) {
+      if (otherMatch.index! < keywordStart) {
+        start = Math.max(start, otherMatch.index! + otherMatch[0].length);
+      } else {
+        end = Math.min(end, otherMatch.index!);
+      }
+    }
+
+    // Limits come right after the keyword ("BMI ≥ 30") or right before it
+    // ("18 years of age or older")
+    const range =
+      parseNumericRange(text.slice(keywordStart, end)) ?? parseNumericRange(text.slice(start, end));
+    if (!range) continue;
+
+    const remainingWords = text
+      .replace(/[≥≤<>=,.;:()–-]/g, ' ')
+      .split(/\s+/)
+      .filter((word) => word && !/^\d+(\.\d+)?$/.test(word) && !FILLER_WORDS.has(word));
+
+    return { measure, range, isComplete: !otherMatch && remainingWords.length === 0 };
+  }
+
+  return null;
+}
+
+export function getPatientAge(patient: Pick<CandidatePatient, 'date_of_birth'>, today = new Date()) {
+  return patient.date_of_birth
+    ? differenceInYears(today, parseISO(patient.date_of_birth))
+    : null;
+}
+
+/**
+ * Unrounded BMI, so limits like "BMI ≥ 30" are checked exactly; use formatBmi to show it
+ */
+export function getPatientBmi(patient: Pick<CandidatePatient, 'height_cm' | 'weight_kg'>) {
+  if (!patient.height_cm || !patient.weight_kg) return null;
+  const heightM = patient.height_cm / 100;
+  return patient.weight_kg / (heightM * heightM);
+}
+
+export const formatBmi = (bmi: number) => bmi.toFixed(1);
+
+/**
+ * Rank candidates: no failed criteria first, then by share of criteria satisfied
+ */
+export function summarizeMatch(
+  patient: CandidatePatient,
+  assessments: CriterionAssessment[]
+): CandidateMatch {
+  let satisfied = 0;
+  let failed = 0;
+  let unknown = 0;
+
+  assessments.forEach((assessment) => {
+    if (assessment.answer === 'unknown') unknown++;
+    else if ((assessment.kind === 'inclusion') === (assessment.answer === 'met')) satisfied++;
+    else failed++;
+  });
+
+  return {
+    patient,
+    assessments,
+    satisfied,
+    failed,
+    unknown,
+    score: assessments.length ? satisfied / assessments.length : 0,
+    verdict: failed > 0 ? 'likely_ineligible' : unknown > 0 ? 'possibly_eligible' : 'likely_eligible',
+  };
+}
+
+const VERDICT_ORDER: Record<CandidateVerdict, number> = {
+  likely_eligible: 0,
+  possibly_eligible: 1,
+  likely_ineligible: 2,
+};
+
+export function rankMatches(matches: CandidateMatch[]): CandidateMatch[] {
+  return [...matches].sort(
+    (a, b) =>
+      VERDICT_ORDER[a.verdict] - VERDICT_ORDER[b.verdict] ||
+      b.score - a.score ||
+      a.failed - b.failed ||
+      a.patient.patient_code.localeCompare(b.patient.patient_code)
+  );
+}
+
+class CandidateMatchingService {
+  private anthropic: Anthropic | null;
+
+  constructor() {
+    const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
+    this.anthropic = apiKey
+      ? new Anthropic({ apiKey, dangerouslyAllowBrowser: true })
+      : null;
+  }
+
+  isAiAvailable(): boolean {
+    return !!this.anthropic;
+  }
+
+  /**
+   * Check every patient against the criteria and return them ranked
+   */
+  async findCandidates(
+    patients: CandidatePatient[],
+    criteria: EligibilityCriterion[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<CandidateMatch[]> {
+    console.log(`🔎 Pre-screening ${patients.length} patients against ${criteria.length} criteria`);
+
+    const ruleResults = new Map<string, CriterionAssessment[]>();
+    const aiCriteria: EligibilityCriterion[] = [];
+    const rules = new Map(criteria.map((criterion) => [criterion.id, parseRuleCriterion(criterion.text)]));
+
+    criteria.forEach((criterion) => {
+      if (!rules.get(criterion.id)?.isComplete) aiCriteria.push(criterion);
+    });
+
+    patients.forEach((patient) => {
+      ruleResults.set(
+        patient.id,
+        criteria
+          .filter((criterion) => rules.get(criterion.id)?.isComplete)
+          .map((criterion) => this.applyRule(criterion, rules.get(criterion.id)!, patient))
+      );
+    });
+
+    const aiResults = new Map<string, CriterionAssessment[]>();
+    const batches: CandidatePatient[][] = [];
+    for (let i = 0; i < patients.length; i += PATIENTS_PER_BATCH) {
+      batches.push(patients.slice(i, i + PATIENTS_PER_BATCH));
+    }
+
+    let done = 0;
+    onProgress?.(done, patients.length);
+
+    for (const batch of batches) {
+      const assessments = await this.assessWithAi(batch, aiCriteria);
+      assessments.forEach((value, patientId) => aiResults.set(patientId, value));
+      done += batch.length;
+      onProgress?.(done, patients.length);
+    }
+
+    const order = new Map(criteria.map((criterion, index) => [criterion.id, index]));
+    const matches = patients.map((patient) =>
+      summarizeMatch(
+        patient,
+        [...(ruleResults.get(patient.id) || []), ...(aiResults.get(patient.id) || [])].sort(
+          (a, b) => order.get(a.criterionId)! - order.get(b.criterionId)!
+        )
+      )
+    );
+
+    console.log('✅ Pre-screening finished');
+    return rankMatches(matches);
+  }
+
+  private applyRule(
+    criterion: EligibilityCriterion,
+    rule: RuleMatch,
+    patient: CandidatePatient
+  ): CriterionAssessment {
+    const base = {
+      criterionId: criterion.id,
+      code: criterion.code,
+      kind: criterion.kind,
+      text: criterion.text,
+      source: 'rule' as const,
+    };
+    const isAge = rule.measure === 'age';
+    const value = isAge ? getPatientAge(patient) : getPatientBmi(patient);
+    const label = isAge ? 'Age' : 'BMI';
+
+    if (value === null) {
+      return {
+        ...base,
+        answer: 'unknown',
+        explanation: isAge
+          ? 'Date of birth is missing.'
+          : 'Height or weight is missing.',
+      };
+    }
+
+    const inRange = isInRange(value, rule.range);
+    return {
+      ...base,
+      answer: inRange ? 'met' : 'not_met',
+      explanation: `${label} ${isAge ? value : formatBmi(value)} is ${inRange ? 'within' : 'outside'} ${formatRange(rule.range)}.`,
+    };
+  }
+
+  /**
+   * Ask Claude to judge the free-text criteria for a batch of patients
+   */
+  private async assessWithAi(
+    patients: CandidatePatient[],
+    criteria: EligibilityCriterion[]
+  ): Promise<Map<string, CriterionAssessment[]>> {
+    const results = new Map<string, CriterionAssessment[]>();
+    const unknownFor = (criterion: EligibilityCriterion, explanation: string): CriterionAssessment => ({
+      criterionId: criterion.id,
+      code: criterion.code,
+      kind: criterion.kind,
+      text: criterion.text,
+      answer: 'unknown',
+      explanation,
+      source: 'none',
+    });
+
+    if (criteria.length === 0) return results;
+
+    if (!this.anthropic) {
+      patients.forEach((patient) =>
+        results.set(
+          patient.id,
+          criteria.map((criterion) =>
+            unknownFor(criterion, 'Needs manual review (AI pre-screening is not configured).')
+          )
+        )
+      );
+      return results;
+    }
+
+    const patientRecords = patients
+      .map((patient, index) => {
+        const bmi = getPatientBmi(patient);
+        return `P${index + 1}:
+- Age: ${getPatientAge(patient) ?? 'unknown'}
+- Sex: ${patient.gender || 'unknown'}
+- BMI: ${bmi === null ? 'unknown' : formatBmi(bmi)}
+- Medical history: ${patient.medical_history?.trim() || 'not recorded'}
+- Current medications: ${patient.current_medications?.trim() || 'not recorded'}
+- Known allergies: ${patient.known_allergies?.trim() || 'not recorded'}`;
+      })
+      .join('\n\n');
+
+    const criteriaList = criteria
+      .map((criterion, index) => `C${index + 1} (${criterion.kind}): ${criterion.text}`)
+      .join('\n');
+
+    let parsed: Record<string, Record<string, { answer?: string; reason?: string }>> = {};
+
+    try {
+      const response = await this.anthropic.messages.create({
+        model: CLAUDE_MODEL,
+        max_tokens: 4000,
+        system: MATCHING_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: `Eligibility criteria:
+${criteriaList}
+
+Patients:
+${patientRecords}
+
+For every patient and criterion, say whether the criterion applies to the patient: "met", "not_met" or "unknown". For exclusion criteria, "met" means the patient has the excluding condition. Answer with a JSON object only, no other text:
+{"P1": {"C1": {"answer": "met", "reason": "<one short sentence citing the patient data>"}, ...}, ...}`,
+          },
+        ],
+      });
+
+      const content = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+      parsed = JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1));
+    } catch (error) {
+      console.error('❌ AI pre-screening failed for a batch:', error);
+    }
+
+    patients.forEach((patient, patientIndex) => {
+      const answers = parsed[`P${patientIndex + 1}`] || {};
+
+      results.set(
+        patient.id,
+        criteria.map((criterion, criterionIndex) => {
+          const result = answers[`C${criterionIndex + 1}`];
+          const answer = result?.answer as ScreeningAnswer;
+
+          if (!result || !['met', 'not_met', 'unknown'].includes(answer)) {
+            return unknownFor(criterion, 'The AI could not assess this criterion.');
+          }
+
+          return {
+            criterionId: criterion.id,
+            code: criterion.code,
+            kind: criterion.kind,
+            text: criterion.text,
+            answer,
+            explanation: result.reason?.trim() || 'No explanation given.',
+            source: 'ai',
+          };
+        })
+      );
+    });
+
+    return results;
+  }
+}
+
+// Singleton instance
+let candidateMatchingService: CandidateMatchingService | null = null;
+
+export function getCandidateMatchingService(): CandidateMatchingService {
+  if (!candidateMatchingService) {
+    candidateMatchingService = new CandidateMatchingService();
+  }
+  return candidateMatchingService;
+}
+
+export default CandidateMatchingService;
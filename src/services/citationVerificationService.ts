@@ -0,0 +1,216 @@
+// Citation Verification Service
+// Checks the quotes of an AI answer against the text layer of the cited PDFs:
+// corrects the page of each quote found, records where it sits on the page and
+// marks the quotes that aren't in the document as unverified
+
+import PDFExtractionService from './pdfExtractionService';
+import { buildTextLayer, TextRange } from '@/lib/pdfTextLayer';
+import type { SourceDocument, UnifiedAIResponse, UnifiedSource } from './aiResponseAdapter';
+
+// Share of the quote's words a passage must contain to count as the quote
+const MATCH_THRESHOLD = 0.8;
+// Extracted documents kept in memory
+const MAX_CACHED_DOCUMENTS = 5;
+
+interface PageWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedPage {
+  pageNumber: number;
+  words: PageWord[];
+}
+
+interface QuoteMatch {
+  page: number;
+  textRange: TextRange;
+  // Share of the quote's words found, 0-1
+  score: number;
+}
+
+// Case, accents and punctuation don't matter when comparing words
+const normalizeWord = (word: string) =>
+  word
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+
+function toWords(text: string): PageWord[] {
+  return Array.from(text.matchAll(/\S+/g))
+    .map((match) => ({
+      word: normalizeWord(match[0]),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length
+    }))
+    .filter((word) => word.word.length > 0);
+}
+
+/**
+ * Best passage of a page for a quote: a window of as many words as the quote,
+ * scored by how many of the quote's words it contains
+ */
+function matchPage(page: IndexedPage, quote: string[]): QuoteMatch | null {
+  const { words } = page;
+  const size = quote.length;
+  if (size === 0 || words.length === 0) return null;
+
+  const needed = new Map<string, number>();
+  quote.forEach((word) => needed.set(word, (needed.get(word) || 0) + 1));
+
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: 0, first: 0 };
+
+  const add = (word: string) => {
+    const count = inWindow.get(word) || 0;
+    if (count < (needed.get(word) || 0)) matched++;
+    inWindow.set(word, count + 1);
+  };
+  const remove = (word: string) => {
+    const count = (inWindow.get(word) || 0) - 1;
+    inWindow.set(word, count);
+    if (count < (needed.get(word) || 0)) matched--;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    add(words[i].word);
+    if (i >= size) remove(words[i - size].word);
+
+    const first = Math.max(0, i - size + 1);
+    if (matched > best.matched) best = { matched, first };
+  }
+
+  if (best.matched === 0) return null;
+
+  // Trim the window to the words that belong to the quote
+  const window = words.slice(best.first, best.first + size);
+  const firstWord = window.find((word) => needed.has(word.word))!;
+  const lastWord = [...window].reverse().find((word) => needed.has(word.word))!;
+
+  return {
+    page: page.pageNumber,
+    textRange: { start: firstWord.start, end: lastWord.end },
+    score: best.matched / size
+  };
+}
+
+class CitationVerificationService {
+  private pageCache = new Map<string, Promise<IndexedPage[]>>();
+
+  /**
+   * Text layer words of every page of a PDF, extracted once per URL
+   */
+  private getPages(url: string): Promise<IndexedPage[]> {
+    const cached = this.pageCache.get(url);
+    if (cached) return cached;
+
+    const pages = PDFExtractionService.extractPages(url).then((extracted) =>
+      extracted.map((page) => ({
+        pageNumber: page.pageNumber,
+        words: toWords(buildTextLayer(page.textItems).text)
+      }))
+    );
+    pages.catch(() => this.pageCache.delete(url));
+
+    this.pageCache.set(url, pages);
+    if (this.pageCache.size > MAX_CACHED_DOCUMENTS) {
+      this.pageCache.delete(this.pageCache.keys().next().value!);
+    }
+    return pages;
+  }
+
+  /**
+   * Where a quote appears in a document. On equal scores the claimed page wins.
+   * Returns null when no passage contains enough of the quote.
+   */
+  private findQuote(pages: IndexedPage[], quote: string, claimedPage?: number): QuoteMatch | null {
+    const quoteWords = toWords(quote).map((word) => word.word);
+    let best: QuoteMatch | null = null;
+
+    for (const page of pages) {
+      const match = matchPage(page, quoteWords);
+      if (!match) continue;
+      if (
+        !best ||
+        match.score > best.score ||
+        (match.score === best.score && match.page === claimedPage)
+      ) {
+        best = match;
+      }
+    }
+
+    return best && best.score >= MATCH_THRESHOLD ? best : null;
+  }
+
+  private async verifySource(
+    source: UnifiedSource,
+    documents: SourceDocument[]
+  ): Promise<UnifiedSource> {
+    if (!source.exactText) return source;
+
+    const document =
+      (source.documentId && documents.find((doc) => doc.id === source.documentId)) ||
+      documents[0];
+    if (!document?.url) return source;
+
+    let pages: IndexedPage[];
+    try {
+      pages = await this.getPages(document.url);
+    } catch (error) {
+      console.warn('⚠️ Citation verification skipped, PDF could not be read:', error);
+      return source;
+    }
+
+    const match = this.findQuote(pages, source.exactText, source.page);
+    // Pages are matched one at a time, so a quote across pages can't be checked
+    if (!match) return source.endPage ? source : { ...source, verified: false };
+
+    const corrected = match.page < source.page || match.page > (source.endPage ?? source.page);
+    return {
+      ...source,
+      page: match.page,
+      endPage: corrected ? undefined : source.endPage,
+      highlightURL: corrected ? `${document.url}#page=${match.page}` : source.highlightURL,
+      verified: true,
+      textRange: match.textRange,
+      claimedPage: corrected ? source.page : undefined
+    };
+  }
+
+  /**
+   * Verify every source of an answer against the documents it was asked about.
+   * When a PDF can't be read, its sources are returned unchanged.
+   */
+  async verifyResponse(
+    response: UnifiedAIResponse,
+    documents: SourceDocument[]
+  ): Promise<UnifiedAIResponse> {
+    if (response.sources.length === 0) return response;
+
+    const sources = await Promise.all(
+      response.sources.map((source) => this.verifySource(source, documents))
+    );
+
+    const verified = sources.filter((source) => source.verified).length;
+    const corrected = sources.filter((source) => source.claimedPage !== undefined).length;
+    console.log(
+      `✅ Citations verified: ${verified}/${sources.length} (${corrected} page corrections)`
+    );
+
+    return { ...response, sources };
+  }
+}
+
+// Singleton instance
+let citationVerificationService: CitationVerificationService | null = null;
+
+export function getCitationVerificationService(): CitationVerificationService {
+  if (!citationVerificationService) {
+    citationVerificationService = new CitationVerificationService();
+  }
+  return citationVerificationService;
+}
+
+export default CitationVerificationService;
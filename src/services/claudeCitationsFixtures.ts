@@ -0,0 +1,133 @@
+// Recorded Claude citations responses, replayed when VITE_ANTHROPIC_FIXTURES=true.
+// Record more with VITE_ANTHROPIC_RECORD_FIXTURES=true: every live answer is
+// logged in this format.
+import type { ClaudeCitationsFixture } from './claudeCitationsService';
+
+export const CLAUDE_CITATIONS_FIXTURES: ClaudeCitationsFixture[] = [
+  {
+    question: "What are the inclusion criteria?",
+    message: {
+      model: "claude-3-5-haiku-20241022",
+      content: [
+        {
+          type: "text",
+          text: "The protocol lists these key inclusion criteria:\n\n1. **Informed consent**: ",
+          citations: null,
+        },
+        {
+          type: "text",
+          text: "patients must give signed and dated written informed consent",
+          citations: [
+            {
+              type: "page_location",
+              cited_text:
+                "Signed and dated written informed consent in accordance with ICH GCP and local legislation prior to admission to the trial",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 12,
+              end_page_number: 13,
+              file_id: null,
+            },
+          ],
+        },
+        {
+          type: "text",
+          text: "\n2. **Age**: ",
+          citations: null,
+        },
+        {
+          type: "text",
+          text: "male and female patients aged 18 to 75 years",
+          citations: [
+            {
+              type: "page_location",
+              cited_text:
+                "Male and female patients must be 18 years to 75 years (both inclusive) of age on the day of signing informed consent",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 12,
+              end_page_number: 13,
+              file_id: null,
+            },
+          ],
+        },
+        {
+          type: "text",
+          text: "\n3. **Glycaemic control and BMI**: ",
+          citations: null,
+        },
+        {
+          type: "text",
+          text: "HbA1c between 7.0% and 10.0% and a BMI of 25-50 kg/m² at screening",
+          citations: [
+            {
+              type: "page_location",
+              cited_text: "HbA1c 7.0%-10.0% (both inclusive) at screening",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 12,
+              end_page_number: 13,
+              file_id: null,
+            },
+            {
+              type: "page_location",
+              cited_text:
+                "Body mass index (BMI) 25 kg/m²-50 kg/m² (both inclusive) at screening. The BMI is calculated at the screening visit",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 13,
+              end_page_number: 15,
+              file_id: null,
+            },
+          ],
+        },
+      ],
+      usage: { input_tokens: 48210, output_tokens: 286 },
+    },
+  },
+  {
+    question: "What happens if a patient becomes pregnant?",
+    message: {
+      model: "claude-3-5-haiku-20241022",
+      content: [
+        {
+          type: "text",
+          text: "If a patient becomes pregnant during the trial, ",
+          citations: null,
+        },
+        {
+          type: "text",
+          text: "trial treatment must be stopped and the pregnancy reported to the sponsor within 24 hours",
+          citations: [
+            {
+              type: "page_location",
+              cited_text:
+                "In case of pregnancy the trial medication must be discontinued immediately and the pregnancy must be reported to the sponsor within 24 hours of the site becoming aware",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 27,
+              end_page_number: 28,
+              file_id: null,
+            },
+          ],
+        },
+        {
+          type: "text",
+          text: ". The pregnancy is then followed up until its outcome is known.",
+          citations: [
+            {
+              type: "page_location",
+              cited_text: "The pregnancy will be followed up until the outcome is known",
+              document_index: 0,
+              document_title: "Protocol",
+              start_page_number: 29,
+              end_page_number: 30,
+              file_id: null,
+            },
+          ],
+        },
+      ],
+      usage: { input_tokens: 48195, output_tokens: 142 },
+    },
+  },
+];
@@ -1,37 +1,144 @@
-// Claude Citations API Service - Testing parallel to existing system
-import Anthropic from '@anthropic-ai/sdk';
+// Claude Citations API Service - Answers from PDFs with Anthropic's native
+// document citations. Each cited passage comes back as a page_location (PDF)
+// or char_location (plain text) citation on the text block it supports.
+import Anthropic, { toFile } from '@anthropic-ai/sdk';
+import type { TextCitation } from '@anthropic-ai/sdk/resources';
+import type { BetaTextCitation } from '@anthropic-ai/sdk/resources/beta';
+import { getDocumentContextCache } from './documentContextCache';
+
+interface ClaudeCitation {
+  cited_text: string;
+  document_index: number;
+  // page_location: cited pages, 1-based, end exclusive
+  start_page_number?: number;
+  end_page_number?: number;
+  // char_location: cited characters of the document text, end exclusive
+  start_char_index?: number;
+  end_char_index?: number;
+}
 
-interface ClaudeSource {
+interface ClaudeCitationsResponse {
   content: string;
-  source: {
-    chunk_index: number;
-    document_index: number;
+  citations: ClaudeCitation[];
+  model: string;
+  usage: {
+    // Uncached input only; cached input is counted in the cache fields
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens: number;
+    cache_read_input_tokens: number;
+  };
+  // Documents read from the document context cache instead of downloaded
+  documentCache?: {
+    hits: number;
+    misses: number;
   };
+  // Replayed from a recorded fixture instead of answered by the API
+  replayed?: boolean;
 }
 
-interface ClaudeCitationsResponse {
-  content: string;
-  citations: ClaudeSource[];
+// The parts of a Messages API response the service reads; also the shape of
+// recorded fixtures
+interface RecordedMessage {
   model: string;
+  content: Array<{
+    type: string;
+    text?: string;
+    citations?: Array<TextCitation | BetaTextCitation> | null;
+  }>;
   usage: {
     input_tokens: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
   };
 }
 
+interface ClaudeCitationsFixture {
+  question: string;
+  message: RecordedMessage;
+}
+
 interface DocumentInfo {
   id: string;
   name: string;
   url?: string;
   file_url?: string;
+  // trial_documents.version; a new version is a document context cache miss
+  version?: number | null;
 }
 
+interface StreamHandlers {
+  onText?: (delta: string, snapshot: string) => void;
+  onCitation?: (citation: ClaudeCitation) => void;
+  signal?: AbortSignal;
+}
+
+const CLAUDE_MODEL = "claude-3-5-haiku-20241022";
+
+const CITATION_SYSTEM_PROMPT = "You are a clinical trial document analyzer. Answer only from the provided documents and cite the passages that support each statement.";
+
+const MULTI_DOCUMENT_SYSTEM_PROMPT = `${CITATION_SYSTEM_PROMPT} When documents disagree (e.g. an amendment changes the protocol), say so and cite both.`;
+
+// Replay recorded responses instead of calling the API, and log live responses
+// in the fixture format
+const FIXTURE_MODE = import.meta.env.VITE_ANTHROPIC_FIXTURES === 'true';
+const RECORD_FIXTURES = import.meta.env.VITE_ANTHROPIC_RECORD_FIXTURES === 'true';
+
+// Upload documents once through the Files API and send their file ids after that
+const USE_FILES_API = import.meta.env.VITE_ANTHROPIC_FILES_API === 'true';
+const FILES_API_BETA = 'files-api-2025-04-14';
+
+interface EncodedDocument {
+  documentId: string;
+  version: number;
+  url: string;
+  name: string;
+  data: string;
+  fileId?: string;
+  // Read from the document context cache
+  cached: boolean;
+}
+
+/**
+ * Page and character citations; other citation types don't point into the
+ * documents
+ */
+function toClaudeCitation(citation: TextCitation | BetaTextCitation): ClaudeCitation | null {
+  switch (citation.type) {
+    case 'page_location':
+      return {
+        cited_text: citation.cited_text,
+        document_index: citation.document_index,
+        start_page_number: citation.start_page_number,
+        end_page_number: citation.end_page_number
+      };
+    case 'char_location':
+      return {
+        cited_text: citation.cited_text,
+        document_index: citation.document_index,
+        start_char_index: citation.start_char_index,
+        end_char_index: citation.end_char_index
+      };
+    default:
+      return null;
+  }
+}
+
+const citationKey = (citation: ClaudeCitation) =>
+  `${citation.document_index}:${citation.start_page_number ?? citation.start_char_index}:${citation.cited_text}`;
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
 class ClaudeCitationsService {
   private anthropic: Anthropic | null;
 
   constructor() {
     const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
-    if (apiKey) {
+    if (FIXTURE_MODE) {
+      console.log('📼 Claude Citations: replaying recorded fixtures, no API calls');
+      this.anthropic = null;
+    } else if (apiKey) {
       this.anthropic = new Anthropic({
         apiKey: apiKey,
         dangerouslyAllowBrowser: true
@@ -75,162 +182,328 @@ class ClaudeCitationsService {
   }
 
   /**
-   * Query document using Claude Citations API
+   * The recorded response whose question shares the most words with the question
+   */
+  private async loadFixture(question: string): Promise<RecordedMessage> {
+    const { CLAUDE_CITATIONS_FIXTURES } = await import('./claudeCitationsFixtures');
+    const questionWords = words(question);
+
+    const scored = CLAUDE_CITATIONS_FIXTURES.map((fixture) => ({
+      fixture,
+      shared: [...words(fixture.question)].filter((word) => questionWords.has(word)).length
+    }));
+    const best = scored.reduce((a, b) => (b.shared > a.shared ? b : a));
+
+    console.log(`📼 Claude Citations: replaying fixture "${best.fixture.question}"`);
+    return best.fixture.message;
+  }
+
+  private recordFixture(question: string, message: RecordedMessage) {
+    if (!RECORD_FIXTURES) return;
+    const fixture: ClaudeCitationsFixture = {
+      question,
+      message: { model: message.model, content: message.content, usage: message.usage }
+    };
+    console.log('📼 Claude Citations fixture:', JSON.stringify(fixture, null, 2));
+  }
+
+  /**
+   * Answer text and the unique page/char citations of a response
+   */
+  private parseMessage(
+    message: RecordedMessage,
+    documents: EncodedDocument[] = []
+  ): ClaudeCitationsResponse {
+    const seen = new Set<string>();
+    const citations: ClaudeCitation[] = [];
+
+    for (const block of message.content) {
+      for (const citation of block.citations || []) {
+        const parsed = toClaudeCitation(citation);
+        if (!parsed || seen.has(citationKey(parsed))) continue;
+        seen.add(citationKey(parsed));
+        citations.push(parsed);
+      }
+    }
+
+    return {
+      replayed: FIXTURE_MODE || undefined,
+      content: message.content.map((block) => (block.type === 'text' ? block.text : '')).join(''),
+      citations,
+      model: message.model,
+      usage: {
+        input_tokens: message.usage.input_tokens,
+        output_tokens: message.usage.output_tokens,
+        cache_creation_input_tokens: message.usage.cache_creation_input_tokens ?? 0,
+        cache_read_input_tokens: message.usage.cache_read_input_tokens ?? 0
+      },
+      documentCache: documents.length > 0
+        ? {
+            hits: documents.filter((document) => document.cached).length,
+            misses: documents.filter((document) => !document.cached).length
+          }
+        : undefined
+    };
+  }
+
+  /**
+   * Run a request with the encoded documents. When Claude rejects an uploaded
+   * file id (expired or deleted), forget the ids and send the documents inline.
+   */
+  private async withInlineFallback<T>(
+    documents: EncodedDocument[],
+    request: (documents: EncodedDocument[]) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await request(documents);
+    } catch (error) {
+      const usedFiles = documents.some((document) => document.fileId);
+      if (!usedFiles || !(error instanceof Anthropic.APIError) || (error.status !== 400 && error.status !== 404)) {
+        throw error;
+      }
+
+      console.warn('⚠️ Uploaded document rejected, sending it inline:', error.message);
+      const cache = getDocumentContextCache();
+      await Promise.all(
+        documents.map((document) =>
+          cache.setFileId(document.documentId, document.version, document.url, 'anthropic', null)
+        )
+      );
+      return request(documents.map((document) => ({ ...document, fileId: undefined })));
+    }
+  }
+
+  /**
+   * Query documents with citations enabled
    */
   async queryDocumentWithCitations(
     question: string,
-    document: DocumentInfo
+    document: DocumentInfo | DocumentInfo[]
   ): Promise<ClaudeCitationsResponse> {
-    if (!this.anthropic) {
+    if (!this.isAvailable()) {
       throw new Error('Claude Citations service not available - API key missing');
     }
 
     try {
+      const documents = Array.isArray(document) ? document : [document];
+
       console.log('🔄 Claude Citations: Starting query...');
       console.log('Question:', question);
-      console.log('Document:', document.name);
-
-      // Get PDF URL
-      const pdfUrl = document.url || document.file_url;
-      if (!pdfUrl) {
-        throw new Error('Document URL is required for Claude processing');
+      console.log('Documents:', documents.map((doc) => doc.name));
+
+      let message: RecordedMessage;
+      let encodedDocuments: EncodedDocument[] = [];
+      if (FIXTURE_MODE) {
+        message = await this.loadFixture(question);
+      } else {
+        encodedDocuments = await this.encodeDocuments(documents);
+        message = await this.withInlineFallback(encodedDocuments, (docs) =>
+          this.anthropic!.beta.messages.create(this.buildMessageParams(question, docs))
+        );
+        this.recordFixture(question, message);
       }
 
-      console.log('🔗 Using PDF URL directly:', pdfUrl);
+      const result = this.parseMessage(message, encodedDocuments);
+      this.logCacheUsage(result);
+      console.log(`✅ Claude Citations: Query successful with ${result.citations.length} citations`);
+      return result;
 
-      // Convert PDF to base64 for proper citations
-      const base64Pdf = await this.pdfUrlToBase64(pdfUrl);
+    } catch (error) {
+      console.error('❌ Claude Citations query failed:', error);
+      throw error;
+    }
+  }
 
-      // Query Claude with document and FORCE page identification
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-5-haiku-20241022",
-        max_tokens: 2000,
-        system: "You are a document analyzer. You MUST identify the page number where each quote appears. Look at the page headers, footers, or page indicators in the PDF. Every quote MUST include its page number using the format [Page X: 'exact quote'].",
-        messages: [{
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "base64",
-                media_type: "application/pdf",
-                data: base64Pdf
-              }
-            },
-            {
-              type: "text",
-              text: `${question}
-
-MANDATORY CITATION FORMAT:
-1. You MUST provide page numbers for every quote
-2. Look carefully at the document for page numbers (usually in headers/footers)
-3. Use the exact format: [Page X: 'exact quote from the document']
-4. If you see "Page X of Y" or similar indicators, use that page number
-5. Every citation must have a page number - this is not optional
-
-Find the relevant quotes in the document and identify their exact page locations.`
-            }
-          ]
-        }]
-      });
+  /**
+   * Base64 of every document to send to Claude, from the document context cache
+   * when the same version was sent before
+   */
+  private async encodeDocuments(documents: DocumentInfo[]): Promise<EncodedDocument[]> {
+    if (documents.length === 0) {
+      throw new Error('At least one document is required for Claude processing');
+    }
+
+    return Promise.all(documents.map((document) => this.encodeDocument(document)));
+  }
 
-      console.log('✅ Claude Citations: Query successful');
-      console.log('🔍 Claude Response:', response);
-      console.log('📄 Claude Raw Content:', response.content[0]?.text);
+  private async encodeDocument(document: DocumentInfo): Promise<EncodedDocument> {
+    const pdfUrl = document.url || document.file_url;
+    if (!pdfUrl) {
+      throw new Error(`Document URL is required for Claude processing (${document.name})`);
+    }
 
-      // Extract content and citations
-      const content = response.content[0]?.text || '';
+    const cache = getDocumentContextCache();
+    const version = document.version ?? 0;
+    const cached = await cache.get(document.id, version, pdfUrl);
+
+    let data = cached?.base64;
+    if (data) {
+      console.log('📦 Document cache hit:', document.name);
+    } else {
+      data = await this.pdfUrlToBase64(pdfUrl);
+      await cache.put({ documentId: document.id, version, url: pdfUrl, base64: data, fileIds: {} });
+    }
+
+    const encoded: EncodedDocument = {
+      documentId: document.id,
+      version,
+      url: pdfUrl,
+      name: document.name,
+      data,
+      fileId: cached?.fileIds.anthropic,
+      cached: !!cached
+    };
+
+    if (USE_FILES_API && !encoded.fileId) {
+      encoded.fileId = await this.uploadDocument(encoded);
+    }
+    return encoded;
+  }
+
+  /**
+   * Upload a document through the Files API and remember its file id. Returns
+   * undefined when the upload fails, so the document is sent inline.
+   */
+  private async uploadDocument(document: EncodedDocument): Promise<string | undefined> {
+    try {
+      const bytes = Uint8Array.from(atob(document.data), (char) => char.charCodeAt(0));
+      const uploaded = await this.anthropic!.beta.files.upload({
+        file: await toFile(bytes, document.name, { type: 'application/pdf' }),
+        betas: [FILES_API_BETA]
+      });
 
-      // Extract citations from response metadata
-      const citations: ClaudeSource[] = [];
+      console.log('📤 Document uploaded to Claude:', document.name, uploaded.id);
+      await getDocumentContextCache().setFileId(
+        document.documentId,
+        document.version,
+        document.url,
+        'anthropic',
+        uploaded.id
+      );
+      return uploaded.id;
+    } catch (error) {
+      console.warn('⚠️ Document upload failed, sending it inline:', error);
+      return undefined;
+    }
+  }
 
-      // Check if response has citations in metadata
-      if (response.content[0]?.type === 'text' && (response as any).citations) {
-        const responseCitations = (response as any).citations || [];
-        console.log('📚 Found citations in response:', responseCitations);
+  private logCacheUsage(result: ClaudeCitationsResponse) {
+    const { cache_read_input_tokens, cache_creation_input_tokens } = result.usage;
+    if (cache_read_input_tokens > 0) {
+      console.log(`💾 Prompt cache hit: ${cache_read_input_tokens} input tokens read from cache`);
+    } else if (cache_creation_input_tokens > 0) {
+      console.log(`💾 Prompt cache miss: ${cache_creation_input_tokens} input tokens written to cache`);
+    }
+  }
 
-        citations.push(...responseCitations.map((citation: any) => ({
-          content: citation.content || citation.text || '',
-          source: {
-            chunk_index: citation.chunk_index || 0,
-            document_index: citation.document_index || 0
+  /**
+   * Build the Messages API request: each PDF as a titled document block with
+   * citations enabled, followed by the question. The documents end with a
+   * prompt cache breakpoint, so follow-up questions on the same documents read
+   * them from Claude's cache. Uploaded documents are sent by file id.
+   */
+  private buildMessageParams(question: string, documents: EncodedDocument[]) {
+    const isMultiDocument = documents.length > 1;
+
+    const documentBlocks = documents.map((document, index) => ({
+      type: "document" as const,
+      title: document.name,
+      citations: { enabled: true },
+      source: document.fileId
+        ? { type: "file" as const, file_id: document.fileId }
+        : {
+            type: "base64" as const,
+            media_type: "application/pdf" as const,
+            data: document.data
+          },
+      ...(index === documents.length - 1 ? { cache_control: { type: "ephemeral" as const } } : {})
+    }));
+
+    return {
+      betas: documents.some((document) => document.fileId) ? [FILES_API_BETA] : undefined,
+      model: CLAUDE_MODEL,
+      max_tokens: 2000,
+      system: isMultiDocument ? MULTI_DOCUMENT_SYSTEM_PROMPT : CITATION_SYSTEM_PROMPT,
+      messages: [{
+        role: "user" as const,
+        content: [
+          ...documentBlocks,
+          {
+            type: "text" as const,
+            text: question
           }
-        })));
-      }
+        ]
+      }]
+    };
+  }
 
-      // Parse citations with improved accuracy handling
-      if (citations.length === 0) {
-        console.log('📝 Parsing citations from Claude response...');
-
-        // Try to extract page-specific citations (handle both single and double quotes)
-        const pageRegex = /\[Page (\d+): ["']([^"']+)["']\]/g;
-        const pageMatches = [...content.matchAll(pageRegex)];
-
-        console.log(`🔍 Looking for pattern [Page X: 'quote'] in content...`);
-        console.log(`📝 Content preview: ${content.substring(0, 500)}...`);
-        console.log(`🎯 Page regex matches found: ${pageMatches.length}`);
-
-        pageMatches.forEach((match, index) => {
-          const page = parseInt(match[1]);
-          const quote = match[2];
-
-          console.log(`🕵️ Raw match ${index + 1}: "${match[0]}"`);
-          console.log(`📄 Extracted page: ${page}, quote: "${quote.substring(0, 100)}..."`);
-
-          citations.push({
-            content: quote,
-            source: {
-              chunk_index: page,
-              document_index: 0
-            }
-          });
-
-          console.log(`📖 Citation ${index + 1}: Page ${page} - "${quote.substring(0, 50)}..."`);
-        });
-
-        // Also look for general quoted text without page numbers
-        if (pageMatches.length === 0) {
-          console.log('📝 No page-specific citations found, parsing general quotes...');
-          const quoteRegex = /'([^']{20,})'/g;
-          const quoteMatches = [...content.matchAll(quoteRegex)];
-
-          quoteMatches.slice(0, 3).forEach((match, index) => { // Limit to 3 to avoid noise
-            citations.push({
-              content: match[1],
-              source: {
-                chunk_index: 0, // Unknown page
-                document_index: 0
-              }
-            });
-
-            console.log(`📖 Citation ${index + 1}: Page unknown - "${match[1].substring(0, 50)}..."`);
-          });
-        }
-
-        console.log(`🔍 Found ${citations.length} total citations`);
-      }
+  /**
+   * Stream an answer from Claude, calling the handlers as text and citations
+   * arrive. Resolves with the same shape as queryDocumentWithCitations once the
+   * stream ends. Aborting the signal cancels the request.
+   */
+  async streamDocumentWithCitations(
+    question: string,
+    document: DocumentInfo | DocumentInfo[],
+    handlers: StreamHandlers = {}
+  ): Promise<ClaudeCitationsResponse> {
+    if (!this.isAvailable()) {
+      throw new Error('Claude Citations service not available - API key missing');
+    }
 
-      const result: ClaudeCitationsResponse = {
-        content: content,
-        citations: citations,
-        model: response.model,
-        usage: response.usage
-      };
+    const { onText, onCitation, signal } = handlers;
+    const documents = Array.isArray(document) ? document : [document];
+
+    console.log('🔄 Claude Citations: Starting streamed query...');
+
+    const seenCitations = new Set<string>();
+    const addCitation = (citation: TextCitation | BetaTextCitation) => {
+      const parsed = toClaudeCitation(citation);
+      if (!parsed || seenCitations.has(citationKey(parsed))) return;
+      seenCitations.add(citationKey(parsed));
+      onCitation?.(parsed);
+    };
+
+    let finalMessage: RecordedMessage;
+    let encodedDocuments: EncodedDocument[] = [];
+    if (FIXTURE_MODE) {
+      // Replay the recorded blocks in order, as the stream would deliver them
+      finalMessage = await this.loadFixture(question);
+      let snapshot = '';
+      for (const block of finalMessage.content) {
+        signal?.throwIfAborted();
+        if (block.type !== 'text' || !block.text) continue;
+        snapshot += block.text;
+        onText?.(block.text, snapshot);
+        block.citations?.forEach(addCitation);
+      }
+    } else {
+      encodedDocuments = await this.encodeDocuments(documents);
+      finalMessage = await this.withInlineFallback(encodedDocuments, (docs) => {
+        const stream = this.anthropic!.beta.messages.stream(
+          this.buildMessageParams(question, docs),
+          { signal }
+        );
 
-      console.log('📄 Claude final result:', result);
-      return result;
+        stream.on('text', (delta, snapshot) => onText?.(delta, snapshot));
+        stream.on('citation', addCitation);
 
-    } catch (error) {
-      console.error('❌ Claude Citations query failed:', error);
-      throw error;
+        return stream.finalMessage();
+      });
+      this.recordFixture(question, finalMessage);
     }
+
+    const result = this.parseMessage(finalMessage, encodedDocuments);
+    this.logCacheUsage(result);
+    console.log(`✅ Claude Citations: Stream finished with ${result.citations.length} citations`);
+    return result;
   }
 
   /**
    * Check if service is available
    */
   isAvailable(): boolean {
-    return !!this.anthropic;
+    return FIXTURE_MODE || !!this.anthropic;
   }
 
   /**
@@ -243,7 +516,7 @@ Find the relevant quotes in the document and identify their exact page locations
 
     try {
       const response = await this.anthropic.messages.create({
-        model: "claude-3-5-haiku-20241022",
+        model: CLAUDE_MODEL,
         max_tokens: 10,
         messages: [{
           role: "user",
@@ -270,4 +543,11 @@ export function getClaudeCitationsService(): ClaudeCitationsService {
 }
 
 export default ClaudeCitationsService;
-export type { ClaudeCitationsResponse, ClaudeSource };
\ No newline at end of file
+export type {
+  ClaudeCitation,
+  ClaudeCitationsFixture,
+  ClaudeCitationsResponse,
+  DocumentInfo,
+  RecordedMessage,
+  StreamHandlers
+};
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type TrialDocument = Database["public"]["Tables"]["trial_documents"]["Row"];
+type DocumentTypeEnum = Database["public"]["Enums"]["document_type_enum"];
+
+export type PatientConsentRow = Database["public"]["Tables"]["patient_consents"]["Row"];
+
+// Both document types hold informed consent forms and share one version line
+export const ICF_DOCUMENT_TYPES: DocumentTypeEnum[] = ["icf", "consent_form"];
+
+export type ConsentStatus = "current" | "reconsent_required" | "not_consented";
+
+export const CONSENT_STATUS_LABELS: Record<ConsentStatus, string> = {
+  current: "Consented",
+  reconsent_required: "Re-consent required",
+  not_consented: "No consent on file",
+};
+
+export type IcfVersion = Pick<
+  TrialDocument,
+  "id" | "document_name" | "document_url" | "version" | "is_latest" | "created_at"
+>;
+
+export interface PatientConsent extends PatientConsentRow {
+  trial_documents: IcfVersion | null;
+  obtained_by_member: { name: string } | null;
+}
+
+export interface ConsentPatient {
+  patient_id: string;
+  status: string;
+  patients: {
+    patient_code: string;
+    first_name: string | null;
+    last_name: string | null;
+  } | null;
+}
+
+export interface PatientConsentState {
+  status: ConsentStatus;
+  // Most recent consent, whatever version it was for
+  latestConsent: PatientConsent | null;
+  // The patient has signed the latest ICF after signing an earlier one
+  reconsented: boolean;
+}
+
+export interface ConsentInput {
+  trialId: string;
+  patientId: string;
+  icfDocumentId: string;
+  signedDate: string;
+  notes?: string;
+}
+
+/**
+ * Consent state of a patient against the trial's current ICF.
+ * With no ICF uploaded yet, any consent on file counts as current.
+ */
+export function getPatientConsentState(
+  consents: PatientConsent[],
+  latestIcf: IcfVersion | null
+): PatientConsentState {
+  const sorted = [...consents].sort(
+    (a, b) =>
+      b.signed_date.localeCompare(a.signed_date) || b.created_at.localeCompare(a.created_at)
+  );
+  const latestConsent = sorted[0] || null;
+
+  if (!latestConsent) {
+    return { status: "not_consented", latestConsent, reconsented: false };
+  }
+
+  const onLatest = !latestIcf || consents.some((c) => c.icf_document_id === latestIcf.id);
+
+  return {
+    status: onLatest ? "current" : "reconsent_required",
+    latestConsent,
+    reconsented: onLatest && consents.some((c) => c.icf_document_id !== latestIcf?.id),
+  };
+}
+
+/**
+ * Consent state of every enrolled patient, keyed by patient id
+ */
+export function getConsentStates(
+  patients: ConsentPatient[],
+  consents: PatientConsent[],
+  latestIcf: IcfVersion | null
+): Record<string, PatientConsentState> {
+  return Object.fromEntries(
+    patients.map((patient) => [
+      patient.patient_id,
+      getPatientConsentState(
+        consents.filter((c) => c.patient_id === patient.patient_id),
+        latestIcf
+      ),
+    ])
+  );
+}
+
+/**
+ * Counts for the dashboard. Re-consent progress covers patients who signed
+ * an earlier version: those done and those still waiting.
+ */
+export function summarizeConsents(states: Record<string, PatientConsentState>) {
+  const values = Object.values(states);
+  const reconsented = values.filter((s) => s.reconsented).length;
+  const reconsentRequired = values.filter((s) => s.status === "reconsent_required").length;
+
+  return {
+    total: values.length,
+    current: values.filter((s) => s.status === "current").length,
+    notConsented: values.filter((s) => s.status === "not_consented").length,
+    reconsentRequired,
+    reconsented,
+    reconsentProgress:
+      reconsented + reconsentRequired > 0
+        ? Math.round((reconsented / (reconsented + reconsentRequired)) * 100)
+        : 100,
+  };
+}
+
+export const icfVersionLabel = (icf: Pick<IcfVersion, "version" | "document_name">) =>
+  icf.version ? `v${icf.version}` : icf.document_name;
+
+class ConsentService {
+  private readonly SELECT = `
+    *,
+    trial_documents!patient_consents_icf_document_id_fkey(id, document_name, document_url, version, is_latest, created_at),
+    obtained_by_member:members!patient_consents_obtained_by_fkey(name)
+  `;
+
+  /**
+   * All ICF versions of a trial, newest first
+   */
+  async getIcfVersions(trialId: string): Promise<IcfVersion[]> {
+    const { data, error } = await supabase
+      .from("trial_documents")
+      .select("id, document_name, document_url, version, is_latest, created_at")
+      .eq("trial_id", trialId)
+      .in("document_type", ICF_DOCUMENT_TYPES)
+      // Patients can't sign a version that hasn't passed review
+      .not("status", "in", "(draft,in_review,approved)")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getTrialConsents(trialId: string): Promise<PatientConsent[]> {
+    const { data, error } = await supabase
+      .from("patient_consents")
+      .select(this.SELECT)
+      .eq("trial_id", trialId)
+      .order("signed_date", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Patients currently enrolled on the trial, the ones who need a valid consent
+   */
+  async getEnrolledPatients(trialId: string): Promise<ConsentPatient[]> {
+    const { data, error } = await supabase
+      .from("trial_patients")
+      .select(
+        "patient_id, status, patients!trial_patients_patient_id_fkey(patient_code, first_name, last_name)"
+      )
+      .eq("trial_id", trialId)
+      .eq("status", "enrolled");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Number of enrolled patients whose consent is for an older ICF than the
+   * given one
+   */
+  async countPendingReconsents(trialId: string, latestIcfId: string): Promise<number> {
+    const [patients, consents] = await Promise.all([
+      this.getEnrolledPatients(trialId),
+      this.getTrialConsents(trialId),
+    ]);
+    const states = getConsentStates(patients, consents, { id: latestIcfId } as IcfVersion);
+    return Object.values(states).filter((s) => s.status === "reconsent_required").length;
+  }
+
+  async recordConsent(input: ConsentInput, obtainedBy?: string | null): Promise<PatientConsent> {
+    const { data, error } = await supabase
+      .from("patient_consents")
+      .insert({
+        trial_id: input.trialId,
+        patient_id: input.patientId,
+        icf_document_id: input.icfDocumentId,
+        signed_date: input.signedDate,
+        notes: input.notes?.trim() || null,
+        obtained_by: obtainedBy ?? null,
+      })
+      .select(this.SELECT)
+      .single();
+
+    if (error) {
+      throw error.code === "23505"
+        ? new Error("This patient has already signed that ICF version")
+        : error;
+    }
+
+    console.log(`✍️ Consent recorded for patient ${input.patientId}`);
+    return data;
+  }
+}
+
+export const consentService = new ConsentService();
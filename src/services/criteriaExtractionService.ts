@@ -0,0 +1,176 @@
+// Criteria Extraction Service - Turns the eligibility section of a protocol into
+// a structured checklist. Pages mentioning inclusion/exclusion criteria are
+// extracted with PDFExtractionService and Claude lists every criterion as JSON.
+
+import Anthropic from '@anthropic-ai/sdk';
+import { PDFExtractionService, PDFPage } from './pdfExtractionService';
+
+export interface ExtractedCriterion {
+  kind: 'inclusion' | 'exclusion';
+  code: string;
+  text: string;
+  page: number | null;
+}
+
+export interface CriteriaSourceDocument {
+  id: string;
+  document_name: string;
+  document_url: string;
+}
+
+const CLAUDE_MODEL = "claude-3-5-haiku-20241022";
+
+const EXTRACTION_SYSTEM_PROMPT = "You are a clinical research coordinator building an eligibility screening checklist from a clinical trial protocol. You copy each inclusion and exclusion criterion exactly as written, one criterion per item, without merging, summarizing or inventing criteria.";
+
+// Keep the prompt within a reasonable token budget for large protocols
+const MAX_PROTOCOL_CHARS = 60000;
+
+const CRITERIA_HEADING_REGEX = /\b(inclusion|exclusion|eligibility)\s+criteria\b/i;
+
+// Criteria lists usually run over the pages after their heading
+const PAGES_AFTER_HEADING = 2;
+
+class CriteriaExtractionService {
+  private anthropic: Anthropic | null;
+
+  constructor() {
+    const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
+    this.anthropic = apiKey
+      ? new Anthropic({ apiKey, dangerouslyAllowBrowser: true })
+      : null;
+  }
+
+  isAvailable(): boolean {
+    return !!this.anthropic;
+  }
+
+  /**
+   * Extract the inclusion/exclusion criteria of a protocol
+   */
+  async extractCriteria(document: CriteriaSourceDocument): Promise<ExtractedCriterion[]> {
+    if (!this.anthropic) {
+      throw new Error('Criteria extraction not available - Anthropic API key missing');
+    }
+
+    console.log('🔄 Extracting eligibility criteria from:', document.document_name);
+
+    const pages = await PDFExtractionService.extractPages(document.document_url);
+    const protocolText = this.formatPagesForPrompt(this.selectEligibilityPages(pages));
+
+    if (!protocolText.trim()) {
+      throw new Error('No text could be extracted from the protocol');
+    }
+
+    const response = await this.anthropic.messages.create({
+      model: CLAUDE_MODEL,
+      max_tokens: 4000,
+      system: EXTRACTION_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `Below are pages of the protocol "${document.document_name}". Each page starts with a [Page N] marker.
+
+List every inclusion and exclusion criterion. Answer with a JSON array only, no other text, where each item is:
+{"kind": "inclusion" | "exclusion", "code": "<numbering used by the protocol, or I1, I2... / E1, E2... when unnumbered>", "text": "<criterion exactly as written>", "page": <page number>}
+
+Sub-items (a, b, c...) belong to the criterion they are listed under. Return [] if the pages contain no eligibility criteria.
+
+${protocolText}`,
+        },
+      ],
+    });
+
+    const content = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    const criteria = this.parseCriteria(content);
+    console.log(`✅ Extracted ${criteria.length} eligibility criteria`);
+    return criteria;
+  }
+
+  /**
+   * Pages with an eligibility heading plus the pages after it. Falls back to
+   * the whole protocol when no heading is found.
+   */
+  selectEligibilityPages(pages: PDFPage[]): PDFPage[] {
+    const selected = new Set<number>();
+
+    pages.forEach((page, index) => {
+      if (!CRITERIA_HEADING_REGEX.test(page.text)) return;
+      for (let i = index; i <= Math.min(index + PAGES_AFTER_HEADING, pages.length - 1); i++) {
+        selected.add(i);
+      }
+    });
+
+    return selected.size > 0
+      ? pages.filter((_, index) => selected.has(index))
+      : pages;
+  }
+
+  private formatPagesForPrompt(pages: PDFPage[]): string {
+    let output = '';
+
+    for (const page of pages) {
+      const pageText = `[Page ${page.pageNumber}]\n${page.lines.join('\n')}\n\n`;
+      if (output.length + pageText.length > MAX_PROTOCOL_CHARS) {
+        output += '[... remaining pages omitted ...]\n';
+        break;
+      }
+      output += pageText;
+    }
+
+    return output;
+  }
+
+  /**
+   * Parse Claude's JSON answer, tolerating surrounding text or code fences
+   */
+  parseCriteria(content: string): ExtractedCriterion[] {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+      throw new Error('The criteria could not be read from the AI response');
+    }
+
+    let items: unknown;
+    try {
+      items = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new Error('The criteria could not be read from the AI response');
+    }
+
+    if (!Array.isArray(items)) return [];
+
+    const counters = { inclusion: 0, exclusion: 0 };
+
+    return items
+      .filter((item) => item && typeof item.text === 'string' && item.text.trim())
+      .map((item) => {
+        const kind: ExtractedCriterion['kind'] =
+          String(item.kind).toLowerCase() === 'exclusion' ? 'exclusion' : 'inclusion';
+        counters[kind]++;
+        const page = parseInt(item.page);
+
+        return {
+          kind,
+          code: String(item.code || '').trim() ||
+            `${kind === 'inclusion' ? 'I' : 'E'}${counters[kind]}`,
+          text: item.text.trim(),
+          page: Number.isFinite(page) ? page : null,
+        };
+      });
+  }
+}
+
+// Singleton instance
+let criteriaExtractionService: CriteriaExtractionService | null = null;
+
+export function getCriteriaExtractionService(): CriteriaExtractionService {
+  if (!criteriaExtractionService) {
+    criteriaExtractionService = new CriteriaExtractionService();
+  }
+  return criteriaExtractionService;
+}
+
+export default CriteriaExtractionService;
@@ -0,0 +1,313 @@
+// Document Assistant Engine
+// One engine behind every Document Assistant chat. How context is retrieved,
+// which embedding model the retrieval uses and which provider writes the answer
+// are configuration; the assistant tabs are presets of that configuration.
+
+import { supabase } from '@/integrations/supabase/client';
+import { getMockResponse } from './mockAIService';
+import { getAIServiceSwitcher, type DocumentInfo } from './aiServiceSwitcher';
+import type { AIServiceType } from './aiProviderRegistry';
+import type { ContextCacheReport } from './aiResponseAdapter';
+import { getRagStreamService } from './ragStreamService';
+import type { TextRange } from '@/lib/pdfTextLayer';
+
+// full-document: the selected documents are sent whole to the answer provider
+// vector-search: the backend retrieves matching chunks from its index and answers from them
+export type RetrievalStrategy = 'full-document' | 'vector-search';
+export type EmbeddingModel = 'general' | 'biobert';
+
+export interface AssistantConfig {
+  retrieval: RetrievalStrategy;
+  // Vector search only
+  embeddingModel: EmbeddingModel;
+  // Full-document only: vector search answers are written by the RAG backend
+  provider: AIServiceType;
+}
+
+export type AssistantPresetId = 'document-ai' | 'rag' | 'rag-biobert';
+
+export interface AssistantPreset {
+  id: AssistantPresetId;
+  label: string;
+  title: string;
+  config: AssistantConfig;
+}
+
+export const ASSISTANT_PRESETS: AssistantPreset[] = [
+  {
+    id: 'document-ai',
+    label: 'Document AI',
+    title: 'Document AI Assistant',
+    config: { retrieval: 'full-document', embeddingModel: 'general', provider: 'backend' },
+  },
+  {
+    id: 'rag',
+    label: 'RAG',
+    title: 'Document AI Assistant RAG',
+    config: { retrieval: 'vector-search', embeddingModel: 'general', provider: 'backend' },
+  },
+  {
+    id: 'rag-biobert',
+    label: 'RAG-BioBERT',
+    title: 'Document AI Assistant BioBERT',
+    config: { retrieval: 'vector-search', embeddingModel: 'biobert', provider: 'backend' },
+  },
+];
+
+export const RETRIEVAL_STRATEGY_LABELS: Record<RetrievalStrategy, string> = {
+  'full-document': 'Full document',
+  'vector-search': 'Vector search',
+};
+
+export const EMBEDDING_MODEL_LABELS: Record<EmbeddingModel, string> = {
+  general: 'General',
+  biobert: 'BioBERT',
+};
+
+const RAG_ENDPOINTS: Record<EmbeddingModel, string> = {
+  general: '/rag/query',
+  biobert: '/rag/query-biobert',
+};
+
+export function isAssistantPreset(id: string): id is AssistantPresetId {
+  return ASSISTANT_PRESETS.some((preset) => preset.id === id);
+}
+
+export function getAssistantPreset(id: AssistantPresetId): AssistantPreset {
+  return ASSISTANT_PRESETS.find((preset) => preset.id === id) || ASSISTANT_PRESETS[0];
+}
+
+/**
+ * Short label for a configuration, e.g. "Full document · Anthropic Claude"
+ */
+export function describeAssistantConfig(config: AssistantConfig): string {
+  if (config.retrieval === 'vector-search') {
+    return `${RETRIEVAL_STRATEGY_LABELS[config.retrieval]} · ${EMBEDDING_MODEL_LABELS[config.embeddingModel]}`;
+  }
+
+  const provider = getAIServiceSwitcher()
+    .getProviders()
+    .find((p) => p.id === config.provider);
+  return `${RETRIEVAL_STRATEGY_LABELS[config.retrieval]} · ${provider?.label || config.provider}`;
+}
+
+/**
+ * URL of a backend-rendered PDF page with the cited text highlighted, for
+ * vector search sources (which only know the indexed file name)
+ */
+export function getRagHighlightUrl(fileName: string, page: number, searchText: string): string {
+  const baseUrl = import.meta.env.VITE_API_BASE_URL || '';
+  return `${baseUrl}/rag/highlighted_pdf?doc=${encodeURIComponent(fileName)}&page=${page}&highlight=${encodeURIComponent(searchText)}`;
+}
+
+type MockAnswer = ReturnType<typeof getMockResponse>;
+
+export interface AssistantSource {
+  section: string;
+  page?: number;
+  endPage?: number;
+  content: string;
+  exactText?: string;
+  relevance?: 'high' | 'medium' | 'low';
+  context?: string;
+  highlightURL?: string;
+  // Full-document answers: the trial document the citation came from
+  documentId?: string;
+  documentName?: string;
+  // Full-document answers: result of the citation verification pass
+  verified?: boolean;
+  textRange?: TextRange;
+  claimedPage?: number;
+  // Vector search answers: the indexed file and chunk
+  filename?: string;
+  chunk_index?: number;
+}
+
+export interface AssistantQuestion {
+  message: string;
+  // Primary document, required for full-document retrieval
+  document?: DocumentInfo | null;
+  // Every document to answer from, for multi-document questions
+  documents?: DocumentInfo[];
+}
+
+export interface AssistantAnswer {
+  response: string;
+  sources: AssistantSource[];
+  // Provider id, or the RAG endpoint for vector search
+  answeredBy: string;
+  model?: string;
+  cost?: number;
+  // Full-document answers: cache hits and the resulting savings
+  cache?: ContextCacheReport;
+  tool_calls?: any[];
+  downloadableTemplates?: MockAnswer['downloadableTemplates'];
+  quickActions?: MockAnswer['quickActions'];
+}
+
+export interface AssistantHandlers {
+  onText?: (delta: string, snapshot: string) => void;
+  // Called with every source received so far
+  onSources?: (sources: AssistantSource[]) => void;
+  signal?: AbortSignal;
+  // Organization fallback policy, for full-document retrieval
+  fallbackPolicy?: AIServiceType[];
+}
+
+class DocumentAssistantEngine {
+  /**
+   * Answer a question with the given configuration, streaming text and
+   * sources through the handlers
+   */
+  async ask(
+    config: AssistantConfig,
+    question: AssistantQuestion,
+    handlers: AssistantHandlers = {}
+  ): Promise<AssistantAnswer> {
+    if (config.retrieval === 'vector-search') {
+      return this.askVectorSearch(config, question, handlers);
+    }
+
+    return this.askFullDocument(config, question, handlers);
+  }
+
+  private async askFullDocument(
+    config: AssistantConfig,
+    question: AssistantQuestion,
+    handlers: AssistantHandlers
+  ): Promise<AssistantAnswer> {
+    // Demo mode stands in for the ChatPDF/Claude providers only; the RAG and
+    // BioBERT presets always query the backend
+    if (import.meta.env.VITE_USE_MOCK_AI === 'true') {
+      return this.askMock(question, handlers);
+    }
+
+    const { document, documents } = question;
+    if (!document) {
+      throw new Error('Select a document to ask about');
+    }
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const token = session?.access_token;
+
+    if (!token) {
+      throw new Error('No authentication token available');
+    }
+
+    console.log('🔧 Selected AI Service:', config.provider);
+
+    let sources: AssistantSource[] = [];
+    const result = await getAIServiceSwitcher().queryStream(
+      {
+        message: question.message,
+        documentId: document.id,
+        documentData: document,
+        documents: documents && documents.length > 1 ? documents : undefined,
+        userId: token,
+        limit: 5,
+      },
+      config.provider,
+      {
+        fallbackPolicy: handlers.fallbackPolicy,
+        signal: handlers.signal,
+        onText: handlers.onText,
+        onSource: (source) => {
+          sources = [...sources, { ...source, content: source.exactText }];
+          handlers.onSources?.(sources);
+        },
+        onReset: () => {
+          sources = [];
+          handlers.onSources?.(sources);
+        },
+      }
+    );
+
+    console.log(`✅ Query successful via ${result.source}:`, result);
+    if (result.cost) {
+      console.log(`💰 Cost: $${result.cost.toFixed(4)} (${result.model})`);
+    }
+    if (result.cache) {
+      console.log(
+        `💾 Context cache ${result.cache.status}: saved $${result.cache.savings.toFixed(4)}`
+      );
+    }
+
+    return {
+      response: result.response,
+      sources: result.sources.map((source) => ({ ...source, content: source.exactText })),
+      answeredBy: result.source,
+      model: result.model,
+      cost: result.cost,
+      cache: result.cache,
+    };
+  }
+
+  private async askVectorSearch(
+    config: AssistantConfig,
+    question: AssistantQuestion,
+    handlers: AssistantHandlers
+  ): Promise<AssistantAnswer> {
+    const endpoint = RAG_ENDPOINTS[config.embeddingModel];
+    const result = await getRagStreamService().query(endpoint, question.message, {
+      signal: handlers.signal,
+      onText: handlers.onText,
+      onSources: handlers.onSources,
+    });
+
+    return {
+      response: result.response,
+      sources: result.sources,
+      answeredBy: endpoint,
+      tool_calls: result.tool_calls,
+    };
+  }
+
+  private async askMock(
+    question: AssistantQuestion,
+    handlers: AssistantHandlers
+  ): Promise<AssistantAnswer> {
+    console.log('🤖 Using Mock AI Service for demo');
+
+    // Simulate API delay for realism; stopping the answer ends the wait like a real request
+    const { signal } = handlers;
+    await new Promise<void>((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The answer was stopped', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, 1500 + Math.random() * 1000);
+
+      if (signal?.aborted) abort();
+      else signal?.addEventListener('abort', abort, { once: true });
+    });
+
+    const mock = getMockResponse(question.message, question.document?.id);
+    handlers.onText?.(mock.response, mock.response);
+    handlers.onSources?.(mock.sources);
+
+    return {
+      response: mock.response,
+      sources: mock.sources,
+      answeredBy: 'mock',
+      downloadableTemplates: mock.downloadableTemplates,
+      quickActions: mock.quickActions,
+    };
+  }
+}
+
+// Singleton instance
+let documentAssistantEngine: DocumentAssistantEngine | null = null;
+
+export function getDocumentAssistantEngine(): DocumentAssistantEngine {
+  if (!documentAssistantEngine) {
+    documentAssistantEngine = new DocumentAssistantEngine();
+  }
+  return documentAssistantEngine;
+}
+
+export default DocumentAssistantEngine;
@@ -0,0 +1,180 @@
+// Document Context Cache
+// Keeps the base64 of trial documents sent to AI providers in IndexedDB, per
+// document id and version, with the provider file id once it has been uploaded.
+// Falls back to memory when IndexedDB isn't available. Entries expire after a
+// week and the oldest are evicted past a size limit; sign-out clears it.
+
+const DB_NAME = 'themison-document-context';
+const STORE_NAME = 'documents';
+const DB_VERSION = 2;
+
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Total base64 characters kept, roughly 150 MB of PDFs
+const MAX_CACHE_CHARS = 200 * 1024 * 1024;
+
+export interface CachedDocumentContext {
+  // `${documentId}:${version}`
+  key: string;
+  documentId: string;
+  version: number;
+  // URL the document was downloaded from; a different URL is a cache miss
+  url: string;
+  base64: string;
+  // Provider file ids by provider, e.g. { anthropic: 'file_...' }
+  fileIds: Record<string, string>;
+  cachedAt: number;
+}
+
+const cacheKey = (documentId: string, version: number) => `${documentId}:${version}`;
+
+// Promise-based wrapper around an IndexedDB request
+const whenDone = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class DocumentContextCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, CachedDocumentContext>();
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Only a cache: start over rather than migrate
+        if (request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.deleteObjectStore(STORE_NAME);
+        }
+        request.result
+          .createObjectStore(STORE_NAME, { keyPath: 'key' })
+          .createIndex('cachedAt', 'cachedAt');
+      };
+      this.db = whenDone(request).catch((error) => {
+        console.warn('⚠️ Document cache: IndexedDB unavailable, using memory', error);
+        return null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    const db = await this.openDatabase();
+    return db ? db.transaction(STORE_NAME, mode).objectStore(STORE_NAME) : null;
+  }
+
+  /**
+   * Cached context of a document version, or null on a miss
+   */
+  async get(documentId: string, version: number, url: string): Promise<CachedDocumentContext | null> {
+    const key = cacheKey(documentId, version);
+    try {
+      const store = await this.store('readonly');
+      const entry = store
+        ? ((await whenDone(store.get(key))) as CachedDocumentContext | undefined)
+        : this.memory.get(key);
+      return entry && entry.url === url && Date.now() - entry.cachedAt <= MAX_AGE_MS
+        ? entry
+        : null;
+    } catch (error) {
+      console.warn('⚠️ Document cache read failed:', error);
+      return null;
+    }
+  }
+
+  async put(entry: Omit<CachedDocumentContext, 'key' | 'cachedAt'>): Promise<void> {
+    const cached: CachedDocumentContext = {
+      ...entry,
+      key: cacheKey(entry.documentId, entry.version),
+      cachedAt: Date.now()
+    };
+    try {
+      const store = await this.store('readwrite');
+      if (store) {
+        await whenDone(store.put(cached));
+      } else {
+        this.memory.set(cached.key, cached);
+      }
+      await this.evict();
+    } catch (error) {
+      // Usually the storage quota; the document is simply downloaded next time
+      console.warn('⚠️ Document cache write failed:', error);
+    }
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones once the size limit is reached
+   */
+  private async evict(): Promise<void> {
+    const now = Date.now();
+    let total = 0;
+    // Newest first, so the most recently used documents are kept
+    const keep = (entry: CachedDocumentContext) => {
+      total += entry.base64.length;
+      return now - entry.cachedAt <= MAX_AGE_MS && total <= MAX_CACHE_CHARS;
+    };
+
+    const store = await this.store('readwrite');
+    if (!store) {
+      [...this.memory.values()]
+        .sort((a, b) => b.cachedAt - a.cachedAt)
+        .forEach((entry) => {
+          if (!keep(entry)) this.memory.delete(entry.key);
+        });
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('cachedAt').openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (!keep(cursor.value as CachedDocumentContext)) cursor.delete();
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Remember (or forget, with null) the file id a provider assigned to a document version
+   */
+  async setFileId(
+    documentId: string,
+    version: number,
+    url: string,
+    provider: string,
+    fileId: string | null
+  ): Promise<void> {
+    const entry = await this.get(documentId, version, url);
+    if (!entry) return;
+
+    const fileIds = { ...entry.fileIds };
+    if (fileId) {
+      fileIds[provider] = fileId;
+    } else {
+      delete fileIds[provider];
+    }
+    await this.put({ ...entry, fileIds });
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    const store = await this.store('readwrite');
+    if (store) await whenDone(store.clear());
+  }
+}
+
+// Singleton instance
+let documentContextCache: DocumentContextCache | null = null;
+
+export function getDocumentContextCache(): DocumentContextCache {
+  if (!documentContextCache) {
+    documentContextCache = new DocumentContextCache();
+  }
+  return documentContextCache;
+}
+
+export default DocumentContextCache;
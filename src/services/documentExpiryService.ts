@@ -0,0 +1,118 @@
+import { addMonths, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import { documentService } from "./documentService";
+import { getDocumentStatus } from "./documentReviewService";
+
+type TrialDocument = Database["public"]["Tables"]["trial_documents"]["Row"];
+
+// Reminders start this many days before a due date (see send_document_expiry_reminders)
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const REVIEW_INTERVAL_OPTIONS = [
+  { months: 6, label: "Every 6 months" },
+  { months: 12, label: "Every year" },
+  { months: 24, label: "Every 2 years" },
+  { months: 36, label: "Every 3 years" },
+];
+
+export type DueKind = "expiry" | "review";
+export type DueStatus = "overdue" | "due_soon";
+
+export type DatedDocument = Pick<
+  TrialDocument,
+  "id" | "status" | "expiry_date" | "next_review_date" | "review_interval_months"
+>;
+
+export interface DocumentDue<T extends DatedDocument = DatedDocument> {
+  document: T;
+  kind: DueKind;
+  date: string;
+  daysLeft: number;
+  status: DueStatus;
+}
+
+export interface DocumentDates {
+  expiry_date: string | null;
+  review_interval_months: number | null;
+  next_review_date: string | null;
+}
+
+/**
+ * The nearest expiry or re-review date of an effective document, when it is
+ * overdue or within EXPIRY_WARNING_DAYS
+ */
+export function getDocumentDue<T extends DatedDocument>(
+  document: T,
+  today: Date = new Date()
+): DocumentDue<T> | null {
+  if (getDocumentStatus(document) !== "effective") return null;
+
+  const candidates = (
+    [
+      ["expiry", document.expiry_date],
+      ["review", document.next_review_date],
+    ] as [DueKind, string | null][]
+  ).filter((candidate): candidate is [DueKind, string] => !!candidate[1]);
+  if (candidates.length === 0) return null;
+
+  const [kind, date] = candidates.sort((a, b) => a[1].localeCompare(b[1]))[0];
+  const daysLeft = differenceInCalendarDays(parseISO(date), today);
+  if (daysLeft > EXPIRY_WARNING_DAYS) return null;
+
+  return { document, kind, date, daysLeft, status: daysLeft < 0 ? "overdue" : "due_soon" };
+}
+
+/**
+ * Documents that are overdue or due soon, most urgent first
+ */
+export function getDueDocuments<T extends DatedDocument>(
+  documents: T[],
+  today: Date = new Date()
+): DocumentDue<T>[] {
+  return documents
+    .map((document) => getDocumentDue(document, today))
+    .filter((due): due is DocumentDue<T> => !!due)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+export function getNextReviewDate(intervalMonths: number, from: Date = new Date()) {
+  return format(addMonths(from, intervalMonths), "yyyy-MM-dd");
+}
+
+export function describeDue(due: Pick<DocumentDue, "kind" | "daysLeft">) {
+  const days = Math.abs(due.daysLeft);
+  const span = days === 1 ? "1 day" : `${days} days`;
+  if (due.kind === "expiry") {
+    if (due.daysLeft < 0) return `Expired ${span} ago`;
+    return due.daysLeft === 0 ? "Expires today" : `Expires in ${span}`;
+  }
+  if (due.daysLeft < 0) return `Re-review ${span} overdue`;
+  return due.daysLeft === 0 ? "Re-review due today" : `Re-review due in ${span}`;
+}
+
+class DocumentExpiryService {
+  /**
+   * Change a document's expiry and re-review dates. Recorded in the audit
+   * trail; the database recomputes the warning flag.
+   */
+  async updateDates(documentId: string, dates: DocumentDates, reason?: string) {
+    return documentService.updateDocument(documentId, dates, reason);
+  }
+
+  /**
+   * Record a periodic re-review: the next one is due one interval from today
+   */
+  async markReviewed(document: DatedDocument) {
+    if (!document.review_interval_months) {
+      throw new Error("Set a re-review interval for this document first");
+    }
+
+    return documentService.updateDocument(
+      document.id,
+      { next_review_date: getNextReviewDate(document.review_interval_months) },
+      "Periodic re-review completed"
+    );
+  }
+}
+
+export const documentExpiryService = new DocumentExpiryService();
@@ -0,0 +1,229 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { documentService } from "./documentService";
+import { notificationService } from "./notificationService";
+
+type TrialDocument = Database["public"]["Tables"]["trial_documents"]["Row"];
+type DocumentReviewRow = Database["public"]["Tables"]["document_reviews"]["Row"];
+type ReviewCommentRow = Database["public"]["Tables"]["document_review_comments"]["Row"];
+
+export type DocumentStatus =
+  | "draft"
+  | "in_review"
+  | "approved"
+  | "effective"
+  | "superseded"
+  | "archived";
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  effective: "Effective",
+  superseded: "Superseded",
+  archived: "Archived",
+};
+
+// Mirrors check_document_status_transition in the database
+export const DOCUMENT_STATUS_TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  draft: ["in_review", "archived"],
+  in_review: ["draft", "approved", "archived"],
+  approved: ["effective", "archived"],
+  effective: ["superseded", "archived"],
+  superseded: ["archived"],
+  archived: [],
+};
+
+// Statuses of documents that haven't passed review yet
+export const UNREVIEWED_STATUSES: DocumentStatus[] = ["draft", "in_review", "approved"];
+
+export type ReviewDecision = "pending" | "approved" | "changes_requested";
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  changes_requested: "Changes Requested",
+};
+
+export type ReviewComment = Pick<ReviewCommentRow, "id" | "body" | "created_at">;
+
+export type DocumentReview = DocumentReviewRow & {
+  reviewer: { id: string; name: string; email: string } | null;
+  document_review_comments: ReviewComment[];
+};
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+type ReviewableDocument = Pick<
+  TrialDocument,
+  "id" | "trial_id" | "document_name" | "status" | "uploaded_by"
+>;
+
+/**
+ * Status of a document, treating legacy "active" documents as effective
+ */
+export function getDocumentStatus(document: { status: string | null }): DocumentStatus {
+  const status = document.status as DocumentStatus;
+  return status in DOCUMENT_STATUS_LABELS ? status : "effective";
+}
+
+export function canTransition(from: DocumentStatus, to: DocumentStatus) {
+  return DOCUMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+class DocumentReviewService {
+  private readonly SELECT = `
+    *,
+    reviewer:members!document_reviews_reviewer_id_fkey(id, name, email),
+    document_review_comments(id, body, created_at)
+  `;
+
+  async getReviews(documentId: string): Promise<DocumentReview[]> {
+    const { data, error } = await supabase
+      .from("document_reviews")
+      .select(this.SELECT)
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: true })
+      .order("created_at", { referencedTable: "document_review_comments", ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DocumentReview[];
+  }
+
+  /**
+   * Active members of the trial team, who can be assigned as reviewers
+   */
+  async getTrialTeam(trialId: string): Promise<TeamMember[]> {
+    const { data, error } = await supabase
+      .from("trial_members")
+      .select("members!trial_members_member_id_fkey(id, name, email)")
+      .eq("trial_id", trialId)
+      .eq("is_active", true);
+
+    if (error) throw error;
+
+    const members = (data || [])
+      .map((tm) => tm.members as TeamMember | null)
+      .filter((member): member is TeamMember => !!member);
+    return [...new Map(members.map((member) => [member.id, member])).values()].sort(
+      (a, b) => a.name.localeCompare(b.name)
+    );
+  }
+
+  async assignReviewers(documentId: string, reviewerIds: string[], assignedBy: string | null) {
+    const { error } = await supabase.from("document_reviews").insert(
+      reviewerIds.map((reviewerId) => ({
+        document_id: documentId,
+        reviewer_id: reviewerId,
+        assigned_by: assignedBy,
+      }))
+    );
+
+    if (error) {
+      throw error.code === "23505" ? new Error("That member is already a reviewer") : error;
+    }
+  }
+
+  async removeReviewer(reviewId: string) {
+    const { error } = await supabase.from("document_reviews").delete().eq("id", reviewId);
+    if (error) throw error;
+  }
+
+  /**
+   * Move a document to another status, recorded in the audit trail. Approval
+   * and rejection happen through reviewer decisions and making a document
+   * effective through makeEffective.
+   */
+  async transition(
+    document: ReviewableDocument,
+    to: Extract<DocumentStatus, "draft" | "in_review" | "archived">,
+    senderId: string | null,
+    reason?: string
+  ) {
+    const from = getDocumentStatus(document);
+    if (!canTransition(from, to)) {
+      throw new Error(
+        `A ${DOCUMENT_STATUS_LABELS[from].toLowerCase()} document can't become ${DOCUMENT_STATUS_LABELS[
+          to
+        ].toLowerCase()}`
+      );
+    }
+
+    const updated = await documentService.updateDocument(document.id, { status: to }, reason);
+
+    if (to === "in_review" && document.trial_id) {
+      const reviews = await this.getReviews(document.id);
+      await notificationService.notifyTrialTeam({
+        trialId: document.trial_id,
+        type: "approval",
+        priority: "high",
+        title: "Document review requested",
+        message: `${document.document_name} is waiting for your review.`,
+        actionUrl: `/trials/${document.trial_id}/document-hub`,
+        actionLabel: "Review Document",
+        metadata: { documentId: document.id },
+        senderId,
+        recipientIds: reviews.map((review) => review.reviewer_id),
+      });
+    }
+
+    return updated;
+  }
+
+  async addComment(reviewId: string, body: string) {
+    const { error } = await supabase
+      .from("document_review_comments")
+      .insert({ review_id: reviewId, body: body.trim() });
+    if (error) throw error;
+  }
+
+  /**
+   * Record a reviewer's decision, with an optional comment. The database moves
+   * the document to approved after the last approval, or back to draft when
+   * changes are requested.
+   */
+  async decide(
+    review: DocumentReview,
+    document: ReviewableDocument,
+    decision: Exclude<ReviewDecision, "pending">,
+    comment?: string
+  ) {
+    if (decision === "changes_requested" && !comment?.trim()) {
+      throw new Error("Describe the changes you are requesting");
+    }
+
+    if (comment?.trim()) await this.addComment(review.id, comment);
+
+    const { error } = await supabase
+      .from("document_reviews")
+      .update({ decision })
+      .eq("id", review.id);
+    if (error) throw error;
+
+    console.log(`📝 ${review.reviewer?.name} ${decision} ${document.document_name}`);
+
+    if (document.trial_id && document.uploaded_by) {
+      await notificationService.notifyTrialTeam({
+        trialId: document.trial_id,
+        type: "approval",
+        priority: decision === "changes_requested" ? "high" : "medium",
+        title:
+          decision === "approved" ? "Document review approved" : "Changes requested on document",
+        message: `${review.reviewer?.name || "A reviewer"} ${
+          decision === "approved" ? "approved" : "requested changes to"
+        } ${document.document_name}.`,
+        actionUrl: `/trials/${document.trial_id}/document-hub`,
+        actionLabel: "View Review",
+        metadata: { documentId: document.id, decision },
+        senderId: review.reviewer_id,
+        recipientIds: [document.uploaded_by],
+      });
+    }
+  }
+}
+
+export const documentReviewService = new DocumentReviewService();
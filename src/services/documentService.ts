@@ -1,9 +1,13 @@
+import { addMonths, format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import {
   TrialDocument,
   TrialDocumentInsert,
   DocumentTypeEnum,
 } from "@/integrations/supabase/types";
+import { notificationService } from "./notificationService";
+import { auditService } from "./auditService";
+import { consentService, ICF_DOCUMENT_TYPES } from "./consentService";
 
 // Re-export types for convenience
 export type { TrialDocument, DocumentTypeEnum };
@@ -15,6 +19,11 @@ export interface DocumentUploadOptions {
   description?: string;
   tags?: string[];
   amendmentNumber?: number;
+  // Upload as a draft that must pass review before it is used
+  requiresReview?: boolean;
+  expiryDate?: string;
+  // Periodic re-review; the first one is due one interval after upload
+  reviewIntervalMonths?: number;
 }
 
 export interface DocumentListOptions {
@@ -27,6 +36,79 @@ export interface DocumentListOptions {
 class DocumentService {
   private readonly BUCKET_NAME = "trial-documents";
 
+  /**
+   * Types that share a version line with the given type, or null when every
+   * document of the type stands on its own
+   */
+  private getVersionedTypes(documentType: DocumentTypeEnum): DocumentTypeEnum[] | null {
+    // ICF and consent_form documents share one version line (as in the
+    // make_trial_document_current database function)
+    if (ICF_DOCUMENT_TYPES.includes(documentType)) return ICF_DOCUMENT_TYPES;
+    if (documentType === "protocol" || documentType === "amendment") {
+      return [documentType];
+    }
+    return null;
+  }
+
+  /**
+   * A new ICF version flags every enrolled patient on an older one
+   */
+  private async notifyReconsent(document: TrialDocument, senderId: string) {
+    if (!document.trial_id || !document.version || document.version <= 1) return;
+
+    try {
+      const pending = await consentService.countPendingReconsents(
+        document.trial_id,
+        document.id
+      );
+      if (pending > 0) {
+        await notificationService.notifyTrialTeam({
+          trialId: document.trial_id,
+          type: "patient_alert",
+          priority: "high",
+          title: "Re-consent required",
+          message: `ICF version ${document.version} is now in effect. ${pending} enrolled patient${
+            pending === 1 ? "" : "s"
+          } signed an earlier version and must re-consent.`,
+          actionUrl: `/trials/${document.trial_id}/overview`,
+          actionLabel: "View Consents",
+          metadata: { documentId: document.id, pendingReconsents: pending },
+          senderId,
+        });
+      }
+    } catch (error) {
+      console.warn("Error checking pending re-consents:", error);
+    }
+  }
+
+  /**
+   * Send a document to the backend for AI indexing. Only effective documents
+   * are indexed, so drafts under review never reach the assistant.
+   */
+  private async indexDocument(document: TrialDocument) {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    const res = await fetch(
+      `${import.meta.env.VITE_API_BASE_URL}/upload/upload-pdf`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          document_url: document.document_url,
+          document_id: document.id,
+          chunk_size: 1000,
+        }),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session?.access_token}`,
+        },
+      }
+    );
+
+    console.log(res);
+  }
+
   /**
    * Sanitize filename for storage
    */
@@ -41,14 +123,20 @@ class DocumentService {
    * Upload a document to Supabase Storage and create database record
    */
   async uploadDocument(options: DocumentUploadOptions): Promise<TrialDocument> {
-    const { file, trialId, documentType, description, tags, amendmentNumber } =
-      options;
+    const {
+      file,
+      trialId,
+      documentType,
+      description,
+      tags,
+      amendmentNumber,
+      requiresReview = false,
+      expiryDate,
+      reviewIntervalMonths,
+    } = options;
 
     try {
       // 1. Upload file to Storage with sanitized filename
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
       const sanitizedName = this.sanitizeFileName(file.name);
       const fileName = `${trialId}/${Date.now()}-${sanitizedName}`;
       const { data: uploadData, error: uploadError } = await supabase.storage
@@ -90,43 +178,22 @@ class DocumentService {
         );
       }
 
-      // 5. Handle is_latest logic for protocols and amendments
-      let shouldBeLatest = true;
-      if (documentType === "protocol" || documentType === "amendment") {
-        // First, check if there's already a latest document of this type for this trial
-        const { data: existingLatest, error: existingError } = await supabase
+      // 5. Protocols, amendments and ICFs are inserted first and made the
+      // latest version afterwards, so a failed upload never leaves the trial
+      // without a current version. Documents that need review only become
+      // latest once effective.
+      let version = 1;
+      const isIcf = ICF_DOCUMENT_TYPES.includes(documentType);
+      const versionedTypes = this.getVersionedTypes(documentType);
+
+      // Consent records point at a numbered ICF version
+      if (versionedTypes && isIcf) {
+        const { count } = await supabase
           .from("trial_documents")
-          .select("id")
+          .select("id", { count: "exact", head: true })
           .eq("trial_id", trialId)
-          .eq("document_type", documentType)
-          .eq("is_latest", true)
-          .limit(1);
-
-        if (existingError) {
-          console.warn(
-            "Error checking existing latest documents:",
-            existingError
-          );
-          // Continue with upload but don't mark as latest if we can't verify
-          shouldBeLatest = false;
-        } else if (existingLatest && existingLatest.length > 0) {
-          // Mark existing latest documents as false
-          const { error: updateError } = await supabase
-            .from("trial_documents")
-            .update({ is_latest: false })
-            .eq("trial_id", trialId)
-            .eq("document_type", documentType)
-            .eq("is_latest", true);
-
-          if (updateError) {
-            console.warn(
-              "Error updating existing latest documents:",
-              updateError
-            );
-            // Continue with upload but don't mark as latest if update failed
-            shouldBeLatest = false;
-          }
-        }
+          .in("document_type", versionedTypes);
+        version = (count || 0) + 1;
       }
 
       // 6. Create database record with proper types
@@ -136,23 +203,28 @@ class DocumentService {
         document_url: publicUrl,
         trial_id: trialId,
         uploaded_by: memberData.id,
-        status: "active",
+        status: requiresReview ? "draft" : "effective",
         file_size: file.size,
         mime_type: file.type,
-        version: 1,
+        version,
         amendment_number: amendmentNumber,
-        is_latest: shouldBeLatest,
+        is_latest: !requiresReview && !versionedTypes,
         description,
         tags,
+        expiry_date: expiryDate ?? null,
+        review_interval_months: reviewIntervalMonths ?? null,
+        next_review_date: reviewIntervalMonths
+          ? format(addMonths(new Date(), reviewIntervalMonths), "yyyy-MM-dd")
+          : null,
       };
 
-      const { data: documentData, error: documentError } = await supabase
+      const { data: insertedDocument, error: documentError } = await supabase
         .from("trial_documents")
         .insert(documentInsert)
         .select()
         .single();
 
-      console.log(documentData, documentError);
+      console.log(insertedDocument, documentError);
 
       if (documentError) {
         console.error("Database insert error:", documentError);
@@ -161,6 +233,20 @@ class DocumentService {
         );
       }
 
+      // 7. Supersede the previous version and make this one latest in one call
+      let documentData = insertedDocument;
+      if (versionedTypes && !requiresReview) {
+        const { data: current, error: currentError } = await supabase.rpc(
+          "make_trial_document_current",
+          { document_id_param: insertedDocument.id }
+        );
+        if (currentError) {
+          console.warn("Error making the new version current:", currentError);
+        } else {
+          documentData = current;
+        }
+      }
+
       // Log the successful Supabase response for backend integration
       console.log("✅ SUPABASE UPLOAD SUCCESS - Document Response:", {
         documentData,
@@ -173,23 +259,34 @@ class DocumentService {
         },
       });
 
-      const res = await fetch(
-        `${import.meta.env.VITE_API_BASE_URL}/upload/upload-pdf`,
-        {
-          method: "POST",
-          body: JSON.stringify({
-            document_url: documentData?.document_url,
-            document_id: documentData?.id,
-            chunk_size: 1000,
-          }),
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${session?.access_token}`,
-          },
-        }
-      );
+      // Drafts are indexed once they are made effective
+      if (documentData.status === "effective") {
+        await this.indexDocument(documentData);
+      }
 
-      console.log(res);
+      await notificationService.notifyTrialTeam({
+        trialId,
+        type: "trial_update",
+        priority:
+          documentType === "protocol" || documentType === "amendment"
+            ? "high"
+            : "medium",
+        title:
+          documentType === "amendment"
+            ? "Protocol amendment uploaded"
+            : "New document uploaded",
+        message: requiresReview
+          ? `${file.name} was uploaded as a draft and needs review before use.`
+          : `${file.name} was uploaded to the trial documents.`,
+        actionUrl: `/trials/${trialId}/document-hub`,
+        actionLabel: "View Documents",
+        metadata: { documentId: documentData.id, documentType },
+        senderId: memberData.id,
+      });
+
+      if (isIcf && documentData.is_latest) {
+        await this.notifyReconsent(documentData, memberData.id);
+      }
 
       return documentData;
     } catch (error) {
@@ -307,24 +404,38 @@ class DocumentService {
   }
 
   /**
-   * Update document metadata
+   * Update document metadata. The change is recorded in the audit trail
+   * together with the reason for change.
    */
   async updateDocument(
     documentId: string,
     updates: Partial<
-      Pick<TrialDocument, "document_name" | "description" | "tags" | "status">
-    >
+      Pick<
+        TrialDocument,
+        | "document_name"
+        | "description"
+        | "tags"
+        | "status"
+        | "expiry_date"
+        | "review_interval_months"
+        | "next_review_date"
+      >
+    >,
+    reason?: string
   ): Promise<TrialDocument> {
     try {
-      const { data, error } = await supabase
-        .from("trial_documents")
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", documentId)
-        .select()
-        .single();
+      const { data, error } = await auditService.withReason(
+        supabase
+          .from("trial_documents")
+          .update({
+            ...updates,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", documentId)
+          .select()
+          .single(),
+        reason
+      );
 
       if (error) throw error;
 
@@ -335,6 +446,48 @@ class DocumentService {
     }
   }
 
+  /**
+   * Put an approved document into effect. It becomes the latest version the
+   * AI assistant uses and the version it replaces is superseded.
+   */
+  async makeEffective(documentId: string, senderId: string): Promise<TrialDocument> {
+    const before = await this.getDocumentById(documentId);
+    if (!before) throw new Error("Document not found");
+    if (before.status !== "approved") {
+      throw new Error("Only approved documents can be made effective");
+    }
+
+    const versionedTypes = this.getVersionedTypes(before.document_type);
+
+    // Supersedes the previous version in the same transaction
+    const { data, error } = await auditService.withReason(
+      supabase.rpc("make_trial_document_current", { document_id_param: documentId }),
+      "Approved document made effective"
+    );
+
+    if (error) throw error;
+
+    await this.indexDocument(data);
+
+    await notificationService.notifyTrialTeam({
+      trialId: data.trial_id,
+      type: "trial_update",
+      priority: versionedTypes ? "high" : "medium",
+      title: "Document in effect",
+      message: `${data.document_name} passed review and is now in effect.`,
+      actionUrl: `/trials/${data.trial_id}/document-hub`,
+      actionLabel: "View Documents",
+      metadata: { documentId: data.id, documentType: data.document_type },
+      senderId,
+    });
+
+    if (ICF_DOCUMENT_TYPES.includes(data.document_type)) {
+      await this.notifyReconsent(data, senderId);
+    }
+
+    return data;
+  }
+
   /**
    * Download document (get signed URL for private files)
    */
@@ -0,0 +1,84 @@
+// Email Share Service - Sends Document AI responses by email
+// The share is recorded in the shared_responses table, then the `share-response`
+// Supabase edge function renders the email from that record and delivers it
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ShareResponseParams {
+  trialId: string;
+  recipients: string[];
+  subject: string;
+  message: string;
+  prompt: string;
+  response: string;
+  sources?: unknown[];
+}
+
+export interface RecipientDeliveryResult {
+  email: string;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface ShareResponseResult {
+  id: string;
+  status: 'sent' | 'partial' | 'failed';
+  results: RecipientDeliveryResult[];
+}
+
+class EmailShareService {
+  /**
+   * Send a response to every recipient. Resolves with per-recipient results
+   * even when some deliveries fail; rejects only when nothing could be attempted.
+   */
+  async shareResponse(params: ShareResponseParams): Promise<ShareResponseResult> {
+    console.log('📧 Sharing response with', params.recipients.length, 'recipient(s)');
+
+    const { data: share, error: insertError } = await supabase
+      .from('shared_responses')
+      .insert({
+        trial_id: params.trialId,
+        recipients: params.recipients,
+        subject: params.subject,
+        message: params.message,
+        prompt: params.prompt,
+        response: params.response,
+        sources: (params.sources ?? []) as Json,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    const { data, error } = await supabase.functions.invoke<ShareResponseResult>('share-response', {
+      body: { sharedResponseId: share.id },
+    });
+
+    if (error) {
+      // The function returns { error } with a non-2xx status for validation failures
+      const context = (error as { context?: Response }).context;
+      const details = context ? await context.json().catch(() => null) : null;
+      throw new Error(details?.error || error.message);
+    }
+
+    if (!data) {
+      throw new Error('Empty response from share-response function');
+    }
+
+    console.log(`✅ Share ${data.id}: ${data.status}`);
+    return data;
+  }
+}
+
+// Singleton instance
+let emailShareService: EmailShareService | null = null;
+
+export function getEmailShareService(): EmailShareService {
+  if (!emailShareService) {
+    emailShareService = new EmailShareService();
+  }
+  return emailShareService;
+}
+
+export default EmailShareService;
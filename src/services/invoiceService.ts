@@ -0,0 +1,443 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { buildTextPdf, PdfRow, PDF_CONTENT_LEFT, PDF_CONTENT_RIGHT } from "@/lib/pdf";
+import {
+  appliesToVisit,
+  budgetService,
+  formatBudgetAmount,
+  BudgetLineItem,
+} from "./budgetService";
+import { VISIT_TYPE_LABELS, PatientVisit } from "./visitScheduleService";
+
+export type SponsorInvoice =
+  Database["public"]["Tables"]["sponsor_invoices"]["Row"];
+
+// Stored status plus "overdue", which is derived from the due date
+export type InvoiceStatus = "draft" | "sent" | "paid" | "overdue";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  paid: "Paid",
+  overdue: "Overdue",
+};
+
+export type InvoiceVisit = Pick<
+  PatientVisit,
+  "id" | "trial_id" | "visit_date" | "visit_number" | "visit_type" | "schedule_item_id"
+> & { patients: { patient_code: string } | null };
+
+export interface SponsorInvoiceLine {
+  id: string;
+  visit_id: string;
+  description: string;
+  amount: number;
+  patient_visits: Omit<InvoiceVisit, "id" | "trial_id" | "schedule_item_id"> | null;
+}
+
+export interface SponsorInvoiceWithLines extends SponsorInvoice {
+  sponsor_invoice_lines: SponsorInvoiceLine[];
+  trials: { name: string } | null;
+}
+
+/**
+ * A completed visit that hasn't been billed yet, priced from the budget
+ */
+export interface UnbilledVisit {
+  visit: InvoiceVisit;
+  amount: number;
+  description: string;
+}
+
+export interface CreateInvoiceOptions {
+  trialId: string;
+  visitIds: string[];
+  // Days between the issue date and the due date
+  paymentTermsDays: number;
+  notes?: string;
+}
+
+export interface InvoiceAgingBucket {
+  label: string;
+  count: number;
+  amount: number;
+}
+
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const AGING_BUCKETS = [
+  { label: "Not yet due", maxDays: 0 },
+  { label: "1–30 days", maxDays: 30 },
+  { label: "31–60 days", maxDays: 60 },
+  { label: "61–90 days", maxDays: 90 },
+  { label: "90+ days", maxDays: Infinity },
+];
+
+const INVOICE_SELECT = `
+  *,
+  trials(name),
+  sponsor_invoice_lines(
+    id,
+    visit_id,
+    description,
+    amount,
+    patient_visits!sponsor_invoice_lines_visit_id_fkey(
+      visit_date,
+      visit_number,
+      visit_type,
+      patients!patient_visits_patient_id_fkey(patient_code)
+    )
+  )
+`;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getInvoiceStatus(
+  invoice: Pick<SponsorInvoice, "status" | "due_date">,
+  today: Date = new Date()
+): InvoiceStatus {
+  if (invoice.status === "sent" && invoice.due_date < format(today, "yyyy-MM-dd")) {
+    return "overdue";
+  }
+  return invoice.status as InvoiceStatus;
+}
+
+/**
+ * Outstanding (sent, unpaid) invoices grouped by days past their due date
+ */
+export function getInvoiceAging(
+  invoices: Pick<SponsorInvoice, "status" | "due_date" | "total">[],
+  today: Date = new Date()
+): InvoiceAgingBucket[] {
+  const buckets = AGING_BUCKETS.map(({ label }) => ({ label, count: 0, amount: 0 }));
+
+  invoices
+    .filter((invoice) => invoice.status === "sent")
+    .forEach((invoice) => {
+      const daysPastDue = differenceInCalendarDays(today, parseISO(invoice.due_date));
+      const index = AGING_BUCKETS.findIndex(({ maxDays }) => daysPastDue <= maxDays);
+      buckets[index].count++;
+      buckets[index].amount += Number(invoice.total);
+    });
+
+  return buckets;
+}
+
+/**
+ * Price of a visit from the trial budget: the per-visit fees and procedures
+ * that apply to it, plus percentage overhead
+ */
+export function priceVisit(
+  visit: Pick<PatientVisit, "schedule_item_id" | "visit_type">,
+  items: BudgetLineItem[]
+) {
+  const applied = items.filter(
+    (item) =>
+      (item.category === "per_visit" || item.category === "procedure") &&
+      appliesToVisit(item, visit)
+  );
+  const overheadPercent = items
+    .filter((item) => item.category === "overhead" && item.overhead_percent !== null)
+    .reduce((sum, item) => sum + (item.overhead_percent ?? 0), 0);
+
+  const direct = applied.reduce((sum, item) => sum + item.unit_cost, 0);
+  const names = applied.map((item) => item.name);
+  if (overheadPercent > 0 && direct > 0) names.push(`${overheadPercent}% overhead`);
+
+  return {
+    amount: round(direct * (1 + overheadPercent / 100)),
+    description: names.join(", ") || "Not priced in the budget",
+  };
+}
+
+const visitLabel = (
+  visit: Pick<InvoiceVisit, "visit_number" | "visit_type"> | null
+) =>
+  visit
+    ? `Visit ${visit.visit_number}${
+        visit.visit_type ? ` (${VISIT_TYPE_LABELS[visit.visit_type]})` : ""
+      }`
+    : "";
+
+class InvoiceService {
+  private readonly BUCKET_NAME = "trial-documents";
+
+  /**
+   * Invoices of the given trials, newest first
+   */
+  async getInvoices(trialIds: string[]): Promise<SponsorInvoiceWithLines[]> {
+    if (trialIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("sponsor_invoices")
+      .select(INVOICE_SELECT)
+      .in("trial_id", trialIds)
+      .order("issue_date", { ascending: false })
+      .order("invoice_number", { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as unknown as SponsorInvoiceWithLines[];
+  }
+
+  async getInvoice(invoiceId: string): Promise<SponsorInvoiceWithLines> {
+    const { data, error } = await supabase
+      .from("sponsor_invoices")
+      .select(INVOICE_SELECT)
+      .eq("id", invoiceId)
+      .single();
+
+    if (error) throw error;
+    return data as unknown as SponsorInvoiceWithLines;
+  }
+
+  /**
+   * Completed visits of a trial that are not on any invoice yet
+   */
+  async getUnbilledVisits(trialId: string): Promise<UnbilledVisit[]> {
+    const [{ data: visits, error }, items] = await Promise.all([
+      supabase
+        .from("patient_visits")
+        .select(
+          "id, trial_id, visit_date, visit_number, visit_type, schedule_item_id, patients!patient_visits_patient_id_fkey(patient_code), sponsor_invoice_lines(id)"
+        )
+        .eq("trial_id", trialId)
+        .eq("status", "completed")
+        .order("visit_date", { ascending: true }),
+      budgetService.getLineItems(trialId),
+    ]);
+
+    if (error) throw error;
+
+    return (visits || [])
+      .filter((visit) => !visit.sponsor_invoice_lines)
+      .map(({ sponsor_invoice_lines: _, ...visit }) => ({
+        visit,
+        ...priceVisit(visit, items),
+      }));
+  }
+
+  /**
+   * Create a draft invoice for completed visits of a trial, addressed to the
+   * trial's sponsor. The database prices each line from the trial budget and
+   * writes the invoice and its lines in one transaction.
+   */
+  async createDraftInvoice(options: CreateInvoiceOptions): Promise<SponsorInvoice> {
+    const { trialId, visitIds, paymentTermsDays, notes } = options;
+    if (visitIds.length === 0) throw new Error("Select at least one visit to invoice");
+
+    const unbilled = await this.getUnbilledVisits(trialId);
+    const selected = unbilled.filter(({ visit }) => visitIds.includes(visit.id));
+    if (selected.length !== visitIds.length) {
+      throw new Error("Some of the selected visits have already been invoiced");
+    }
+
+    const { data: invoice, error } = await supabase.rpc("create_sponsor_invoice", {
+      trial_id_param: trialId,
+      lines: selected.map(({ visit, description }) => ({
+        visit_id: visit.id,
+        description,
+      })),
+      payment_terms_days: paymentTermsDays || DEFAULT_PAYMENT_TERMS_DAYS,
+      notes_param: notes?.trim() || null,
+    });
+
+    if (error) {
+      // A visit was billed in the meantime
+      throw error.code === "23505"
+        ? new Error("Some of the selected visits have already been invoiced")
+        : error;
+    }
+
+    console.log(`🧾 Created draft invoice ${invoice.invoice_number} for trial ${trialId}`);
+    return invoice;
+  }
+
+  /**
+   * Mark a draft as sent: upload its PDF, then record it as an invoice visit
+   * document on the first billed visit and link it to the invoice in one call
+   */
+  async sendInvoice(invoiceId: string): Promise<SponsorInvoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (invoice.status !== "draft") throw new Error("Only draft invoices can be sent");
+    if (invoice.sponsor_invoice_lines.length === 0) throw new Error("The invoice has no visits");
+
+    const pdf = this.buildPdf(invoice);
+    const fileName = `${invoice.trial_id}/invoices/${invoice.invoice_number}.pdf`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(this.BUCKET_NAME)
+      .upload(fileName, pdf, { contentType: "application/pdf", upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload invoice: ${uploadError.message}`);
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(this.BUCKET_NAME).getPublicUrl(fileName);
+
+    const { data, error } = await supabase.rpc("send_sponsor_invoice", {
+      invoice_id_param: invoiceId,
+      document_url_param: publicUrl,
+      file_size_param: pdf.size,
+    });
+
+    if (error) throw error;
+
+    console.log(`📤 Sent invoice ${invoice.invoice_number}`);
+    return data;
+  }
+
+  async markPaid(invoiceId: string): Promise<SponsorInvoice> {
+    const { data, error } = await supabase
+      .from("sponsor_invoices")
+      .update({
+        status: "paid",
+        paid_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", invoiceId)
+      .eq("status", "sent")
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Delete a draft; its visits become billable again
+   */
+  async deleteDraft(invoiceId: string): Promise<void> {
+    const { error } = await supabase
+      .from("sponsor_invoices")
+      .delete()
+      .eq("id", invoiceId)
+      .eq("status", "draft");
+
+    if (error) throw error;
+  }
+
+  buildPdf(invoice: SponsorInvoiceWithLines): Blob {
+    const money = (amount: number) => formatBudgetAmount(amount, invoice.currency);
+    const left = PDF_CONTENT_LEFT;
+    const right = PDF_CONTENT_RIGHT;
+    const date = (value: string) => format(parseISO(value), "MMM d, yyyy");
+
+    const rows: PdfRow[] = [
+      { size: 20, segments: [{ text: "INVOICE", x: left, bold: true }] },
+      {
+        spaceBefore: 8,
+        segments: [
+          { text: "Invoice number", x: left },
+          { text: invoice.invoice_number, x: 160, bold: true },
+        ],
+      },
+      {
+        segments: [
+          { text: "Issue date", x: left },
+          { text: date(invoice.issue_date), x: 160 },
+        ],
+      },
+      {
+        segments: [
+          { text: "Due date", x: left },
+          { text: date(invoice.due_date), x: 160 },
+        ],
+      },
+      {
+        spaceBefore: 12,
+        segments: [
+          { text: "Bill to", x: left },
+          { text: invoice.sponsor, x: 160, bold: true },
+        ],
+      },
+      {
+        segments: [
+          { text: "Trial", x: left },
+          { text: invoice.trials?.name || "", x: 160 },
+        ],
+      },
+      {
+        spaceBefore: 20,
+        rule: true,
+        segments: [
+          { text: "Date", x: left, bold: true },
+          { text: "Patient", x: 130, bold: true },
+          { text: "Visit", x: 210, bold: true },
+          { text: "Description", x: 330, bold: true },
+          { text: "Amount", x: right, bold: true, align: "right" },
+        ],
+      },
+      ...invoice.sponsor_invoice_lines.map<PdfRow>((line) => ({
+        size: 9,
+        segments: [
+          { text: line.patient_visits ? date(line.patient_visits.visit_date) : "", x: left },
+          { text: line.patient_visits?.patients?.patient_code || "", x: 130 },
+          { text: visitLabel(line.patient_visits), x: 210 },
+          {
+            text:
+              line.description.length > 34
+                ? `${line.description.slice(0, 33)}…`
+                : line.description,
+            x: 330,
+          },
+          { text: money(Number(line.amount)), x: right, align: "right" },
+        ],
+      })),
+      {
+        spaceBefore: 8,
+        size: 12,
+        segments: [
+          { text: "Total due", x: 330, bold: true },
+          { text: money(Number(invoice.total)), x: right, bold: true, align: "right" },
+        ],
+      },
+    ];
+
+    if (invoice.notes) {
+      rows.push({ spaceBefore: 20, segments: [{ text: "Notes", x: left, bold: true }] });
+      invoice.notes.split("\n").forEach((line) => {
+        rows.push({ segments: [{ text: line, x: left }] });
+      });
+    }
+
+    return buildTextPdf(rows);
+  }
+
+  toCSV(invoice: SponsorInvoiceWithLines): string {
+    const escape = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = [
+      "Invoice",
+      "Sponsor",
+      "Trial",
+      "Visit date",
+      "Patient",
+      "Visit",
+      "Description",
+      "Amount",
+      "Currency",
+    ];
+
+    const rows = invoice.sponsor_invoice_lines.map((line) => [
+      invoice.invoice_number,
+      invoice.sponsor,
+      invoice.trials?.name || "",
+      line.patient_visits?.visit_date || "",
+      line.patient_visits?.patients?.patient_code || "",
+      visitLabel(line.patient_visits),
+      line.description,
+      Number(line.amount).toFixed(2),
+      invoice.currency,
+    ]);
+
+    return [header, ...rows].map((row) => row.map(escape).join(",")).join("\n");
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,173 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type NotificationRow =
+  Database["public"]["Tables"]["notifications"]["Row"];
+
+export type NotificationType =
+  | "trial_update"
+  | "patient_alert"
+  | "team_invite"
+  | "system"
+  | "reminder"
+  | "approval"
+  | "milestone";
+
+export type NotificationPriority = "low" | "medium" | "high" | "urgent";
+
+export interface TrialNotificationOptions {
+  trialId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  actionUrl?: string;
+  actionLabel?: string;
+  metadata?: Record<string, Json>;
+  // Member who caused the event; they are not notified themselves
+  senderId?: string | null;
+  // Only notify these members of the team
+  recipientIds?: string[];
+}
+
+class NotificationService {
+  /**
+   * Notify every active member of a trial's team.
+   * Notifications are best effort: failures are logged and never thrown, so
+   * they can't break the action that triggered them.
+   */
+  async notifyTrialTeam(options: TrialNotificationOptions): Promise<void> {
+    const {
+      trialId,
+      type,
+      title,
+      message,
+      priority = "medium",
+      actionUrl,
+      actionLabel,
+      metadata = {},
+      senderId,
+      recipientIds: onlyRecipientIds,
+    } = options;
+
+    try {
+      const [{ data: trial, error: trialError }, { data: team, error: teamError }] =
+        await Promise.all([
+          supabase
+            .from("trials")
+            .select("name, organization_id")
+            .eq("id", trialId)
+            .single(),
+          supabase
+            .from("trial_members")
+            .select("member_id")
+            .eq("trial_id", trialId)
+            .eq("is_active", true),
+        ]);
+
+      if (trialError) throw trialError;
+      if (teamError) throw teamError;
+
+      const recipientIds = [
+        ...new Set((team || []).map((tm) => tm.member_id)),
+      ].filter(
+        (id) =>
+          id !== senderId &&
+          (!onlyRecipientIds || onlyRecipientIds.includes(id))
+      );
+
+      if (recipientIds.length === 0) return;
+
+      const { error } = await supabase.from("notifications").insert(
+        recipientIds.map((recipientId) => ({
+          organization_id: trial.organization_id,
+          recipient_id: recipientId,
+          sender_id: senderId ?? null,
+          trial_id: trialId,
+          type,
+          priority,
+          title,
+          message,
+          action_url: actionUrl ?? null,
+          action_label: actionLabel ?? null,
+          metadata: { trialName: trial.name, ...metadata },
+        }))
+      );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error creating notifications:", error);
+    }
+  }
+
+  /**
+   * Notifications for a member, newest first
+   */
+  async getNotifications(
+    memberId: string,
+    { includeArchived = false }: { includeArchived?: boolean } = {}
+  ): Promise<NotificationRow[]> {
+    let query = supabase
+      .from("notifications")
+      .select("*")
+      .eq("recipient_id", memberId)
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (!includeArchived) {
+      query = query.is("archived_at", null);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getUnreadCount(memberId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("recipient_id", memberId)
+      .is("read_at", null)
+      .is("archived_at", null);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async markAsRead(ids: string[]): Promise<void> {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .in("id", ids)
+      .is("read_at", null);
+
+    if (error) throw error;
+  }
+
+  async markAllAsRead(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("recipient_id", memberId)
+      .is("read_at", null);
+
+    if (error) throw error;
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<void> {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    const { error } = await supabase.from("notifications").delete().eq("id", id);
+    if (error) throw error;
+  }
+}
+
+export const notificationService = new NotificationService();
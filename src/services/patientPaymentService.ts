@@ -0,0 +1,270 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { PatientVisit } from "./visitScheduleService";
+
+export type PatientPaymentRow =
+  Database["public"]["Tables"]["patient_payments"]["Row"];
+export type PaymentKind = "stipend" | "travel";
+export type PaymentStatus = "pending" | "approved" | "rejected" | "paid";
+
+export const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  stipend: "Visit stipend",
+  travel: "Travel expense",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Pending approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  paid: "Paid",
+};
+
+// Tag of the visit_documents records holding expense receipts
+export const PATIENT_RECEIPT_TAG = "patient_receipt";
+
+export interface PatientPayment extends PatientPaymentRow {
+  trials: { name: string } | null;
+  patient_visits: Pick<PatientVisit, "visit_date" | "visit_number" | "visit_type"> | null;
+  visit_documents: { document_name: string; document_url: string } | null;
+}
+
+/**
+ * A trial the patient is enrolled in, with its reimbursement terms
+ */
+export interface PatientEnrollment {
+  trialId: string;
+  trialName: string;
+  currency: string;
+  reimbursementRate: number | null;
+  transportAllowance: number | null;
+  visits: Pick<PatientVisit, "id" | "visit_date" | "visit_number" | "status">[];
+}
+
+export interface PatientBalance {
+  trialId: string;
+  trialName: string;
+  currency: string;
+  pending: number;
+  // Approved, waiting for the payout
+  owed: number;
+  paid: number;
+}
+
+export interface TravelExpenseInput {
+  trialId: string;
+  patientId: string;
+  visitId: string;
+  amount: number;
+  description: string;
+  receipt?: File | null;
+  createdBy?: string | null;
+}
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Balance per trial. Rejected entries don't count.
+ */
+export function summarizePatientBalance(payments: PatientPayment[]): PatientBalance[] {
+  const balances: Record<string, PatientBalance> = {};
+
+  payments.forEach((payment) => {
+    const key = `${payment.trial_id}:${payment.currency}`;
+    balances[key] ||= {
+      trialId: payment.trial_id,
+      trialName: payment.trials?.name || "",
+      currency: payment.currency,
+      pending: 0,
+      owed: 0,
+      paid: 0,
+    };
+
+    const amount = Number(payment.amount);
+    if (payment.status === "pending") balances[key].pending += amount;
+    if (payment.status === "approved") balances[key].owed += amount;
+    if (payment.status === "paid") balances[key].paid += amount;
+  });
+
+  return Object.values(balances);
+}
+
+class PatientPaymentService {
+  private readonly BUCKET_NAME = "trial-documents";
+
+  /**
+   * Ledger entries of a patient across all trials, newest first
+   */
+  async getPatientPayments(patientId: string): Promise<PatientPayment[]> {
+    const { data, error } = await supabase
+      .from("patient_payments")
+      .select(
+        "*, trials(name), patient_visits!patient_payments_visit_id_fkey(visit_date, visit_number, visit_type), visit_documents!patient_payments_receipt_document_id_fkey(document_name, document_url)"
+      )
+      .eq("patient_id", patientId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Trials the patient is enrolled in, with the reimbursement terms from
+   * trial_patients.cost_data and the visits expenses can be filed against
+   */
+  async getEnrollments(patientId: string): Promise<PatientEnrollment[]> {
+    const [{ data: enrollments, error }, { data: visits, error: visitsError }] =
+      await Promise.all([
+        supabase
+          .from("trial_patients")
+          .select("trial_id, cost_data, trials(name, budget_currency)")
+          .eq("patient_id", patientId),
+        supabase
+          .from("patient_visits")
+          .select("id, trial_id, visit_date, visit_number, status")
+          .eq("patient_id", patientId)
+          .order("visit_date", { ascending: false }),
+      ]);
+
+    if (error) throw error;
+    if (visitsError) throw visitsError;
+
+    return (enrollments || []).map((enrollment) => {
+      const costData = (enrollment.cost_data as Record<string, unknown>) || {};
+      return {
+        trialId: enrollment.trial_id,
+        trialName: enrollment.trials?.name || "",
+        currency: enrollment.trials?.budget_currency || "USD",
+        reimbursementRate: toNumber(costData.reimbursement_rate),
+        transportAllowance: toNumber(costData.transport_allowance),
+        visits: (visits || []).filter((visit) => visit.trial_id === enrollment.trial_id),
+      };
+    });
+  }
+
+  /**
+   * Record a travel expense. The receipt is stored as a visit document with
+   * the amount; the trial budget counts the expense once it is approved.
+   */
+  async addTravelExpense(input: TravelExpenseInput): Promise<PatientPaymentRow> {
+    const { trialId, patientId, visitId, amount, description, receipt, createdBy } =
+      input;
+
+    const { data: trial, error: trialError } = await supabase
+      .from("trials")
+      .select("budget_currency")
+      .eq("id", trialId)
+      .single();
+
+    if (trialError) throw trialError;
+
+    let receiptDocumentId: string | null = null;
+
+    if (receipt) {
+      const fileName = `${trialId}/receipts/${Date.now()}-${receipt.name
+        .replace(/[^a-zA-Z0-9._-]/g, "_")
+        .toLowerCase()}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(this.BUCKET_NAME)
+        .upload(fileName, receipt, { cacheControl: "3600", upsert: false });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload receipt: ${uploadError.message}`);
+      }
+
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from(this.BUCKET_NAME).getPublicUrl(fileName);
+
+      const { data: document, error: documentError } = await supabase
+        .from("visit_documents")
+        .insert({
+          visit_id: visitId,
+          document_name: receipt.name,
+          document_type: "other",
+          document_url: publicUrl,
+          description: `Receipt: ${description}`,
+          amount,
+          currency: trial.budget_currency,
+          file_size: receipt.size,
+          file_type: receipt.name.split(".").pop()?.toLowerCase() || null,
+          mime_type: receipt.type || null,
+          tags: [PATIENT_RECEIPT_TAG],
+          uploaded_by: createdBy ?? null,
+        })
+        .select("id")
+        .single();
+
+      if (documentError) throw documentError;
+      receiptDocumentId = document.id;
+    }
+
+    const { data, error } = await supabase
+      .from("patient_payments")
+      .insert({
+        trial_id: trialId,
+        patient_id: patientId,
+        visit_id: visitId,
+        kind: "travel",
+        description: description.trim(),
+        amount,
+        currency: trial.budget_currency,
+        receipt_document_id: receiptDocumentId,
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log(`🧾 Recorded travel expense of ${amount} for patient ${patientId}`);
+    return data;
+  }
+
+  /**
+   * Approve or reject pending entries (organization admins only)
+   */
+  async reviewPayments(
+    paymentIds: string[],
+    decision: "approved" | "rejected",
+    reviewerId: string | null,
+    note?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from("patient_payments")
+      .update({
+        status: decision,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_note: note?.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .in("id", paymentIds)
+      .eq("status", "pending");
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record the payout of approved entries
+   */
+  async markPaid(paymentIds: string[], paymentReference?: string): Promise<void> {
+    const { error } = await supabase
+      .from("patient_payments")
+      .update({
+        status: "paid",
+        paid_at: new Date().toISOString(),
+        payment_reference: paymentReference?.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .in("id", paymentIds)
+      .eq("status", "approved");
+
+    if (error) throw error;
+  }
+}
+
+export const patientPaymentService = new PatientPaymentService();
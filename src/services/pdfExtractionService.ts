@@ -9,8 +9,12 @@ if (typeof window !== 'undefined') {
 export interface PDFPage {
   pageNumber: number;
   text: string;
+  // Text grouped into visual lines, top to bottom
+  lines: string[];
+  // In content order, as the PDF text layer renders them
   textItems: Array<{
     str: string;
+    hasEOL: boolean;
     x: number;
     y: number;
     width: number;
@@ -20,9 +24,9 @@ export interface PDFPage {
 
 export class PDFExtractionService {
   /**
-   * Extract text from specific PDF pages
+   * Extract text from specific PDF pages, or from every page when no page numbers are given
    */
-  static async extractPages(pdfUrl: string, pageNumbers: number[]): Promise<PDFPage[]> {
+  static async extractPages(pdfUrl: string, pageNumbers?: number[]): Promise<PDFPage[]> {
     try {
       console.log('🔄 Loading PDF:', pdfUrl);
 
@@ -38,8 +42,10 @@ export class PDFExtractionService {
 
       // Extract requested pages
       const results: PDFPage[] = [];
+      const requestedPages =
+        pageNumbers ?? Array.from({ length: pdf.numPages }, (_, i) => i + 1);
 
-      for (const pageNum of pageNumbers) {
+      for (const pageNum of requestedPages) {
         if (pageNum < 1 || pageNum > pdf.numPages) {
           console.warn(`⚠️ Page ${pageNum} out of range (1-${pdf.numPages})`);
           continue;
@@ -51,6 +57,7 @@ export class PDFExtractionService {
         // Extract text with positioning
         const textItems = textContent.items.map((item: any) => ({
           str: item.str,
+          hasEOL: !!item.hasEOL,
           x: item.transform[4],
           y: item.transform[5],
           width: item.width,
@@ -58,7 +65,7 @@ export class PDFExtractionService {
         }));
 
         // Combine text in reading order
-        const pageText = textItems
+        const sortedItems = [...textItems]
           .sort((a, b) => {
             // Sort by Y position (top to bottom), then X (left to right)
             const yDiff = Math.abs(a.y - b.y);
@@ -66,15 +73,31 @@ export class PDFExtractionService {
               return b.y - a.y; // Top to bottom
             }
             return a.x - b.x; // Left to right on same line
-          })
+          });
+
+        const pageText = sortedItems
           .map(item => item.str)
           .join(' ')
           .replace(/\s+/g, ' ')
           .trim();
 
+        // Group items sharing the same baseline into lines
+        const lines: string[] = [];
+        let currentY: number | null = null;
+        for (const item of sortedItems) {
+          if (currentY === null || Math.abs(currentY - item.y) > 5) {
+            lines.push('');
+            currentY = item.y;
+          }
+          lines[lines.length - 1] += `${item.str} `;
+        }
+
         results.push({
           pageNumber: pageNum,
           text: pageText,
+          lines: lines
+            .map(line => line.replace(/\s+/g, ' ').trim())
+            .filter(Boolean),
           textItems,
         });
 
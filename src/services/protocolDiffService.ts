@@ -0,0 +1,377 @@
+// Protocol Diff Service - Compares two versions of a trial document
+// Extracts per-page text with PDFExtractionService, splits it into numbered
+// sections, aligns the sections of both versions and diffs them line by line.
+// Claude summarizes the clinically relevant changes.
+
+import Anthropic from '@anthropic-ai/sdk';
+import { PDFExtractionService, PDFPage } from './pdfExtractionService';
+
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface WordDiff {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface LineDiff {
+  type: DiffOperation | 'changed';
+  oldText?: string;
+  newText?: string;
+  // Word-level diff, only for changed lines
+  words?: WordDiff[];
+}
+
+export interface DocumentSection {
+  key: string;
+  number?: string;
+  title: string;
+  page: number;
+  lines: string[];
+}
+
+export interface SectionDiff {
+  key: string;
+  title: string;
+  status: 'unchanged' | 'modified' | 'added' | 'removed';
+  oldSection?: DocumentSection;
+  newSection?: DocumentSection;
+  lines: LineDiff[];
+}
+
+export interface DocumentDiff {
+  sections: SectionDiff[];
+  stats: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+}
+
+export interface DiffDocumentInfo {
+  id: string;
+  document_name: string;
+  document_url: string;
+}
+
+const CLAUDE_MODEL = "claude-3-5-haiku-20241022";
+
+const CHANGE_SUMMARY_SYSTEM_PROMPT = "You are a clinical research associate reviewing a protocol amendment. You summarize what changed between two versions of a clinical trial document for the site team. Be factual, only report changes present in the diff, and quote the new values.";
+
+// Keep the prompt within a reasonable token budget for large protocols
+const MAX_SUMMARY_DIFF_CHARS = 60000;
+
+// Above this the line-level LCS table gets too large, lines are compared in order instead
+const MAX_LCS_CELLS = 4000000;
+
+// "5.1 Inclusion Criteria", "10. Statistical Methods", "APPENDIX 2 Schedule of Assessments"
+const NUMBERED_HEADING_REGEX = /^((?:\d+\.)*\d+)\.?\s+([A-Z][^.:;]{2,90})$/;
+const APPENDIX_HEADING_REGEX = /^(APPENDIX\s+[A-Z0-9]+)[\s.:-]+(.{3,90})$/i;
+
+/**
+ * Longest common subsequence diff of two sequences
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): Array<{ type: DiffOperation; a?: T; b?: T }> {
+  const n = a.length;
+  const m = b.length;
+
+  // Too large for a full table: pair items in order
+  if (n * m > MAX_LCS_CELLS) {
+    const result: Array<{ type: DiffOperation; a?: T; b?: T }> = [];
+    for (let i = 0; i < Math.max(n, m); i++) {
+      if (i < n && i < m && equals(a[i], b[i])) result.push({ type: 'equal', a: a[i], b: b[i] });
+      else {
+        if (i < n) result.push({ type: 'removed', a: a[i] });
+        if (i < m) result.push({ type: 'added', b: b[i] });
+      }
+    }
+    return result;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..], stored row-major
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = equals(a[i], b[j])
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: Array<{ type: DiffOperation; a?: T; b?: T }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equals(a[i], b[j])) {
+      result.push({ type: 'equal', a: a[i], b: b[j] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      result.push({ type: 'removed', a: a[i++] });
+    } else {
+      result.push({ type: 'added', b: b[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', a: a[i++] });
+  while (j < m) result.push({ type: 'added', b: b[j++] });
+
+  return result;
+}
+
+class ProtocolDiffService {
+  private anthropic: Anthropic | null;
+
+  constructor() {
+    const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
+    this.anthropic = apiKey
+      ? new Anthropic({ apiKey, dangerouslyAllowBrowser: true })
+      : null;
+  }
+
+  isSummaryAvailable(): boolean {
+    return !!this.anthropic;
+  }
+
+  /**
+   * Extract and compare two versions of a document
+   */
+  async compareDocuments(
+    oldDocument: DiffDocumentInfo,
+    newDocument: DiffDocumentInfo
+  ): Promise<DocumentDiff> {
+    console.log('🔄 Comparing documents:', oldDocument.document_name, '→', newDocument.document_name);
+
+    const [oldPages, newPages] = await Promise.all([
+      PDFExtractionService.extractPages(oldDocument.document_url),
+      PDFExtractionService.extractPages(newDocument.document_url),
+    ]);
+
+    const diff = this.diffSections(this.splitSections(oldPages), this.splitSections(newPages));
+    console.log('✅ Document diff ready:', diff.stats);
+    return diff;
+  }
+
+  /**
+   * Split extracted pages into sections at numbered headings. Text before the
+   * first heading becomes a "Title page" section.
+   */
+  splitSections(pages: PDFPage[]): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    let current: DocumentSection = {
+      key: 'title page',
+      title: 'Title page',
+      page: pages[0]?.pageNumber ?? 1,
+      lines: [],
+    };
+
+    for (const page of pages) {
+      for (const line of page.lines) {
+        const heading = line.match(NUMBERED_HEADING_REGEX) || line.match(APPENDIX_HEADING_REGEX);
+
+        if (heading) {
+          if (current.lines.length > 0 || sections.length > 0) sections.push(current);
+          current = {
+            key: this.sectionKey(heading[2]),
+            number: heading[1],
+            title: `${heading[1]} ${heading[2].trim()}`,
+            page: page.pageNumber,
+            lines: [],
+          };
+        } else {
+          current.lines.push(line);
+        }
+      }
+    }
+    sections.push(current);
+
+    // Keys must be unique for alignment: "Objectives", "Objectives (2)", ...
+    const seen = new Map<string, number>();
+    return sections.map((section) => {
+      const count = (seen.get(section.key) || 0) + 1;
+      seen.set(section.key, count);
+      return count > 1 ? { ...section, key: `${section.key} (${count})` } : section;
+    });
+  }
+
+  /**
+   * Align sections by title (numbering shifts between amendments) and diff each pair
+   */
+  diffSections(oldSections: DocumentSection[], newSections: DocumentSection[]): DocumentDiff {
+    const aligned = diffSequences(oldSections, newSections, (a, b) => a.key === b.key);
+    const stats = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+
+    const sections: SectionDiff[] = aligned.map(({ type, a, b }) => {
+      if (type === 'added') {
+        stats.added++;
+        return {
+          key: b!.key,
+          title: b!.title,
+          status: 'added',
+          newSection: b,
+          lines: b!.lines.map((line) => ({ type: 'added', newText: line })),
+        };
+      }
+
+      if (type === 'removed') {
+        stats.removed++;
+        return {
+          key: a!.key,
+          title: a!.title,
+          status: 'removed',
+          oldSection: a,
+          lines: a!.lines.map((line) => ({ type: 'removed', oldText: line })),
+        };
+      }
+
+      const lines = this.diffLines(a!.lines, b!.lines);
+      const modified = a!.title !== b!.title || lines.some((line) => line.type !== 'equal');
+      stats[modified ? 'modified' : 'unchanged']++;
+
+      return {
+        key: b!.key,
+        title: b!.title,
+        status: modified ? 'modified' : 'unchanged',
+        oldSection: a,
+        newSection: b,
+        lines,
+      };
+    });
+
+    return { sections, stats };
+  }
+
+  /**
+   * Line diff where a removed line directly followed by an added line is shown
+   * as a single changed line with word-level highlights
+   */
+  private diffLines(oldLines: string[], newLines: string[]): LineDiff[] {
+    const normalize = (line: string) => line.replace(/\s+/g, ' ').trim().toLowerCase();
+    const ops = diffSequences(oldLines, newLines, (x, y) => normalize(x) === normalize(y));
+    const result: LineDiff[] = [];
+
+    for (let i = 0; i < ops.length; i++) {
+      const op = ops[i];
+      const next = ops[i + 1];
+
+      if (op.type === 'removed' && next?.type === 'added') {
+        result.push({
+          type: 'changed',
+          oldText: op.a,
+          newText: next.b,
+          words: this.diffWords(op.a!, next.b!),
+        });
+        i++;
+      } else if (op.type === 'equal') {
+        result.push({ type: 'equal', oldText: op.a, newText: op.b });
+      } else if (op.type === 'removed') {
+        result.push({ type: 'removed', oldText: op.a });
+      } else {
+        result.push({ type: 'added', newText: op.b });
+      }
+    }
+
+    return result;
+  }
+
+  private diffWords(oldText: string, newText: string): WordDiff[] {
+    const ops = diffSequences(oldText.split(/\s+/), newText.split(/\s+/));
+    return ops.map((op) => ({
+      type: op.type,
+      text: (op.type === 'added' ? op.b : op.a) || '',
+    }));
+  }
+
+  private sectionKey(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  /**
+   * Render the changed sections as a compact +/- diff for the summary prompt
+   */
+  formatDiffForPrompt(diff: DocumentDiff): string {
+    let output = '';
+
+    for (const section of diff.sections) {
+      if (section.status === 'unchanged') continue;
+
+      output += `\n## ${section.title} [${section.status.toUpperCase()}]\n`;
+      for (const line of section.lines) {
+        if (line.type === 'equal') continue;
+        if (line.oldText) output += `- ${line.oldText}\n`;
+        if (line.newText) output += `+ ${line.newText}\n`;
+      }
+
+      if (output.length > MAX_SUMMARY_DIFF_CHARS) {
+        output = output.slice(0, MAX_SUMMARY_DIFF_CHARS) + '\n[diff truncated]\n';
+        break;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Ask Claude for a summary of the changes to eligibility, visit schedule and dosing
+   */
+  async summarizeChanges(
+    diff: DocumentDiff,
+    oldDocumentName: string,
+    newDocumentName: string
+  ): Promise<string> {
+    if (!this.anthropic) {
+      throw new Error('Change summary not available - Anthropic API key missing');
+    }
+
+    const diffText = this.formatDiffForPrompt(diff);
+    if (!diffText.trim()) {
+      return 'No textual changes were found between the two versions.';
+    }
+
+    console.log('🔄 Summarizing document changes...');
+
+    const response = await this.anthropic.messages.create({
+      model: CLAUDE_MODEL,
+      max_tokens: 2000,
+      system: CHANGE_SUMMARY_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `Below is a section-aligned diff between "${oldDocumentName}" (old) and "${newDocumentName}" (new). Lines starting with "-" were removed, lines starting with "+" were added.
+
+Summarize the changes in markdown with exactly these headings:
+### Eligibility criteria
+### Visit schedule
+### Dosing
+### Other notable changes
+
+Under each heading list the changes as bullet points, citing the section title. Write "No changes." when a heading has none.
+
+${diffText}`,
+        },
+      ],
+    });
+
+    const summary = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    console.log('✅ Change summary ready');
+    return summary;
+  }
+}
+
+// Singleton instance
+let protocolDiffService: ProtocolDiffService | null = null;
+
+export function getProtocolDiffService(): ProtocolDiffService {
+  if (!protocolDiffService) {
+    protocolDiffService = new ProtocolDiffService();
+  }
+  return protocolDiffService;
+}
+
+export default ProtocolDiffService;
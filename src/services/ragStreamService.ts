@@ -0,0 +1,204 @@
+// RAG Stream Service - Streams answers from the backend /rag endpoints
+// Supports Server-Sent Events and plain chunked responses, and still accepts the
+// legacy single JSON payload from backends that don't stream yet
+
+export interface RagSource {
+  section: string;
+  page?: number;
+  content: string;
+  exactText?: string;
+  relevance?: 'high' | 'medium' | 'low';
+  context?: string;
+  highlightURL?: string;
+  filename?: string;
+  chunk_index?: number;
+}
+
+export interface RagResponse {
+  response: string;
+  sources: RagSource[];
+  tool_calls: any[];
+}
+
+export interface RagStreamHandlers {
+  onText?: (delta: string, snapshot: string) => void;
+  onSources?: (sources: RagSource[]) => void;
+  signal?: AbortSignal;
+}
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+class RagStreamService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = import.meta.env.VITE_API_BASE_URL || '';
+  }
+
+  /**
+   * Query a RAG endpoint (e.g. '/rag/query', '/rag/query-biobert') and stream the answer
+   *
+   * SSE events understood:
+   * - `token`     { "text": "..." }        text delta
+   * - `sources`   { "sources": [...] }     citations, may arrive more than once
+   * - `tool_calls`{ "tool_calls": [...] }
+   * - `error`     { "message": "..." }
+   * - `done`
+   * Events without a name are treated as `token` when their data is not JSON.
+   */
+  async query(endpoint: string, query: string, handlers: RagStreamHandlers = {}): Promise<RagResponse> {
+    const { onText, onSources, signal } = handlers;
+
+    const fd = new FormData();
+    fd.append('query', query);
+    fd.append('stream', 'true');
+
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      body: fd,
+      headers: { Accept: 'text/event-stream' },
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`RAG request failed: ${res.status} ${text}`);
+    }
+
+    const contentType = res.headers.get('content-type') || '';
+
+    // Backend without streaming support: single JSON payload
+    if (contentType.includes('application/json') || !res.body) {
+      const data = await res.json();
+      const result = this.normalize(data);
+      onText?.(result.response, result.response);
+      if (result.sources.length > 0) onSources?.(result.sources);
+      return result;
+    }
+
+    const result: RagResponse = { response: '', sources: [], tool_calls: [] };
+    const appendText = (delta: string) => {
+      if (!delta) return;
+      result.response += delta;
+      onText?.(delta, result.response);
+    };
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    const isSSE = contentType.includes('text/event-stream');
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        // Flush the decoder; the last event may not end with a blank line
+        const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        if (!isSSE) {
+          appendText(chunk);
+          if (done) break;
+          continue;
+        }
+
+        buffer += chunk;
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = done ? '' : events.pop() || '';
+
+        for (const raw of events) {
+          const event = this.parseEvent(raw);
+          if (event && this.handleEvent(event, result, appendText, onSources)) {
+            return result;
+          }
+        }
+
+        if (done) break;
+      }
+    } finally {
+      // Stop the download once the answer is complete, failed or aborted
+      reader.cancel().catch(() => {});
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply one SSE event to the result. Returns true on `done`, throws on `error`.
+   */
+  private handleEvent(
+    event: SSEEvent,
+    result: RagResponse,
+    appendText: (delta: string) => void,
+    onSources?: (sources: RagSource[]) => void
+  ): boolean {
+    switch (event.event) {
+      case 'token': {
+        appendText(this.parseJSON(event.data)?.text ?? event.data);
+        return false;
+      }
+      case 'sources': {
+        const sources = this.parseJSON(event.data)?.sources;
+        if (Array.isArray(sources)) {
+          result.sources = [...result.sources, ...sources];
+          onSources?.(result.sources);
+        }
+        return false;
+      }
+      case 'tool_calls': {
+        const toolCalls = this.parseJSON(event.data)?.tool_calls;
+        if (Array.isArray(toolCalls)) result.tool_calls = toolCalls;
+        return false;
+      }
+      case 'error':
+        throw new Error(this.parseJSON(event.data)?.message || event.data || 'RAG stream failed');
+      case 'done':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private parseEvent(raw: string): SSEEvent | null {
+    let event = 'token';
+    const dataLines: string[] = [];
+
+    for (const line of raw.split(/\r?\n/)) {
+      if (line.startsWith(':')) continue; // comment / keep-alive
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+
+    if (dataLines.length === 0 && event === 'token') return null;
+    return { event, data: dataLines.join('\n') };
+  }
+
+  private parseJSON(data: string): any {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  private normalize(data: any): RagResponse {
+    return {
+      response: typeof data.response === 'string' ? data.response : '',
+      sources: Array.isArray(data.sources) ? data.sources : [],
+      tool_calls: Array.isArray(data.tool_calls) ? data.tool_calls : [],
+    };
+  }
+}
+
+// Singleton instance
+let ragStreamService: RagStreamService | null = null;
+
+export function getRagStreamService(): RagStreamService {
+  if (!ragStreamService) {
+    ragStreamService = new RagStreamService();
+  }
+  return ragStreamService;
+}
+
+export default RagStreamService;
@@ -0,0 +1,463 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { ExtractedCriterion } from "./criteriaExtractionService";
+
+export type EligibilityCriterion =
+  Database["public"]["Tables"]["trial_eligibility_criteria"]["Row"];
+export type PatientScreeningRow =
+  Database["public"]["Tables"]["patient_screenings"]["Row"];
+export type ScreeningResponse =
+  Database["public"]["Tables"]["patient_screening_responses"]["Row"];
+export type CriterionKind = "inclusion" | "exclusion";
+export type ScreeningAnswer = "met" | "not_met" | "unknown";
+export type ScreeningStatus = "in_progress" | "passed" | "failed";
+
+export const SCREENING_ANSWER_LABELS: Record<ScreeningAnswer, string> = {
+  met: "Met",
+  not_met: "Not met",
+  unknown: "Unknown",
+};
+
+export const SCREENING_STATUS_LABELS: Record<ScreeningStatus, string> = {
+  in_progress: "In progress",
+  passed: "Passed",
+  failed: "Screen failure",
+};
+
+export interface PatientScreening extends PatientScreeningRow {
+  patients: { patient_code: string; first_name: string; last_name: string } | null;
+  screened_by_member: { name: string } | null;
+  completed_by_member: { name: string } | null;
+  patient_screening_responses: ScreeningResponseWithCriterion[];
+}
+
+// Answers carry the criterion wording they were given against, which may
+// have been retired since
+export interface ScreeningResponseWithCriterion extends ScreeningResponse {
+  trial_eligibility_criteria: Pick<EligibilityCriterion, "kind" | "code" | "text"> | null;
+}
+
+export interface CriterionInput {
+  kind: CriterionKind;
+  code: string;
+  text: string;
+  source_page?: number | null;
+}
+
+export interface ScreeningResponseInput {
+  criterion_id: string;
+  answer: ScreeningAnswer;
+  evidence?: string | null;
+  evidence_document_id?: string | null;
+}
+
+export interface ScreeningEvaluation {
+  outcome: "passed" | "failed" | "incomplete";
+  // Inclusion criteria not met and exclusion criteria met
+  failedCriteria: EligibilityCriterion[];
+  // Not answered yet, or answered "unknown"
+  openCriteria: EligibilityCriterion[];
+}
+
+export interface EnrollmentEligibility {
+  // False when the trial has no active criteria
+  required: boolean;
+  eligible: boolean;
+  latestScreening: PatientScreening | null;
+}
+
+/**
+ * Outcome of a screening against the active criteria. A single failing
+ * criterion is a screen failure even while others are still open.
+ */
+export function evaluateScreening(
+  criteria: EligibilityCriterion[],
+  responses: Pick<ScreeningResponse, "criterion_id" | "answer">[]
+): ScreeningEvaluation {
+  const answers = new Map(responses.map((r) => [r.criterion_id, r.answer]));
+  const failedCriteria: EligibilityCriterion[] = [];
+  const openCriteria: EligibilityCriterion[] = [];
+
+  criteria.forEach((criterion) => {
+    const answer = answers.get(criterion.id);
+    if (!answer || answer === "unknown") openCriteria.push(criterion);
+    else if (
+      (criterion.kind === "inclusion" && answer === "not_met") ||
+      (criterion.kind === "exclusion" && answer === "met")
+    ) {
+      failedCriteria.push(criterion);
+    }
+  });
+
+  return {
+    outcome:
+      failedCriteria.length > 0
+        ? "failed"
+        : openCriteria.length > 0
+          ? "incomplete"
+          : "passed",
+    failedCriteria,
+    openCriteria,
+  };
+}
+
+/**
+ * Answers that made a completed screening fail
+ */
+export function getFailedResponses(
+  screening: PatientScreening
+): ScreeningResponseWithCriterion[] {
+  return screening.patient_screening_responses.filter((response) => {
+    const kind = response.trial_eligibility_criteria?.kind;
+    return (
+      (kind === "inclusion" && response.answer === "not_met") ||
+      (kind === "exclusion" && response.answer === "met")
+    );
+  });
+}
+
+/**
+ * Whether a patient can be enrolled: once a trial has criteria, the patient
+ * needs a passed screening that answered every active criterion. Criteria
+ * changed after the screening require a new one.
+ */
+export function getEnrollmentEligibility(
+  criteria: EligibilityCriterion[],
+  patientScreenings: PatientScreening[]
+): EnrollmentEligibility {
+  const latestScreening = patientScreenings[0] || null;
+
+  if (criteria.length === 0) {
+    return { required: false, eligible: true, latestScreening };
+  }
+
+  const eligible = patientScreenings.some((screening) => {
+    if (screening.status !== "passed") return false;
+    const answered = new Set(
+      screening.patient_screening_responses.map((r) => r.criterion_id)
+    );
+    return criteria.every((criterion) => answered.has(criterion.id));
+  });
+
+  return { required: true, eligible, latestScreening };
+}
+
+class ScreeningService {
+  /**
+   * Active criteria of a trial, inclusion first, in protocol order
+   */
+  async getCriteria(trialId: string): Promise<EligibilityCriterion[]> {
+    const { data, error } = await supabase
+      .from("trial_eligibility_criteria")
+      .select("*")
+      .eq("trial_id", trialId)
+      .eq("is_active", true)
+      .order("kind", { ascending: false })
+      .order("sort_order", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * The latest protocol version, the source for criteria extraction
+   */
+  async getLatestProtocol(trialId: string) {
+    const { data, error } = await supabase
+      .from("trial_documents")
+      .select("id, document_name, document_url, version")
+      .eq("trial_id", trialId)
+      .eq("document_type", "protocol")
+      .eq("is_latest", true)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Replace the trial's checklist with newly extracted criteria. The previous
+   * criteria are retired so existing screenings keep their answers.
+   */
+  async replaceCriteria(
+    trialId: string,
+    criteria: ExtractedCriterion[],
+    sourceDocumentId: string | null,
+    createdBy?: string | null
+  ): Promise<EligibilityCriterion[]> {
+    if (criteria.length === 0) {
+      throw new Error("No eligibility criteria were found in the protocol");
+    }
+
+    const { error: retireError } = await supabase
+      .from("trial_eligibility_criteria")
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq("trial_id", trialId)
+      .eq("is_active", true);
+
+    if (retireError) throw retireError;
+
+    const { data, error } = await supabase
+      .from("trial_eligibility_criteria")
+      .insert(
+        criteria.map((criterion, index) => ({
+          trial_id: trialId,
+          source_document_id: sourceDocumentId,
+          kind: criterion.kind,
+          code: criterion.code,
+          text: criterion.text,
+          source_page: criterion.page,
+          sort_order: index,
+          created_by: createdBy ?? null,
+        }))
+      )
+      .select();
+
+    if (error) throw error;
+
+    console.log(`📋 Saved ${data.length} eligibility criteria for trial ${trialId}`);
+    return data;
+  }
+
+  async addCriterion(
+    trialId: string,
+    input: CriterionInput,
+    createdBy?: string | null
+  ): Promise<EligibilityCriterion> {
+    const { data: last } = await supabase
+      .from("trial_eligibility_criteria")
+      .select("sort_order")
+      .eq("trial_id", trialId)
+      .eq("is_active", true)
+      .order("sort_order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from("trial_eligibility_criteria")
+      .insert({
+        trial_id: trialId,
+        kind: input.kind,
+        code: input.code.trim(),
+        text: input.text.trim(),
+        source_page: input.source_page ?? null,
+        sort_order: (last?.sort_order ?? -1) + 1,
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Edit a criterion by retiring it and adding the new wording in its place
+   */
+  async updateCriterion(
+    criterion: EligibilityCriterion,
+    input: CriterionInput,
+    createdBy?: string | null
+  ): Promise<EligibilityCriterion> {
+    await this.retireCriterion(criterion.id);
+
+    const { data, error } = await supabase
+      .from("trial_eligibility_criteria")
+      .insert({
+        trial_id: criterion.trial_id,
+        source_document_id: criterion.source_document_id,
+        kind: input.kind,
+        code: input.code.trim(),
+        text: input.text.trim(),
+        source_page: input.source_page ?? criterion.source_page,
+        sort_order: criterion.sort_order,
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async retireCriterion(criterionId: string): Promise<void> {
+    const { error } = await supabase
+      .from("trial_eligibility_criteria")
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq("id", criterionId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * All screenings of a trial, newest first, with their answers
+   */
+  async getScreenings(trialId: string): Promise<PatientScreening[]> {
+    const { data, error } = await supabase
+      .from("patient_screenings")
+      .select(
+        `
+        *,
+        patients!patient_screenings_patient_id_fkey(patient_code, first_name, last_name),
+        screened_by_member:members!patient_screenings_screened_by_fkey(name),
+        completed_by_member:members!patient_screenings_completed_by_fkey(name),
+        patient_screening_responses(
+          *,
+          trial_eligibility_criteria!patient_screening_responses_criterion_id_fkey(kind, code, text)
+        )
+      `
+      )
+      .eq("trial_id", trialId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Patients already on the trial, who don't need screening anymore
+   */
+  async getEnrolledPatientIds(trialId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from("trial_patients")
+      .select("patient_id")
+      .eq("trial_id", trialId);
+
+    if (error) throw error;
+    return (data || []).map((row) => row.patient_id);
+  }
+
+  async startScreening(
+    trialId: string,
+    patientId: string,
+    screenedBy?: string | null
+  ): Promise<string> {
+    const { data, error } = await supabase
+      .from("patient_screenings")
+      .insert({
+        trial_id: trialId,
+        patient_id: patientId,
+        screened_by: screenedBy ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    console.log(`🩺 Started screening ${data.id} for patient ${patientId}`);
+    return data.id;
+  }
+
+  /**
+   * Save the answers recorded so far. Answers are upserted per criterion.
+   */
+  async saveResponses(
+    screeningId: string,
+    responses: ScreeningResponseInput[],
+    recordedBy?: string | null
+  ): Promise<void> {
+    if (responses.length === 0) return;
+
+    const { error } = await supabase.from("patient_screening_responses").upsert(
+      responses.map((response) => ({
+        screening_id: screeningId,
+        criterion_id: response.criterion_id,
+        answer: response.answer,
+        evidence: response.evidence?.trim() || null,
+        evidence_document_id: response.evidence_document_id || null,
+        recorded_by: recordedBy ?? null,
+        recorded_at: new Date().toISOString(),
+      })),
+      { onConflict: "screening_id,criterion_id" }
+    );
+
+    if (error) throw error;
+  }
+
+  /**
+   * Close a screening as passed or failed. The database checks the outcome
+   * against the answers; a screen failure needs a reason.
+   */
+  async completeScreening(
+    screeningId: string,
+    status: Exclude<ScreeningStatus, "in_progress">,
+    options: { failureReason?: string; notes?: string; completedBy?: string | null } = {}
+  ): Promise<void> {
+    if (status === "failed" && !options.failureReason?.trim()) {
+      throw new Error("A screen failure requires a reason");
+    }
+
+    const { error } = await supabase
+      .from("patient_screenings")
+      .update({
+        status,
+        failure_reason: status === "failed" ? options.failureReason!.trim() : null,
+        notes: options.notes?.trim() || null,
+        completed_by: options.completedBy ?? null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", screeningId)
+      .eq("status", "in_progress");
+
+    if (error) throw error;
+
+    console.log(`🩺 Screening ${screeningId} completed: ${status}`);
+  }
+
+  /**
+   * Discard a screening that was started by mistake (open screenings only)
+   */
+  async deleteScreening(screeningId: string): Promise<void> {
+    const { error } = await supabase
+      .from("patient_screenings")
+      .delete()
+      .eq("id", screeningId)
+      .eq("status", "in_progress");
+
+    if (error) throw error;
+  }
+
+  /**
+   * Screen-failure log as CSV, one row per failed screening
+   */
+  toFailureLogCSV(screenings: PatientScreening[]): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = [
+      "Patient",
+      "Screened on",
+      "Completed on",
+      "Failed criteria",
+      "Reason",
+      "Screened by",
+    ];
+
+    const rows = screenings
+      .filter((screening) => screening.status === "failed")
+      .map((screening) => {
+        const failed = getFailedResponses(screening).map(
+          (response) => response.trial_eligibility_criteria?.code
+        );
+
+        return [
+          screening.patients?.patient_code,
+          screening.created_at.slice(0, 10),
+          screening.completed_at?.slice(0, 10),
+          failed.join("; "),
+          screening.failure_reason,
+          screening.screened_by_member?.name,
+        ]
+          .map(escape)
+          .join(",");
+      });
+
+    return [header.join(","), ...rows].join("\n");
+  }
+}
+
+export const screeningService = new ScreeningService();
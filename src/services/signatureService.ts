@@ -0,0 +1,219 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { appendTextPages, buildTextPdf, PdfRow, PDF_CONTENT_LEFT } from "@/lib/pdf";
+
+export type ESignature = Database["public"]["Tables"]["e_signatures"]["Row"];
+
+export type SignatureMeaning = "author" | "reviewer" | "approver";
+
+export const SIGNATURE_MEANING_LABELS: Record<SignatureMeaning, string> = {
+  author: "Author",
+  reviewer: "Reviewer",
+  approver: "Approver",
+};
+
+// What the signer attests to; stored with the signature
+export const SIGNATURE_STATEMENTS: Record<SignatureMeaning, string> = {
+  author: "I am the author of this document and confirm that its content is accurate.",
+  reviewer: "I have reviewed this document.",
+  approver: "I approve this document.",
+};
+
+export type SignatureTarget = "trial_document" | "patient_document";
+
+export interface SignableDocument {
+  id: string;
+  document_name: string;
+  document_url: string;
+  mime_type?: string | null;
+}
+
+export interface SignInput {
+  target: SignatureTarget;
+  document: SignableDocument;
+  meaning: SignatureMeaning;
+  password: string;
+}
+
+class SignatureService {
+  private column(target: SignatureTarget) {
+    return target === "trial_document" ? "trial_document_id" : "patient_document_id";
+  }
+
+  /**
+   * Signatures on a document, in signing order
+   */
+  async getSignatures(target: SignatureTarget, documentId: string): Promise<ESignature[]> {
+    const { data, error } = await supabase
+      .from("e_signatures")
+      .select("*")
+      .eq(this.column(target), documentId)
+      .order("signed_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Hex SHA-256 of the document file
+   */
+  async hashDocument(documentUrl: string): Promise<string> {
+    const response = await fetch(documentUrl);
+    if (!response.ok) throw new Error(`Failed to download document: ${response.status}`);
+
+    const digest = await crypto.subtle.digest("SHA-256", await response.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  /**
+   * Sign a document. The signer re-enters their password first; the
+   * sign-document function refuses sessions that weren't authenticated in the
+   * last few minutes and hashes the file itself.
+   */
+  async sign({ target, document, meaning, password }: SignInput): Promise<ESignature> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user?.email) throw new Error("User not authenticated");
+
+    const { error: authError } = await supabase.auth.signInWithPassword({
+      email: user.email,
+      password,
+    });
+    if (authError) throw new Error("Incorrect password. The document was not signed.");
+
+    // Signer, organization and document name are stamped by the database
+    const { data, error } = await supabase.functions.invoke<ESignature>("sign-document", {
+      body: {
+        target,
+        documentId: document.id,
+        meaning,
+        statement: SIGNATURE_STATEMENTS[meaning],
+      },
+    });
+
+    if (error) {
+      // The function returns { error } with a non-2xx status when it refuses to sign
+      const context = (error as { context?: Response }).context;
+      const details = context ? await context.json().catch(() => null) : null;
+      throw new Error(details?.error || error.message);
+    }
+
+    if (!data) {
+      throw new Error("Empty response from sign-document function");
+    }
+
+    console.log(`🖋️ ${data.signer_name} signed ${data.document_name} as ${meaning}`);
+    return data;
+  }
+
+  /**
+   * Whether the file still matches what each signer signed
+   */
+  async verifyDocument(document: SignableDocument, signatures: ESignature[]) {
+    const currentHash = await this.hashDocument(document.document_url);
+    return signatures.every((signature) => !signature.document_hash || signature.document_hash === currentHash);
+  }
+
+  buildManifestRows(document: SignableDocument, signatures: ESignature[]): PdfRow[] {
+    const left = PDF_CONTENT_LEFT;
+    const rows: PdfRow[] = [
+      { segments: [{ text: "Signature Manifest", x: left, bold: true }], size: 16 },
+      { segments: [{ text: document.document_name, x: left }], spaceBefore: 4 },
+      {
+        segments: [
+          {
+            text: `Generated ${format(new Date(), "yyyy-MM-dd HH:mm:ss xxx")}`,
+            x: left,
+          },
+        ],
+        size: 8,
+        rule: true,
+      },
+    ];
+
+    signatures.forEach((signature, index) => {
+      rows.push(
+        {
+          segments: [
+            {
+              text: `${index + 1}. ${signature.signer_name} <${signature.signer_email}>`,
+              x: left,
+              bold: true,
+            },
+          ],
+          spaceBefore: 12,
+        },
+        {
+          segments: [
+            {
+              text: `Meaning: ${SIGNATURE_MEANING_LABELS[signature.meaning as SignatureMeaning] || signature.meaning}`,
+              x: left + 12,
+            },
+          ],
+        },
+        {
+          segments: [
+            {
+              text: `Signed: ${format(parseISO(signature.signed_at), "yyyy-MM-dd HH:mm:ss xxx")}`,
+              x: left + 12,
+            },
+          ],
+        },
+        { segments: [{ text: `Statement: ${signature.statement}`, x: left + 12 }] },
+        {
+          segments: [
+            {
+              text: `Document SHA-256: ${signature.document_hash || "not recorded"}`,
+              x: left + 12,
+            },
+          ],
+          size: 7,
+        },
+        { segments: [{ text: `Signature ID: ${signature.id}`, x: left + 12 }], size: 7 }
+      );
+    });
+
+    rows.push({
+      segments: [
+        {
+          text: "Each signer re-authenticated before signing. Signatures are stored immutably.",
+          x: left,
+        },
+      ],
+      size: 8,
+      spaceBefore: 16,
+    });
+
+    return rows;
+  }
+
+  /**
+   * The document with its signature manifest appended as the last page.
+   * Files that can't be extended (not a PDF, encrypted...) get the manifest
+   * as a PDF of its own.
+   */
+  async exportSignedPdf(
+    document: SignableDocument,
+    signatures: ESignature[]
+  ): Promise<{ blob: Blob; appended: boolean }> {
+    const rows = this.buildManifestRows(document, signatures);
+
+    if (!document.mime_type || document.mime_type === "application/pdf") {
+      try {
+        const response = await fetch(document.document_url);
+        if (!response.ok) throw new Error(`Failed to download document: ${response.status}`);
+        return { blob: await appendTextPages(await response.arrayBuffer(), rows), appended: true };
+      } catch (error) {
+        console.warn("Could not append the signature manifest:", error);
+      }
+    }
+
+    return { blob: buildTextPdf(rows), appended: false };
+  }
+}
+
+export const signatureService = new SignatureService();
@@ -0,0 +1,157 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  getVisitWindowStatus,
+  VisitWindowStatus,
+} from "./visitScheduleService";
+
+export type CalendarVisit =
+  Database["public"]["Views"]["patient_visits_detailed"]["Row"];
+
+export interface CalendarVisitFilters {
+  // Inclusive yyyy-MM-dd range
+  from: string;
+  to: string;
+  // Trials to include; visits are always limited to these
+  trialIds: string[];
+  doctorId?: string;
+  location?: string;
+}
+
+export interface RescheduleTarget {
+  visit_date: string;
+  // HH:mm, or null to keep the visit without a time
+  visit_time: string | null;
+}
+
+export interface RescheduleCheck {
+  // The doctor's other visits that overlap the new slot
+  clashes: CalendarVisit[];
+  // Where the new date falls in the visit's protocol window
+  windowStatus: VisitWindowStatus;
+}
+
+// Used when a visit has no duration
+const DEFAULT_DURATION_MINUTES = 60;
+
+const OPEN_STATUSES = ["scheduled", "rescheduled", "in_progress"] as const;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+class VisitCalendarService {
+  /**
+   * Visits in a date range from the patient_visits_detailed view
+   */
+  async getVisits(filters: CalendarVisitFilters): Promise<CalendarVisit[]> {
+    if (filters.trialIds.length === 0) return [];
+
+    let query = supabase
+      .from("patient_visits_detailed")
+      .select("*")
+      .in("trial_id", filters.trialIds)
+      .gte("visit_date", filters.from)
+      .lte("visit_date", filters.to)
+      .order("visit_date", { ascending: true })
+      .order("visit_time", { ascending: true, nullsFirst: true });
+
+    if (filters.doctorId) query = query.eq("doctor_id", filters.doctorId);
+    if (filters.location) query = query.eq("location", filters.location);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Distinct visit locations, for the location filter
+   */
+  async getLocations(trialIds: string[]): Promise<string[]> {
+    if (trialIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("patient_visits")
+      .select("location")
+      .in("trial_id", trialIds)
+      .not("location", "is", null);
+
+    if (error) throw error;
+    return [...new Set((data || []).map((row) => row.location!))].sort();
+  }
+
+  /**
+   * Check a new slot before moving a visit there: clashes with the same
+   * doctor's other open visits and the visit's protocol window.
+   * Visits without a time block the whole day; visits without a doctor
+   * can't clash.
+   */
+  async checkReschedule(
+    visit: CalendarVisit,
+    target: RescheduleTarget
+  ): Promise<RescheduleCheck> {
+    const [{ data: sameDay, error: clashError }, { data: window, error: windowError }] =
+      await Promise.all([
+        visit.doctor_id
+          ? supabase
+              .from("patient_visits_detailed")
+              .select("*")
+              .eq("doctor_id", visit.doctor_id)
+              .eq("visit_date", target.visit_date)
+              .in("status", [...OPEN_STATUSES])
+              .neq("id", visit.id!)
+          : { data: [] as CalendarVisit[], error: null },
+        supabase
+          .from("patient_visits")
+          .select("window_start, window_end")
+          .eq("id", visit.id!)
+          .single(),
+      ]);
+
+    if (clashError) throw clashError;
+    if (windowError) throw windowError;
+
+    const duration = visit.duration_minutes || DEFAULT_DURATION_MINUTES;
+    const clashes = (sameDay || []).filter((other) => {
+      if (!target.visit_time || !other.visit_time) return true;
+
+      const start = toMinutes(target.visit_time);
+      const otherStart = toMinutes(other.visit_time);
+      const otherDuration = other.duration_minutes || DEFAULT_DURATION_MINUTES;
+      return start < otherStart + otherDuration && otherStart < start + duration;
+    });
+
+    const windowStatus = getVisitWindowStatus({
+      visit_date: target.visit_date,
+      status: "rescheduled",
+      window_start: window?.window_start ?? null,
+      window_end: window?.window_end ?? null,
+    });
+
+    return { clashes, windowStatus };
+  }
+
+  /**
+   * Move a visit to a new date/time and mark it as rescheduled
+   */
+  async rescheduleVisit(visitId: string, target: RescheduleTarget): Promise<void> {
+    const { error } = await supabase
+      .from("patient_visits")
+      .update({
+        visit_date: target.visit_date,
+        visit_time: target.visit_time,
+        status: "rescheduled",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", visitId);
+
+    if (error) throw error;
+
+    console.log(
+      `📅 Rescheduled visit ${visitId} to ${target.visit_date} ${target.visit_time ?? ""}`
+    );
+  }
+}
+
+export const visitCalendarService = new VisitCalendarService();
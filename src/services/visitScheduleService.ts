@@ -0,0 +1,237 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type VisitScheduleItem =
+  Database["public"]["Tables"]["trial_visit_schedule"]["Row"];
+export type VisitType = Database["public"]["Enums"]["visit_type_enum"];
+export type PatientVisit = Database["public"]["Tables"]["patient_visits"]["Row"];
+
+/**
+ * Editable schedule row. Rows without an id are new.
+ */
+export interface VisitScheduleItemInput {
+  id?: string;
+  name: string;
+  visit_type: VisitType;
+  day_offset: number;
+  window_before: number;
+  window_after: number;
+  procedures: string[];
+  duration_minutes?: number | null;
+}
+
+export interface GenerateVisitsOptions {
+  trialId: string;
+  patientId: string;
+  // Day 0 of the schedule (yyyy-MM-dd)
+  baselineDate: string;
+  // Member the visits are assigned to (patient_visits.doctor_id)
+  doctorId: string;
+  createdBy?: string | null;
+}
+
+export type VisitWindowStatus =
+  | "in_window"
+  | "early"
+  | "late"
+  | "overdue"
+  | "unscheduled";
+
+export const VISIT_TYPE_LABELS: Record<VisitType, string> = {
+  screening: "Screening",
+  baseline: "Baseline",
+  follow_up: "Follow-up",
+  treatment: "Treatment",
+  assessment: "Assessment",
+  monitoring: "Monitoring",
+  adverse_event: "Adverse event",
+  unscheduled: "Unscheduled",
+  study_closeout: "Study close-out",
+  withdrawal: "Withdrawal",
+};
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Where a visit falls relative to its protocol window. Visits that were not
+ * generated from the schedule have no window and are "unscheduled".
+ */
+export function getVisitWindowStatus(
+  visit: Pick<PatientVisit, "visit_date" | "status" | "window_start" | "window_end">,
+  today: Date = new Date()
+): VisitWindowStatus {
+  if (!visit.window_start || !visit.window_end) return "unscheduled";
+
+  if (visit.visit_date < visit.window_start) return "early";
+  if (visit.visit_date > visit.window_end) return "late";
+
+  // Still open after the window closed
+  const isOpen = visit.status === "scheduled" || visit.status === "rescheduled";
+  if (isOpen && toDateString(today) > visit.window_end) return "overdue";
+
+  return "in_window";
+}
+
+export function isVisitOutOfWindow(
+  visit: Pick<PatientVisit, "visit_date" | "status" | "window_start" | "window_end">,
+  today?: Date
+): boolean {
+  const status = getVisitWindowStatus(visit, today);
+  return status === "early" || status === "late" || status === "overdue";
+}
+
+/**
+ * Days between the visit and its target date, e.g. +3 when 3 days late
+ */
+export function getVisitDeviationDays(
+  visit: Pick<PatientVisit, "visit_date" | "target_date">
+): number | null {
+  if (!visit.target_date) return null;
+  return differenceInCalendarDays(
+    parseISO(visit.visit_date),
+    parseISO(visit.target_date)
+  );
+}
+
+class VisitScheduleService {
+  /**
+   * Schedule of assessments for a trial, in visit order
+   */
+  async getSchedule(trialId: string): Promise<VisitScheduleItem[]> {
+    const { data, error } = await supabase
+      .from("trial_visit_schedule")
+      .select("*")
+      .eq("trial_id", trialId)
+      .order("visit_number", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Replace a trial's schedule in one transaction. Existing rows are updated in
+   * place so visits already generated from them keep their link; removed rows
+   * are deleted. Visit numbers follow the day offset order.
+   */
+  async saveSchedule(
+    trialId: string,
+    items: VisitScheduleItemInput[]
+  ): Promise<VisitScheduleItem[]> {
+    const { data, error } = await supabase.rpc("save_visit_schedule", {
+      trial_id_param: trialId,
+      items: items.map((item) => ({
+        id: item.id ?? null,
+        name: item.name.trim(),
+        visit_type: item.visit_type,
+        day_offset: item.day_offset,
+        window_before: Math.max(0, item.window_before),
+        window_after: Math.max(0, item.window_after),
+        procedures: item.procedures.map((p) => p.trim()).filter(Boolean),
+        duration_minutes: item.duration_minutes ?? null,
+      })),
+    });
+
+    if (error) throw error;
+
+    console.log(`📅 Saved visit schedule for trial ${trialId}: ${items.length} visits`);
+    return data || [];
+  }
+
+  /**
+   * Visits of one patient in a trial, with the assigned doctor's name
+   */
+  async getPatientVisits(
+    trialId: string,
+    patientId: string
+  ): Promise<(PatientVisit & { members: { name: string } | null })[]> {
+    const { data, error } = await supabase
+      .from("patient_visits")
+      .select("*, members!patient_visits_doctor_id_fkey(name)")
+      .eq("trial_id", trialId)
+      .eq("patient_id", patientId)
+      .order("visit_date", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Planned date and window of every visit in the schedule for a baseline date
+   */
+  buildVisitPlan(schedule: VisitScheduleItem[], baselineDate: string) {
+    const baseline = parseISO(baselineDate);
+
+    return schedule.map((item) => {
+      const target = addDays(baseline, item.day_offset);
+      return {
+        item,
+        target_date: toDateString(target),
+        window_start: toDateString(addDays(target, -item.window_before)),
+        window_end: toDateString(addDays(target, item.window_after)),
+      };
+    });
+  }
+
+  /**
+   * Create the patient's full visit series from the trial schedule.
+   * Visits already generated for the patient are left alone, so calling this
+   * twice doesn't duplicate the series.
+   */
+  async generateVisitsForEnrollment(
+    options: GenerateVisitsOptions
+  ): Promise<PatientVisit[]> {
+    const { trialId, patientId, baselineDate, doctorId, createdBy } = options;
+
+    const schedule = await this.getSchedule(trialId);
+    if (schedule.length === 0) return [];
+
+    const { data: existing, error: existingError } = await supabase
+      .from("patient_visits")
+      .select("schedule_item_id")
+      .eq("trial_id", trialId)
+      .eq("patient_id", patientId)
+      .not("schedule_item_id", "is", null);
+
+    if (existingError) throw existingError;
+
+    const alreadyGenerated = new Set(
+      (existing || []).map((visit) => visit.schedule_item_id)
+    );
+
+    const visits = this.buildVisitPlan(schedule, baselineDate)
+      .filter(({ item }) => !alreadyGenerated.has(item.id))
+      .map(({ item, target_date, window_start, window_end }) => ({
+        trial_id: trialId,
+        patient_id: patientId,
+        doctor_id: doctorId,
+        created_by: createdBy ?? null,
+        schedule_item_id: item.id,
+        visit_number: item.visit_number,
+        visit_type: item.visit_type,
+        visit_date: target_date,
+        target_date,
+        window_start,
+        window_end,
+        duration_minutes: item.duration_minutes,
+        status: "scheduled" as const,
+        notes: item.procedures.length
+          ? `${item.name}: ${item.procedures.join(", ")}`
+          : item.name,
+      }));
+
+    if (visits.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("patient_visits")
+      .insert(visits)
+      .select();
+
+    if (error) throw error;
+
+    console.log(`📅 Generated ${data?.length || 0} visits for patient ${patientId}`);
+    return data || [];
+  }
+}
+
+export const visitScheduleService = new VisitScheduleService();
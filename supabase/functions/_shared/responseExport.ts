@@ -0,0 +1,100 @@
+// Renders a Document AI question and answer with its sources, as HTML (inline
+// styles, so it also works in email clients) or plain text. Used by the
+// share-response edge function and by the "Export Local" button in the app, so
+// shared and exported responses look the same. It has no imports so both Deno
+// and Vite can load it.
+
+export interface ResponseSource {
+  section?: string;
+  page?: number;
+  content?: string;
+  exactText?: string;
+}
+
+export interface RenderableResponse {
+  prompt: string;
+  response: string;
+  sources?: ResponseSource[] | null;
+  // Note from the sender, shown above the question
+  message?: string | null;
+  // Lines under the title, e.g. "Trial: ABC-123"
+  details?: string[];
+}
+
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const sourceTitle = (source: ResponseSource) =>
+  `${source.section ?? "Source"}${source.page ? ` · Page ${source.page}` : ""}`;
+
+const sourceQuote = (source: ResponseSource) => source.exactText || source.content || "";
+
+export function renderResponseText(response: RenderableResponse): string {
+  const sources = (response.sources ?? [])
+    .map((source, index) => `${index + 1}. ${sourceTitle(source)}\n   "${sourceQuote(source)}"`)
+    .join("\n");
+
+  return [
+    response.message,
+    `Question:\n${response.prompt}`,
+    `Answer:\n${response.response}`,
+    sources && `Sources:\n${sources}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function renderResponseHTML(
+  response: RenderableResponse,
+  title = "Document AI Response"
+): string {
+  const paragraph = "margin:0 0 16px 0;white-space:pre-line;color:#1e293b;";
+  const heading = "margin:0 0 8px 0;font-size:15px;";
+  const sources = response.sources ?? [];
+  const details = response.details ?? [];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHTML(title)}</title>
+</head>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;line-height:1.6;max-width:700px;margin:0 auto;padding:24px;">
+  <h2 style="margin:0 0 4px 0;color:#1e293b;">${escapeHTML(title)}</h2>
+  ${details
+    .map((line) => `<p style="margin:0;color:#64748b;font-size:13px;">${escapeHTML(line)}</p>`)
+    .join("")}
+  <div style="height:24px;"></div>
+  ${response.message ? `<p style="${paragraph}">${escapeHTML(response.message)}</p>` : ""}
+  <div style="background:#eff6ff;border-left:4px solid #3b82f6;padding:16px;border-radius:8px;margin-bottom:16px;">
+    <h3 style="${heading}color:#1e40af;">Question</h3>
+    <p style="${paragraph}margin:0;">${escapeHTML(response.prompt)}</p>
+  </div>
+  <div style="border:1px solid #e2e8f0;padding:16px;border-radius:8px;">
+    <h3 style="${heading}color:#059669;">Answer</h3>
+    <p style="${paragraph}margin:0;">${escapeHTML(response.response)}</p>
+  </div>
+  ${
+    sources.length > 0
+      ? `<h3 style="${heading}margin-top:24px;color:#475569;">Sources</h3>
+  <ol style="font-size:14px;color:#475569;">
+    ${sources
+      .map(
+        (source) => `<li style="margin-bottom:12px;">
+      <strong>${escapeHTML(sourceTitle(source))}</strong>
+      <blockquote style="margin:6px 0 0 0;padding-left:12px;border-left:3px solid #cbd5e1;font-style:italic;">${escapeHTML(sourceQuote(source))}</blockquote>
+    </li>`
+      )
+      .join("")}
+  </ol>`
+      : ""
+  }
+  <p style="margin-top:32px;padding-top:16px;border-top:1px solid #e2e8f0;color:#64748b;font-size:12px;text-align:center;">Generated by the Themison Document AI Assistant</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,237 @@
+// Share Response edge function
+// Emails a Document AI response recorded in public.shared_responses to its
+// recipients over SMTP. The email is rendered here from the stored row (with the
+// renderer the app's export uses, _shared/responseExport.ts), and
+// recipients must be members of the trial's organization or in an allowed domain.
+//
+// Environment:
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM, SMTP_TLS
+//   SHARE_ALLOWED_DOMAINS  comma-separated domains outside the organization
+//                          that may receive shares, e.g. "sponsor.com,cro.com"
+// For local development run MailHog (`docker run -p 1025:1025 -p 8025:8025 mailhog/mailhog`);
+// the defaults below point at it and messages show up on http://localhost:8025.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import {
+  renderResponseHTML,
+  renderResponseText,
+  type ResponseSource,
+} from "../_shared/responseExport.ts";
+
+interface ShareRequest {
+  sharedResponseId: string;
+}
+
+interface SharedResponse {
+  id: string;
+  trial_id: string;
+  prompt: string;
+  response: string;
+  sources: ResponseSource[] | null;
+  subject: string;
+  message: string | null;
+  recipients: string[];
+  status: string;
+  trials: { name: string; organization_id: string } | null;
+}
+
+interface DeliveryResult {
+  email: string;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function createSmtpClient() {
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASS");
+
+  return new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") ?? "host.docker.internal",
+      port: Number(Deno.env.get("SMTP_PORT") ?? 1025),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username && password ? { username, password } : undefined,
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Act as the calling user so row level security decides which shares they can send
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+  );
+  // Delivery results are written with the service role; clients can't update shares
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  let body: ShareRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (!body.sharedResponseId) {
+    return json({ error: "sharedResponseId is required" }, 400);
+  }
+
+  const { data: share, error: shareError } = await supabase
+    .from("shared_responses")
+    .select("id, trial_id, prompt, response, sources, subject, message, recipients, status, trials(name, organization_id)")
+    .eq("id", body.sharedResponseId)
+    .maybeSingle<SharedResponse>();
+
+  if (shareError || !share) {
+    return json({ error: "Shared response not found" }, 404);
+  }
+  if (share.status !== "pending") {
+    return json({ error: "This response has already been sent" }, 409);
+  }
+
+  const organizationId = share.trials?.organization_id;
+  const { data: sender } = await supabase
+    .from("members")
+    .select("id")
+    .eq("profile_id", user.id)
+    .eq("organization_id", organizationId ?? "")
+    .maybeSingle();
+
+  if (!organizationId || !sender) {
+    return json({ error: "Only members of the trial's organization can share its responses" }, 403);
+  }
+
+  // Claim the share so a repeated or concurrent call can't send it twice
+  const { data: claimed } = await admin
+    .from("shared_responses")
+    .update({ status: "sending" })
+    .eq("id", share.id)
+    .eq("status", "pending")
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return json({ error: "This response has already been sent" }, 409);
+  }
+
+  const failShare = async (error: string) => {
+    await admin
+      .from("shared_responses")
+      .update({
+        status: "failed",
+        delivery_results: share.recipients.map((email) => ({ email, status: "failed", error })),
+      })
+      .eq("id", share.id);
+    return json({ error }, 400);
+  };
+
+  const recipients = [...new Set(share.recipients.map((email) => email.trim().toLowerCase()))]
+    .filter(Boolean);
+  const invalid = recipients.filter((email) => !EMAIL_REGEX.test(email));
+
+  if (!share.subject || recipients.length === 0) {
+    return failShare("A subject and at least one recipient are required");
+  }
+  if (invalid.length > 0) {
+    return failShare(`Invalid email address: ${invalid.join(", ")}`);
+  }
+
+  // Recipients must be organization members or in an allowed domain
+  const { data: members } = await admin
+    .from("members")
+    .select("email")
+    .eq("organization_id", organizationId);
+  const memberEmails = new Set((members ?? []).map((member) => member.email.toLowerCase()));
+  const allowedDomains = (Deno.env.get("SHARE_ALLOWED_DOMAINS") ?? "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+
+  const notAllowed = recipients.filter(
+    (email) => !memberEmails.has(email) && !allowedDomains.includes(email.split("@")[1])
+  );
+  if (notAllowed.length > 0) {
+    return failShare(
+      `Responses can only be shared with members of your organization: ${notAllowed.join(", ")}`
+    );
+  }
+
+  // Send one message per recipient so a bad address doesn't fail the others
+  const from = Deno.env.get("SMTP_FROM") ?? "Themison <no-reply@themison.local>";
+  const rendered = { ...share, details: [`Trial: ${share.trials?.name ?? share.trial_id}`] };
+  const content = renderResponseText(rendered);
+  const html = renderResponseHTML(rendered);
+  const results: DeliveryResult[] = [];
+  let client: SMTPClient | null = null;
+
+  try {
+    client = createSmtpClient();
+
+    for (const email of recipients) {
+      try {
+        await client.send({
+          from,
+          to: email,
+          subject: share.subject,
+          content,
+          html,
+        });
+        results.push({ email, status: "sent" });
+      } catch (error) {
+        console.error(`❌ Delivery to ${email} failed:`, error);
+        results.push({ email, status: "failed", error: (error as Error).message });
+      }
+    }
+  } catch (error) {
+    // Could not reach the SMTP server at all
+    console.error("❌ SMTP connection failed:", error);
+    for (const email of recipients) {
+      if (!results.some((result) => result.email === email)) {
+        results.push({ email, status: "failed", error: (error as Error).message });
+      }
+    }
+  } finally {
+    await client?.close().catch(() => {});
+  }
+
+  const sentCount = results.filter((result) => result.status === "sent").length;
+  const status = sentCount === recipients.length ? "sent" : sentCount === 0 ? "failed" : "partial";
+
+  await admin
+    .from("shared_responses")
+    .update({ delivery_results: results, status })
+    .eq("id", share.id);
+
+  return json({ id: share.id, status, results });
+});
@@ -0,0 +1,155 @@
+// Sign Document edge function
+// Records an electronic signature on a trial or patient document. The signed
+// file is hashed here from storage, so the hash never comes from the client,
+// and the caller must have signed in within the last 5 minutes.
+// Signer, organization and document name are stamped by the database trigger.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface SignRequest {
+  target: "trial_document" | "patient_document";
+  documentId: string;
+  meaning: string;
+  statement: string;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MEANINGS = ["author", "reviewer", "approver"];
+const REAUTH_WINDOW_SECONDS = 5 * 60;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Payload of the caller's access token; only read after auth.getUser() accepted it
+function decodeClaims(token: string): { amr?: { method: string; timestamp: number }[] } {
+  const payload = token.split(".")[1] ?? "";
+  const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+  return JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")));
+}
+
+// Bucket and path of a Supabase Storage URL, or null for files stored elsewhere
+function storageLocation(url: string) {
+  try {
+    const match = new URL(url).pathname.match(
+      /\/storage\/v1\/object\/(?:public|authenticated|sign)\/([^/]+)\/(.+)$/
+    );
+    return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const token = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+
+  // Act as the calling user so row level security decides which documents they can sign
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: `Bearer ${token}` } } }
+  );
+  // Only the service role can insert signatures
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  let body: SignRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (
+    !["trial_document", "patient_document"].includes(body.target) ||
+    !body.documentId ||
+    !MEANINGS.includes(body.meaning) ||
+    !body.statement?.trim()
+  ) {
+    return json({ error: "target, documentId, meaning and statement are required" }, 400);
+  }
+
+  // The session must come from a sign-in within the last 5 minutes
+  const now = Math.floor(Date.now() / 1000);
+  const recentSignIn = (decodeClaims(token).amr ?? []).some(
+    (method) => method.timestamp >= now - REAUTH_WINDOW_SECONDS
+  );
+  if (!recentSignIn) {
+    return json({ error: "Re-authenticate to sign" }, 403);
+  }
+
+  const { data: document } = await supabase
+    .from(body.target === "trial_document" ? "trial_documents" : "patient_documents")
+    .select("id, document_url")
+    .eq("id", body.documentId)
+    .maybeSingle();
+
+  if (!document) {
+    return json({ error: "Document not found" }, 404);
+  }
+
+  const location = storageLocation(document.document_url);
+  if (!location) {
+    return json({ error: "Only documents in storage can be signed" }, 400);
+  }
+
+  const { data: file, error: downloadError } = await admin.storage
+    .from(location.bucket)
+    .download(location.path);
+
+  if (downloadError || !file) {
+    console.error("❌ Failed to download document:", downloadError);
+    return json({ error: "Failed to download document" }, 502);
+  }
+
+  const { data: signature, error } = await admin
+    .from("e_signatures")
+    .insert({
+      trial_document_id: body.target === "trial_document" ? document.id : null,
+      patient_document_id: body.target === "patient_document" ? document.id : null,
+      signer_profile_id: user.id,
+      meaning: body.meaning,
+      statement: body.statement.trim(),
+      document_hash: await sha256(await file.arrayBuffer()),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return error.code === "23505"
+      ? json({ error: `You have already signed this document as ${body.meaning}` }, 409)
+      : json({ error: error.message }, 400);
+  }
+
+  console.log(`🖋️ ${signature.signer_name} signed ${signature.document_name} as ${body.meaning}`);
+  return json(signature);
+});
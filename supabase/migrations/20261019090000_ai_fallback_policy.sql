@@ -0,0 +1,7 @@
+-- Per-organization ordered fallback policy for the document assistant AI providers.
+-- Each entry is a provider id registered in the frontend AI provider registry.
+alter table public.organizations
+  add column if not exists ai_fallback_policy text[] not null default array['anthropic', 'backend'];
+
+comment on column public.organizations.ai_fallback_policy is
+  'Ordered list of AI provider ids to try when the selected provider fails';
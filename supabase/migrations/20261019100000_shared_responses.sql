@@ -0,0 +1,59 @@
+-- Record of every Document AI response shared by email, with per-recipient delivery results.
+-- The app inserts a pending row; the share-response edge function renders the email
+-- from it, sends it and writes the delivery results with the service role. The
+-- function moves the row from pending to sending before delivering, so each share
+-- is sent at most once.
+create table if not exists public.shared_responses (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  shared_by uuid references public.members(id) on delete set null,
+  prompt text not null,
+  response text not null,
+  sources jsonb not null default '[]'::jsonb,
+  subject text not null,
+  message text,
+  recipients text[] not null,
+  -- [{ "email": "...", "status": "sent" | "failed", "error": "..." }]
+  delivery_results jsonb not null default '[]'::jsonb,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'partial', 'failed')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shared_responses_trial_id_idx
+  on public.shared_responses (trial_id, created_at desc);
+
+alter table public.shared_responses enable row level security;
+
+create policy "Trial members can view shared responses"
+  on public.shared_responses for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can share responses"
+  on public.shared_responses for insert
+  with check (public.user_can_access_trial(trial_id));
+
+-- The sender is the caller's member row in the trial's organization, and a share
+-- always starts pending: clients can't attribute it to someone else or fake delivery
+create or replace function public.prepare_shared_response()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select m.id into new.shared_by
+  from public.members m
+  join public.trials t on t.organization_id = m.organization_id
+  where t.id = new.trial_id
+    and m.profile_id = auth.uid();
+
+  new.status := 'pending';
+  new.delivery_results := '[]'::jsonb;
+  return new;
+end;
+$$;
+
+create trigger prepare_shared_response
+  before insert on public.shared_responses
+  for each row execute function public.prepare_shared_response();
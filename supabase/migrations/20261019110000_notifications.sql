@@ -0,0 +1,93 @@
+-- Per-member notifications, replacing the hardcoded list on the Notifications page.
+-- Rows are created by the frontend notification service when something happens in a
+-- trial (document uploaded, visit scheduled, patient assigned) and by the trigger
+-- below when an invitation is accepted.
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  recipient_id uuid not null references public.members(id) on delete cascade,
+  sender_id uuid references public.members(id) on delete set null,
+  trial_id uuid references public.trials(id) on delete cascade,
+  type text not null check (type in (
+    'trial_update', 'patient_alert', 'team_invite', 'system', 'reminder', 'approval', 'milestone'
+  )),
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'high', 'urgent')),
+  title text not null,
+  message text not null,
+  action_url text,
+  action_label text,
+  metadata jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  archived_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_recipient_idx
+  on public.notifications (recipient_id, created_at desc);
+
+create index if not exists notifications_recipient_unread_idx
+  on public.notifications (recipient_id)
+  where read_at is null and archived_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Members can view their notifications"
+  on public.notifications for select
+  using (recipient_id in (select id from public.members where profile_id = auth.uid()));
+
+create policy "Members can update their notifications"
+  on public.notifications for update
+  using (recipient_id in (select id from public.members where profile_id = auth.uid()));
+
+create policy "Members can delete their notifications"
+  on public.notifications for delete
+  using (recipient_id in (select id from public.members where profile_id = auth.uid()));
+
+create policy "Members can notify their organization"
+  on public.notifications for insert
+  with check (
+    organization_id in (select organization_id from public.members where profile_id = auth.uid())
+    and recipient_id in (select id from public.members where organization_id = notifications.organization_id)
+    -- A notification can't be sent in someone else's name
+    and (sender_id is null or sender_id in (select id from public.members where profile_id = auth.uid()))
+  );
+
+-- Sidebar unread badge listens for changes
+alter publication supabase_realtime add table public.notifications;
+
+-- Tell whoever sent the invitation (or the organization admins) that it was accepted
+create or replace function public.notify_invitation_accepted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'accepted' and coalesce(old.status, '') <> 'accepted' then
+    insert into public.notifications (organization_id, recipient_id, type, priority, title, message, action_url, action_label, metadata)
+    select
+      new.organization_id,
+      m.id,
+      'team_invite',
+      'medium',
+      'Invitation accepted',
+      new.name || ' (' || new.email || ') accepted the invitation and joined the organization.',
+      '/organization',
+      'View Members',
+      jsonb_build_object('invitationId', new.id, 'email', new.email)
+    from public.members m
+    where m.organization_id = new.organization_id
+      and (
+        m.id = new.invited_by
+        or (new.invited_by is null and m.default_role = 'admin')
+      );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists invitations_notify_accepted on public.invitations;
+create trigger invitations_notify_accepted
+  after update of status on public.invitations
+  for each row execute function public.notify_invitation_accepted();
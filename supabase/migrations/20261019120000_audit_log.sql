@@ -0,0 +1,286 @@
+-- Append-only audit trail for regulated data (21 CFR Part 11 style).
+-- Triggers on the audited tables write one row per change, in the same transaction,
+-- with the before/after values of the changed fields. Every write is audited, whether
+-- it comes from the app, an edge function or SQL. The reason for change is read from
+-- the `x-audit-reason` request header (base64 of the UTF-8 text) that the app sends
+-- with the write. Actor and timestamp are stamped from the session, so they can't be
+-- supplied by the client, and rows can never be updated or deleted. Trial and actor
+-- ids are plain uuids rather than foreign keys so entries outlive the rows they point at.
+-- Patient entries record which fields changed but not the values of PHI fields.
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id),
+  trial_id uuid,
+  actor_id uuid,
+  actor_profile_id uuid,
+  actor_name text,
+  entity_type text not null check (entity_type in (
+    'patient', 'trial_patient', 'trial_document', 'patient_checklist', 'qa_item'
+  )),
+  entity_id text not null,
+  entity_label text,
+  action text not null check (action in ('create', 'update', 'delete', 'status_change')),
+  changed_fields text[] not null default '{}',
+  before jsonb,
+  after jsonb,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entity_idx
+  on public.audit_log (entity_type, entity_id, created_at desc);
+
+create index if not exists audit_log_organization_idx
+  on public.audit_log (organization_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+-- Entries of a trial are only visible to members with access to that trial
+create policy "Members can view their organization audit log"
+  on public.audit_log for select
+  using (
+    organization_id in (select organization_id from public.members where profile_id = auth.uid())
+    and (trial_id is null or public.user_can_access_trial(trial_id))
+  );
+
+-- Stamp who and when from the session, ignoring whatever the client sent
+create or replace function public.stamp_audit_log_actor()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select m.id, m.name
+    into new.actor_id, new.actor_name
+  from public.members m
+  where m.profile_id = auth.uid()
+    and m.organization_id = new.organization_id
+  limit 1;
+
+  new.actor_profile_id := auth.uid();
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_log_stamp_actor on public.audit_log;
+create trigger audit_log_stamp_actor
+  before insert on public.audit_log
+  for each row execute function public.stamp_audit_log_actor();
+
+-- Audit entries are immutable, even for the service role
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log entries cannot be modified or deleted';
+end;
+$$;
+
+drop trigger if exists audit_log_immutable on public.audit_log;
+create trigger audit_log_immutable
+  before update or delete on public.audit_log
+  for each row execute function public.prevent_audit_log_changes();
+
+-- Reason for change sent by the app with the current request, if any
+create or replace function public.current_audit_reason()
+returns text
+language plpgsql
+stable
+as $$
+declare
+  encoded text;
+begin
+  encoded := nullif(current_setting('request.headers', true), '')::json ->> 'x-audit-reason';
+  if encoded is null or encoded = '' then
+    return null;
+  end if;
+  return nullif(trim(convert_from(decode(encoded, 'base64'), 'UTF8')), '');
+exception
+  when others then
+    return null;
+end;
+$$;
+
+-- Write one audit entry. Update entries keep only the fields that changed;
+-- an update that changes nothing but updated_at isn't recorded. Fields in
+-- p_redacted_fields are listed as changed, with their values replaced.
+create or replace function public.write_audit_entry(
+  p_organization_id uuid,
+  p_trial_id uuid,
+  p_entity_type text,
+  p_entity_id text,
+  p_entity_label text,
+  p_before jsonb,
+  p_after jsonb,
+  p_redacted_fields text[] default '{}'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed text[];
+  action text;
+begin
+  select coalesce(array_agg(key order by key), '{}')
+    into changed
+  from (
+    select key from jsonb_object_keys(coalesce(p_before, '{}'::jsonb)) as key
+    union
+    select key from jsonb_object_keys(coalesce(p_after, '{}'::jsonb)) as key
+  ) keys
+  where key <> 'updated_at'
+    and (p_before -> key) is distinct from (p_after -> key);
+
+  if p_before is null then
+    action := 'create';
+  elsif p_after is null then
+    action := 'delete';
+  elsif cardinality(changed) = 0 then
+    return;
+  elsif 'status' = any(changed) then
+    action := 'status_change';
+  else
+    action := 'update';
+  end if;
+
+  insert into public.audit_log (
+    organization_id, trial_id, entity_type, entity_id, entity_label,
+    action, changed_fields, before, after, reason
+  )
+  values (
+    p_organization_id,
+    p_trial_id,
+    p_entity_type,
+    p_entity_id,
+    p_entity_label,
+    action,
+    changed,
+    (select jsonb_object_agg(key, case when key = any(p_redacted_fields) then '"[redacted]"'::jsonb else p_before -> key end)
+     from unnest(changed) key where p_before ? key),
+    (select jsonb_object_agg(key, case when key = any(p_redacted_fields) then '"[redacted]"'::jsonb else p_after -> key end)
+     from unnest(changed) key where p_after ? key),
+    public.current_audit_reason()
+  );
+end;
+$$;
+
+-- Row trigger for the audited tables. TG_ARGV[0] is the entity type and
+-- TG_ARGV[1] the column shown as the entity label.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  trial uuid := (row_data ->> 'trial_id')::uuid;
+  organization uuid := (row_data ->> 'organization_id')::uuid;
+  label text := left(row_data ->> tg_argv[1], 120);
+  -- Patient columns whose values may be kept; every other one is PHI
+  patient_fields text[] := array[
+    'id', 'organization_id', 'patient_code', 'is_active', 'consent_signed',
+    'consent_date', 'created_at', 'updated_at'
+  ];
+  redacted text[] := '{}';
+begin
+  if organization is null then
+    select t.organization_id into organization from public.trials t where t.id = trial;
+  end if;
+
+  if tg_table_name = 'trial_patients' then
+    select p.patient_code into label
+    from public.patients p
+    where p.id = (row_data ->> 'patient_id')::uuid;
+  end if;
+
+  -- Nothing to attach the entry to, e.g. the trial was deleted in the same statement
+  if organization is null then
+    return null;
+  end if;
+
+  if tg_argv[0] = 'patient' then
+    select coalesce(array_agg(key), '{}') into redacted
+    from jsonb_object_keys(row_data) as key
+    where key <> all(patient_fields);
+  end if;
+
+  perform public.write_audit_entry(
+    organization, trial, tg_argv[0], row_data ->> 'id', label, old_row, new_row, redacted
+  );
+  return null;
+end;
+$$;
+
+-- Checklist documents live in trial_patients.patient_data; each status change
+-- gets its own entry so it shows up in the checklist's history
+create or replace function public.audit_patient_checklists()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  checklist jsonb;
+  old_status text;
+  organization uuid;
+  patient_code text;
+begin
+  select t.organization_id into organization from public.trials t where t.id = new.trial_id;
+  select p.patient_code into patient_code from public.patients p where p.id = new.patient_id;
+
+  for checklist in
+    select value from jsonb_array_elements(coalesce(new.patient_data -> 'assignedChecklists', '[]'::jsonb))
+  loop
+    select c ->> 'status' into old_status
+    from jsonb_array_elements(coalesce(old.patient_data -> 'assignedChecklists', '[]'::jsonb)) c
+    where c ->> 'id' = checklist ->> 'id';
+
+    if old_status is distinct from checklist ->> 'status' then
+      perform public.write_audit_entry(
+        organization,
+        new.trial_id,
+        'patient_checklist',
+        checklist ->> 'id',
+        coalesce(checklist ->> 'title', 'Checklist') || ' (' || coalesce(patient_code, '?') || ')',
+        jsonb_build_object('status', old_status),
+        jsonb_build_object('status', checklist ->> 'status')
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_patients on public.patients;
+create trigger audit_patients
+  after insert or update or delete on public.patients
+  for each row execute function public.audit_row_change('patient', 'patient_code');
+
+drop trigger if exists audit_trial_patients on public.trial_patients;
+create trigger audit_trial_patients
+  after insert or update or delete on public.trial_patients
+  for each row execute function public.audit_row_change('trial_patient', 'id');
+
+drop trigger if exists audit_patient_checklists on public.trial_patients;
+create trigger audit_patient_checklists
+  after update of patient_data on public.trial_patients
+  for each row execute function public.audit_patient_checklists();
+
+drop trigger if exists audit_trial_documents on public.trial_documents;
+create trigger audit_trial_documents
+  after insert or update or delete on public.trial_documents
+  for each row execute function public.audit_row_change('trial_document', 'document_name');
+
+drop trigger if exists audit_qa_repository on public.qa_repository;
+create trigger audit_qa_repository
+  after insert or update or delete on public.qa_repository
+  for each row execute function public.audit_row_change('qa_item', 'question');
@@ -0,0 +1,132 @@
+-- Schedule of assessments per trial: which visits a patient goes through, how many
+-- days after baseline each one happens, the allowed window around that day and the
+-- procedures required at the visit. When a patient is enrolled the frontend
+-- generates the whole patient_visits series from this template.
+create table if not exists public.trial_visit_schedule (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  visit_number integer not null,
+  name text not null,
+  visit_type public.visit_type_enum not null default 'follow_up',
+  -- Days from baseline (day 0); screening visits are usually negative
+  day_offset integer not null default 0,
+  window_before integer not null default 0 check (window_before >= 0),
+  window_after integer not null default 0 check (window_after >= 0),
+  procedures text[] not null default '{}',
+  duration_minutes integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (trial_id, visit_number)
+);
+
+create index if not exists trial_visit_schedule_trial_idx
+  on public.trial_visit_schedule (trial_id, visit_number);
+
+alter table public.trial_visit_schedule enable row level security;
+
+create policy "Trial members can view the visit schedule"
+  on public.trial_visit_schedule for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can manage the visit schedule"
+  on public.trial_visit_schedule for all
+  using (public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+-- Link generated visits back to the template and keep their protocol window
+alter table public.patient_visits
+  add column if not exists schedule_item_id uuid references public.trial_visit_schedule(id) on delete set null,
+  add column if not exists target_date date,
+  add column if not exists window_start date,
+  add column if not exists window_end date;
+
+create index if not exists patient_visits_schedule_item_idx
+  on public.patient_visits (schedule_item_id);
+
+-- Replace a trial's schedule in one transaction. items is the whole schedule as
+-- [{ id?, name, visit_type, day_offset, window_before, window_after, procedures,
+-- duration_minutes }]: rows with an id are updated in place so visits generated
+-- from them keep their link, rows without one are added and rows left out are
+-- deleted. Visit numbers follow the day offset order.
+create or replace function public.save_visit_schedule(trial_id_param uuid, items jsonb)
+returns setof public.trial_visit_schedule
+language plpgsql
+as $$
+declare
+  item record;
+  next_number integer := 0;
+begin
+  items := coalesce(items, '[]'::jsonb);
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(items) as input(id uuid)
+    where input.id is not null
+      and not exists (
+        select 1 from public.trial_visit_schedule s
+        where s.id = input.id and s.trial_id = trial_id_param
+      )
+  ) then
+    raise exception 'A schedule item doesn''t belong to this trial';
+  end if;
+
+  delete from public.trial_visit_schedule s
+  where s.trial_id = trial_id_param
+    and s.id not in (
+      select input.id from jsonb_to_recordset(items) as input(id uuid) where input.id is not null
+    );
+
+  -- Park the remaining rows on negative numbers so renumbering can't hit the
+  -- (trial_id, visit_number) unique constraint
+  update public.trial_visit_schedule
+  set visit_number = -visit_number
+  where trial_id = trial_id_param;
+
+  for item in
+    select input.*
+    from jsonb_array_elements(items) with ordinality as element(value, position),
+      jsonb_to_record(element.value) as input(
+        id uuid,
+        name text,
+        visit_type public.visit_type_enum,
+        day_offset integer,
+        window_before integer,
+        window_after integer,
+        procedures text[],
+        duration_minutes integer
+      )
+    order by input.day_offset, element.position
+  loop
+    next_number := next_number + 1;
+
+    if item.id is null then
+      insert into public.trial_visit_schedule (
+        trial_id, visit_number, name, visit_type, day_offset, window_before,
+        window_after, procedures, duration_minutes
+      )
+      values (
+        trial_id_param, next_number, item.name, item.visit_type, item.day_offset,
+        item.window_before, item.window_after, coalesce(item.procedures, '{}'),
+        item.duration_minutes
+      );
+    else
+      update public.trial_visit_schedule
+      set visit_number = next_number,
+          name = item.name,
+          visit_type = item.visit_type,
+          day_offset = item.day_offset,
+          window_before = item.window_before,
+          window_after = item.window_after,
+          procedures = coalesce(item.procedures, '{}'),
+          duration_minutes = item.duration_minutes,
+          updated_at = now()
+      where id = item.id;
+    end if;
+  end loop;
+
+  return query
+    select * from public.trial_visit_schedule
+    where trial_id = trial_id_param
+    order by visit_number;
+end;
+$$;
@@ -0,0 +1,94 @@
+-- Typed trial budget, replacing the free-form trials.budget_data JSON.
+-- Each line item is one of:
+--   per_visit     fee earned for every completed visit it applies to
+--   procedure     cost of a procedure performed at the visits it applies to
+--   pass_through  costs reimbursed at actuals (tracked from invoice and billing statement
+--                 visit_documents and approved patient_payments)
+--   overhead      flat amount, or a percentage of the direct costs
+-- Visit-driven items apply to visits of one schedule item, of one visit type, or,
+-- when neither is set, to every completed visit of the trial.
+-- Actuals, burn rate and run-out date are computed by the frontend (budgetService).
+-- Existing budgets are copied from budget_data below. budget_data and the
+-- mock_* budget functions are kept until the copied budgets have been checked.
+create table if not exists public.trial_budget_items (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  category text not null check (category in ('per_visit', 'procedure', 'pass_through', 'overhead')),
+  name text not null,
+  description text,
+  unit_cost numeric(12, 2) not null default 0 check (unit_cost >= 0),
+  -- Planned number of units (visits, procedures...) for the whole trial
+  quantity numeric(10, 2) not null default 1 check (quantity >= 0),
+  -- Overhead only: percentage of direct costs instead of a flat amount
+  overhead_percent numeric(5, 2) check (overhead_percent is null or overhead_percent >= 0),
+  visit_type public.visit_type_enum,
+  schedule_item_id uuid references public.trial_visit_schedule(id) on delete set null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists trial_budget_items_trial_idx
+  on public.trial_budget_items (trial_id, sort_order);
+
+alter table public.trial_budget_items enable row level security;
+
+create policy "Trial members can view the budget"
+  on public.trial_budget_items for select
+  using (public.user_can_access_trial(trial_id));
+
+-- The finances.manage permission of src/lib/permissions.ts: organization admins
+-- and members with the admin permission level on the trial
+create or replace function public.user_can_manage_trial_finances(trial_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.trials t
+    join public.members m on m.organization_id = t.organization_id
+    where t.id = trial_id_param
+      and m.profile_id = auth.uid()
+      and m.default_role = 'admin'
+  )
+  or coalesce(public.user_trial_permission(auth.uid(), trial_id_param) = 'admin', false);
+$$;
+
+create policy "Finance managers can add budget items"
+  on public.trial_budget_items for insert
+  with check (public.user_can_manage_trial_finances(trial_id));
+
+create policy "Finance managers can update budget items"
+  on public.trial_budget_items for update
+  using (public.user_can_manage_trial_finances(trial_id))
+  with check (public.user_can_manage_trial_finances(trial_id));
+
+create policy "Finance managers can delete budget items"
+  on public.trial_budget_items for delete
+  using (public.user_can_manage_trial_finances(trial_id));
+
+-- All amounts of a trial's budget are in this currency
+alter table public.trials
+  add column if not exists budget_currency text not null default 'USD';
+
+-- Carry over budget_data: its currency, if it names one, and its total_budget
+-- as a single pass-through line that can later be itemized
+update public.trials
+set budget_currency = upper(budget_data->>'currency')
+where budget_data->>'currency' ~* '^[a-z]{3}$';
+
+insert into public.trial_budget_items (trial_id, category, name, description, unit_cost, quantity)
+select
+  t.id,
+  'pass_through',
+  'Total budget',
+  'Copied from the previous trial budget (budget_data.total_budget)',
+  round((t.budget_data->>'total_budget')::numeric, 2),
+  1
+from public.trials t
+where t.budget_data->>'total_budget' ~ '^[0-9]+(\.[0-9]+)?$'
+  and (t.budget_data->>'total_budget')::numeric > 0
+  and not exists (select 1 from public.trial_budget_items i where i.trial_id = t.id);
@@ -0,0 +1,309 @@
+-- Sponsor invoices generated from completed visits. Each completed visit can be
+-- billed once (sponsor_invoice_lines.visit_id is unique); deleting a draft
+-- releases its visits. The PDF of an issued invoice is stored as a
+-- visit_documents record of type 'invoice' (tagged 'sponsor_invoice') on the
+-- first billed visit.
+-- "Overdue" is not stored: it is a sent invoice past its due date.
+-- Status only moves draft -> sent -> paid, and only drafts can be edited.
+-- Drafts are created and sent only through the create_sponsor_invoice and
+-- send_sponsor_invoice functions, which check the finances.manage permission,
+-- price each line from the trial budget and run each step in one transaction.
+create table if not exists public.sponsor_invoices (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  invoice_number text not null,
+  sponsor text not null,
+  status text not null default 'draft' check (status in ('draft', 'sent', 'paid')),
+  currency text not null default 'USD',
+  total numeric(12, 2) not null default 0,
+  issue_date date not null default current_date,
+  due_date date not null default (current_date + 30),
+  sent_at timestamptz,
+  paid_at timestamptz,
+  document_id uuid references public.visit_documents(id) on delete set null,
+  notes text,
+  created_by uuid references public.members(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (organization_id, invoice_number)
+);
+
+create index if not exists sponsor_invoices_trial_idx
+  on public.sponsor_invoices (trial_id, issue_date desc);
+
+create table if not exists public.sponsor_invoice_lines (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.sponsor_invoices(id) on delete cascade,
+  visit_id uuid not null unique references public.patient_visits(id) on delete restrict,
+  description text not null,
+  amount numeric(12, 2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sponsor_invoice_lines_invoice_idx
+  on public.sponsor_invoice_lines (invoice_id);
+
+alter table public.sponsor_invoices enable row level security;
+alter table public.sponsor_invoice_lines enable row level security;
+
+create policy "Trial members can view invoices"
+  on public.sponsor_invoices for select
+  using (public.user_can_access_trial(trial_id));
+
+-- Invoices and their lines are only written by create_sponsor_invoice and
+-- send_sponsor_invoice; finance managers can then mark them paid or delete drafts
+create policy "Finance managers can mark sent invoices paid"
+  on public.sponsor_invoices for update
+  using (status = 'sent' and public.user_can_manage_trial_finances(trial_id))
+  with check (public.user_can_manage_trial_finances(trial_id));
+
+create policy "Finance managers can delete draft invoices"
+  on public.sponsor_invoices for delete
+  using (status = 'draft' and public.user_can_manage_trial_finances(trial_id));
+
+create policy "Trial members can view invoice lines"
+  on public.sponsor_invoice_lines for select
+  using (exists (
+    select 1 from public.sponsor_invoices i
+    where i.id = invoice_id and public.user_can_access_trial(i.trial_id)
+  ));
+
+-- Sequential numbers per organization and year: INV-2026-0001, INV-2026-0002...
+create or replace function public.assign_sponsor_invoice_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  prefix text := 'INV-' || to_char(coalesce(new.issue_date, current_date), 'YYYY') || '-';
+  next_number integer;
+begin
+  perform pg_advisory_xact_lock(hashtext('sponsor_invoices:' || new.organization_id::text));
+
+  select coalesce(max(substring(invoice_number from length(prefix) + 1)::integer), 0) + 1
+    into next_number
+  from public.sponsor_invoices
+  where organization_id = new.organization_id
+    and invoice_number like prefix || '%';
+
+  new.invoice_number := prefix || lpad(next_number::text, 4, '0');
+  return new;
+end;
+$$;
+
+drop trigger if exists sponsor_invoices_assign_number on public.sponsor_invoices;
+create trigger sponsor_invoices_assign_number
+  before insert on public.sponsor_invoices
+  for each row execute function public.assign_sponsor_invoice_number();
+
+-- Drafts can be edited and sent; after that only the sent -> paid step is allowed
+create or replace function public.check_sponsor_invoice_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  -- Columns the draft -> sent -> paid steps may change (document_id is also
+  -- cleared when the PDF document is deleted)
+  step_columns text[] := array['status', 'sent_at', 'paid_at', 'document_id', 'updated_at'];
+begin
+  if old.status = 'draft' then
+    if new.status in ('draft', 'sent') then
+      return new;
+    end if;
+  elsif (to_jsonb(new) - step_columns) = (to_jsonb(old) - step_columns)
+    and new.sent_at is not distinct from old.sent_at
+    and (new.status = old.status or (old.status = 'sent' and new.status = 'paid')) then
+    return new;
+  end if;
+
+  raise exception 'Invoice % is % and can''t be changed this way', old.invoice_number, old.status;
+end;
+$$;
+
+drop trigger if exists sponsor_invoices_check_update on public.sponsor_invoices;
+create trigger sponsor_invoices_check_update
+  before update on public.sponsor_invoices
+  for each row execute function public.check_sponsor_invoice_update();
+
+-- Amount billed for a completed visit: the per-visit and procedure fees of the
+-- trial budget that apply to it, plus percentage overhead (priceVisit in
+-- invoiceService previews the same amount)
+create or replace function public.price_trial_visit(visit_id_param uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select round(
+    coalesce(sum(item.unit_cost) filter (
+      where item.category in ('per_visit', 'procedure')
+        and case
+          when item.schedule_item_id is not null then item.schedule_item_id = v.schedule_item_id
+          when item.visit_type is not null then item.visit_type = v.visit_type
+          else true
+        end
+    ), 0)
+    * (1 + coalesce(sum(item.overhead_percent) filter (where item.category = 'overhead'), 0) / 100),
+    2
+  )
+  from public.patient_visits v
+  left join public.trial_budget_items item on item.trial_id = v.trial_id
+  where v.id = visit_id_param
+  group by v.id;
+$$;
+
+-- Create a draft invoice with its lines. lines is [{ visit_id, description }]
+-- for completed visits of the trial; amounts are priced from the trial budget.
+-- A visit already on another invoice fails the whole call with a unique violation.
+create or replace function public.create_sponsor_invoice(
+  trial_id_param uuid,
+  lines jsonb,
+  payment_terms_days integer default 30,
+  notes_param text default null
+)
+returns public.sponsor_invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trial public.trials%rowtype;
+  invoice public.sponsor_invoices;
+begin
+  if not public.user_can_manage_trial_finances(trial_id_param) then
+    raise exception 'Only finance managers can create invoices';
+  end if;
+
+  select * into trial from public.trials where id = trial_id_param;
+  if not found then
+    raise exception 'Trial not found';
+  end if;
+
+  if jsonb_array_length(coalesce(lines, '[]'::jsonb)) = 0 then
+    raise exception 'Select at least one visit to invoice';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(lines) as line(visit_id uuid)
+    left join public.patient_visits v
+      on v.id = line.visit_id
+     and v.trial_id = trial_id_param
+     and v.status = 'completed'
+    where v.id is null
+  ) then
+    raise exception 'Only completed visits of the trial can be invoiced';
+  end if;
+
+  insert into public.sponsor_invoices (
+    organization_id, trial_id, sponsor, currency, issue_date, due_date, notes, created_by
+  )
+  values (
+    trial.organization_id,
+    trial.id,
+    trial.sponsor,
+    trial.budget_currency,
+    current_date,
+    current_date + greatest(coalesce(payment_terms_days, 30), 0),
+    nullif(trim(notes_param), ''),
+    (select id from public.members
+     where profile_id = auth.uid() and organization_id = trial.organization_id
+     limit 1)
+  )
+  returning * into invoice;
+
+  insert into public.sponsor_invoice_lines (invoice_id, visit_id, amount, description)
+  select
+    invoice.id,
+    line.visit_id,
+    public.price_trial_visit(line.visit_id),
+    coalesce(nullif(trim(line.description), ''), 'Visit')
+  from jsonb_to_recordset(lines) as line(visit_id uuid, description text);
+
+  update public.sponsor_invoices
+  set total = (
+    select coalesce(sum(amount), 0) from public.sponsor_invoice_lines where invoice_id = invoice.id
+  )
+  where id = invoice.id
+  returning * into invoice;
+
+  return invoice;
+end;
+$$;
+
+-- Mark a draft as sent: record its uploaded PDF as an invoice visit document
+-- on the first billed visit and link it to the invoice
+create or replace function public.send_sponsor_invoice(
+  invoice_id_param uuid,
+  document_url_param text,
+  file_size_param bigint default null
+)
+returns public.sponsor_invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invoice public.sponsor_invoices;
+  first_visit_id uuid;
+  new_document_id uuid;
+begin
+  select * into invoice
+  from public.sponsor_invoices
+  where id = invoice_id_param
+  for update;
+
+  if not found or not public.user_can_manage_trial_finances(invoice.trial_id) then
+    raise exception 'Invoice not found';
+  end if;
+  if invoice.status <> 'draft' then
+    raise exception 'Only draft invoices can be sent';
+  end if;
+
+  select visit_id into first_visit_id
+  from public.sponsor_invoice_lines
+  where invoice_id = invoice.id
+  order by created_at, id
+  limit 1;
+
+  if first_visit_id is null then
+    raise exception 'The invoice has no visits';
+  end if;
+
+  insert into public.visit_documents (
+    visit_id, document_name, document_type, document_url, description, amount,
+    currency, file_size, file_type, mime_type, tags, uploaded_by
+  )
+  values (
+    first_visit_id,
+    invoice.invoice_number || '.pdf',
+    'invoice',
+    document_url_param,
+    'Invoice ' || invoice.invoice_number || ' to ' || invoice.sponsor,
+    invoice.total,
+    invoice.currency,
+    file_size_param,
+    'pdf',
+    'application/pdf',
+    -- SPONSOR_INVOICE_TAG in budgetService
+    array['sponsor_invoice', invoice.invoice_number],
+    (select id from public.members
+     where profile_id = auth.uid() and organization_id = invoice.organization_id
+     limit 1)
+  )
+  returning id into new_document_id;
+
+  update public.sponsor_invoices
+  set status = 'sent',
+      sent_at = now(),
+      document_id = new_document_id,
+      updated_at = now()
+  where id = invoice.id
+  returning * into invoice;
+
+  return invoice;
+end;
+$$;
@@ -0,0 +1,185 @@
+-- Patient stipend and reimbursement ledger. Every completed visit accrues a
+-- stipend at the enrollment's trial_patients.cost_data->>'reimbursement_rate';
+-- travel expenses are entered with a receipt stored as a visit document.
+-- Entries start pending, are approved or rejected by an organization admin and
+-- are marked paid when the payout is made. An unpaid stipend is removed when
+-- its visit is no longer completed.
+create table if not exists public.patient_payments (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  patient_id uuid not null references public.patients(id) on delete cascade,
+  visit_id uuid references public.patient_visits(id) on delete set null,
+  kind text not null check (kind in ('stipend', 'travel')),
+  description text not null,
+  amount numeric(10, 2) not null check (amount >= 0),
+  currency text not null default 'USD',
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'paid')),
+  receipt_document_id uuid references public.visit_documents(id) on delete set null,
+  reviewed_by uuid references public.members(id) on delete set null,
+  reviewed_at timestamptz,
+  review_note text,
+  paid_at timestamptz,
+  payment_reference text,
+  created_by uuid references public.members(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists patient_payments_patient_idx
+  on public.patient_payments (patient_id, created_at desc);
+
+-- One stipend per visit
+create unique index if not exists patient_payments_visit_stipend_idx
+  on public.patient_payments (visit_id) where kind = 'stipend';
+
+alter table public.patient_payments enable row level security;
+
+create policy "Trial members can view patient payments"
+  on public.patient_payments for select
+  using (public.user_can_access_trial(trial_id));
+
+-- Stipends are only accrued by the visit trigger below
+create policy "Trial members can record patient expenses"
+  on public.patient_payments for insert
+  with check (
+    kind = 'travel'
+    and status = 'pending'
+    and reviewed_by is null
+    and reviewed_at is null
+    and paid_at is null
+    and public.user_can_access_trial(trial_id)
+  );
+
+create policy "Organization admins can review patient payments"
+  on public.patient_payments for update
+  using (exists (
+    select 1
+    from public.trials t
+    join public.members m on m.organization_id = t.organization_id
+    where t.id = trial_id
+      and m.profile_id = auth.uid()
+      and m.default_role = 'admin'
+  ));
+
+-- Reviews only change the status and the review and payout details:
+-- pending -> approved/rejected, approved -> paid
+create or replace function public.check_patient_payment_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  review_columns text[] := array[
+    'status', 'reviewed_by', 'reviewed_at', 'review_note', 'paid_at', 'payment_reference', 'updated_at',
+    -- Cleared when the referenced row is deleted
+    'visit_id', 'receipt_document_id', 'created_by'
+  ];
+  allowed text[];
+begin
+  if (to_jsonb(new) - review_columns) <> (to_jsonb(old) - review_columns)
+     or (new.visit_id is distinct from old.visit_id and new.visit_id is not null)
+     or (new.receipt_document_id is distinct from old.receipt_document_id and new.receipt_document_id is not null)
+     or (new.created_by is distinct from old.created_by and new.created_by is not null) then
+    raise exception 'Only the status and review details of a patient payment can be changed';
+  end if;
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  allowed := case old.status
+    when 'pending' then array['approved', 'rejected']
+    when 'approved' then array['paid']
+    else array[]::text[]
+  end;
+
+  if not (new.status = any(allowed)) then
+    raise exception 'A payment that is % can''t become %', old.status, new.status;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists patient_payments_check_update on public.patient_payments;
+create trigger patient_payments_check_update
+  before update on public.patient_payments
+  for each row execute function public.check_patient_payment_update();
+
+create or replace function public.accrue_visit_stipend()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rate_text text;
+  trial_currency text;
+begin
+  -- Visit reopened or cancelled: take back the stipend unless it was paid out
+  if tg_op = 'UPDATE' and old.status = 'completed' and new.status <> 'completed' then
+    delete from public.patient_payments
+    where visit_id = new.id
+      and kind = 'stipend'
+      and status in ('pending', 'approved');
+    return new;
+  end if;
+
+  if new.status <> 'completed'
+     or (tg_op = 'UPDATE' and old.status = 'completed') then
+    return new;
+  end if;
+
+  select tp.cost_data->>'reimbursement_rate'
+    into rate_text
+  from public.trial_patients tp
+  where tp.trial_id = new.trial_id
+    and tp.patient_id = new.patient_id;
+
+  -- cost_data is free-form JSON; ignore anything that isn't a positive number
+  if rate_text is null or rate_text !~ '^[0-9]+(\.[0-9]+)?$' or rate_text::numeric <= 0 then
+    return new;
+  end if;
+
+  select budget_currency into trial_currency from public.trials where id = new.trial_id;
+
+  insert into public.patient_payments (
+    trial_id, patient_id, visit_id, kind, description, amount, currency
+  ) values (
+    new.trial_id,
+    new.patient_id,
+    new.id,
+    'stipend',
+    'Visit ' || new.visit_number || ' stipend (' || to_char(new.visit_date, 'YYYY-MM-DD') || ')',
+    rate_text::numeric,
+    coalesce(trial_currency, 'USD')
+  )
+  on conflict (visit_id) where kind = 'stipend' do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists patient_visits_accrue_stipend on public.patient_visits;
+create trigger patient_visits_accrue_stipend
+  after insert or update of status on public.patient_visits
+  for each row execute function public.accrue_visit_stipend();
+
+-- Stipends for visits completed before the ledger existed
+insert into public.patient_payments (
+  trial_id, patient_id, visit_id, kind, description, amount, currency
+)
+select
+  v.trial_id,
+  v.patient_id,
+  v.id,
+  'stipend',
+  'Visit ' || v.visit_number || ' stipend (' || to_char(v.visit_date, 'YYYY-MM-DD') || ')',
+  (tp.cost_data->>'reimbursement_rate')::numeric,
+  t.budget_currency
+from public.patient_visits v
+join public.trial_patients tp on tp.trial_id = v.trial_id and tp.patient_id = v.patient_id
+join public.trials t on t.id = v.trial_id
+where v.status = 'completed'
+  and tp.cost_data->>'reimbursement_rate' ~ '^[0-9]+(\.[0-9]+)?$'
+  and (tp.cost_data->>'reimbursement_rate')::numeric > 0
+on conflict (visit_id) where kind = 'stipend' do nothing;
@@ -0,0 +1,206 @@
+-- Eligibility screening. The inclusion/exclusion criteria of the latest protocol
+-- are extracted into a checklist per trial; a coordinator screens a candidate
+-- patient against it, answering met / not met / unknown with source evidence.
+-- Enrolling a patient requires a passed screening against the active criteria,
+-- and failed screenings are kept as the trial's screen-failure log.
+create table if not exists public.trial_eligibility_criteria (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  source_document_id uuid references public.trial_documents(id) on delete set null,
+  kind text not null check (kind in ('inclusion', 'exclusion')),
+  -- Numbering used by the protocol, e.g. "I3" or "E12"
+  code text not null,
+  text text not null,
+  source_page integer,
+  sort_order integer not null default 0,
+  -- Edited or re-extracted criteria are retired, not deleted, so past
+  -- screenings keep pointing at the wording they were answered against
+  is_active boolean not null default true,
+  created_by uuid references public.members(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists trial_eligibility_criteria_trial_idx
+  on public.trial_eligibility_criteria (trial_id, is_active, kind, sort_order);
+
+alter table public.trial_eligibility_criteria enable row level security;
+
+create policy "Trial members can view eligibility criteria"
+  on public.trial_eligibility_criteria for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can manage eligibility criteria"
+  on public.trial_eligibility_criteria for all
+  using (public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+create table if not exists public.patient_screenings (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  patient_id uuid not null references public.patients(id) on delete cascade,
+  status text not null default 'in_progress' check (status in ('in_progress', 'passed', 'failed')),
+  -- Required for screen failures
+  failure_reason text,
+  notes text,
+  screened_by uuid references public.members(id) on delete set null,
+  completed_by uuid references public.members(id) on delete set null,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (status <> 'failed' or failure_reason is not null)
+);
+
+create index if not exists patient_screenings_trial_idx
+  on public.patient_screenings (trial_id, patient_id, created_at desc);
+
+create table if not exists public.patient_screening_responses (
+  id uuid primary key default gen_random_uuid(),
+  screening_id uuid not null references public.patient_screenings(id) on delete cascade,
+  criterion_id uuid not null references public.trial_eligibility_criteria(id) on delete cascade,
+  answer text not null check (answer in ('met', 'not_met', 'unknown')),
+  evidence text,
+  evidence_document_id uuid references public.patient_documents(id) on delete set null,
+  recorded_by uuid references public.members(id) on delete set null,
+  recorded_at timestamptz not null default now(),
+  unique (screening_id, criterion_id)
+);
+
+alter table public.patient_screenings enable row level security;
+alter table public.patient_screening_responses enable row level security;
+
+create policy "Trial members can view screenings"
+  on public.patient_screenings for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can start screenings"
+  on public.patient_screenings for insert
+  with check (status = 'in_progress' and public.user_can_access_trial(trial_id));
+
+-- Completed screenings are part of the record and can't be changed
+create policy "Trial members can complete open screenings"
+  on public.patient_screenings for update
+  using (status = 'in_progress' and public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can delete open screenings"
+  on public.patient_screenings for delete
+  using (status = 'in_progress' and public.user_can_access_trial(trial_id));
+
+create policy "Trial members can view screening responses"
+  on public.patient_screening_responses for select
+  using (exists (
+    select 1 from public.patient_screenings s
+    where s.id = screening_id and public.user_can_access_trial(s.trial_id)
+  ));
+
+create policy "Trial members can answer open screenings"
+  on public.patient_screening_responses for all
+  using (exists (
+    select 1 from public.patient_screenings s
+    where s.id = screening_id
+      and s.status = 'in_progress'
+      and public.user_can_access_trial(s.trial_id)
+  ))
+  with check (exists (
+    select 1 from public.patient_screenings s
+    where s.id = screening_id
+      and s.status = 'in_progress'
+      and public.user_can_access_trial(s.trial_id)
+  ));
+
+-- A screening passes when every active criterion is answered, every inclusion
+-- criterion is met and no exclusion criterion is. The outcome chosen by the
+-- client is checked here so a screening can't be marked passed otherwise.
+create or replace function public.check_screening_outcome()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  unanswered integer;
+  failing integer;
+begin
+  if new.status = old.status or new.status = 'in_progress' then
+    return new;
+  end if;
+
+  select
+    count(*) filter (where r.id is null or r.answer = 'unknown'),
+    count(*) filter (where
+      (c.kind = 'inclusion' and r.answer = 'not_met')
+      or (c.kind = 'exclusion' and r.answer = 'met'))
+    into unanswered, failing
+  from public.trial_eligibility_criteria c
+  left join public.patient_screening_responses r
+    on r.criterion_id = c.id and r.screening_id = new.id
+  where c.trial_id = new.trial_id
+    and c.is_active;
+
+  if new.status = 'passed' and (unanswered > 0 or failing > 0) then
+    raise exception 'Screening cannot pass: % criteria are unanswered or unknown and % are not satisfied', unanswered, failing
+      using errcode = 'check_violation';
+  end if;
+
+  new.completed_at := coalesce(new.completed_at, now());
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists patient_screenings_check_outcome on public.patient_screenings;
+create trigger patient_screenings_check_outcome
+  before update of status on public.patient_screenings
+  for each row execute function public.check_screening_outcome();
+
+-- Trials without extracted criteria keep enrolling as before. Once a trial has
+-- active criteria, a patient can only become 'enrolled' with a passed screening
+-- that answered all of them.
+create or replace function public.enforce_eligibility_screening()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'enrolled'
+     or (tg_op = 'UPDATE' and old.status = 'enrolled') then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.trial_eligibility_criteria
+    where trial_id = new.trial_id and is_active
+  ) then
+    return new;
+  end if;
+
+  if not exists (
+    select 1
+    from public.patient_screenings s
+    where s.trial_id = new.trial_id
+      and s.patient_id = new.patient_id
+      and s.status = 'passed'
+      and not exists (
+        select 1
+        from public.trial_eligibility_criteria c
+        where c.trial_id = s.trial_id
+          and c.is_active
+          and not exists (
+            select 1 from public.patient_screening_responses r
+            where r.screening_id = s.id and r.criterion_id = c.id
+          )
+      )
+  ) then
+    raise exception 'Patient has not passed eligibility screening for this trial'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trial_patients_enforce_screening on public.trial_patients;
+create trigger trial_patients_enforce_screening
+  before insert or update of status on public.trial_patients
+  for each row execute function public.enforce_eligibility_screening();
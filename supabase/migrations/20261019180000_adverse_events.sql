@@ -0,0 +1,73 @@
+-- Structured adverse event capture per patient and trial. Events are graded
+-- with CTCAE (1 mild to 5 death). Serious events (SAEs) must be reported to
+-- the sponsor within 24 hours of the site becoming aware; serious, unexpected
+-- and related events (SUSARs) also need an expedited regulatory report within
+-- 7 days when fatal or life-threatening (by seriousness criteria, grade 4-5 or
+-- a fatal outcome), 15 days otherwise. Grade 5 events are serious, fatal and
+-- list death among their seriousness criteria.
+create table if not exists public.adverse_events (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  patient_id uuid not null references public.patients(id) on delete cascade,
+  visit_id uuid references public.patient_visits(id) on delete set null,
+  -- Verbatim term, e.g. "Nausea"
+  term text not null,
+  description text,
+  onset_date date not null,
+  resolution_date date,
+  ctcae_grade integer not null check (ctcae_grade between 1 and 5),
+  is_serious boolean not null default false,
+  seriousness_criteria text[] not null default '{}',
+  causality text not null check (causality in ('not_related', 'unlikely', 'possible', 'probable', 'definite')),
+  expectedness text not null default 'expected' check (expectedness in ('expected', 'unexpected')),
+  action_taken text not null check (action_taken in ('none', 'dose_reduced', 'dose_interrupted', 'drug_withdrawn', 'not_applicable')),
+  outcome text not null check (outcome in ('recovered', 'recovering', 'not_recovered', 'recovered_with_sequelae', 'fatal', 'unknown')),
+  -- Deadlines run from the moment the site became aware of the event
+  awareness_at timestamptz not null default now(),
+  sponsor_notified_at timestamptz,
+  regulatory_reported_at timestamptz,
+  reported_by uuid references public.members(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (not is_serious or cardinality(seriousness_criteria) > 0),
+  check (resolution_date is null or resolution_date >= onset_date),
+  check (ctcae_grade < 5 or (outcome = 'fatal' and is_serious and 'death' = any(seriousness_criteria)))
+);
+
+create index if not exists adverse_events_trial_idx
+  on public.adverse_events (trial_id, onset_date desc);
+
+create index if not exists adverse_events_patient_idx
+  on public.adverse_events (patient_id, trial_id);
+
+alter table public.adverse_events enable row level security;
+
+create policy "Trial members can view adverse events"
+  on public.adverse_events for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can report adverse events"
+  on public.adverse_events for insert
+  with check (public.user_can_access_trial(trial_id));
+
+-- Safety data is kept for the life of the trial: follow-ups update the
+-- event, nothing is deleted
+create policy "Trial members can update adverse events"
+  on public.adverse_events for update
+  using (public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+-- Every change to an event is written to the audit trail
+alter table public.audit_log
+  drop constraint if exists audit_log_entity_type_check;
+
+alter table public.audit_log
+  add constraint audit_log_entity_type_check
+  check (entity_type in (
+    'patient', 'trial_patient', 'trial_document', 'patient_checklist', 'qa_item', 'adverse_event'
+  ));
+
+drop trigger if exists audit_adverse_events on public.adverse_events;
+create trigger audit_adverse_events
+  after insert or update or delete on public.adverse_events
+  for each row execute function public.audit_row_change('adverse_event', 'term');
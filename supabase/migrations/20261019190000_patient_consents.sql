@@ -0,0 +1,55 @@
+-- Informed consent per patient and trial. Each record points at the exact ICF
+-- version (a trial_documents row of type icf or consent_form) the patient
+-- signed. When a newer ICF becomes is_latest, enrolled patients whose most
+-- recent consent is for an older version need to re-consent.
+create table if not exists public.patient_consents (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  patient_id uuid not null references public.patients(id) on delete cascade,
+  -- Signed ICFs must stay traceable, so the document can't be deleted
+  icf_document_id uuid not null references public.trial_documents(id) on delete restrict,
+  signed_date date not null,
+  obtained_by uuid references public.members(id) on delete set null,
+  notes text,
+  created_at timestamptz not null default now(),
+  unique (trial_id, patient_id, icf_document_id)
+);
+
+create index if not exists patient_consents_trial_idx
+  on public.patient_consents (trial_id, patient_id, signed_date desc);
+
+-- The signed document must be an ICF of the same trial
+create or replace function public.check_consent_document()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (
+    select 1 from public.trial_documents
+    where id = new.icf_document_id
+      and trial_id = new.trial_id
+      and document_type in ('icf', 'consent_form')
+  ) then
+    raise exception 'Consent must reference an ICF of trial %', new.trial_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_consent_document on public.patient_consents;
+create trigger check_consent_document
+  before insert on public.patient_consents
+  for each row execute function public.check_consent_document();
+
+alter table public.patient_consents enable row level security;
+
+create policy "Trial members can view consents"
+  on public.patient_consents for select
+  using (public.user_can_access_trial(trial_id));
+
+-- Consent records are part of the regulatory file: recorded once, never
+-- edited or deleted
+create policy "Trial members can record consents"
+  on public.patient_consents for insert
+  with check (public.user_can_access_trial(trial_id));
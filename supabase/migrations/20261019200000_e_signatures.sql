@@ -0,0 +1,116 @@
+-- Built-in electronic signatures (21 CFR Part 11 style) on trial and patient
+-- documents. The signer re-authenticates right before signing and states the
+-- meaning of the signature. Signatures are recorded by the sign-document edge
+-- function, which checks the fresh sign-in and hashes the file from storage;
+-- clients can't insert them directly. The organization, signer details and
+-- document name are stamped by the trigger below, and signatures can never be
+-- updated or deleted.
+create table if not exists public.e_signatures (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id),
+  trial_id uuid references public.trials(id) on delete restrict,
+  -- Signed documents can't be deleted while their signatures exist
+  trial_document_id uuid references public.trial_documents(id) on delete restrict,
+  patient_document_id uuid references public.patient_documents(id) on delete restrict,
+  signer_id uuid not null references public.members(id) on delete restrict,
+  signer_profile_id uuid not null,
+  -- Name and email as they were at signing time
+  signer_name text not null,
+  signer_email text not null,
+  meaning text not null check (meaning in ('author', 'reviewer', 'approver')),
+  -- The exact statement the signer agreed to
+  statement text not null,
+  document_name text not null,
+  -- SHA-256 of the file that was signed, to detect later changes
+  document_hash text,
+  signed_at timestamptz not null default now(),
+  check (num_nonnulls(trial_document_id, patient_document_id) = 1)
+);
+
+create index if not exists e_signatures_trial_document_idx
+  on public.e_signatures (trial_document_id, signed_at);
+
+create index if not exists e_signatures_patient_document_idx
+  on public.e_signatures (patient_document_id, signed_at);
+
+-- One signature per person and meaning on a document
+create unique index if not exists e_signatures_trial_document_unique
+  on public.e_signatures (trial_document_id, signer_id, meaning)
+  where trial_document_id is not null;
+
+create unique index if not exists e_signatures_patient_document_unique
+  on public.e_signatures (patient_document_id, signer_id, meaning)
+  where patient_document_id is not null;
+
+alter table public.e_signatures enable row level security;
+
+create policy "Members can view their organization signatures"
+  on public.e_signatures for select
+  using (organization_id in (select organization_id from public.members where profile_id = auth.uid()));
+
+-- Fill in the signer and document from the database. Only the service role
+-- (the sign-document function) may insert.
+create or replace function public.stamp_e_signature()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.jwt() ->> 'role', '') <> 'service_role' then
+    raise exception 'Documents can only be signed through the sign-document function';
+  end if;
+
+  if new.trial_document_id is not null then
+    select t.organization_id, d.trial_id, d.document_name
+      into new.organization_id, new.trial_id, new.document_name
+    from public.trial_documents d
+    join public.trials t on t.id = d.trial_id
+    where d.id = new.trial_document_id;
+  else
+    select p.organization_id, null, d.document_name
+      into new.organization_id, new.trial_id, new.document_name
+    from public.patient_documents d
+    join public.patients p on p.id = d.patient_id
+    where d.id = new.patient_document_id;
+  end if;
+
+  if new.organization_id is null then
+    raise exception 'Document not found';
+  end if;
+
+  select m.id, m.name, m.email
+    into new.signer_id, new.signer_name, new.signer_email
+  from public.members m
+  where m.profile_id = new.signer_profile_id
+    and m.organization_id = new.organization_id
+  limit 1;
+
+  if new.signer_id is null then
+    raise exception 'Only members of the organization can sign its documents';
+  end if;
+
+  new.signed_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists e_signatures_stamp on public.e_signatures;
+create trigger e_signatures_stamp
+  before insert on public.e_signatures
+  for each row execute function public.stamp_e_signature();
+
+-- Signatures are immutable, even for the service role
+create or replace function public.prevent_e_signature_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'e_signatures cannot be modified or deleted';
+end;
+$$;
+
+drop trigger if exists e_signatures_immutable on public.e_signatures;
+create trigger e_signatures_immutable
+  before update or delete on public.e_signatures
+  for each row execute function public.prevent_e_signature_changes();
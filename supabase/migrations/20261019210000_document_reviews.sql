@@ -0,0 +1,323 @@
+-- Document lifecycle for trial documents:
+--   draft -> in_review -> approved -> effective -> superseded -> archived
+-- Reviewers from the trial team are assigned to a document, comment on it and
+-- give a decision. A document is approved once every reviewer has approved
+-- it. Only effective documents can be is_latest, so the AI assistant never
+-- works from a version that is still under review.
+
+-- Existing documents were "active" (in force) or "archived"
+update public.trial_documents
+set status = 'effective'
+where status is null or status not in ('draft', 'in_review', 'approved', 'effective', 'superseded', 'archived');
+
+update public.trial_documents
+set status = 'superseded'
+where status = 'effective'
+  and is_latest = false
+  and document_type in ('protocol', 'amendment', 'icf', 'consent_form');
+
+alter table public.trial_documents
+  alter column status set default 'effective';
+
+alter table public.trial_documents
+  add constraint trial_documents_status_check
+  check (status in ('draft', 'in_review', 'approved', 'effective', 'superseded', 'archived'));
+
+alter table public.trial_documents
+  add constraint trial_documents_unreviewed_not_latest
+  check (not (coalesce(is_latest, false) and status in ('draft', 'in_review', 'approved')));
+
+create table if not exists public.document_reviews (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  document_id uuid not null references public.trial_documents(id) on delete cascade,
+  reviewer_id uuid not null references public.members(id) on delete restrict,
+  assigned_by uuid references public.members(id) on delete set null,
+  decision text not null default 'pending'
+    check (decision in ('pending', 'approved', 'changes_requested')),
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (document_id, reviewer_id)
+);
+
+create index if not exists document_reviews_document_idx
+  on public.document_reviews (document_id);
+
+create index if not exists document_reviews_reviewer_idx
+  on public.document_reviews (reviewer_id, decision);
+
+create table if not exists public.document_review_comments (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.document_reviews(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_review_comments_review_idx
+  on public.document_review_comments (review_id, created_at);
+
+-- The documents.edit permission of src/lib/permissions.ts: organization admins
+-- and members with edit or admin permission on the trial
+create or replace function public.user_can_edit_trial_documents(trial_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.trials t
+    join public.members m on m.organization_id = t.organization_id
+    where t.id = trial_id_param
+      and m.profile_id = auth.uid()
+      and m.default_role = 'admin'
+  )
+  or coalesce(public.user_trial_permission(auth.uid(), trial_id_param) in ('edit', 'admin'), false);
+$$;
+
+-- Status changes must follow the lifecycle and, unless they come from a
+-- reviewer's decision (apply_review_decision), need documents.edit
+create or replace function public.check_document_status_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  allowed text[];
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  allowed := case coalesce(old.status, 'effective')
+    when 'draft' then array['in_review', 'archived']
+    when 'in_review' then array['draft', 'approved', 'archived']
+    when 'approved' then array['effective', 'archived']
+    when 'effective' then array['superseded', 'archived']
+    when 'superseded' then array['archived']
+    else array[]::text[]
+  end;
+
+  if not (new.status = any(allowed)) then
+    raise exception 'A % document can''t become %', old.status, new.status;
+  end if;
+
+  if auth.uid() is not null
+    and pg_trigger_depth() = 1
+    and not public.user_can_edit_trial_documents(new.trial_id) then
+    raise exception 'Only members who can edit trial documents can change their status';
+  end if;
+
+  if new.status = 'in_review' then
+    if not exists (select 1 from public.document_reviews where document_id = new.id) then
+      raise exception 'Assign at least one reviewer first';
+    end if;
+
+    -- Every review round starts undecided
+    update public.document_reviews
+    set decision = 'pending', decided_at = null
+    where document_id = new.id;
+  end if;
+
+  if new.status = 'approved' and exists (
+    select 1 from public.document_reviews
+    where document_id = new.id and decision <> 'approved'
+  ) then
+    raise exception 'Every reviewer must approve the document first';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_document_status_transition on public.trial_documents;
+create trigger check_document_status_transition
+  before update of status on public.trial_documents
+  for each row execute function public.check_document_status_transition();
+
+-- Reviewers come from the document's trial team and are assigned before the
+-- document is approved
+create or replace function public.stamp_document_review()
+returns trigger
+language plpgsql
+as $$
+declare
+  document_status text;
+begin
+  select trial_id, status into new.trial_id, document_status
+  from public.trial_documents
+  where id = new.document_id;
+
+  if document_status not in ('draft', 'in_review') then
+    raise exception 'Reviewers can only be assigned to draft documents or documents in review';
+  end if;
+
+  if not exists (
+    select 1 from public.trial_members
+    where trial_id = new.trial_id and member_id = new.reviewer_id and is_active
+  ) then
+    raise exception 'Reviewers must be on the trial team';
+  end if;
+
+  new.decision := 'pending';
+  new.decided_at := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_document_review on public.document_reviews;
+create trigger stamp_document_review
+  before insert on public.document_reviews
+  for each row execute function public.stamp_document_review();
+
+-- Only the decision can change, and it is given while the document is in review
+create or replace function public.check_review_decision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - array['decision', 'decided_at'])
+    <> (to_jsonb(old) - array['decision', 'decided_at']) then
+    raise exception 'Only the decision of a review can be changed';
+  end if;
+
+  if new.decision is distinct from old.decision and new.decision <> 'pending' then
+    if (select status from public.trial_documents where id = new.document_id) <> 'in_review' then
+      raise exception 'The document is not in review';
+    end if;
+    new.decided_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_review_decision on public.document_reviews;
+create trigger check_review_decision
+  before update on public.document_reviews
+  for each row execute function public.check_review_decision();
+
+-- A request for changes sends the document back to draft; the last approval
+-- approves it
+create or replace function public.apply_review_decision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.decision = 'changes_requested' then
+    update public.trial_documents
+    set status = 'draft', updated_at = now()
+    where id = new.document_id and status = 'in_review';
+  elsif new.decision = 'approved' and not exists (
+    select 1 from public.document_reviews
+    where document_id = new.document_id and decision <> 'approved'
+  ) then
+    update public.trial_documents
+    set status = 'approved', updated_at = now()
+    where id = new.document_id and status = 'in_review';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_review_decision on public.document_reviews;
+create trigger apply_review_decision
+  after update of decision on public.document_reviews
+  for each row
+  when (new.decision is distinct from old.decision)
+  execute function public.apply_review_decision();
+
+alter table public.document_reviews enable row level security;
+alter table public.document_review_comments enable row level security;
+
+create policy "Trial members can view document reviews"
+  on public.document_reviews for select
+  using (public.user_can_access_trial(trial_id));
+
+create policy "Document editors can assign reviewers"
+  on public.document_reviews for insert
+  with check (public.user_can_edit_trial_documents(trial_id));
+
+-- Decisions belong to the reviewer
+create policy "Reviewers can decide on their reviews"
+  on public.document_reviews for update
+  using (reviewer_id in (select id from public.members where profile_id = auth.uid()));
+
+-- Reviewers who already gave a decision stay on record
+create policy "Document editors can remove undecided reviewers"
+  on public.document_reviews for delete
+  using (public.user_can_edit_trial_documents(trial_id) and decision = 'pending');
+
+create policy "Trial members can view review comments"
+  on public.document_review_comments for select
+  using (exists (
+    select 1 from public.document_reviews r
+    where r.id = review_id and public.user_can_access_trial(r.trial_id)
+  ));
+
+create policy "Reviewers can comment on their reviews"
+  on public.document_review_comments for insert
+  with check (exists (
+    select 1 from public.document_reviews r
+    join public.members m on m.id = r.reviewer_id
+    where r.id = review_id and m.profile_id = auth.uid()
+  ));
+
+-- Put an approved (or newly uploaded effective) document into effect as the
+-- latest version of its line, superseding the previous versions in the same
+-- transaction. Protocols and amendments each have a line; ICF and
+-- consent_form share one (documentService.getVersionedTypes).
+create or replace function public.make_trial_document_current(document_id_param uuid)
+returns public.trial_documents
+language plpgsql
+as $$
+declare
+  document public.trial_documents;
+  versioned_types text[];
+begin
+  select * into document
+  from public.trial_documents
+  where id = document_id_param
+  for update;
+
+  if not found then
+    raise exception 'Document not found';
+  end if;
+  if document.status not in ('approved', 'effective') then
+    raise exception 'Only approved documents can be made effective';
+  end if;
+
+  versioned_types := case
+    when document.document_type::text in ('icf', 'consent_form') then array['icf', 'consent_form']
+    when document.document_type::text in ('protocol', 'amendment') then array[document.document_type::text]
+  end;
+
+  if versioned_types is not null then
+    update public.trial_documents
+    set is_latest = false
+    where trial_id = document.trial_id
+      and document_type::text = any(versioned_types)
+      and is_latest
+      and id <> document.id;
+
+    update public.trial_documents
+    set status = 'superseded', updated_at = now()
+    where trial_id = document.trial_id
+      and document_type::text = any(versioned_types)
+      and status = 'effective'
+      and id <> document.id;
+  end if;
+
+  update public.trial_documents
+  set status = 'effective', is_latest = true, updated_at = now()
+  where id = document.id
+  returning * into document;
+
+  return document;
+end;
+$$;
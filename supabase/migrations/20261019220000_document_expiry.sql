@@ -0,0 +1,150 @@
+-- Expiry and periodic re-review of trial documents (CVs, GCP certificates,
+-- lab normal ranges, SOPs...). The existing warning flag is set whenever an
+-- effective document is past its expiry or re-review date, and a daily job
+-- reminds the uploader and the trial admins before and after the due date.
+alter table public.trial_documents
+  add column if not exists effective_date date,
+  add column if not exists expiry_date date,
+  add column if not exists review_interval_months integer check (review_interval_months > 0),
+  add column if not exists next_review_date date,
+  -- Last reminder sent for the current dates
+  add column if not exists expiry_reminder text check (expiry_reminder in ('due_soon', 'overdue'));
+
+create index if not exists trial_documents_due_idx
+  on public.trial_documents (trial_id, expiry_date, next_review_date)
+  where status = 'effective';
+
+update public.trial_documents
+set effective_date = created_at::date
+where status = 'effective' and effective_date is null;
+
+create or replace function public.document_is_past_due(status text, expiry_date date, next_review_date date)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(status, 'effective') = 'effective'
+    and (expiry_date < current_date or next_review_date < current_date);
+$$;
+
+create or replace function public.set_document_expiry_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'effective' and new.effective_date is null then
+    new.effective_date := current_date;
+  end if;
+
+  -- New dates start a new reminder cycle
+  if tg_op = 'UPDATE' and (
+    new.expiry_date is distinct from old.expiry_date
+    or new.next_review_date is distinct from old.next_review_date
+  ) then
+    new.expiry_reminder := null;
+  end if;
+
+  new.warning := public.document_is_past_due(new.status, new.expiry_date, new.next_review_date);
+  return new;
+end;
+$$;
+
+drop trigger if exists set_document_expiry_fields on public.trial_documents;
+create trigger set_document_expiry_fields
+  before insert or update on public.trial_documents
+  for each row execute function public.set_document_expiry_fields();
+
+update public.trial_documents
+set warning = public.document_is_past_due(status, expiry_date, next_review_date);
+
+-- Refresh warning flags and send due-soon (30 days ahead) and overdue
+-- reminders, once per stage. Returns the number of documents reminded about.
+create or replace function public.send_document_expiry_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  doc record;
+  due date;
+  stage text;
+  is_expiry boolean;
+  reminded integer := 0;
+begin
+  -- Flags go stale as days pass without the rows changing
+  update public.trial_documents
+  set warning = public.document_is_past_due(status, expiry_date, next_review_date)
+  where warning is distinct from public.document_is_past_due(status, expiry_date, next_review_date);
+
+  for doc in
+    select d.id, d.trial_id, d.document_name, d.uploaded_by, d.expiry_date,
+      d.next_review_date, d.expiry_reminder, t.organization_id, t.name as trial_name
+    from public.trial_documents d
+    join public.trials t on t.id = d.trial_id
+    where coalesce(d.status, 'effective') = 'effective'
+      and least(d.expiry_date, d.next_review_date) <= current_date + 30
+  loop
+    due := least(doc.expiry_date, doc.next_review_date);
+    stage := case when due < current_date then 'overdue' else 'due_soon' end;
+    continue when doc.expiry_reminder is not distinct from stage;
+
+    is_expiry := doc.expiry_date is not distinct from due;
+
+    insert into public.notifications (
+      organization_id, recipient_id, trial_id, type, priority, title, message,
+      action_url, action_label, metadata
+    )
+    select
+      doc.organization_id,
+      recipient.member_id,
+      doc.trial_id,
+      'reminder',
+      case stage when 'overdue' then 'high' else 'medium' end,
+      case
+        when stage = 'overdue' and is_expiry then 'Document expired'
+        when stage = 'overdue' then 'Document re-review overdue'
+        when is_expiry then 'Document expiring soon'
+        else 'Document re-review due soon'
+      end,
+      doc.document_name || case
+        when stage = 'overdue' and is_expiry then ' expired on '
+        when stage = 'overdue' then ' was due for re-review on '
+        when is_expiry then ' expires on '
+        else ' is due for re-review on '
+      end || to_char(due, 'Mon DD, YYYY') || '.',
+      '/trials/' || doc.trial_id || '/document-hub',
+      'View Documents',
+      jsonb_build_object(
+        'trialName', doc.trial_name,
+        'documentId', doc.id,
+        'dueDate', due,
+        'stage', stage
+      )
+    from (
+      select doc.uploaded_by as member_id
+      where doc.uploaded_by is not null
+      union
+      select tm.member_id
+      from public.trial_members tm
+      join public.roles r on r.id = tm.role_id
+      where tm.trial_id = doc.trial_id
+        and tm.is_active
+        and r.permission_level = 'admin'
+    ) recipient;
+
+    update public.trial_documents set expiry_reminder = stage where id = doc.id;
+    reminded := reminded + 1;
+  end loop;
+
+  return reminded;
+end;
+$$;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'document-expiry-reminders',
+  '0 6 * * *',
+  $$select public.send_document_expiry_reminders()$$
+);
@@ -0,0 +1,108 @@
+-- Answer-quality evaluation of the document assistant. An eval set is a
+-- curated list of questions with their expected answer and cited pages
+-- (usually seeded from verified QA repository items). Each run asks every
+-- question with one assistant configuration and stores the per-question
+-- scores plus the run's averages, so configurations can be compared over time.
+create table if not exists public.assistant_eval_sets (
+  id uuid primary key default gen_random_uuid(),
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  created_by uuid references public.members(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists assistant_eval_sets_trial_idx
+  on public.assistant_eval_sets (trial_id, created_at);
+
+create table if not exists public.assistant_eval_cases (
+  id uuid primary key default gen_random_uuid(),
+  set_id uuid not null references public.assistant_eval_sets(id) on delete cascade,
+  question text not null check (length(trim(question)) > 0),
+  expected_answer text not null,
+  expected_pages integer[] not null default '{}',
+  -- QA repository item the case was seeded from
+  qa_item_id uuid references public.qa_repository(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (set_id, qa_item_id)
+);
+
+create index if not exists assistant_eval_cases_set_idx
+  on public.assistant_eval_cases (set_id, created_at);
+
+create table if not exists public.assistant_eval_runs (
+  id uuid primary key default gen_random_uuid(),
+  set_id uuid not null references public.assistant_eval_sets(id) on delete cascade,
+  trial_id uuid not null references public.trials(id) on delete cascade,
+  -- Assistant configuration (retrieval, embedding model, provider) and its label
+  config jsonb not null,
+  target_label text not null,
+  document_id uuid references public.trial_documents(id) on delete set null,
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'failed', 'cancelled')),
+  case_count integer not null default 0,
+  -- Averages over the answered cases; page accuracy only over cases with expected pages
+  page_accuracy numeric,
+  answer_overlap numeric,
+  avg_latency_ms integer,
+  total_cost numeric,
+  error_count integer not null default 0,
+  started_by uuid references public.members(id) on delete set null,
+  started_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists assistant_eval_runs_set_idx
+  on public.assistant_eval_runs (set_id, started_at);
+
+create table if not exists public.assistant_eval_results (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.assistant_eval_runs(id) on delete cascade,
+  case_id uuid not null references public.assistant_eval_cases(id) on delete cascade,
+  answer text,
+  cited_pages integer[] not null default '{}',
+  page_accuracy numeric,
+  answer_overlap numeric,
+  latency_ms integer,
+  cost numeric,
+  error text,
+  created_at timestamptz not null default now(),
+  unique (run_id, case_id)
+);
+
+alter table public.assistant_eval_sets enable row level security;
+alter table public.assistant_eval_cases enable row level security;
+alter table public.assistant_eval_runs enable row level security;
+alter table public.assistant_eval_results enable row level security;
+
+create policy "Trial members can manage eval sets"
+  on public.assistant_eval_sets for all
+  using (public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can manage eval cases"
+  on public.assistant_eval_cases for all
+  using (exists (
+    select 1 from public.assistant_eval_sets s
+    where s.id = set_id and public.user_can_access_trial(s.trial_id)
+  ))
+  with check (exists (
+    select 1 from public.assistant_eval_sets s
+    where s.id = set_id and public.user_can_access_trial(s.trial_id)
+  ));
+
+create policy "Trial members can manage eval runs"
+  on public.assistant_eval_runs for all
+  using (public.user_can_access_trial(trial_id))
+  with check (public.user_can_access_trial(trial_id));
+
+create policy "Trial members can manage eval results"
+  on public.assistant_eval_results for all
+  using (exists (
+    select 1 from public.assistant_eval_runs r
+    where r.id = run_id and public.user_can_access_trial(r.trial_id)
+  ))
+  with check (exists (
+    select 1 from public.assistant_eval_runs r
+    where r.id = run_id and public.user_can_access_trial(r.trial_id)
+  ));